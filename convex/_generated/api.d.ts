@@ -10,11 +10,48 @@
 
 import type * as ai from "../ai.js";
 import type * as aiAgents from "../aiAgents.js";
+import type * as aiCleanup from "../aiCleanup.js";
+import type * as aiKeys from "../aiKeys.js";
+import type * as aiModels from "../aiModels.js";
+import type * as aiQueries from "../aiQueries.js";
+import type * as aiReports from "../aiReports.js";
+import type * as aiUsage from "../aiUsage.js";
+import type * as crons from "../crons.js";
 import type * as dashboards from "../dashboards.js";
+import type * as documentProcessing from "../documentProcessing.js";
 import type * as documents from "../documents.js";
 import type * as http from "../http.js";
 import type * as integrations from "../integrations.js";
+import type * as lib_access from "../lib/access.js";
+import type * as lib_aiChanges from "../lib/aiChanges.js";
+import type * as lib_aiCharts from "../lib/aiCharts.js";
+import type * as lib_aiContext from "../lib/aiContext.js";
+import type * as lib_aiKeys from "../lib/aiKeys.js";
+import type * as lib_aiMockProvider from "../lib/aiMockProvider.js";
+import type * as lib_aiModels from "../lib/aiModels.js";
+import type * as lib_aiOrchestration from "../lib/aiOrchestration.js";
+import type * as lib_aiProviders from "../lib/aiProviders.js";
+import type * as lib_aiReports from "../lib/aiReports.js";
+import type * as lib_aiThreads from "../lib/aiThreads.js";
+import type * as lib_aiTools from "../lib/aiTools.js";
+import type * as lib_aiUsage from "../lib/aiUsage.js";
+import type * as lib_dataCleaning from "../lib/dataCleaning.js";
+import type * as lib_documentExtraction from "../lib/documentExtraction.js";
+import type * as lib_documentFiles from "../lib/documentFiles.js";
+import type * as lib_documentImport from "../lib/documentImport.js";
+import type * as lib_documentTables from "../lib/documentTables.js";
+import type * as lib_docxTables from "../lib/docxTables.js";
+import type * as lib_formulas from "../lib/formulas.js";
+import type * as lib_htmlTables from "../lib/htmlTables.js";
+import type * as lib_pdfTables from "../lib/pdfTables.js";
+import type * as lib_queryPlans from "../lib/queryPlans.js";
+import type * as lib_sheetCodec from "../lib/sheetCodec.js";
+import type * as lib_sheetOps from "../lib/sheetOps.js";
+import type * as lib_sheetStorage from "../lib/sheetStorage.js";
+import type * as lib_xlsx from "../lib/xlsx.js";
+import type * as presence from "../presence.js";
 import type * as projects from "../projects.js";
+import type * as revisions from "../revisions.js";
 import type * as spreadsheets from "../spreadsheets.js";
 import type * as users from "../users.js";
 
@@ -35,11 +72,48 @@ import type {
 declare const fullApi: ApiFromModules<{
   ai: typeof ai;
   aiAgents: typeof aiAgents;
+  aiCleanup: typeof aiCleanup;
+  aiKeys: typeof aiKeys;
+  aiModels: typeof aiModels;
+  aiQueries: typeof aiQueries;
+  aiReports: typeof aiReports;
+  aiUsage: typeof aiUsage;
+  crons: typeof crons;
   dashboards: typeof dashboards;
+  documentProcessing: typeof documentProcessing;
   documents: typeof documents;
   http: typeof http;
   integrations: typeof integrations;
+  "lib/access": typeof lib_access;
+  "lib/aiChanges": typeof lib_aiChanges;
+  "lib/aiCharts": typeof lib_aiCharts;
+  "lib/aiContext": typeof lib_aiContext;
+  "lib/aiKeys": typeof lib_aiKeys;
+  "lib/aiMockProvider": typeof lib_aiMockProvider;
+  "lib/aiModels": typeof lib_aiModels;
+  "lib/aiOrchestration": typeof lib_aiOrchestration;
+  "lib/aiProviders": typeof lib_aiProviders;
+  "lib/aiReports": typeof lib_aiReports;
+  "lib/aiThreads": typeof lib_aiThreads;
+  "lib/aiTools": typeof lib_aiTools;
+  "lib/aiUsage": typeof lib_aiUsage;
+  "lib/dataCleaning": typeof lib_dataCleaning;
+  "lib/documentExtraction": typeof lib_documentExtraction;
+  "lib/documentFiles": typeof lib_documentFiles;
+  "lib/documentImport": typeof lib_documentImport;
+  "lib/documentTables": typeof lib_documentTables;
+  "lib/docxTables": typeof lib_docxTables;
+  "lib/formulas": typeof lib_formulas;
+  "lib/htmlTables": typeof lib_htmlTables;
+  "lib/pdfTables": typeof lib_pdfTables;
+  "lib/queryPlans": typeof lib_queryPlans;
+  "lib/sheetCodec": typeof lib_sheetCodec;
+  "lib/sheetOps": typeof lib_sheetOps;
+  "lib/sheetStorage": typeof lib_sheetStorage;
+  "lib/xlsx": typeof lib_xlsx;
+  presence: typeof presence;
   projects: typeof projects;
+  revisions: typeof revisions;
   spreadsheets: typeof spreadsheets;
   users: typeof users;
 }>;
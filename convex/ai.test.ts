@@ -0,0 +1,244 @@
+import { LanguageModel } from "ai";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { getCellText } from "./lib/formulas";
+import { csvRowsToSheet, Sheet } from "./lib/sheetCodec";
+import { loadWorkbook, saveWorkbook } from "./lib/sheetStorage";
+import { convexTestWithAgent, createFixture } from "./test.setup";
+
+// The agent component saves every step while the tools run. convex-test
+// resolves function references against whichever component is running at
+// the time, so the reply is streamed without those overlapping saves. The
+// thread itself is still resumed; lib/aiThreads.test.ts covers it directly.
+vi.mock("./lib/aiThreads", async (importOriginal) => {
+  const original = await importOriginal<typeof import("./lib/aiThreads")>();
+  const { streamText } = await import("ai");
+  return {
+    ...original,
+    createThreadAgent: (_name: string, languageModel: LanguageModel) => ({
+      streamText: async (_ctx: unknown, _thread: unknown, args: any) => streamText({ ...args, model: languageModel }),
+    }),
+  };
+});
+
+type TestConvex = ReturnType<typeof convexTestWithAgent>;
+
+// The shared fixture plus a conversation about its spreadsheet
+async function createConversationFixture(t: TestConvex) {
+  const { userId, spreadsheetId } = await createFixture(t);
+  const conversationId = await t.run(async (ctx) => {
+    const now = Date.now();
+    return await ctx.db.insert("aiConversations", {
+      spreadsheetId,
+      ownerId: userId,
+      title: "Test conversation",
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+  return { userId, spreadsheetId, conversationId };
+}
+
+async function getWorkbook(t: TestConvex, spreadsheetId: Id<"spreadsheets">) {
+  return await t.run(async (ctx) => loadWorkbook(ctx, (await ctx.db.get(spreadsheetId))!));
+}
+
+function column(sheet: Sheet, col: number, from: number, to: number): string[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => getCellText(sheet, from + i, col));
+}
+
+// Send a user message and run the assistant on it the way sendMessage schedules it
+async function ask(t: TestConvex, conversationId: Id<"aiConversations">, userId: Id<"users">, content: string) {
+  await t.run(async (ctx) => {
+    await ctx.db.insert("aiMessages", { conversationId, ownerId: userId, role: "user", content, createdAt: Date.now() });
+  });
+  await t.action(internal.ai.generateStreamingAIResponse, { conversationId, userMessage: content });
+  return await t.run(async (ctx) => {
+    const messages = await ctx.db
+      .query("aiMessages")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", conversationId))
+      .collect();
+    return messages[messages.length - 1];
+  });
+}
+
+beforeEach(() => {
+  vi.stubEnv("AI_MOCK_PROVIDER", "1");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("generateStreamingAIResponse", () => {
+  test("creates a table from the createTable tool call", async () => {
+    const t = convexTestWithAgent();
+    const { userId, spreadsheetId, conversationId } = await createConversationFixture(t);
+
+    const reply = await ask(t, conversationId, userId, "Create a table of employees");
+
+    expect(reply.role).toBe("assistant");
+    expect(reply.isStreaming).toBe(false);
+    expect(reply.content).toContain("Employees");
+
+    const sheets = await getWorkbook(t, spreadsheetId);
+    expect(sheets.map((sheet) => sheet.name)).toEqual(["Sheet1", "Employees"]);
+    const employees = sheets[1];
+    expect([0, 1, 2, 3].map((col) => getCellText(employees, 0, col))).toEqual(["Name", "Age", "City", "Salary"]);
+    expect(column(employees, 0, 1, 5).every((text) => text !== "")).toBe(true);
+    expect(getCellText(employees, 6, 0)).toBe("");
+  });
+
+  test("attaches the chart spec from the createChart tool call", async () => {
+    const t = convexTestWithAgent();
+    const { userId, conversationId } = await createConversationFixture(t);
+
+    const reply = await ask(t, conversationId, userId, "Show a chart of salaries");
+
+    expect(reply.chartData).toMatchObject({
+      type: "bar",
+      sheetName: "Sheet1",
+      title: "Salary by employee",
+      labelColumn: "Name",
+      series: ["Salary"],
+    });
+  });
+
+  test("builds a dashboard from the createDashboard tool call", async () => {
+    const t = convexTestWithAgent();
+    const { userId, spreadsheetId, conversationId } = await createConversationFixture(t);
+
+    await ask(t, conversationId, userId, "Build a KPI dashboard");
+
+    const { dashboards, widgets } = await t.run(async (ctx) => {
+      const dashboards = await ctx.db
+        .query("dashboards")
+        .withIndex("by_spreadsheet", (q) => q.eq("spreadsheetId", spreadsheetId))
+        .collect();
+      const widgets = await ctx.db.query("dashboardWidgets").collect();
+      return { dashboards, widgets };
+    });
+    expect(dashboards).toHaveLength(1);
+    expect(widgets.length).toBeGreaterThan(0);
+    expect(widgets.every((widget) => widget.dashboardId === dashboards[0]._id)).toBe(true);
+  });
+
+  test("writes the stats row from the computeStats tool call", async () => {
+    const t = convexTestWithAgent();
+    const { userId, spreadsheetId, conversationId } = await createConversationFixture(t);
+
+    const reply = await ask(t, conversationId, userId, "What is the average salary?");
+
+    expect(reply.content).toContain("77,200");
+    const [sheet] = await getWorkbook(t, spreadsheetId);
+    expect(column(sheet, 3, 1, 5)).toEqual(["75000", "68000", "82000", "90000", "71000"]);
+    const written = column(sheet, 3, 6, 9).filter((text) => text !== "");
+    expect(written.some((text) => text.includes("77200"))).toBe(true);
+  });
+
+  test("records the usage of the turn", async () => {
+    const t = convexTestWithAgent();
+    const { userId, conversationId } = await createConversationFixture(t);
+
+    await ask(t, conversationId, userId, "Hello");
+
+    const usage = await t.run(async (ctx) => ctx.db.query("aiUsage").collect());
+    expect(usage).toHaveLength(1);
+    expect(usage[0].conversationId).toBe(conversationId);
+  });
+});
+
+describe("internalCreateTableWithSpec", () => {
+  test("adds a new sheet when the sheet does not exist", async () => {
+    const t = convexTestWithAgent();
+    const { userId, spreadsheetId } = await createFixture(t);
+
+    const result = await t.mutation(internal.spreadsheets.internalCreateTableWithSpec, {
+      spreadsheetId,
+      ownerId: userId,
+      headers: ["Product", "Price"],
+      numRows: 3,
+      sheetName: "Products",
+    });
+
+    expect(result).toMatchObject({ success: true, sheetName: "Products" });
+    const sheets = await getWorkbook(t, spreadsheetId);
+    const products = sheets.find((sheet) => sheet.name === "Products");
+    expect([getCellText(products, 0, 0), getCellText(products, 0, 1)]).toEqual(["Product", "Price"]);
+    expect(column(products, 0, 1, 3).every((text) => text !== "")).toBe(true);
+  });
+
+  test("writes below the data of an existing sheet", async () => {
+    const t = convexTestWithAgent();
+    const { userId, spreadsheetId } = await createFixture(t);
+
+    await t.mutation(internal.spreadsheets.internalCreateTableWithSpec, {
+      spreadsheetId,
+      ownerId: userId,
+      headers: ["Product", "Price"],
+      numRows: 2,
+      sheetName: "Sheet1",
+    });
+
+    const [sheet] = await getWorkbook(t, spreadsheetId);
+    expect(getCellText(sheet, 5, 0)).toBe("Charlie Wilson");
+    expect(column(sheet, 0, 6, 12).filter((text) => text !== "")[0]).toBe("Product");
+  });
+
+  test("logs the table as one AI commit", async () => {
+    const t = convexTestWithAgent();
+    const { userId, spreadsheetId } = await createFixture(t);
+
+    await t.mutation(internal.spreadsheets.internalCreateTableWithSpec, {
+      spreadsheetId,
+      ownerId: userId,
+      headers: ["Product"],
+      numRows: 1,
+      sheetName: "Products",
+    });
+
+    const operations = await t.run(async (ctx) => ctx.db.query("sheetOperations").collect());
+    expect(operations).toHaveLength(1);
+    expect(operations[0].source).toBe("ai");
+  });
+});
+
+describe("analyzeSheetsForDashboard", () => {
+  test("creates a dashboard with widgets for the data", async () => {
+    const t = convexTestWithAgent();
+    const { userId, spreadsheetId } = await createFixture(t);
+
+    const result = await t.mutation(internal.ai.analyzeSheetsForDashboard, {
+      spreadsheetId,
+      ownerId: userId,
+      userMessage: "salaries by city",
+    });
+
+    expect(result.success).toBe(true);
+    const dashboardId: Id<"dashboards"> = result.dashboardId;
+    const { dashboard, widgets } = await t.run(async (ctx) => ({
+      dashboard: await ctx.db.get(dashboardId),
+      widgets: await ctx.db
+        .query("dashboardWidgets")
+        .withIndex("by_dashboard", (q) => q.eq("dashboardId", dashboardId))
+        .collect(),
+    }));
+    expect(dashboard?.spreadsheetId).toBe(spreadsheetId);
+    expect(widgets.length).toBeGreaterThan(0);
+  });
+
+  test("fails without data", async () => {
+    const t = convexTestWithAgent();
+    const { userId, spreadsheetId } = await createFixture(t);
+    await t.run(async (ctx) => saveWorkbook(ctx, spreadsheetId, [csvRowsToSheet([], "Sheet1")]));
+
+    const result = await t.mutation(internal.ai.analyzeSheetsForDashboard, {
+      spreadsheetId,
+      ownerId: userId,
+      userMessage: "overview",
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
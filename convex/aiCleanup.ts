@@ -0,0 +1,192 @@
+import { mutation, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { CleanupOperation, planCleanup } from "./lib/dataCleaning";
+import { findSheetIndex } from "./lib/sheetCodec";
+import { SheetOp } from "./lib/sheetOps";
+import { commitSheetOps, loadWorkbook, revertCommits } from "./lib/sheetStorage";
+
+// Shown as the author of applied cleanups in the version history
+const CLEANUP_AUTHOR = "AI Data Cleaning";
+
+// The message holding a cleanup plan and its spreadsheet, checked against the user
+async function getPlanMessage(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  messageId: Id<"aiMessages">
+): Promise<{ message: Doc<"aiMessages">; operations: CleanupOperation[]; spreadsheet: Doc<"spreadsheets"> }> {
+  const message = await ctx.db.get(messageId);
+  if (!message) {
+    throw new Error("Message not found");
+  }
+
+  if (message.ownerId !== userId) {
+    throw new Error("Not authorized to apply this cleanup plan");
+  }
+
+  if (!message.cleanupPlan) {
+    throw new Error("This message has no cleanup plan");
+  }
+
+  const conversation = await ctx.db.get(message.conversationId);
+  if (!conversation) {
+    throw new Error("Conversation not found");
+  }
+
+  const spreadsheet = await ctx.db.get(conversation.spreadsheetId);
+  if (!spreadsheet) {
+    throw new Error("Spreadsheet not found");
+  }
+
+  return { message, operations: message.cleanupPlan.operations, spreadsheet };
+}
+
+/**
+ * Apply operations of a cleanup plan, or all pending ones when no ids are
+ * given. Each operation is recomputed against the current data and written
+ * as its own commit so it can be undone on its own.
+ */
+export const applyCleanupOperations = mutation({
+  args: {
+    messageId: v.id("aiMessages"),
+    operationIds: v.optional(v.array(v.string())),
+  },
+  returns: v.object({
+    applied: v.number(),
+    errors: v.array(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const { operations, spreadsheet } = await getPlanMessage(ctx, user._id, args.messageId);
+
+    let applied = 0;
+    const errors: string[] = [];
+    const updated = [...operations];
+    for (let i = 0; i < updated.length; i++) {
+      const operation = updated[i];
+      if (operation.status !== "pending") continue;
+      if (args.operationIds && !args.operationIds.includes(operation.id)) continue;
+
+      // Every commit bumps the version, so read the spreadsheet again
+      const current = (await ctx.db.get(spreadsheet._id))!;
+      const sheets = await loadWorkbook(ctx, current);
+      const sheetIndex = findSheetIndex(sheets, operation.spec.sheetName);
+      if (sheetIndex === -1) {
+        errors.push(`${operation.description}: sheet "${operation.spec.sheetName}" not found`);
+        continue;
+      }
+
+      let ops: SheetOp[];
+      try {
+        ops = planCleanup(sheets[sheetIndex], operation.spec).ops;
+      } catch (error) {
+        errors.push(`${operation.description}: ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+
+      const result = await commitSheetOps(ctx, current, ops, {
+        authorId: user._id,
+        source: "ai",
+        authorName: CLEANUP_AUTHOR,
+        label: operation.description,
+      });
+      if (!result.success) {
+        errors.push(`${operation.description}: ${result.conflicts.join("; ")}`);
+        continue;
+      }
+
+      updated[i] = {
+        ...operation,
+        status: "applied",
+        // Nothing to undo when the data was already clean
+        ...(ops.length > 0 ? { commit: { baseVersion: current.version ?? 0, version: result.version } } : {}),
+      };
+      applied++;
+    }
+
+    await ctx.db.patch(args.messageId, { cleanupPlan: { operations: updated } });
+    return { applied, errors };
+  },
+});
+
+/**
+ * Undo one applied operation of a cleanup plan. Refused when the cells it
+ * changed have been edited since; the conflicts are returned instead.
+ */
+export const undoCleanupOperation = mutation({
+  args: {
+    messageId: v.id("aiMessages"),
+    operationId: v.string(),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    conflicts: v.array(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const { operations, spreadsheet } = await getPlanMessage(ctx, user._id, args.messageId);
+
+    const operation = operations.find((candidate) => candidate.id === args.operationId);
+    if (!operation) {
+      throw new Error("Cleanup operation not found");
+    }
+    if (operation.status !== "applied") {
+      throw new Error("This operation has not been applied");
+    }
+
+    if (operation.commit) {
+      const result = await revertCommits(ctx, spreadsheet, [operation.commit], {
+        authorId: user._id,
+        source: "user",
+        label: `Undid cleanup: ${operation.description}`,
+      });
+      if (!result.success) {
+        return { success: false, conflicts: result.conflicts };
+      }
+    }
+
+    await ctx.db.patch(args.messageId, {
+      cleanupPlan: {
+        operations: operations.map((candidate) =>
+          candidate.id === args.operationId
+            ? {
+                id: candidate.id,
+                spec: candidate.spec,
+                description: candidate.description,
+                changeCount: candidate.changeCount,
+                preview: candidate.preview,
+                status: "pending" as const,
+              }
+            : candidate
+        ),
+      },
+    });
+    return { success: true, conflicts: [] };
+  },
+});
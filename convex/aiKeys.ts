@@ -0,0 +1,216 @@
+import { query, mutation, action, internalQuery, internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { canAccessSpreadsheet } from "./lib/access";
+import { encryptApiKey, findProviderKey } from "./lib/aiKeys";
+
+const providerValidator = v.union(
+  v.literal("openai"),
+  v.literal("anthropic"),
+  v.literal("google"),
+  v.literal("mistral"),
+  v.literal("openai_compatible")
+);
+
+// Characters of the key kept in clear for display
+const KEY_HINT_LENGTH = 4;
+
+/**
+ * List the current user's provider keys (never the keys themselves)
+ */
+export const listProviderKeys = query({
+  args: {},
+  returns: v.array(
+    v.object({
+      _id: v.id("aiProviderKeys"),
+      provider: providerValidator,
+      projectId: v.optional(v.id("projects")),
+      projectName: v.optional(v.string()),
+      keyHint: v.string(),
+      updatedAt: v.number(),
+    })
+  ),
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const keys = await ctx.db
+      .query("aiProviderKeys")
+      .withIndex("by_owner_provider", (q) => q.eq("ownerId", user._id))
+      .collect();
+
+    return await Promise.all(
+      keys.map(async (key) => ({
+        _id: key._id,
+        provider: key.provider,
+        projectId: key.projectId,
+        projectName: key.projectId ? (await ctx.db.get(key.projectId))?.name : undefined,
+        keyHint: key.keyHint,
+        updatedAt: key.updatedAt,
+      }))
+    );
+  },
+});
+
+/**
+ * Store the current user's key for a provider, replacing the previous one.
+ * With a spreadsheet, the key only applies to that spreadsheet's project.
+ */
+export const setProviderKey = action({
+  args: {
+    provider: providerValidator,
+    apiKey: v.string(),
+    spreadsheetId: v.optional(v.id("spreadsheets")),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const apiKey = args.apiKey.trim();
+    if (!apiKey) {
+      throw new Error("API key is empty");
+    }
+
+    // Encrypt here: randomness in mutations is seeded deterministically, which could repeat IVs
+    await ctx.runMutation(internal.aiKeys.saveProviderKey, {
+      clerkId: identity.subject,
+      provider: args.provider,
+      encryptedKey: await encryptApiKey(apiKey),
+      keyHint: apiKey.slice(-KEY_HINT_LENGTH),
+      spreadsheetId: args.spreadsheetId,
+    });
+    return null;
+  },
+});
+
+/**
+ * Internal mutation to save an encrypted provider key
+ */
+export const saveProviderKey = internalMutation({
+  args: {
+    clerkId: v.string(),
+    provider: providerValidator,
+    encryptedKey: v.string(),
+    keyHint: v.string(),
+    spreadsheetId: v.optional(v.id("spreadsheets")),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    let projectId = undefined;
+    if (args.spreadsheetId) {
+      const spreadsheet = await ctx.db.get(args.spreadsheetId);
+      if (!spreadsheet) {
+        throw new Error("Spreadsheet not found");
+      }
+      if (!(await canAccessSpreadsheet(ctx.db, spreadsheet, user._id))) {
+        throw new Error("Not authorized to configure keys for this spreadsheet");
+      }
+      projectId = spreadsheet.projectId;
+    }
+
+    const existing = await ctx.db
+      .query("aiProviderKeys")
+      .withIndex("by_owner_provider", (q) =>
+        q.eq("ownerId", user._id).eq("provider", args.provider).eq("projectId", projectId)
+      )
+      .unique();
+
+    const now = Date.now();
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        encryptedKey: args.encryptedKey,
+        keyHint: args.keyHint,
+        updatedAt: now,
+      });
+    } else {
+      await ctx.db.insert("aiProviderKeys", {
+        ownerId: user._id,
+        provider: args.provider,
+        projectId,
+        encryptedKey: args.encryptedKey,
+        keyHint: args.keyHint,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+    return null;
+  },
+});
+
+/**
+ * Delete one of the current user's provider keys
+ */
+export const deleteProviderKey = mutation({
+  args: {
+    keyId: v.id("aiProviderKeys"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const key = await ctx.db.get(args.keyId);
+    if (!key) {
+      return null;
+    }
+
+    if (key.ownerId !== user._id) {
+      throw new Error("Not authorized to delete this key");
+    }
+
+    await ctx.db.delete(args.keyId);
+    return null;
+  },
+});
+
+/**
+ * Internal query to get the encrypted key a user's request on a spreadsheet
+ * should use, or null to fall back to the deployment key
+ */
+export const getProviderKeyForSpreadsheet = internalQuery({
+  args: {
+    ownerId: v.id("users"),
+    provider: v.string(),
+    spreadsheetId: v.id("spreadsheets"),
+  },
+  returns: v.union(v.string(), v.null()),
+  handler: async (ctx, args) => {
+    const spreadsheet = await ctx.db.get(args.spreadsheetId);
+    const key = await findProviderKey(ctx.db, args.ownerId, args.provider, spreadsheet?.projectId);
+    return key?.encryptedKey ?? null;
+  },
+});
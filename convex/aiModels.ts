@@ -0,0 +1,73 @@
+import { query, mutation, internalQuery } from "./_generated/server";
+import { v } from "convex/values";
+import { findModel, seedModelRegistry } from "./lib/aiModels";
+
+const modelValidator = v.object({
+  _id: v.id("aiModels"),
+  _creationTime: v.number(),
+  provider: v.union(
+    v.literal("openai"),
+    v.literal("anthropic"),
+    v.literal("google"),
+    v.literal("mistral")
+  ),
+  modelName: v.string(),
+  displayName: v.string(),
+  contextWindow: v.number(),
+  inputCostPerMillion: v.number(),
+  outputCostPerMillion: v.number(),
+  supportsTools: v.boolean(),
+  supportsVision: v.boolean(),
+  supportsJsonMode: v.boolean(),
+  isActive: v.boolean(),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
+/**
+ * List the models agents can use
+ */
+export const listModels = query({
+  args: {},
+  returns: v.array(modelValidator),
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const models = await ctx.db.query("aiModels").collect();
+    return models.filter((model) => model.isActive);
+  },
+});
+
+/**
+ * Fill the model registry with the built-in models (no-op once seeded)
+ */
+export const ensureModelRegistry = mutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    await seedModelRegistry(ctx.db);
+    return null;
+  },
+});
+
+/**
+ * Internal query to get the registry entry of a model
+ */
+export const getModel = internalQuery({
+  args: {
+    provider: v.string(),
+    modelName: v.string(),
+  },
+  returns: v.union(modelValidator, v.null()),
+  handler: async (ctx, args) => {
+    return await findModel(ctx.db, args.provider, args.modelName);
+  },
+});
@@ -0,0 +1,82 @@
+import { mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { buildViewSheetOps, MAX_VIEW_ROWS, runQueryPlan, viewSheetBaseName } from "./lib/queryPlans";
+import { uniqueSheetName } from "./lib/sheetCodec";
+import { commitSheetOps, loadWorkbook } from "./lib/sheetStorage";
+
+// Shown as the author of view sheets in the version history
+const QUERY_AUTHOR = "AI Query";
+
+/**
+ * Run the query plan of an assistant message again against the current data
+ * and write the result into a new sheet
+ */
+export const saveQueryView = mutation({
+  args: {
+    messageId: v.id("aiMessages"),
+  },
+  returns: v.object({
+    sheetName: v.string(),
+    rowCount: v.number(),
+    truncated: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const message = await ctx.db.get(args.messageId);
+    if (!message) {
+      throw new Error("Message not found");
+    }
+
+    if (message.ownerId !== user._id) {
+      throw new Error("Not authorized to save this query");
+    }
+
+    if (!message.queryResult) {
+      throw new Error("This message has no query result");
+    }
+
+    const conversation = await ctx.db.get(message.conversationId);
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+
+    const spreadsheet = await ctx.db.get(conversation.spreadsheetId);
+    if (!spreadsheet) {
+      throw new Error("Spreadsheet not found");
+    }
+
+    const sheets = await loadWorkbook(ctx, spreadsheet);
+    const output = runQueryPlan(sheets, message.queryResult.plan);
+    const rows = output.rows.slice(0, MAX_VIEW_ROWS);
+    const sheetName = uniqueSheetName(sheets, viewSheetBaseName(message.queryResult.plan));
+
+    const result = await commitSheetOps(ctx, spreadsheet, buildViewSheetOps(sheetName, output.headers, rows), {
+      authorId: user._id,
+      source: "ai",
+      authorName: QUERY_AUTHOR,
+      label: `Created view "${sheetName}"`,
+    });
+    if (!result.success) {
+      throw new Error(`Could not create the view sheet: ${result.conflicts.join("; ")}`);
+    }
+
+    await ctx.db.patch(args.messageId, {
+      queryResult: { ...message.queryResult, viewSheetName: sheetName },
+    });
+
+    return { sheetName, rowCount: rows.length, truncated: output.rows.length > rows.length };
+  },
+});
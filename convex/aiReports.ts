@@ -0,0 +1,507 @@
+import { query, mutation, internalQuery, internalMutation, internalAction, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { canAccessSpreadsheet } from "./lib/access";
+import { chartSpecValidator } from "./lib/aiCharts";
+import { runScheduledReport } from "./lib/aiOrchestration";
+import {
+  nextRunTime,
+  reportFrequencyValidator,
+  reportMetricChangeValidator,
+  reportMetricValidator,
+  ReportSchedule,
+} from "./lib/aiReports";
+import { checkUsageQuota, messageUsageValidator } from "./lib/aiUsage";
+
+// Reports started per cron tick; the rest are picked up by the next one
+const MAX_DUE_REPORTS = 50;
+// Runs returned by getReportRuns when no limit is given
+const DEFAULT_RUN_LIMIT = 10;
+
+const storedReportValidator = v.object({
+  _id: v.id("aiReports"),
+  _creationTime: v.number(),
+  spreadsheetId: v.id("spreadsheets"),
+  ownerId: v.id("users"),
+  agentId: v.id("aiAgents"),
+  title: v.string(),
+  prompt: v.string(),
+  frequency: reportFrequencyValidator,
+  hourUtc: v.number(),
+  dayOfWeek: v.optional(v.number()),
+  isActive: v.boolean(),
+  nextRunAt: v.number(),
+  lastRunAt: v.optional(v.number()),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
+const reportValidator = v.object({
+  ...storedReportValidator.fields,
+  agentName: v.optional(v.string()),
+});
+
+const reportRunValidator = v.object({
+  _id: v.id("aiReportRuns"),
+  _creationTime: v.number(),
+  reportId: v.id("aiReports"),
+  spreadsheetId: v.id("spreadsheets"),
+  ownerId: v.id("users"),
+  status: v.union(v.literal("completed"), v.literal("failed")),
+  content: v.string(),
+  charts: v.array(chartSpecValidator),
+  metrics: v.array(reportMetricValidator),
+  changes: v.optional(v.array(reportMetricChangeValidator)),
+  usage: v.optional(messageUsageValidator),
+  createdAt: v.number(),
+});
+
+// Throw unless the schedule fields are in range
+function validateSchedule(schedule: ReportSchedule): void {
+  if (!Number.isInteger(schedule.hourUtc) || schedule.hourUtc < 0 || schedule.hourUtc > 23) {
+    throw new Error("Hour must be a whole number from 0 to 23");
+  }
+  if (schedule.frequency === "weekly") {
+    const dayOfWeek = schedule.dayOfWeek;
+    if (dayOfWeek === undefined || !Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) {
+      throw new Error("Weekly reports need a day of the week from 0 (Sunday) to 6");
+    }
+  }
+}
+
+// A report of the user, or an error
+async function getOwnedReport(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  reportId: Id<"aiReports">
+): Promise<Doc<"aiReports">> {
+  const report = await ctx.db.get(reportId);
+  if (!report) {
+    throw new Error("Report not found");
+  }
+  if (report.ownerId !== userId) {
+    throw new Error("Not authorized to access this report");
+  }
+  return report;
+}
+
+/**
+ * List the scheduled reports of a spreadsheet
+ */
+export const listReports = query({
+  args: {
+    spreadsheetId: v.id("spreadsheets"),
+  },
+  returns: v.array(reportValidator),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const spreadsheet = await ctx.db.get(args.spreadsheetId);
+    if (!spreadsheet || !(await canAccessSpreadsheet(ctx.db, spreadsheet, user._id))) {
+      throw new Error("Spreadsheet not found or access denied");
+    }
+
+    const reports = await ctx.db
+      .query("aiReports")
+      .withIndex("by_spreadsheet", (q) => q.eq("spreadsheetId", args.spreadsheetId))
+      .collect();
+
+    return await Promise.all(
+      reports.map(async (report) => {
+        const agent = await ctx.db.get(report.agentId);
+        return { ...report, agentName: agent?.name };
+      })
+    );
+  },
+});
+
+/**
+ * Recent runs of a report, newest first
+ */
+export const getReportRuns = query({
+  args: {
+    reportId: v.id("aiReports"),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(reportRunValidator),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    await getOwnedReport(ctx, user._id, args.reportId);
+
+    return await ctx.db
+      .query("aiReportRuns")
+      .withIndex("by_report_created", (q) => q.eq("reportId", args.reportId))
+      .order("desc")
+      .take(args.limit ?? DEFAULT_RUN_LIMIT);
+  },
+});
+
+/**
+ * Schedule an agent prompt to run daily or weekly against a spreadsheet
+ */
+export const createReport = mutation({
+  args: {
+    spreadsheetId: v.id("spreadsheets"),
+    agentId: v.id("aiAgents"),
+    title: v.string(),
+    prompt: v.string(),
+    frequency: reportFrequencyValidator,
+    hourUtc: v.number(),
+    dayOfWeek: v.optional(v.number()),
+  },
+  returns: v.id("aiReports"),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const spreadsheet = await ctx.db.get(args.spreadsheetId);
+    if (!spreadsheet || !(await canAccessSpreadsheet(ctx.db, spreadsheet, user._id))) {
+      throw new Error("Spreadsheet not found or access denied");
+    }
+
+    const agent = await ctx.db.get(args.agentId);
+    if (!agent || agent.ownerId !== user._id) {
+      throw new Error("Agent not found or access denied");
+    }
+
+    if (!args.title.trim() || !args.prompt.trim()) {
+      throw new Error("A report needs a title and a prompt");
+    }
+    validateSchedule(args);
+
+    const now = Date.now();
+    return await ctx.db.insert("aiReports", {
+      spreadsheetId: args.spreadsheetId,
+      ownerId: user._id,
+      agentId: args.agentId,
+      title: args.title.trim(),
+      prompt: args.prompt.trim(),
+      frequency: args.frequency,
+      hourUtc: args.hourUtc,
+      dayOfWeek: args.frequency === "weekly" ? args.dayOfWeek : undefined,
+      isActive: true,
+      nextRunAt: nextRunTime(args, now),
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Change a report's prompt or schedule, or pause and resume it
+ */
+export const updateReport = mutation({
+  args: {
+    reportId: v.id("aiReports"),
+    agentId: v.optional(v.id("aiAgents")),
+    title: v.optional(v.string()),
+    prompt: v.optional(v.string()),
+    frequency: v.optional(reportFrequencyValidator),
+    hourUtc: v.optional(v.number()),
+    dayOfWeek: v.optional(v.number()),
+    isActive: v.optional(v.boolean()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const report = await getOwnedReport(ctx, user._id, args.reportId);
+
+    if (args.agentId) {
+      const agent = await ctx.db.get(args.agentId);
+      if (!agent || agent.ownerId !== user._id) {
+        throw new Error("Agent not found or access denied");
+      }
+    }
+    if (args.title !== undefined && !args.title.trim()) {
+      throw new Error("A report needs a title");
+    }
+    if (args.prompt !== undefined && !args.prompt.trim()) {
+      throw new Error("A report needs a prompt");
+    }
+
+    const schedule: ReportSchedule = {
+      frequency: args.frequency ?? report.frequency,
+      hourUtc: args.hourUtc ?? report.hourUtc,
+      dayOfWeek: args.dayOfWeek ?? report.dayOfWeek,
+    };
+    validateSchedule(schedule);
+
+    const now = Date.now();
+    await ctx.db.patch(args.reportId, {
+      agentId: args.agentId ?? report.agentId,
+      title: args.title?.trim() ?? report.title,
+      prompt: args.prompt?.trim() ?? report.prompt,
+      frequency: schedule.frequency,
+      hourUtc: schedule.hourUtc,
+      dayOfWeek: schedule.frequency === "weekly" ? schedule.dayOfWeek : undefined,
+      isActive: args.isActive ?? report.isActive,
+      // A resumed report does not catch up on the runs it missed
+      nextRunAt: nextRunTime(schedule, now),
+      updatedAt: now,
+    });
+    return null;
+  },
+});
+
+/**
+ * Delete a report and its runs
+ */
+export const deleteReport = mutation({
+  args: {
+    reportId: v.id("aiReports"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    await getOwnedReport(ctx, user._id, args.reportId);
+
+    const runs = await ctx.db
+      .query("aiReportRuns")
+      .withIndex("by_report_created", (q) => q.eq("reportId", args.reportId))
+      .collect();
+    for (const run of runs) {
+      await ctx.db.delete(run._id);
+    }
+
+    await ctx.db.delete(args.reportId);
+    return null;
+  },
+});
+
+/**
+ * Run a report now, outside its schedule
+ */
+export const runReportNow = mutation({
+  args: {
+    reportId: v.id("aiReports"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const report = await getOwnedReport(ctx, user._id, args.reportId);
+    const spreadsheet = await ctx.db.get(report.spreadsheetId);
+    if (!spreadsheet) {
+      throw new Error("Spreadsheet not found");
+    }
+
+    // Refuse new work once the user or project has used up its AI budget
+    await checkUsageQuota(ctx.db, user._id, spreadsheet.projectId);
+
+    await ctx.scheduler.runAfter(0, internal.aiReports.runReport, { reportId: args.reportId });
+    return null;
+  },
+});
+
+/**
+ * Start the reports that are due and move them to their next run. Called by
+ * a cron job.
+ */
+export const runDueReports = internalMutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const now = Date.now();
+    const due = await ctx.db
+      .query("aiReports")
+      .withIndex("by_active_next_run", (q) => q.eq("isActive", true).lte("nextRunAt", now))
+      .take(MAX_DUE_REPORTS);
+
+    for (const report of due) {
+      await ctx.db.patch(report._id, { nextRunAt: nextRunTime(report, now) });
+      await ctx.scheduler.runAfter(0, internal.aiReports.runReport, { reportId: report._id });
+    }
+    return due.length;
+  },
+});
+
+/**
+ * Internal action to run one report and save its output
+ */
+export const runReport = internalAction({
+  args: {
+    reportId: v.id("aiReports"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await runScheduledReport(ctx, args.reportId);
+    return null;
+  },
+});
+
+/**
+ * Internal query for what a report run needs: the report, its agent and the
+ * last completed run. Throws when the AI budget is used up.
+ */
+export const getReportRunData = internalQuery({
+  args: {
+    reportId: v.id("aiReports"),
+  },
+  returns: v.union(
+    v.object({
+      report: storedReportValidator,
+      agent: v.object({
+        name: v.string(),
+        provider: v.string(),
+        modelName: v.string(),
+        baseUrl: v.optional(v.string()),
+        systemPrompt: v.string(),
+      }),
+      previousRun: v.union(
+        v.object({
+          content: v.string(),
+          metrics: v.array(reportMetricValidator),
+          createdAt: v.number(),
+        }),
+        v.null()
+      ),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const report = await ctx.db.get(args.reportId);
+    if (!report) {
+      return null;
+    }
+
+    const spreadsheet = await ctx.db.get(report.spreadsheetId);
+    if (!spreadsheet) {
+      throw new Error("Spreadsheet not found");
+    }
+
+    const agent = await ctx.db.get(report.agentId);
+    if (!agent) {
+      throw new Error("The report's agent no longer exists");
+    }
+
+    await checkUsageQuota(ctx.db, report.ownerId, spreadsheet.projectId);
+
+    const previousRun = await ctx.db
+      .query("aiReportRuns")
+      .withIndex("by_report_created", (q) => q.eq("reportId", args.reportId))
+      .order("desc")
+      .filter((q) => q.eq(q.field("status"), "completed"))
+      .first();
+
+    return {
+      report,
+      agent: {
+        name: agent.name,
+        provider: agent.provider,
+        modelName: agent.modelName,
+        baseUrl: agent.baseUrl,
+        systemPrompt: agent.systemPrompt,
+      },
+      previousRun: previousRun
+        ? { content: previousRun.content, metrics: previousRun.metrics, createdAt: previousRun.createdAt }
+        : null,
+    };
+  },
+});
+
+/**
+ * Internal mutation to save the output of a report run
+ */
+export const saveReportRun = internalMutation({
+  args: {
+    reportId: v.id("aiReports"),
+    status: v.union(v.literal("completed"), v.literal("failed")),
+    content: v.string(),
+    charts: v.array(chartSpecValidator),
+    metrics: v.array(reportMetricValidator),
+    changes: v.optional(v.array(reportMetricChangeValidator)),
+    usage: v.optional(messageUsageValidator),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const report = await ctx.db.get(args.reportId);
+    if (!report) {
+      return null;
+    }
+
+    const now = Date.now();
+    await ctx.db.insert("aiReportRuns", {
+      ...args,
+      spreadsheetId: report.spreadsheetId,
+      ownerId: report.ownerId,
+      createdAt: now,
+    });
+    await ctx.db.patch(args.reportId, { lastRunAt: now });
+    return null;
+  },
+});
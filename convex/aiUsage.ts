@@ -0,0 +1,219 @@
+import { query, internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { estimateCost, getQuotaLimit, listUsageSince, periodStart } from "./lib/aiUsage";
+import { findModel } from "./lib/aiModels";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const breakdownValidator = v.array(
+  v.object({
+    key: v.string(),
+    label: v.string(),
+    calls: v.number(),
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    costUsd: v.number(),
+  })
+);
+
+const quotaStatusValidator = v.object({
+  spentUsd: v.number(),
+  limitUsd: v.optional(v.number()),
+});
+
+type Breakdown = Map<string, { label: string; calls: number; inputTokens: number; outputTokens: number; costUsd: number }>;
+
+// Add a record to the row of a breakdown, sorted by cost when returned
+function addToBreakdown(breakdown: Breakdown, key: string, label: string, record: Doc<"aiUsage">) {
+  const row = breakdown.get(key) ?? { label, calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+  row.calls += 1;
+  row.inputTokens += record.inputTokens;
+  row.outputTokens += record.outputTokens;
+  row.costUsd += record.costUsd;
+  breakdown.set(key, row);
+}
+
+function sortedBreakdown(breakdown: Breakdown) {
+  return [...breakdown]
+    .map(([key, row]) => ({ key, ...row }))
+    .sort((a, b) => b.costUsd - a.costUsd);
+}
+
+/**
+ * Internal mutation to record the usage of an assistant turn and attach it
+ * to the assistant message. Returns the estimated cost.
+ */
+export const recordUsage = internalMutation({
+  args: {
+    ownerId: v.id("users"),
+    spreadsheetId: v.id("spreadsheets"),
+    conversationId: v.optional(v.id("aiConversations")),
+    messageId: v.optional(v.id("aiMessages")),
+    agentId: v.optional(v.id("aiAgents")),
+    provider: v.string(),
+    modelName: v.string(),
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    latencyMs: v.number(),
+  },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    const spreadsheet = await ctx.db.get(args.spreadsheetId);
+    if (!spreadsheet) {
+      return 0;
+    }
+
+    const model = await findModel(ctx.db, args.provider, args.modelName);
+    const costUsd = estimateCost(model, args);
+
+    await ctx.db.insert("aiUsage", {
+      ...args,
+      projectId: spreadsheet.projectId,
+      costUsd,
+      createdAt: Date.now(),
+    });
+
+    if (args.messageId) {
+      await ctx.db.patch(args.messageId, {
+        usage: {
+          inputTokens: args.inputTokens,
+          outputTokens: args.outputTokens,
+          latencyMs: args.latencyMs,
+          costUsd,
+        },
+      });
+    }
+    return costUsd;
+  },
+});
+
+/**
+ * AI spend of the current user over the last days, broken down by agent,
+ * provider and spreadsheet, with the state of their quotas
+ */
+export const getUsageSummary = query({
+  args: {
+    days: v.optional(v.number()), // Defaults to 30
+  },
+  returns: v.object({
+    calls: v.number(),
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    costUsd: v.number(),
+    averageLatencyMs: v.number(),
+    byAgent: breakdownValidator,
+    byProvider: breakdownValidator,
+    bySpreadsheet: breakdownValidator,
+    daily: quotaStatusValidator,
+    monthly: quotaStatusValidator,
+  }),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const scope = { ownerId: user._id };
+    const since = Date.now() - (args.days ?? 30) * DAY_MS;
+    const records = await listUsageSince(ctx.db, scope, since);
+
+    const byAgent: Breakdown = new Map();
+    const byProvider: Breakdown = new Map();
+    const bySpreadsheet: Breakdown = new Map();
+    const agentNames = new Map<string, string>();
+    const spreadsheetNames = new Map<string, string>();
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let costUsd = 0;
+    let latencyMs = 0;
+
+    for (const record of records) {
+      inputTokens += record.inputTokens;
+      outputTokens += record.outputTokens;
+      costUsd += record.costUsd;
+      latencyMs += record.latencyMs;
+
+      const agentKey = record.agentId ?? "default";
+      if (!agentNames.has(agentKey)) {
+        const agent = record.agentId ? await ctx.db.get(record.agentId) : null;
+        agentNames.set(agentKey, agent?.name ?? (record.agentId ? "Deleted agent" : "Default assistant"));
+      }
+      addToBreakdown(byAgent, agentKey, agentNames.get(agentKey)!, record);
+
+      addToBreakdown(byProvider, record.provider, record.provider, record);
+
+      if (!spreadsheetNames.has(record.spreadsheetId)) {
+        const spreadsheet = await ctx.db.get(record.spreadsheetId);
+        spreadsheetNames.set(record.spreadsheetId, spreadsheet?.name ?? "Deleted spreadsheet");
+      }
+      addToBreakdown(bySpreadsheet, record.spreadsheetId, spreadsheetNames.get(record.spreadsheetId)!, record);
+    }
+
+    const spentSince = async (start: number) =>
+      (await listUsageSince(ctx.db, scope, start)).reduce((sum, record) => sum + record.costUsd, 0);
+
+    return {
+      calls: records.length,
+      inputTokens,
+      outputTokens,
+      costUsd,
+      averageLatencyMs: records.length > 0 ? Math.round(latencyMs / records.length) : 0,
+      byAgent: sortedBreakdown(byAgent),
+      byProvider: sortedBreakdown(byProvider),
+      bySpreadsheet: sortedBreakdown(bySpreadsheet),
+      daily: {
+        spentUsd: await spentSince(periodStart("day")),
+        limitUsd: await getQuotaLimit(ctx.db, scope, "day"),
+      },
+      monthly: {
+        spentUsd: await spentSince(periodStart("month")),
+        limitUsd: await getQuotaLimit(ctx.db, scope, "month"),
+      },
+    };
+  },
+});
+
+/**
+ * Internal mutation to set the spending limits of a user or project,
+ * overriding the deployment defaults. Run from the Convex dashboard.
+ */
+export const setQuota = internalMutation({
+  args: {
+    ownerId: v.optional(v.id("users")),
+    projectId: v.optional(v.id("projects")),
+    dailyLimitUsd: v.optional(v.number()),
+    monthlyLimitUsd: v.optional(v.number()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    if (!args.ownerId === !args.projectId) {
+      throw new Error("Set exactly one of ownerId and projectId");
+    }
+
+    const existing = args.ownerId
+      ? await ctx.db.query("aiQuotas").withIndex("by_owner", (q) => q.eq("ownerId", args.ownerId)).first()
+      : await ctx.db.query("aiQuotas").withIndex("by_project", (q) => q.eq("projectId", args.projectId)).first();
+
+    const limits = {
+      dailyLimitUsd: args.dailyLimitUsd,
+      monthlyLimitUsd: args.monthlyLimitUsd,
+      updatedAt: Date.now(),
+    };
+    if (existing) {
+      await ctx.db.patch(existing._id, limits);
+    } else {
+      await ctx.db.insert("aiQuotas", { ownerId: args.ownerId, projectId: args.projectId, ...limits });
+    }
+    return null;
+  },
+});
@@ -0,0 +1,15 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Drop editing sessions that closed without leaving (e.g. the tab crashed)
+crons.interval("cleanup stale presence", { minutes: 5 }, internal.presence.cleanupStalePresence, {});
+
+// Start scheduled AI reports, at most 15 minutes after they are due
+crons.interval("run due AI reports", { minutes: 15 }, internal.aiReports.runDueReports, {});
+
+// Retry or fail documents whose processing action died before finishing
+crons.interval("requeue stalled documents", { minutes: 5 }, internal.documents.requeueStalledDocuments, {});
+
+export default crons;
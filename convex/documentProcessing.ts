@@ -0,0 +1,129 @@
+"use node";
+
+import { internalAction } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { extractDocument, isOcrConfigured } from "./lib/documentExtraction";
+import { ExtractedTable, FIX_UP_CONFIDENCE, fixUpTablesWithModel } from "./lib/documentTables";
+import { DEFAULT_PROVIDER, getLanguageModel, hasDeploymentKey } from "./lib/aiProviders";
+
+// Bytes of extracted text kept per document. Longer text is cut, since the
+// assistant only ever reads the start of it.
+const MAX_EXTRACTED_TEXT_BYTES = 500_000;
+
+// Bytes of extracted tables stored per document. Together with the text this
+// keeps the document under Convex's 1 MiB limit.
+const MAX_EXTRACTED_TABLES_BYTES = 400_000;
+
+function formatSize(bytes: number): string {
+  return `${(bytes / 1_000_000).toFixed(1)} MB`;
+}
+
+// Cut text to a number of UTF-8 bytes without splitting a character
+function truncateText(text: string, maxBytes: number): string {
+  if (Buffer.byteLength(text) <= maxBytes) {
+    return text;
+  }
+  const note = "\n\n[Text truncated: the document is too long to keep in full]";
+  const kept = Buffer.from(text).subarray(0, maxBytes - Buffer.byteLength(note)).toString();
+  return kept.replace(/\uFFFD$/, "") + note;
+}
+
+/**
+ * Run the optional language model fix-up over low-confidence tables. Enabled
+ * by setting DOCUMENT_TABLE_FIXUP_MODEL to a model of the default provider.
+ */
+async function fixUpTables(text: string, tables: ExtractedTable[]): Promise<ExtractedTable[]> {
+  const modelName = process.env.DOCUMENT_TABLE_FIXUP_MODEL;
+  if (!modelName || !hasDeploymentKey(DEFAULT_PROVIDER)) {
+    return tables;
+  }
+  if (!tables.some((table) => (table.confidence ?? 0) < FIX_UP_CONFIDENCE)) {
+    return tables;
+  }
+  return await fixUpTablesWithModel(getLanguageModel(DEFAULT_PROVIDER, modelName), text, tables);
+}
+
+/**
+ * Process document - extract text and tables from the stored file.
+ * Failures are retried with backoff by recordProcessingFailure.
+ */
+export const processDocument = internalAction({
+  args: {
+    documentId: v.id("documents"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const job = await ctx.runMutation(internal.documents.startDocumentProcessing, {
+      documentId: args.documentId,
+    });
+    if (!job) {
+      return null;
+    }
+
+    if (job.fileType === "image" && !isOcrConfigured()) {
+      await ctx.runMutation(internal.documents.recordProcessingFailure, {
+        documentId: args.documentId,
+        errorMessage: "Image uploads need an OCR engine. Set DOCUMENT_OCR_URL to enable them.",
+        retry: false,
+      });
+      return null;
+    }
+
+    try {
+      const blob = await ctx.storage.get(job.storageId);
+      if (!blob) {
+        throw new Error("Uploaded file not found in storage");
+      }
+
+      const extracted = await extractDocument(
+        job.fileType,
+        await blob.arrayBuffer(),
+        blob.type,
+        async (processedPages, pageCount) => {
+          await ctx.runMutation(internal.documents.updateDocumentProgress, {
+            documentId: args.documentId,
+            processedPages,
+            pageCount,
+          });
+        }
+      );
+
+      if (!extracted.text.trim()) {
+        throw new Error("No text could be extracted from this document");
+      }
+
+      const tables = await fixUpTables(extracted.text, extracted.tables);
+
+      // Tables cannot be cut without losing rows, so oversized ones fail the
+      // document for good instead of being retried
+      const extractedTables = JSON.stringify(tables);
+      const tablesSize = Buffer.byteLength(extractedTables);
+      if (tablesSize > MAX_EXTRACTED_TABLES_BYTES) {
+        await ctx.runMutation(internal.documents.recordProcessingFailure, {
+          documentId: args.documentId,
+          errorMessage: `This document is too large: its tables take ${formatSize(tablesSize)}, more than the ${formatSize(MAX_EXTRACTED_TABLES_BYTES)} that can be stored. Split it into smaller files and upload them separately.`,
+          retry: false,
+        });
+        return null;
+      }
+
+      await ctx.runMutation(internal.documents.updateDocumentContent, {
+        documentId: args.documentId,
+        extractedText: truncateText(extracted.text, MAX_EXTRACTED_TEXT_BYTES),
+        extractedTables,
+        pageCount: extracted.pageCount,
+        status: "completed",
+      });
+    } catch (error) {
+      console.error(`Error processing document ${args.documentId} (attempt ${job.attempt}):`, error);
+
+      await ctx.runMutation(internal.documents.recordProcessingFailure, {
+        documentId: args.documentId,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return null;
+  },
+});
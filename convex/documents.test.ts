@@ -0,0 +1,74 @@
+import { convexTest, TestConvex } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import schema from "./schema";
+import { createFixture, modules } from "./test.setup";
+
+const MINUTE = 60 * 1000;
+
+// A PDF document whose processing run claimed it `claimedAgo` ms ago
+async function createProcessingDocument(t: TestConvex<typeof schema>, claimedAgo: number, attempts = 1) {
+  const { userId, spreadsheetId } = await createFixture(t);
+  return await t.run(async (ctx) => {
+    const now = Date.now();
+    const storageId = await ctx.storage.store(new Blob(["%PDF-1.4"]));
+    const documentId: Id<"documents"> = await ctx.db.insert("documents", {
+      spreadsheetId,
+      ownerId: userId,
+      fileName: "report.pdf",
+      fileType: "pdf",
+      storageId,
+      processingStatus: "processing",
+      processingStartedAt: now - claimedAgo,
+      attempts,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return documentId;
+  });
+}
+
+describe("document processing claims", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("a run does not take over a document another run is working on", async () => {
+    const t = convexTest(schema, modules);
+    const documentId = await createProcessingDocument(t, 2 * MINUTE);
+
+    const claim = await t.mutation(internal.documents.startDocumentProcessing, { documentId });
+    expect(claim).toBeNull();
+  });
+
+  test("a run takes over a document whose claim went stale", async () => {
+    const t = convexTest(schema, modules);
+    const documentId = await createProcessingDocument(t, 20 * MINUTE);
+
+    const claim = await t.mutation(internal.documents.startDocumentProcessing, { documentId });
+    expect(claim?.attempt).toBe(2);
+  });
+
+  test("stalled runs are queued for a retry until the attempts run out", async () => {
+    const t = convexTest(schema, modules);
+    const stalled = await createProcessingDocument(t, 20 * MINUTE);
+    const running = await createProcessingDocument(t, 2 * MINUTE);
+    const exhausted = await createProcessingDocument(t, 20 * MINUTE, 3);
+
+    const requeued = await t.mutation(internal.documents.requeueStalledDocuments, {});
+    expect(requeued).toBe(2);
+
+    const [stalledDoc, runningDoc, exhaustedDoc] = await t.run(async (ctx) =>
+      Promise.all([ctx.db.get(stalled), ctx.db.get(running), ctx.db.get(exhausted)])
+    );
+    expect(stalledDoc?.processingStatus).toBe("pending");
+    expect(runningDoc?.processingStatus).toBe("processing");
+    expect(exhaustedDoc?.processingStatus).toBe("failed");
+    expect(exhaustedDoc?.errorMessage).toBe("Processing did not finish in time");
+  });
+});
@@ -1,7 +1,20 @@
-import { query, mutation, action, internalQuery, internalMutation, internalAction } from "./_generated/server";
+import { query, mutation, internalQuery, internalMutation, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
-import { Id } from "./_generated/dataModel";
+import { Doc, Id } from "./_generated/dataModel";
 import { internal } from "./_generated/api";
+import { requireSpreadsheetAccess } from "./lib/access";
+import { documentFileTypeValidator } from "./lib/documentFiles";
+import { importColumnTypeValidator, importTargetValidator } from "./lib/documentImport";
+
+// Processing runs per document before it is marked failed
+const MAX_PROCESSING_ATTEMPTS = 3;
+
+// Delay before the first retry; doubled for every later one
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+// A processing run still holding its claim after this long has died: actions
+// are stopped after 10 minutes
+const PROCESSING_TIMEOUT_MS = 15 * 60 * 1000;
 
 /**
  * Generate upload URL for document
@@ -25,27 +38,14 @@ export const createDocument = mutation({
     spreadsheetId: v.id("spreadsheets"),
     conversationId: v.optional(v.id("aiConversations")),
     fileName: v.string(),
-    fileType: v.union(v.literal("pdf"), v.literal("docx")),
+    fileType: documentFileTypeValidator,
     storageId: v.id("_storage"),
     extractedText: v.optional(v.string()),
     extractedTables: v.optional(v.string()),
   },
   returns: v.id("documents"),
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) throw new Error("Not authenticated");
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
-      .unique();
-    if (!user) throw new Error("User not found");
-
-    const spreadsheet = await ctx.db.get(args.spreadsheetId);
-    if (!spreadsheet) throw new Error("Spreadsheet not found");
-    if (spreadsheet.ownerId !== user._id) {
-      throw new Error("Not authorized to upload to this spreadsheet");
-    }
+    const { user } = await requireSpreadsheetAccess(ctx, args.spreadsheetId);
 
     const now = Date.now();
     const documentId = await ctx.db.insert("documents", {
@@ -62,9 +62,9 @@ export const createDocument = mutation({
       updatedAt: now,
     });
 
-    // Only schedule processing if text wasn't provided (fallback)
+    // Documents uploaded without extracted text go through the processing queue
     if (!args.extractedText) {
-      await ctx.scheduler.runAfter(0, internal.documents.processDocument, {
+      await ctx.scheduler.runAfter(0, internal.documentProcessing.processDocument, {
         documentId,
       });
     }
@@ -88,11 +88,14 @@ export const listDocuments = query({
       conversationId: v.optional(v.id("aiConversations")),
       ownerId: v.id("users"),
       fileName: v.string(),
-      fileType: v.union(v.literal("pdf"), v.literal("docx")),
+      fileType: documentFileTypeValidator,
       storageId: v.id("_storage"),
       extractedText: v.optional(v.string()),
       extractedTables: v.optional(v.string()),
       pageCount: v.optional(v.number()),
+      processedPages: v.optional(v.number()),
+      attempts: v.optional(v.number()),
+      processingStartedAt: v.optional(v.number()),
       processingStatus: v.union(
         v.literal("pending"),
         v.literal("processing"),
@@ -105,20 +108,7 @@ export const listDocuments = query({
     })
   ),
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) throw new Error("Not authenticated");
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
-      .unique();
-    if (!user) throw new Error("User not found");
-
-    const spreadsheet = await ctx.db.get(args.spreadsheetId);
-    if (!spreadsheet) throw new Error("Spreadsheet not found");
-    if (spreadsheet.ownerId !== user._id) {
-      throw new Error("Not authorized to view documents");
-    }
+    await requireSpreadsheetAccess(ctx, args.spreadsheetId);
 
     return await ctx.db
       .query("documents")
@@ -143,11 +133,14 @@ export const getDocument = query({
       conversationId: v.optional(v.id("aiConversations")),
       ownerId: v.id("users"),
       fileName: v.string(),
-      fileType: v.union(v.literal("pdf"), v.literal("docx")),
+      fileType: documentFileTypeValidator,
       storageId: v.id("_storage"),
       extractedText: v.optional(v.string()),
       extractedTables: v.optional(v.string()),
       pageCount: v.optional(v.number()),
+      processedPages: v.optional(v.number()),
+      attempts: v.optional(v.number()),
+      processingStartedAt: v.optional(v.number()),
       processingStatus: v.union(
         v.literal("pending"),
         v.literal("processing"),
@@ -215,51 +208,146 @@ export const deleteDocument = mutation({
 });
 
 /**
- * Process document - extract text and tables
- * Note: Document processing not yet implemented
+ * Retry processing a document that failed
  */
-export const processDocument = internalAction({
+export const retryDocument = mutation({
   args: {
     documentId: v.id("documents"),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    try {
-      // Update status to processing
-      await ctx.runMutation(internal.documents.updateDocumentStatus, {
-        documentId: args.documentId,
-        status: "processing",
-      });
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not authenticated");
 
-      // Get document
-      const document = await ctx.runQuery(internal.documents.internalGetDocument, {
-        documentId: args.documentId,
-      });
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+    if (!user) throw new Error("User not found");
 
-      if (!document) {
-        throw new Error("Document not found");
-      }
+    const document = await ctx.db.get(args.documentId);
+    if (!document) throw new Error("Document not found");
+    if (document.ownerId !== user._id) {
+      throw new Error("Not authorized to process this document");
+    }
+    if (document.processingStatus !== "failed") {
+      throw new Error("Only failed documents can be retried");
+    }
 
-      // TODO: Implement document processing via external service
-      // For now, mark as failed with informative message
-      await ctx.runMutation(internal.documents.updateDocumentStatus, {
-        documentId: args.documentId,
-        status: "failed",
-        errorMessage: "Document processing not yet implemented. Please use an external service or process client-side.",
-      });
+    await ctx.db.patch(args.documentId, {
+      processingStatus: "pending",
+      attempts: 0,
+      processedPages: undefined,
+      errorMessage: undefined,
+      updatedAt: Date.now(),
+    });
+    await ctx.scheduler.runAfter(0, internal.documentProcessing.processDocument, {
+      documentId: args.documentId,
+    });
 
-      console.log(`Document ${args.documentId} upload completed (processing not yet implemented)`);
-    } catch (error) {
-      console.error("Error processing document:", error);
-      
-      await ctx.runMutation(internal.documents.updateDocumentStatus, {
-        documentId: args.documentId,
-        status: "failed",
-        errorMessage: error instanceof Error ? error.message : String(error),
-      });
+    return null;
+  },
+});
+
+/**
+ * Write a table from a document into a sheet once the user has reviewed its
+ * headers, column types and rows in the import wizard
+ */
+export const importDocumentTable = mutation({
+  args: {
+    documentId: v.id("documents"),
+    headers: v.array(v.string()),
+    columnTypes: v.array(importColumnTypeValidator),
+    dataRows: v.array(v.array(v.string())),
+    target: importTargetValidator,
+    sheetName: v.string(),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    message: v.string(),
+    rowsCreated: v.number(),
+  }),
+  handler: async (ctx, args) => {
+    const document = await ctx.db.get(args.documentId);
+    if (!document) throw new Error("Document not found");
+
+    // Documents belong to their spreadsheet, so anyone who can edit it can import from them
+    const { user } = await requireSpreadsheetAccess(ctx, document.spreadsheetId);
+
+    const sheetName = args.sheetName.trim();
+    if (!sheetName) {
+      throw new Error("Choose a sheet to import into");
+    }
+    if (args.headers.length === 0) {
+      throw new Error("The table has no columns to import");
+    }
+    if (args.columnTypes.length !== args.headers.length) {
+      throw new Error("Every column needs a type");
     }
 
-    return null;
+    // Typed explicitly because the result comes back through the generated api
+    const result: { success: boolean; message: string; rowsCreated: number } = await ctx.runMutation(
+      internal.spreadsheets.internalCreateTableFromDocument,
+      {
+        spreadsheetId: document.spreadsheetId,
+        ownerId: user._id,
+        headers: args.headers,
+        dataRows: args.dataRows,
+        columnTypes: args.columnTypes,
+        sheetName,
+        mode: args.target,
+        source: "user",
+        label: `Imported table from ${document.fileName}`,
+      }
+    );
+    return result;
+  },
+});
+
+/**
+ * Documents of a spreadsheet that are waiting for or going through processing,
+ * oldest first
+ */
+export const getProcessingQueue = query({
+  args: {
+    spreadsheetId: v.id("spreadsheets"),
+  },
+  returns: v.array(
+    v.object({
+      _id: v.id("documents"),
+      fileName: v.string(),
+      processingStatus: v.union(v.literal("pending"), v.literal("processing")),
+      pageCount: v.optional(v.number()),
+      processedPages: v.optional(v.number()),
+      attempts: v.optional(v.number()),
+      errorMessage: v.optional(v.string()),
+    })
+  ),
+  handler: async (ctx, args) => {
+    await requireSpreadsheetAccess(ctx, args.spreadsheetId);
+
+    const queue = [];
+    for (const status of ["processing", "pending"] as const) {
+      const documents = await ctx.db
+        .query("documents")
+        .withIndex("by_status", (q) => q.eq("processingStatus", status))
+        .filter((q) => q.eq(q.field("spreadsheetId"), args.spreadsheetId))
+        .collect();
+
+      for (const document of documents) {
+        queue.push({
+          _id: document._id,
+          fileName: document.fileName,
+          processingStatus: status,
+          pageCount: document.pageCount,
+          processedPages: document.processedPages,
+          attempts: document.attempts,
+          errorMessage: document.errorMessage,
+        });
+      }
+    }
+
+    return queue;
   },
 });
 
@@ -278,11 +366,14 @@ export const internalGetDocument = internalQuery({
       conversationId: v.optional(v.id("aiConversations")),
       ownerId: v.id("users"),
       fileName: v.string(),
-      fileType: v.union(v.literal("pdf"), v.literal("docx")),
+      fileType: documentFileTypeValidator,
       storageId: v.id("_storage"),
       extractedText: v.optional(v.string()),
       extractedTables: v.optional(v.string()),
       pageCount: v.optional(v.number()),
+      processedPages: v.optional(v.number()),
+      attempts: v.optional(v.number()),
+      processingStartedAt: v.optional(v.number()),
       processingStatus: v.union(
         v.literal("pending"),
         v.literal("processing"),
@@ -348,12 +439,157 @@ export const updateDocumentContent = internalMutation({
       extractedTables: args.extractedTables,
       pageCount: args.pageCount,
       processingStatus: args.status,
+      errorMessage: undefined,
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+/**
+ * Claim a queued document for processing. Returns null when the document was
+ * deleted, has already been processed or another run is working on it.
+ */
+export const startDocumentProcessing = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+  },
+  returns: v.union(
+    v.object({
+      storageId: v.id("_storage"),
+      fileType: documentFileTypeValidator,
+      attempt: v.number(),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const document = await ctx.db.get(args.documentId);
+    if (!document || document.processingStatus === "completed") {
+      return null;
+    }
+
+    const now = Date.now();
+    if (
+      document.processingStatus === "processing" &&
+      now - (document.processingStartedAt ?? 0) < PROCESSING_TIMEOUT_MS
+    ) {
+      return null;
+    }
+
+    const attempt = (document.attempts ?? 0) + 1;
+    await ctx.db.patch(args.documentId, {
+      processingStatus: "processing",
+      processingStartedAt: now,
+      attempts: attempt,
+      processedPages: 0,
+      updatedAt: now,
+    });
+
+    return { storageId: document.storageId, fileType: document.fileType, attempt };
+  },
+});
+
+/**
+ * Record how many pages of a document have been read
+ */
+export const updateDocumentProgress = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    processedPages: v.number(),
+    pageCount: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const document = await ctx.db.get(args.documentId);
+    if (!document) return null;
+
+    await ctx.db.patch(args.documentId, {
+      processedPages: args.processedPages,
+      pageCount: args.pageCount,
       updatedAt: Date.now(),
     });
     return null;
   },
 });
 
+// End a processing run that failed: queue a retry with backoff until the
+// attempts run out, then mark the document failed
+async function failProcessingRun(
+  ctx: MutationCtx,
+  document: Doc<"documents">,
+  errorMessage: string,
+  retry: boolean
+): Promise<void> {
+  const attempts = document.attempts ?? 1;
+  if (!retry || attempts >= MAX_PROCESSING_ATTEMPTS) {
+    await ctx.db.patch(document._id, {
+      processingStatus: "failed",
+      errorMessage,
+      updatedAt: Date.now(),
+    });
+    return;
+  }
+
+  await ctx.db.patch(document._id, {
+    processingStatus: "pending",
+    errorMessage,
+    updatedAt: Date.now(),
+  });
+  await ctx.scheduler.runAfter(
+    RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+    internal.documentProcessing.processDocument,
+    { documentId: document._id }
+  );
+}
+
+/**
+ * Record a failed processing run and queue a retry with backoff until the
+ * attempts run out. Failures that cannot go away on their own, such as a
+ * missing OCR engine, pass retry: false.
+ */
+export const recordProcessingFailure = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    errorMessage: v.string(),
+    retry: v.optional(v.boolean()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const document = await ctx.db.get(args.documentId);
+    if (!document) return null;
+
+    await failProcessingRun(ctx, document, args.errorMessage, args.retry !== false);
+    return null;
+  },
+});
+
+/**
+ * Retry or fail documents whose processing run stopped without finishing,
+ * e.g. because the action crashed or timed out
+ */
+export const requeueStalledDocuments = internalMutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const cutoff = Date.now() - PROCESSING_TIMEOUT_MS;
+    const stalled = (
+      await ctx.db
+        .query("documents")
+        .withIndex("by_status", (q) => q.eq("processingStatus", "processing"))
+        .collect()
+    ).filter((document) => (document.processingStartedAt ?? 0) < cutoff);
+
+    for (const document of stalled) {
+      await failProcessingRun(ctx, document, "Processing did not finish in time", true);
+    }
+
+    if (stalled.length > 0) {
+      console.log(`🔁 Requeued ${stalled.length} stalled document processing runs`);
+    }
+    return stalled.length;
+  },
+});
+
 /**
  * Get documents for a conversation
  */
@@ -369,11 +605,14 @@ export const getConversationDocuments = internalQuery({
       conversationId: v.optional(v.id("aiConversations")),
       ownerId: v.id("users"),
       fileName: v.string(),
-      fileType: v.union(v.literal("pdf"), v.literal("docx")),
+      fileType: documentFileTypeValidator,
       storageId: v.id("_storage"),
       extractedText: v.optional(v.string()),
       extractedTables: v.optional(v.string()),
       pageCount: v.optional(v.number()),
+      processedPages: v.optional(v.number()),
+      attempts: v.optional(v.number()),
+      processingStartedAt: v.optional(v.number()),
       processingStatus: v.union(
         v.literal("pending"),
         v.literal("processing"),
@@ -2,6 +2,9 @@ import { query, mutation, action, internalQuery, internalMutation } from "./_gen
 import { v } from "convex/values";
 import { Id } from "./_generated/dataModel";
 import { internal } from "./_generated/api";
+import { findSheetIndex } from "./lib/sheetCodec";
+import { diffWorkbooks } from "./lib/sheetOps";
+import { commitSheetOps, loadWorkbook, saveWorkbook } from "./lib/sheetStorage";
 
 // Encryption utilities using base64 (Convex-compatible)
 function encrypt(text: string, key: string): string {
@@ -631,7 +634,6 @@ export const createSpreadsheetWithImport = internalMutation({
       ownerId: user._id,
       createdAt: now,
       updatedAt: now,
-      data: JSON.stringify([]),
     });
 
     // Transform Airtable data to x-spreadsheet format
@@ -687,10 +689,7 @@ export const createSpreadsheetWithImport = internalMutation({
     // Update spreadsheet with data
     const sheetData = [sheet];
     console.log("Storing spreadsheet data:", JSON.stringify(sheetData).substring(0, 500));
-    await ctx.db.patch(spreadsheetId, {
-      data: JSON.stringify(sheetData),
-      updatedAt: now,
-    });
+    await saveWorkbook(ctx, spreadsheetId, sheetData);
 
     // Create import record
     const importId = await ctx.db.insert("airtableImports", {
@@ -931,6 +930,55 @@ export const getImportRecord = internalQuery({
   },
 });
 
+/**
+ * Replace the imported table's sheet with freshly synced records. Goes
+ * through the op log so open editors pick the change up; other sheets of the
+ * spreadsheet are left alone.
+ */
+export const saveAirtableSync = internalMutation({
+  args: {
+    importId: v.id("airtableImports"),
+    sheet: v.any(),
+    recordCount: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const importRecord = await ctx.db.get(args.importId);
+    if (!importRecord) {
+      throw new Error("Import record not found");
+    }
+
+    const spreadsheet = await ctx.db.get(importRecord.spreadsheetId);
+    if (!spreadsheet) {
+      throw new Error("Spreadsheet not found");
+    }
+
+    const current = await loadWorkbook(ctx, spreadsheet);
+    const next = [...current];
+    const sheetIndex = findSheetIndex(next, args.sheet.name);
+    if (sheetIndex === -1) {
+      next.push(args.sheet);
+    } else {
+      next[sheetIndex] = { ...args.sheet, name: next[sheetIndex].name };
+    }
+
+    await commitSheetOps(ctx, spreadsheet, diffWorkbooks(current, next), {
+      authorId: importRecord.userId,
+      source: "user",
+      label: "Synced from Airtable",
+    });
+
+    const now = Date.now();
+    await ctx.db.patch(args.importId, {
+      lastSyncedAt: now,
+      recordCount: args.recordCount,
+      updatedAt: now,
+    });
+
+    return null;
+  },
+});
+
 /**
  * Sync Airtable data for an existing import
  */
@@ -981,15 +1029,6 @@ export const syncAirtableData = action({
       const data = await response.json();
       const records = data.records || [];
 
-      // Update spreadsheet data
-      const spreadsheet = await ctx.db.get(importData.spreadsheetId);
-      if (!spreadsheet) {
-        return {
-          success: false,
-          message: "Spreadsheet not found",
-        };
-      }
-
       // Transform data (same logic as import)
       const fieldNames = records.length > 0 ? Object.keys(records[0].fields) : [];
       
@@ -1042,19 +1081,10 @@ export const syncAirtableData = action({
         cols: { len: Math.max(26, fieldNames.length) },
       };
 
-      const now = Date.now();
-      
-      // Update spreadsheet
-      await ctx.db.patch(importData.spreadsheetId, {
-        data: JSON.stringify([sheet]),
-        updatedAt: now,
-      });
-
-      // Update import record
-      await ctx.db.patch(args.importId, {
-        lastSyncedAt: now,
+      await ctx.runMutation(internal.integrations.saveAirtableSync, {
+        importId: args.importId,
+        sheet,
         recordCount: records.length,
-        updatedAt: now,
       });
 
       return {
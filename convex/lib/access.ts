@@ -0,0 +1,72 @@
+import { Auth } from "convex/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { DatabaseReader } from "../_generated/server";
+
+type AuthCtx = { db: DatabaseReader; auth: Auth };
+
+/**
+ * Whether a user can work in a project: its owner and its members can
+ */
+export async function canAccessProject(
+  db: DatabaseReader,
+  project: Doc<"projects">,
+  userId: Id<"users">
+): Promise<boolean> {
+  if (project.ownerId === userId) return true;
+
+  const member = await db
+    .query("projectMembers")
+    .withIndex("by_project_user", (q) => q.eq("projectId", project._id).eq("userId", userId))
+    .unique();
+  return member !== null;
+}
+
+/**
+ * Whether a user can open and edit a spreadsheet: its owner, the owner of its
+ * project and the members of that project can
+ */
+export async function canAccessSpreadsheet(
+  db: DatabaseReader,
+  spreadsheet: Doc<"spreadsheets">,
+  userId: Id<"users">
+): Promise<boolean> {
+  if (spreadsheet.ownerId === userId) return true;
+
+  const project = await db.get(spreadsheet.projectId);
+  return project !== null && (await canAccessProject(db, project, userId));
+}
+
+/**
+ * Resolve the signed-in user and a spreadsheet they can access, throwing
+ * otherwise. Every endpoint a project member can use goes through this:
+ * editing, presence, history, charts, import/export and documents.
+ */
+export async function requireSpreadsheetAccess(
+  ctx: AuthCtx,
+  spreadsheetId: Id<"spreadsheets">
+): Promise<{ user: Doc<"users">; spreadsheet: Doc<"spreadsheets"> }> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error("Not authenticated");
+  }
+
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+    .unique();
+
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  const spreadsheet = await ctx.db.get(spreadsheetId);
+  if (!spreadsheet) {
+    throw new Error("Spreadsheet not found");
+  }
+
+  if (!(await canAccessSpreadsheet(ctx.db, spreadsheet, user._id))) {
+    throw new Error("Not authorized to access this spreadsheet");
+  }
+
+  return { user, spreadsheet };
+}
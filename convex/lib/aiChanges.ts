@@ -0,0 +1,88 @@
+import { Infer, v } from "convex/values";
+import * as XLSX from "xlsx";
+import { Id } from "../_generated/dataModel";
+import { DatabaseWriter } from "../_generated/server";
+import { SheetOp } from "./sheetOps";
+
+/**
+ * Structured record of the changes an assistant message applied, stored on
+ * the message so they can be listed and undone from the chat.
+ */
+
+export const appliedChangesValidator = v.object({
+  sheetsCreated: v.array(v.string()),
+  rangesWritten: v.array(v.object({ sheetName: v.string(), range: v.string() })),
+  chartIds: v.array(v.id("charts")),
+  dashboardIds: v.array(v.id("dashboards")),
+  // Spreadsheet versions produced by the changes, used to revert them
+  commits: v.array(v.object({ baseVersion: v.number(), version: v.number() })),
+  undoneAt: v.optional(v.number()),
+});
+
+export type AppliedChanges = Infer<typeof appliedChangesValidator>;
+
+export interface AppliedChange {
+  commit?: { baseVersion: number; version: number; ops: SheetOp[] };
+  chartId?: Id<"charts">;
+  dashboardId?: Id<"dashboards">;
+}
+
+type WriterCtx = { db: DatabaseWriter };
+
+function emptyChanges(): AppliedChanges {
+  return { sheetsCreated: [], rangesWritten: [], chartIds: [], dashboardIds: [], commits: [] };
+}
+
+// Bounding A1 range of the cells each sheet's operations wrote
+function writtenRanges(ops: SheetOp[]): Array<{ sheetName: string; range: string }> {
+  const bounds = new Map<string, XLSX.Range>();
+  const extend = (sheet: string, sri: number, sci: number, eri: number, eci: number) => {
+    const range = bounds.get(sheet);
+    if (!range) {
+      bounds.set(sheet, { s: { r: sri, c: sci }, e: { r: eri, c: eci } });
+      return;
+    }
+    range.s.r = Math.min(range.s.r, sri);
+    range.s.c = Math.min(range.s.c, sci);
+    range.e.r = Math.max(range.e.r, eri);
+    range.e.c = Math.max(range.e.c, eci);
+  };
+
+  for (const op of ops) {
+    if (op.type === "setCell") {
+      extend(op.sheet, op.row, op.col, op.row, op.col);
+    } else if (op.type === "applyStyle") {
+      extend(op.sheet, op.range.sri, op.range.sci, op.range.eri, op.range.eci);
+    }
+  }
+
+  return [...bounds].map(([sheetName, range]) => ({ sheetName, range: XLSX.utils.encode_range(range) }));
+}
+
+/**
+ * Add a change to the record of an assistant message
+ */
+export async function recordAppliedChange(
+  ctx: WriterCtx,
+  messageId: Id<"aiMessages">,
+  change: AppliedChange
+): Promise<void> {
+  const message = await ctx.db.get(messageId);
+  if (!message) return;
+
+  const changes = message.appliedChanges ?? emptyChanges();
+  if (change.commit) {
+    const { baseVersion, version, ops } = change.commit;
+    changes.commits.push({ baseVersion, version });
+    for (const op of ops) {
+      if (op.type === "addSheet" && !changes.sheetsCreated.includes(op.sheet)) {
+        changes.sheetsCreated.push(op.sheet);
+      }
+    }
+    changes.rangesWritten.push(...writtenRanges(ops));
+  }
+  if (change.chartId) changes.chartIds.push(change.chartId);
+  if (change.dashboardId) changes.dashboardIds.push(change.dashboardId);
+
+  await ctx.db.patch(messageId, { appliedChanges: changes });
+}
@@ -0,0 +1,27 @@
+import { Infer, v } from "convex/values";
+
+/**
+ * Chart the assistant proposes with a reply. The model fills it in through
+ * the createChart tool, which checks it against the sheet; the chart is shown
+ * in the chat and only added to the spreadsheet when the user pins it.
+ */
+
+export const chartSpecValidator = v.object({
+  type: v.union(
+    v.literal("line"),
+    v.literal("bar"),
+    v.literal("area"),
+    v.literal("pie"),
+  ),
+  range: v.string(), // Includes the header row, e.g. "A1:D6"
+  sheetName: v.optional(v.string()),
+  title: v.optional(v.string()),
+  // Header of the column used for the labels (x axis or pie slices)
+  labelColumn: v.optional(v.string()),
+  // Headers of the columns plotted as series; other columns in the range are left out
+  series: v.optional(v.array(v.string())),
+  xAxisLabel: v.optional(v.string()),
+  yAxisLabel: v.optional(v.string()),
+});
+
+export type ChartSpec = Infer<typeof chartSpecValidator>;
@@ -0,0 +1,353 @@
+import * as XLSX from "xlsx";
+import { ComputedSheet, computedValueToText, evaluateWorkbook, getComputedValue } from "./formulas";
+import { findSheetIndex } from "./sheetCodec";
+
+/**
+ * Context planner for the assistant. Every sheet is described by a schema
+ * summary; full rows are only sent for the user's selection and the active
+ * sheet, within a token budget. Anything else is read on demand through the
+ * readRange tool.
+ */
+
+export interface ContextInput {
+  spreadsheetData: { name: string; data: string } | null;
+  selectedRange?: string;
+  activeSheetName?: string;
+  // Summary of the conversation before the messages the thread replays
+  conversationSummary?: string;
+  documents?: any[];
+  // Approximate number of tokens the context may use
+  tokenBudget: number;
+}
+
+type ColumnType = "number" | "date" | "boolean" | "text" | "mixed" | "empty";
+
+interface SheetSummary {
+  name: string;
+  // Used range of the sheet, undefined when the sheet is empty
+  usedRange?: XLSX.Range;
+  headerRow: number;
+  dataRowCount: number;
+  columns: Array<{ letter: string; header: string; type: ColumnType }>;
+}
+
+// Rows sampled per column to infer its type
+const TYPE_SAMPLE_ROWS = 200;
+// Characters of document text shown at most per document
+const MAX_DOCUMENT_CHARS = 5000;
+// Cells returned at most by one readRange call
+export const MAX_READ_CELLS = 2000;
+
+const DATE_PATTERN = /^(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4})$/;
+
+/**
+ * Rough token count of a text, about four characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Bounds of the cells holding any text
+function getUsedRange(sheet: any): XLSX.Range | undefined {
+  let range: XLSX.Range | undefined;
+  for (const [rowKey, row] of Object.entries<any>(sheet?.rows || {})) {
+    const r = parseInt(rowKey, 10);
+    if (isNaN(r)) continue;
+    for (const [colKey, cell] of Object.entries<any>(row?.cells || {})) {
+      const c = parseInt(colKey, 10);
+      if (isNaN(c) || cell?.text === undefined || cell.text === "") continue;
+      if (!range) {
+        range = { s: { r, c }, e: { r, c } };
+      } else {
+        range.s.r = Math.min(range.s.r, r);
+        range.s.c = Math.min(range.s.c, c);
+        range.e.r = Math.max(range.e.r, r);
+        range.e.c = Math.max(range.e.c, c);
+      }
+    }
+  }
+  return range;
+}
+
+function inferColumnType(computed: ComputedSheet, col: number, firstRow: number, lastRow: number): ColumnType {
+  const seen = new Set<ColumnType>();
+  const end = Math.min(lastRow, firstRow + TYPE_SAMPLE_ROWS - 1);
+  for (let r = firstRow; r <= end; r++) {
+    const value = getComputedValue(computed, r, col);
+    if (value === "") continue;
+    if (typeof value === "number") {
+      seen.add("number");
+    } else if (typeof value === "boolean") {
+      seen.add("boolean");
+    } else if (value.trim() !== "" && !isNaN(Number(value))) {
+      seen.add("number");
+    } else if (DATE_PATTERN.test(value.trim())) {
+      seen.add("date");
+    } else {
+      seen.add("text");
+    }
+  }
+  if (seen.size === 0) return "empty";
+  return seen.size === 1 ? [...seen][0] : "mixed";
+}
+
+function summarizeSheet(sheet: any, computed: ComputedSheet): SheetSummary {
+  const usedRange = getUsedRange(sheet);
+  if (!usedRange) {
+    return { name: sheet.name, headerRow: -1, dataRowCount: 0, columns: [] };
+  }
+
+  // The first used row is taken as the header row
+  const headerRow = usedRange.s.r;
+  const columns: SheetSummary["columns"] = [];
+  for (let c = usedRange.s.c; c <= usedRange.e.c; c++) {
+    columns.push({
+      letter: XLSX.utils.encode_col(c),
+      header: computedValueToText(getComputedValue(computed, headerRow, c)),
+      type: inferColumnType(computed, c, headerRow + 1, usedRange.e.r),
+    });
+  }
+
+  return { name: sheet.name, usedRange, headerRow, dataRowCount: usedRange.e.r - headerRow, columns };
+}
+
+function formatSummary(summary: SheetSummary): string {
+  if (!summary.usedRange) {
+    return `- "${summary.name}": empty\n`;
+  }
+  let text = `- "${summary.name}": used range ${XLSX.utils.encode_range(summary.usedRange)}, header in row ${summary.headerRow + 1}, ${summary.dataRowCount} data row(s)\n`;
+  text += `  Columns: ${summary.columns
+    .map((column) => `${column.letter} "${column.header}" (${column.type})`)
+    .join(", ")}\n`;
+  return text;
+}
+
+/**
+ * Render the rows of a range as "Row N: a | b | c" lines until the token
+ * budget runs out. Returns the text and the last row that was included.
+ */
+function renderRows(
+  computed: ComputedSheet,
+  range: XLSX.Range,
+  tokenBudget: number
+): { text: string; lastRow: number } {
+  let text = "";
+  let lastRow = range.s.r - 1;
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const values: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      values.push(computedValueToText(getComputedValue(computed, r, c)));
+    }
+    if (values.every((value) => value === "")) {
+      lastRow = r;
+      continue;
+    }
+
+    const line = `Row ${r + 1}: ${values.join(" | ")}\n`;
+    if (estimateTokens(text + line) > tokenBudget) break;
+    text += line;
+    lastRow = r;
+  }
+  return { text, lastRow };
+}
+
+// Parse an A1 range, returning undefined for anything else
+function parseRange(range: string | undefined): XLSX.Range | undefined {
+  if (!range || !/^[A-Za-z]{1,3}[1-9][0-9]*(:[A-Za-z]{1,3}[1-9][0-9]*)?$/.test(range.trim())) {
+    return undefined;
+  }
+  return XLSX.utils.decode_range(range.trim().toUpperCase());
+}
+
+function describeDocuments(documents: any[], tokenBudget: number): string {
+  let context = "\n=== UPLOADED DOCUMENTS ===\n";
+  // Share the budget between documents so one long file cannot crowd out the rest
+  const perDocumentTokens = Math.floor(tokenBudget / documents.length);
+
+  documents.forEach((doc, idx) => {
+    context += `\n--- DOCUMENT ${idx + 1}: "${doc.fileName}" (${doc.fileType.toUpperCase()}) ---\n`;
+    let docTokens = perDocumentTokens;
+
+    let tables: any[] = [];
+    try {
+      tables = JSON.parse(doc.extractedTables || "[]");
+    } catch {
+      // Unreadable extraction results count as no tables
+    }
+    if (tables.length > 0) {
+      context += "Tables found in document (import them with importDocumentTable):\n";
+      tables.forEach((table: any, tableIdx: number) => {
+        const rows: string[][] = Array.isArray(table?.rows) ? table.rows : [];
+        context += `\nTable ${tableIdx + 1} (Page ${table.page}), ${rows.length} row(s):\n`;
+        let shown = 0;
+        for (const row of rows) {
+          const line = `  ${row.join(" | ")}\n`;
+          // Always show the header row
+          if (shown > 0 && estimateTokens(line) > docTokens) break;
+          context += line;
+          docTokens -= estimateTokens(line);
+          shown++;
+        }
+        if (shown < rows.length) {
+          context += `  (${rows.length - shown} more row(s) not shown)\n`;
+        }
+      });
+    }
+
+    if (doc.extractedText) {
+      const maxChars = Math.min(MAX_DOCUMENT_CHARS, docTokens * 4);
+      if (maxChars > 200) {
+        context += `Content:\n${doc.extractedText.substring(0, maxChars)}${doc.extractedText.length > maxChars ? "...(truncated)" : ""}\n`;
+      } else {
+        context += `Content: ${doc.extractedText.length} characters (not shown)\n`;
+      }
+    }
+  });
+
+  return context + "=== END OF UPLOADED DOCUMENTS ===\n";
+}
+
+/**
+ * Build the assistant context for a message within the token budget
+ */
+export function buildAIContext(input: ContextInput): string {
+  const documents = input.documents ?? [];
+
+  let context = "You are an AI assistant with access to the user's spreadsheet and uploaded documents. Every sheet is summarized below; full rows are included for the user's selection and the active sheet. Use the readRange tool to look at any other cells before answering questions about them. ";
+
+  let sheets: any[] = [];
+  if (input.spreadsheetData) {
+    try {
+      const data = JSON.parse(input.spreadsheetData.data);
+      if (Array.isArray(data)) sheets = data;
+    } catch (error) {
+      context += `\nError parsing spreadsheet data: ${error}\n`;
+    }
+  }
+
+  // Evaluate formulas once for the whole workbook so cross-sheet references resolve
+  const computedSheets = evaluateWorkbook(sheets);
+  const summaries = sheets.map((sheet, i) => summarizeSheet(sheet, computedSheets[i]));
+
+  if (sheets.length > 0) {
+    context += `\n\nSPREADSHEET: "${input.spreadsheetData?.name}"\n`;
+    context += `\n=== SHEETS (${sheets.length}) ===\n`;
+    context += summaries.map(formatSummary).join("");
+    context += "=== END OF SHEETS ===\n";
+  } else {
+    context += "\nNo spreadsheet data available.\n";
+  }
+
+  let instructions = "\nIMPORTANT INSTRUCTIONS:\n\n";
+  instructions += "When the user asks you to CHANGE the spreadsheet (create tables, write cells, add charts or dashboards, import document tables):\n";
+  instructions += "- Use the provided tools; never claim a change was made unless a tool call succeeded\n";
+  instructions += "- Edit existing tables with writeRange instead of creating new ones\n";
+  instructions += "- For tables from documents, use importDocumentTable - DO NOT make up table contents\n";
+  instructions += "- For charts, use createChart with the exact column headers; the chart is shown in the chat and the user can pin it to the spreadsheet\n";
+  instructions += "- If a tool fails, explain the error to the user\n\n";
+  instructions += "When the user asks a QUESTION about the data, answer it from the rows shown below. If they are not shown, read them with readRange first; never guess cell values.\n";
+  instructions += "For questions that find, filter, sort, group or total rows (e.g. \"orders over $500 from March\"), use queryData and report the numbers it returns; the user sees the plan and its result.\n\n";
+  instructions += "For all requests:\n";
+  instructions += "- Provide detailed analysis based on actual data\n";
+  instructions += "- Be specific and accurate with column names, values, and sheet names";
+
+  let remaining = input.tokenBudget - estimateTokens(context + instructions);
+
+  // Earlier conversation; the recent messages are replayed from the thread
+  let conversation = "";
+  if (input.conversationSummary) {
+    conversation = `\n=== EARLIER CONVERSATION (SUMMARY) ===\n${input.conversationSummary}\n=== END OF SUMMARY ===\n`;
+    remaining -= estimateTokens(conversation);
+  }
+
+  // Rows of the selection first, then the rest of the active sheet
+  const activeIndex = input.activeSheetName ? findSheetIndex(sheets, input.activeSheetName) : -1;
+  const activeSheetIndex = activeIndex === -1 ? 0 : activeIndex;
+  const activeSummary = summaries[activeSheetIndex];
+  if (activeSummary) {
+    context += `\nCurrently active sheet: "${activeSummary.name}"\n`;
+
+    const selection = parseRange(input.selectedRange);
+    if (selection) {
+      context += `User selected range: "${XLSX.utils.encode_range(selection)}"\n`;
+      const rows = renderRows(computedSheets[activeSheetIndex], selection, remaining);
+      let section = `\n=== SELECTED RANGE ${XLSX.utils.encode_range(selection)} ===\n`;
+      section += rows.text || "(empty)\n";
+      if (rows.lastRow < selection.e.r) {
+        section += `(rows ${rows.lastRow + 2}-${selection.e.r + 1} not shown; use readRange)\n`;
+      }
+      section += "=== END OF SELECTED RANGE ===\n";
+      context += section;
+      remaining -= estimateTokens(section);
+    }
+
+    const usedRange = activeSummary.usedRange;
+    if (usedRange && remaining > 0) {
+      // Leave room for document excerpts
+      const sheetBudget = documents.length > 0 ? Math.floor(remaining * 0.7) : remaining;
+      const rows = renderRows(computedSheets[activeSheetIndex], usedRange, sheetBudget);
+      let section = `\n=== ACTIVE SHEET "${activeSummary.name}" ===\n`;
+      section += rows.text;
+      if (rows.lastRow < usedRange.e.r) {
+        section += `(rows ${rows.lastRow + 2}-${usedRange.e.r + 1} not shown; use readRange)\n`;
+      }
+      section += "=== END OF ACTIVE SHEET ===\n";
+      context += section;
+      remaining -= estimateTokens(section);
+    }
+  }
+
+  if (documents.length > 0) {
+    context += describeDocuments(documents, Math.max(remaining, 0));
+  }
+
+  return context + conversation + instructions;
+}
+
+/**
+ * Read the computed values of a range, capped at MAX_READ_CELLS cells
+ */
+export function readSheetRange(
+  sheets: any[],
+  sheetName: string,
+  range: string
+): { sheetName: string; range: string; rows: string[][]; truncated: boolean } {
+  const sheetIndex = findSheetIndex(sheets, sheetName);
+  if (sheetIndex === -1) {
+    throw new Error(`Sheet "${sheetName}" not found`);
+  }
+
+  const bounds = parseRange(range);
+  if (!bounds) {
+    throw new Error(`Invalid range "${range}"`);
+  }
+
+  // Clip to the cells actually in use so whole-column ranges stay small
+  const usedRange = getUsedRange(sheets[sheetIndex]);
+  if (!usedRange || usedRange.e.r < bounds.s.r || usedRange.e.c < bounds.s.c) {
+    return { sheetName: sheets[sheetIndex].name, range: XLSX.utils.encode_range(bounds), rows: [], truncated: false };
+  }
+  bounds.e.r = Math.min(bounds.e.r, usedRange.e.r);
+  bounds.e.c = Math.min(bounds.e.c, usedRange.e.c);
+
+  const width = Math.max(bounds.e.c - bounds.s.c + 1, 1);
+  const maxRows = Math.max(Math.floor(MAX_READ_CELLS / width), 1);
+  const lastRow = Math.min(bounds.e.r, bounds.s.r + maxRows - 1);
+
+  const computed = evaluateWorkbook(sheets)[sheetIndex];
+  const rows: string[][] = [];
+  for (let r = bounds.s.r; r <= lastRow; r++) {
+    const row: string[] = [];
+    for (let c = bounds.s.c; c <= bounds.e.c; c++) {
+      row.push(computedValueToText(getComputedValue(computed, r, c)));
+    }
+    rows.push(row);
+  }
+
+  return {
+    sheetName: sheets[sheetIndex].name,
+    range: XLSX.utils.encode_range({ s: bounds.s, e: { r: lastRow, c: bounds.e.c } }),
+    rows,
+    truncated: lastRow < bounds.e.r,
+  };
+}
@@ -0,0 +1,107 @@
+import { Doc, Id } from "../_generated/dataModel";
+import { DatabaseReader } from "../_generated/server";
+import { hasDeploymentKey, isKeylessProvider } from "./aiProviders";
+
+/**
+ * Users' own LLM provider keys. Keys are encrypted with AES-GCM under the
+ * AI_KEY_ENCRYPTION_SECRET deployment secret and only decrypted inside
+ * actions that call the provider.
+ */
+
+type KeyProvider = Doc<"aiProviderKeys">["provider"];
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(Array.from(atob(text), (char) => char.charCodeAt(0)));
+}
+
+async function getEncryptionKey(): Promise<CryptoKey> {
+  const secret = process.env.AI_KEY_ENCRYPTION_SECRET;
+  if (!secret) {
+    throw new Error("AI_KEY_ENCRYPTION_SECRET is not set, so provider keys cannot be stored");
+  }
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret));
+  return await crypto.subtle.importKey("raw", digest, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+/**
+ * Encrypt a provider key for storage, as "<iv>.<ciphertext>" in base64
+ */
+export async function encryptApiKey(apiKey: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await getEncryptionKey(),
+    new TextEncoder().encode(apiKey)
+  );
+  return `${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypt a key produced by encryptApiKey
+ */
+export async function decryptApiKey(encryptedKey: string): Promise<string> {
+  const [iv, ciphertext] = encryptedKey.split(".");
+  if (!iv || !ciphertext) {
+    throw new Error("Stored provider key is malformed");
+  }
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv) },
+    await getEncryptionKey(),
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * The key a user's request should use: the one limited to the project if
+ * there is one, otherwise the user's key for all projects
+ */
+export async function findProviderKey(
+  db: DatabaseReader,
+  ownerId: Id<"users">,
+  provider: string,
+  projectId?: Id<"projects">
+): Promise<Doc<"aiProviderKeys"> | null> {
+  if (projectId) {
+    const projectKey = await db
+      .query("aiProviderKeys")
+      .withIndex("by_owner_provider", (q) =>
+        q.eq("ownerId", ownerId).eq("provider", provider as KeyProvider).eq("projectId", projectId)
+      )
+      .unique();
+    if (projectKey) return projectKey;
+  }
+
+  return await db
+    .query("aiProviderKeys")
+    .withIndex("by_owner_provider", (q) =>
+      q.eq("ownerId", ownerId).eq("provider", provider as KeyProvider).eq("projectId", undefined)
+    )
+    .unique();
+}
+
+/**
+ * Throw unless the user has a key for the provider or the deployment
+ * provides one, so agents are not created that could never answer
+ */
+export async function requireProviderKey(
+  db: DatabaseReader,
+  ownerId: Id<"users">,
+  provider: string
+): Promise<void> {
+  if (hasDeploymentKey(provider) || isKeylessProvider(provider)) return;
+
+  const anyKey = await db
+    .query("aiProviderKeys")
+    .withIndex("by_owner_provider", (q) => q.eq("ownerId", ownerId).eq("provider", provider as KeyProvider))
+    .first();
+  if (!anyKey) {
+    throw new Error(`No ${provider} API key configured. Add your ${provider} key in the AI agent settings first.`);
+  }
+}
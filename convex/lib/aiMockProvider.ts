@@ -0,0 +1,191 @@
+import { LanguageModel, simulateReadableStream } from "ai";
+
+/**
+ * Mock language model that replays recorded responses instead of calling a
+ * provider, so the assistant pipeline (tool calls, streaming, charts,
+ * dashboards, usage) runs deterministically without API keys. Enabled for a
+ * whole deployment with AI_MOCK_PROVIDER; the recordings can be replaced by
+ * setting AI_MOCK_RECORDINGS to a JSON array of MockRecording.
+ */
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<LanguageModelV2["doGenerate"]>[0];
+type GenerateResult = Awaited<ReturnType<LanguageModelV2["doGenerate"]>>;
+type StreamPart = Awaited<ReturnType<LanguageModelV2["doStream"]>>["stream"] extends ReadableStream<infer T> ? T : never;
+
+export interface MockStep {
+  text?: string;
+  toolCalls?: Array<{ toolName: string; input: Record<string, unknown> }>;
+}
+
+export interface MockRecording {
+  name: string;
+  // Replayed when the user's message contains one of these (case-insensitive)
+  keywords: string[];
+  // One step per model call of the turn; the tool results of a step lead to the next
+  steps: MockStep[];
+}
+
+// Recorded against the employee data of test-data.csv imported as Sheet1
+const DEFAULT_RECORDINGS: MockRecording[] = [
+  {
+    name: "createTable",
+    keywords: ["create a table", "new table"],
+    steps: [
+      { toolCalls: [{ toolName: "createTable", input: { sheetName: "Employees", headers: ["Name", "Age", "City", "Salary"], numRows: 5 } }] },
+      { text: "I created an **Employees** table with the columns Name, Age, City and Salary and 5 empty rows." },
+    ],
+  },
+  {
+    name: "createChart",
+    keywords: ["chart", "graph", "plot"],
+    steps: [
+      { toolCalls: [{ toolName: "createChart", input: { sheetName: "Sheet1", type: "bar", labelColumn: "Name", series: ["Salary"], title: "Salary by employee", yAxisLabel: "Salary" } }] },
+      { text: "Here is a **bar chart** of the salary of each employee. Alice Brown has the highest salary at 90,000. Pin it to add it to the spreadsheet." },
+    ],
+  },
+  {
+    name: "createDashboard",
+    keywords: ["dashboard", "kpi"],
+    steps: [
+      { toolCalls: [{ toolName: "createDashboard", input: { focus: "salaries by city" } }] },
+      { text: "I built a KPI dashboard of the employee data, focused on salaries by city." },
+    ],
+  },
+  {
+    name: "computeStats",
+    keywords: ["average", "sum", "total"],
+    steps: [
+      { toolCalls: [{ toolName: "computeStats", input: { columnName: "Salary", operation: "average", sheetName: "Sheet1" } }] },
+      { text: "The average **Salary** is 77,200. I added it below the column." },
+    ],
+  },
+  {
+    name: "queryData",
+    keywords: ["more than", "over", "filter", "which"],
+    steps: [
+      { toolCalls: [{ toolName: "queryData", input: { sheetName: "Sheet1", title: "Salaries over 70000", filters: [{ column: "Salary", operator: "greaterThan", value: "70000" }], sort: [{ column: "Salary", direction: "desc" }] } }] },
+      { text: "**4 employees** earn more than 70,000: Alice Brown (90,000), Bob Johnson (82,000), John Doe (75,000) and Charlie Wilson (71,000). You can save the result as a new sheet." },
+    ],
+  },
+];
+
+const FALLBACK_STEP: MockStep = {
+  text: "This is a mock response. The spreadsheet has employee data with the columns Name, Age, City and Salary.",
+};
+
+// Characters per streamed chunk, so replies arrive in several deltas
+const CHUNK_CHARS = 24;
+
+/**
+ * Whether the deployment replaces every provider with the mock model
+ */
+export function isMockProviderEnabled(): boolean {
+  const value = process.env.AI_MOCK_PROVIDER;
+  return Boolean(value) && value !== "false" && value !== "0";
+}
+
+function loadRecordings(): MockRecording[] {
+  const custom = process.env.AI_MOCK_RECORDINGS;
+  if (!custom) return DEFAULT_RECORDINGS;
+  try {
+    return JSON.parse(custom) as MockRecording[];
+  } catch {
+    throw new Error("AI_MOCK_RECORDINGS is not a valid JSON array of recordings");
+  }
+}
+
+function promptText(parts: unknown): string {
+  if (typeof parts === "string") return parts;
+  if (!Array.isArray(parts)) return "";
+  return parts
+    .map((part) => (part?.type === "text" ? String(part.text) : ""))
+    .join(" ");
+}
+
+/**
+ * The step to replay for a call: the recording is chosen from the last user
+ * message and the step from the number of tool results since then. Calls
+ * without tools (e.g. summaries) only get text.
+ */
+function selectStep(options: CallOptions): MockStep {
+  const lastUserIndex = options.prompt.map((message) => message.role).lastIndexOf("user");
+  const userText = lastUserIndex >= 0 ? promptText(options.prompt[lastUserIndex].content).toLowerCase() : "";
+  const toolResults = options.prompt.slice(lastUserIndex + 1).filter((message) => message.role === "tool").length;
+
+  const toolNames = new Set((options.tools ?? []).map((tool) => tool.name));
+  const recording = loadRecordings().find((candidate) =>
+    candidate.keywords.some((keyword) => userText.includes(keyword.toLowerCase()))
+  );
+  const step = recording?.steps[Math.min(toolResults, recording.steps.length - 1)] ?? FALLBACK_STEP;
+
+  if (step.toolCalls?.some((call) => !toolNames.has(call.toolName))) {
+    return step.text ? { text: step.text } : FALLBACK_STEP;
+  }
+  return step;
+}
+
+// Deterministic token estimate of about 4 characters per token
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function stepUsage(options: CallOptions, step: MockStep) {
+  const inputTokens = estimateTokens(JSON.stringify(options.prompt));
+  const outputTokens = estimateTokens((step.text ?? "") + JSON.stringify(step.toolCalls ?? []));
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+function toolCallParts(step: MockStep) {
+  return (step.toolCalls ?? []).map((call, index) => ({
+    type: "tool-call" as const,
+    toolCallId: `mock-call-${index}`,
+    toolName: call.toolName,
+    input: JSON.stringify(call.input),
+  }));
+}
+
+/**
+ * Language model that replays the recordings
+ */
+export function createMockLanguageModel(modelName: string): LanguageModel {
+  const model: LanguageModelV2 = {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId: modelName,
+    supportedUrls: {},
+
+    doGenerate: async (options): Promise<GenerateResult> => {
+      const step = selectStep(options);
+      const toolCalls = toolCallParts(step);
+      return {
+        content: [...(step.text ? [{ type: "text" as const, text: step.text }] : []), ...toolCalls],
+        finishReason: toolCalls.length > 0 ? "tool-calls" : "stop",
+        usage: stepUsage(options, step),
+        warnings: [],
+      };
+    },
+
+    doStream: async (options) => {
+      const step = selectStep(options);
+      const toolCalls = toolCallParts(step);
+      const chunks: StreamPart[] = [{ type: "stream-start", warnings: [] }];
+
+      if (step.text) {
+        chunks.push({ type: "text-start", id: "mock-text" });
+        for (let i = 0; i < step.text.length; i += CHUNK_CHARS) {
+          chunks.push({ type: "text-delta", id: "mock-text", delta: step.text.substring(i, i + CHUNK_CHARS) });
+        }
+        chunks.push({ type: "text-end", id: "mock-text" });
+      }
+      chunks.push(...toolCalls, {
+        type: "finish",
+        finishReason: toolCalls.length > 0 ? "tool-calls" : "stop",
+        usage: stepUsage(options, step),
+      });
+
+      return { stream: simulateReadableStream({ chunks, initialDelayInMs: null, chunkDelayInMs: null }) };
+    },
+  };
+  return model;
+}
@@ -0,0 +1,79 @@
+import { Doc } from "../_generated/dataModel";
+import { DatabaseReader, DatabaseWriter } from "../_generated/server";
+
+/**
+ * Model registry: the models agents may use, with their context window,
+ * pricing and capabilities. The registry is seeded from the built-in list
+ * below and can be edited in the aiModels table.
+ */
+
+type ModelProvider = Doc<"aiModels">["provider"];
+
+export type ModelRegistryEntry = Omit<Doc<"aiModels">, "_id" | "_creationTime" | "createdAt" | "updatedAt">;
+
+const BUILT_IN_MODELS: ModelRegistryEntry[] = [
+  { provider: "openai", modelName: "gpt-4o", displayName: "GPT-4o", contextWindow: 128_000, inputCostPerMillion: 2.5, outputCostPerMillion: 10, supportsTools: true, supportsVision: true, supportsJsonMode: true, isActive: true },
+  { provider: "openai", modelName: "gpt-4o-mini", displayName: "GPT-4o mini", contextWindow: 128_000, inputCostPerMillion: 0.15, outputCostPerMillion: 0.6, supportsTools: true, supportsVision: true, supportsJsonMode: true, isActive: true },
+  { provider: "openai", modelName: "gpt-4-turbo", displayName: "GPT-4 Turbo", contextWindow: 128_000, inputCostPerMillion: 10, outputCostPerMillion: 30, supportsTools: true, supportsVision: true, supportsJsonMode: true, isActive: true },
+  { provider: "openai", modelName: "gpt-3.5-turbo", displayName: "GPT-3.5 Turbo", contextWindow: 16_385, inputCostPerMillion: 0.5, outputCostPerMillion: 1.5, supportsTools: true, supportsVision: false, supportsJsonMode: true, isActive: true },
+  { provider: "anthropic", modelName: "claude-3-5-sonnet-20241022", displayName: "Claude 3.5 Sonnet", contextWindow: 200_000, inputCostPerMillion: 3, outputCostPerMillion: 15, supportsTools: true, supportsVision: true, supportsJsonMode: false, isActive: true },
+  { provider: "anthropic", modelName: "claude-3-haiku-20240307", displayName: "Claude 3 Haiku", contextWindow: 200_000, inputCostPerMillion: 0.25, outputCostPerMillion: 1.25, supportsTools: true, supportsVision: true, supportsJsonMode: false, isActive: true },
+  { provider: "anthropic", modelName: "claude-3-opus-20240229", displayName: "Claude 3 Opus", contextWindow: 200_000, inputCostPerMillion: 15, outputCostPerMillion: 75, supportsTools: true, supportsVision: true, supportsJsonMode: false, isActive: true },
+  { provider: "google", modelName: "gemini-2.5-flash", displayName: "Gemini 2.5 Flash", contextWindow: 1_048_576, inputCostPerMillion: 0.3, outputCostPerMillion: 2.5, supportsTools: true, supportsVision: true, supportsJsonMode: true, isActive: true },
+  { provider: "google", modelName: "gemini-1.5-pro", displayName: "Gemini 1.5 Pro", contextWindow: 2_097_152, inputCostPerMillion: 1.25, outputCostPerMillion: 5, supportsTools: true, supportsVision: true, supportsJsonMode: true, isActive: true },
+  { provider: "google", modelName: "gemini-1.5-flash", displayName: "Gemini 1.5 Flash", contextWindow: 1_048_576, inputCostPerMillion: 0.075, outputCostPerMillion: 0.3, supportsTools: true, supportsVision: true, supportsJsonMode: true, isActive: true },
+  { provider: "mistral", modelName: "mistral-large-latest", displayName: "Mistral Large", contextWindow: 128_000, inputCostPerMillion: 2, outputCostPerMillion: 6, supportsTools: true, supportsVision: false, supportsJsonMode: true, isActive: true },
+  { provider: "mistral", modelName: "mistral-medium-latest", displayName: "Mistral Medium", contextWindow: 128_000, inputCostPerMillion: 0.4, outputCostPerMillion: 2, supportsTools: true, supportsVision: false, supportsJsonMode: true, isActive: true },
+  { provider: "mistral", modelName: "mistral-small-latest", displayName: "Mistral Small", contextWindow: 32_000, inputCostPerMillion: 0.2, outputCostPerMillion: 0.6, supportsTools: true, supportsVision: false, supportsJsonMode: true, isActive: true },
+];
+
+/**
+ * Insert the built-in models that are not in the registry yet
+ */
+export async function seedModelRegistry(db: DatabaseWriter): Promise<void> {
+  const now = Date.now();
+  for (const model of BUILT_IN_MODELS) {
+    const existing = await findModel(db, model.provider, model.modelName);
+    if (!existing) {
+      await db.insert("aiModels", { ...model, createdAt: now, updatedAt: now });
+    }
+  }
+}
+
+/**
+ * Registry entry of a model, or null when it is not registered
+ */
+export async function findModel(
+  db: DatabaseReader,
+  provider: string,
+  modelName: string
+): Promise<Doc<"aiModels"> | null> {
+  return await db
+    .query("aiModels")
+    .withIndex("by_provider_model", (q) => q.eq("provider", provider as ModelProvider).eq("modelName", modelName))
+    .unique();
+}
+
+/**
+ * Registry entry of a model an agent is about to use. Throws when the model
+ * is unknown or disabled.
+ */
+export async function requireRegisteredModel(
+  db: DatabaseWriter,
+  provider: string,
+  modelName: string
+): Promise<Doc<"aiModels">> {
+  // Deployments created before the registry start with an empty table
+  if ((await db.query("aiModels").first()) === null) {
+    await seedModelRegistry(db);
+  }
+
+  const model = await findModel(db, provider, modelName);
+  if (!model) {
+    throw new Error(`Unknown model "${modelName}" for provider ${provider}`);
+  }
+  if (!model.isActive) {
+    throw new Error(`Model "${modelName}" is no longer available`);
+  }
+  return model;
+}
@@ -0,0 +1,439 @@
+import { generateText, LanguageModel, stepCountIs, ToolSet } from "ai";
+import { internal } from "../_generated/api";
+import { Doc, Id } from "../_generated/dataModel";
+import { ActionCtx } from "../_generated/server";
+import { createReadOnlyTools, createSpreadsheetTools } from "./aiTools";
+import { buildAIContext } from "./aiContext";
+import { ChartSpec } from "./aiCharts";
+import { CleanupPlan } from "./dataCleaning";
+import { QueryResult } from "./queryPlans";
+import {
+  computeReportMetrics,
+  diffReportMetrics,
+  formatMetricChanges,
+  ReportMetric,
+  ReportMetricChange,
+} from "./aiReports";
+import { DEFAULT_MODEL, DEFAULT_PROVIDER, getContextTokenBudget, getLanguageModel } from "./aiProviders";
+import { decryptApiKey } from "./aiKeys";
+import { addUsage, TokenUsage } from "./aiUsage";
+import { AssistantThread, createThreadAgent, RECENT_THREAD_MESSAGES, resumeAssistantThread } from "./aiThreads";
+
+/**
+ * The assistant pipeline shared by every AI action: gather the spreadsheet,
+ * documents and conversation summary into a context, then stream the model's
+ * reply on the conversation's thread while it calls the spreadsheet tools.
+ * Scheduled reports reuse the context and model setup without a thread.
+ */
+
+export interface AssistantTurnArgs {
+  conversationId: Id<"aiConversations">;
+  userMessage: string;
+  selectedRange?: string;
+  activeSheetName?: string;
+  liveSpreadsheetData?: string;
+  agentId?: Id<"aiAgents">;
+}
+
+// Maximum number of model calls per turn, so tool results can be reported back
+const MAX_TOOL_STEPS = 5;
+
+const REPORT_INSTRUCTIONS = `This is a scheduled report; nobody is chatting with you and you cannot change the spreadsheet. Answer the report request from the data in a few short markdown sections, lead with the key figures, and call out what changed since the previous report. Use readRange for rows not shown above, queryData for filtered or grouped figures and createChart for charts worth including.`;
+
+interface AgentModel {
+  model: LanguageModel;
+  provider: string;
+  modelName: string;
+  modelInfo: Doc<"aiModels"> | null;
+}
+
+/**
+ * The language model of an agent, using the owner's own key for the
+ * provider when they stored one
+ */
+async function resolveAgentModel(
+  ctx: ActionCtx,
+  agent: any,
+  ownerId: Id<"users">,
+  spreadsheetId: Id<"spreadsheets">
+): Promise<AgentModel> {
+  const provider = agent?.provider || DEFAULT_PROVIDER;
+  const modelName = agent?.modelName || DEFAULT_MODEL;
+  const encryptedKey = await ctx.runQuery(internal.aiKeys.getProviderKeyForSpreadsheet, {
+    ownerId,
+    provider,
+    spreadsheetId,
+  });
+  const model = getLanguageModel(provider, modelName, {
+    apiKey: encryptedKey ? await decryptApiKey(encryptedKey) : undefined,
+    baseUrl: agent?.baseUrl,
+  });
+  const modelInfo = await ctx.runQuery(internal.aiModels.getModel, { provider, modelName });
+  return { model, provider, modelName, modelInfo };
+}
+
+/**
+ * Stream the assistant's reply into a message, letting the model call the
+ * spreadsheet tools along the way. The thread supplies the recent messages
+ * and records the exchange. A chart, cleanup plan or query result from a
+ * tool is attached to the message. Returns the tokens used across all steps.
+ */
+async function streamAssistantResponse(
+  ctx: ActionCtx,
+  messageId: Id<"aiMessages">,
+  context: string,
+  userMessage: string,
+  agent: any,
+  model: LanguageModel,
+  thread: AssistantThread,
+  tools: ToolSet
+): Promise<TokenUsage> {
+  const provider = agent?.provider || DEFAULT_PROVIDER;
+  const modelName = agent?.modelName || DEFAULT_MODEL;
+  let accumulatedContent = "";
+  let updateCounter = 0;
+
+  try {
+    console.log(`Starting streaming response with ${provider}/${modelName}`);
+
+    const threadAgent = createThreadAgent(agent?.name || "Assistant", model);
+    const result = await threadAgent.streamText(ctx, { threadId: thread.threadId, userId: thread.userId }, {
+      system: context + "\n\nIMPORTANT: Format your response with proper markdown. Use **bold** for important information, *italics* for emphasis, and structure your response clearly. Always be helpful and provide detailed analysis.",
+      prompt: userMessage,
+      tools,
+      stopWhen: stepCountIs(MAX_TOOL_STEPS),
+      temperature: 0.7,
+      maxOutputTokens: 2000,
+    }, {
+      contextOptions: { recentMessages: RECENT_THREAD_MESSAGES },
+    });
+
+    for await (const delta of result.textStream) {
+      accumulatedContent += delta;
+      updateCounter++;
+
+      // Only update every 3rd chunk or when content is short to reduce database calls
+      if (updateCounter % 3 === 0 || accumulatedContent.length < 100) {
+        await ctx.runMutation(internal.ai.updateStreamingMessage, {
+          messageId,
+          content: accumulatedContent,
+          isComplete: false,
+        });
+      }
+    }
+
+    let chartData: ChartSpec | undefined = undefined;
+    let cleanupPlan: CleanupPlan | undefined = undefined;
+    let queryResult: QueryResult | undefined = undefined;
+    const toolErrors: string[] = [];
+    for (const step of await result.steps) {
+      for (const part of step.content) {
+        if (part.type === "tool-result" && part.toolName === "createChart") {
+          chartData = (part.output as { chartData: ChartSpec }).chartData;
+        } else if (part.type === "tool-result" && part.toolName === "proposeCleanup") {
+          cleanupPlan = (part.output as { cleanupPlan: CleanupPlan }).cleanupPlan;
+        } else if (part.type === "tool-result" && part.toolName === "queryData") {
+          queryResult = (part.output as { queryResult: QueryResult }).queryResult;
+        } else if (part.type === "tool-error") {
+          toolErrors.push(`${part.toolName}: ${part.error instanceof Error ? part.error.message : String(part.error)}`);
+        }
+      }
+    }
+
+    // Tool failures are reported to the model, but make sure the user sees them too
+    if (!accumulatedContent.trim() && toolErrors.length > 0) {
+      accumulatedContent = `I couldn't complete that: ${toolErrors.join("; ")}`;
+    }
+
+    await ctx.runMutation(internal.ai.updateStreamingMessage, {
+      messageId,
+      content: accumulatedContent,
+      isComplete: true,
+      chartData,
+      cleanupPlan,
+      queryResult,
+    });
+
+    const usage = await result.totalUsage;
+    return { inputTokens: usage.inputTokens ?? 0, outputTokens: usage.outputTokens ?? 0 };
+  } catch (error) {
+    console.error("Error in streaming response:", error);
+
+    // Mark as complete with error message
+    await ctx.runMutation(internal.ai.updateStreamingMessage, {
+      messageId,
+      content: accumulatedContent || "I encountered an error while generating the response. Please try again.",
+      isComplete: true,
+    });
+
+    throw error;
+  }
+}
+
+/**
+ * Answer one user message in a conversation. Failures are reported back in
+ * the conversation rather than thrown.
+ */
+export async function runAssistantTurn(ctx: ActionCtx, args: AssistantTurnArgs): Promise<void> {
+  const startedAt = Date.now();
+  try {
+    console.log("Starting AI response generation for conversation:", args.conversationId);
+
+    const conversation = await ctx.runQuery(internal.ai.getConversationData, {
+      conversationId: args.conversationId,
+    });
+
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+
+    // Get agent configuration if provided
+    let agent = null;
+    if (args.agentId) {
+      agent = await ctx.runQuery(internal.aiAgents.getAgentData, {
+        agentId: args.agentId,
+      });
+      if (!agent) {
+        throw new Error("Agent not found");
+      }
+    }
+
+    // Use live data if available, otherwise fall back to database
+    let spreadsheetData = null;
+    if (args.liveSpreadsheetData) {
+      try {
+        JSON.parse(args.liveSpreadsheetData);
+        spreadsheetData = {
+          name: "Live Spreadsheet Data",
+          data: args.liveSpreadsheetData,
+        };
+      } catch (e) {
+        console.error("Error parsing live data:", e);
+      }
+    }
+
+    if (!spreadsheetData) {
+      console.log("Falling back to database data");
+      spreadsheetData = await ctx.runQuery(internal.ai.getSpreadsheetData, {
+        spreadsheetId: conversation.conversation.spreadsheetId,
+      });
+    }
+
+    // Get uploaded documents for this spreadsheet
+    let documents: any[] = [];
+    try {
+      documents = await ctx.runQuery(internal.documents.getConversationDocuments as any, {
+        spreadsheetId: conversation.conversation.spreadsheetId,
+      });
+    } catch (e) {
+      console.log("Documents not available:", e);
+    }
+
+    const { model, provider, modelName, modelInfo } = await resolveAgentModel(
+      ctx,
+      agent,
+      conversation.conversation.ownerId,
+      conversation.conversation.spreadsheetId
+    );
+
+    // The current user message is already stored; the thread gets it as the prompt
+    const history = [...conversation.messages];
+    const last = history[history.length - 1];
+    if (last?.role === "user" && last.content === args.userMessage) {
+      history.pop();
+    }
+
+    const thread = await resumeAssistantThread(ctx, {
+      conversationId: args.conversationId,
+      agentId: args.agentId,
+      ownerId: conversation.conversation.ownerId,
+      title: conversation.conversation.title,
+      history,
+      model,
+    });
+
+    const context = buildAIContext({
+      spreadsheetData,
+      selectedRange: args.selectedRange,
+      activeSheetName: args.activeSheetName,
+      conversationSummary: thread.summary,
+      documents,
+      tokenBudget: getContextTokenBudget(modelInfo?.contextWindow),
+    });
+
+    // Create streaming message placeholder
+    const messageId = await ctx.runMutation(internal.ai.createStreamingMessage, {
+      conversationId: args.conversationId,
+      agentId: args.agentId,
+      modelName: agent?.modelName,
+      provider: agent?.provider,
+      agentType: agent?.agentType,
+    });
+
+    // The model decides which spreadsheet tools to call, if any; models
+    // registered without tool support only answer in text
+    const tools = modelInfo?.supportsTools === false ? {} : createSpreadsheetTools(ctx, {
+      spreadsheetId: conversation.conversation.spreadsheetId,
+      ownerId: conversation.conversation.ownerId,
+      messageId,
+      authorName: agent?.name,
+      userMessage: args.userMessage,
+      documents,
+    });
+
+    const usage = await streamAssistantResponse(
+      ctx,
+      messageId,
+      agent ? `${agent.systemPrompt}\n\n${context}` : context,
+      args.userMessage,
+      agent,
+      model,
+      thread,
+      tools
+    );
+
+    try {
+      const totalUsage = addUsage(usage, thread.summaryUsage);
+      await ctx.runMutation(internal.aiUsage.recordUsage, {
+        ownerId: conversation.conversation.ownerId,
+        spreadsheetId: conversation.conversation.spreadsheetId,
+        conversationId: args.conversationId,
+        messageId,
+        agentId: args.agentId,
+        provider,
+        modelName,
+        inputTokens: totalUsage.inputTokens,
+        outputTokens: totalUsage.outputTokens,
+        latencyMs: Date.now() - startedAt,
+      });
+    } catch (error) {
+      // The reply was delivered; a missing usage record should not turn it into an error
+      console.error("Error recording AI usage:", error);
+    }
+
+    console.log("AI response completed successfully");
+  } catch (error) {
+    console.error("Error generating AI response:", error);
+
+    // Save error message
+    try {
+      await ctx.runMutation(internal.ai.saveAIResponse, {
+        conversationId: args.conversationId,
+        content: `I apologize, but I encountered an error while processing your request: ${error instanceof Error ? error.message : String(error)}. Please try again.`,
+        chartData: undefined,
+      });
+    } catch (saveError) {
+      console.error("Error saving error message:", saveError);
+    }
+  }
+}
+
+// The report request, with what the previous run said and what changed since
+function buildReportPrompt(
+  prompt: string,
+  previousRun: { content: string; createdAt: number } | null,
+  changes: ReportMetricChange[] | undefined
+): string {
+  if (!previousRun) {
+    return `${prompt}\n\nThis is the first run of this report.`;
+  }
+
+  let text = `${prompt}\n\n=== PREVIOUS REPORT (${new Date(previousRun.createdAt).toISOString().slice(0, 10)}) ===\n${previousRun.content}\n=== END OF PREVIOUS REPORT ===\n`;
+  text += changes && changes.length > 0
+    ? `\nMetrics that changed since then:\n${formatMetricChanges(changes)}\n`
+    : "\nNo row counts, sums or averages changed since then.\n";
+  return text;
+}
+
+/**
+ * Run a scheduled report: the agent answers the report prompt from the
+ * spreadsheet, given the previous run's summary and the metrics that changed
+ * since. The run is saved whether it succeeds or fails.
+ */
+export async function runScheduledReport(ctx: ActionCtx, reportId: Id<"aiReports">): Promise<void> {
+  const startedAt = Date.now();
+  let metrics: ReportMetric[] = [];
+  let changes: ReportMetricChange[] | undefined = undefined;
+
+  try {
+    const data = await ctx.runQuery(internal.aiReports.getReportRunData, { reportId });
+    if (!data) {
+      // Deleted after the run was scheduled
+      return;
+    }
+    const { report, agent, previousRun } = data;
+
+    const spreadsheetData = await ctx.runQuery(internal.ai.getSpreadsheetData, {
+      spreadsheetId: report.spreadsheetId,
+    });
+    if (!spreadsheetData?.data) {
+      throw new Error("No spreadsheet data found");
+    }
+
+    metrics = computeReportMetrics(JSON.parse(spreadsheetData.data));
+    changes = previousRun ? diffReportMetrics(previousRun.metrics, metrics) : undefined;
+
+    const { model, provider, modelName, modelInfo } = await resolveAgentModel(
+      ctx,
+      agent,
+      report.ownerId,
+      report.spreadsheetId
+    );
+    const context = buildAIContext({
+      spreadsheetData,
+      tokenBudget: getContextTokenBudget(modelInfo?.contextWindow),
+    });
+
+    const result = await generateText({
+      model,
+      system: `${agent.systemPrompt}\n\n${context}\n\n${REPORT_INSTRUCTIONS}`,
+      prompt: buildReportPrompt(report.prompt, previousRun, changes),
+      tools: modelInfo?.supportsTools === false ? {} : createReadOnlyTools(ctx, report.spreadsheetId),
+      stopWhen: stepCountIs(MAX_TOOL_STEPS),
+      maxOutputTokens: 2000,
+    });
+
+    const charts: ChartSpec[] = [];
+    for (const step of result.steps) {
+      for (const part of step.content) {
+        if (part.type === "tool-result" && part.toolName === "createChart") {
+          charts.push((part.output as { chartData: ChartSpec }).chartData);
+        }
+      }
+    }
+
+    const usage = {
+      inputTokens: result.totalUsage.inputTokens ?? 0,
+      outputTokens: result.totalUsage.outputTokens ?? 0,
+      latencyMs: Date.now() - startedAt,
+    };
+    const costUsd = await ctx.runMutation(internal.aiUsage.recordUsage, {
+      ownerId: report.ownerId,
+      spreadsheetId: report.spreadsheetId,
+      agentId: report.agentId,
+      provider,
+      modelName,
+      ...usage,
+    });
+
+    await ctx.runMutation(internal.aiReports.saveReportRun, {
+      reportId,
+      status: "completed",
+      content: result.text.trim() || "The agent returned an empty report.",
+      charts,
+      metrics,
+      changes,
+      usage: { ...usage, costUsd },
+    });
+  } catch (error) {
+    console.error("Error running scheduled report:", error);
+    await ctx.runMutation(internal.aiReports.saveReportRun, {
+      reportId,
+      status: "failed",
+      content: error instanceof Error ? error.message : String(error),
+      charts: [],
+      metrics,
+      changes,
+    });
+  }
+}
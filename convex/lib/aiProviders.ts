@@ -0,0 +1,118 @@
+import { LanguageModel } from "ai";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createMistral } from "@ai-sdk/mistral";
+import { createMockLanguageModel, isMockProviderEnabled } from "./aiMockProvider";
+
+/**
+ * LLM providers behind the AI SDK language model interface. Everything the
+ * assistant does (streaming, tool calls) goes through the returned model, so
+ * it works the same for every provider.
+ */
+
+export type LLMProvider = "openai" | "anthropic" | "google" | "mistral" | "openai_compatible";
+
+// Used when a conversation has no agent configured
+export const DEFAULT_PROVIDER: LLMProvider = "openai";
+export const DEFAULT_MODEL = "gpt-4o";
+
+interface ModelOptions {
+  apiKey?: string;
+  // Endpoint of an openai_compatible server (Ollama, vLLM, LM Studio, ...)
+  baseUrl?: string;
+}
+
+const PROVIDERS: Record<LLMProvider, (modelName: string, options: ModelOptions) => LanguageModel> = {
+  openai: (modelName, { apiKey }) => createOpenAI({ apiKey }).chat(modelName),
+  anthropic: (modelName, { apiKey }) => createAnthropic({ apiKey }).chat(modelName),
+  google: (modelName, { apiKey }) => createGoogleGenerativeAI({ apiKey }).chat(modelName),
+  mistral: (modelName, { apiKey }) => createMistral({ apiKey }).chat(modelName),
+  openai_compatible: (modelName, { apiKey, baseUrl }) => createOpenAI({
+    name: "openai_compatible",
+    baseURL: normalizeBaseUrl(baseUrl),
+    // Local servers usually ignore the key, but without one the SDK would
+    // send the deployment's OpenAI key to them
+    apiKey: apiKey ?? "not-needed",
+  }).chat(modelName),
+};
+
+// Deployment-wide keys, used when the user has not stored a key of their own
+const DEPLOYMENT_KEY_ENV: Record<LLMProvider, string> = {
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  google: "GOOGLE_API_KEY",
+  mistral: "MISTRAL_API_KEY",
+  openai_compatible: "OPENAI_COMPATIBLE_API_KEY",
+};
+
+// Providers that can run without any key
+const KEYLESS_PROVIDERS: LLMProvider[] = ["openai_compatible"];
+
+/**
+ * Check the base URL of an openai_compatible endpoint and drop its trailing slash
+ */
+export function normalizeBaseUrl(baseUrl: string | undefined): string {
+  if (!baseUrl?.trim()) {
+    throw new Error("A base URL is required for OpenAI-compatible endpoints");
+  }
+  let url: URL;
+  try {
+    url = new URL(baseUrl.trim());
+  } catch {
+    throw new Error(`Invalid base URL: ${baseUrl}`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Base URL must use http or https: ${baseUrl}`);
+  }
+  return url.toString().replace(/\/+$/, "");
+}
+
+/**
+ * Whether the provider works without a key. Every provider does while the
+ * mock provider is enabled.
+ */
+export function isKeylessProvider(provider: string): boolean {
+  return isMockProviderEnabled() || KEYLESS_PROVIDERS.includes(provider as LLMProvider);
+}
+
+/**
+ * Whether the deployment has its own key for a provider
+ */
+export function hasDeploymentKey(provider: string): boolean {
+  const envName = DEPLOYMENT_KEY_ENV[provider as LLMProvider];
+  return Boolean(envName && process.env[envName]);
+}
+
+/**
+ * Get the language model for a provider and model name, using the user's
+ * key when given and the deployment key otherwise
+ */
+export function getLanguageModel(provider: string, modelName: string, options: ModelOptions = {}): LanguageModel {
+  const createModel = PROVIDERS[provider as LLMProvider];
+  if (!createModel) {
+    throw new Error(`Unsupported provider: ${provider}`);
+  }
+  if (isMockProviderEnabled()) {
+    return createMockLanguageModel(modelName);
+  }
+  const apiKey = options.apiKey ?? process.env[DEPLOYMENT_KEY_ENV[provider as LLMProvider]];
+  if (!apiKey && !isKeylessProvider(provider)) {
+    throw new Error(`No ${provider} API key configured. Add one in the AI agent settings.`);
+  }
+  return createModel(modelName, { apiKey, baseUrl: options.baseUrl });
+}
+
+// Used for models that are not in the registry
+const DEFAULT_CONTEXT_WINDOW = 16_000;
+// Share of the window the context may fill, leaving room for the reply and tool results
+const CONTEXT_BUDGET_RATIO = 0.5;
+// Cap so very large windows do not turn every message into a huge prompt
+const MAX_CONTEXT_TOKENS = 60_000;
+
+/**
+ * Number of tokens the assistant context may use for a model's context window
+ */
+export function getContextTokenBudget(contextWindow: number = DEFAULT_CONTEXT_WINDOW): number {
+  return Math.min(Math.floor(contextWindow * CONTEXT_BUDGET_RATIO), MAX_CONTEXT_TOKENS);
+}
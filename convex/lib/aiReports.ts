@@ -0,0 +1,150 @@
+import { Infer, v } from "convex/values";
+import { evaluateWorkbook } from "./formulas";
+
+/**
+ * Scheduled AI reports. A report runs an agent with a fixed prompt on a
+ * daily or weekly schedule; each run stores the agent's summary with a set
+ * of metrics read straight from the data, so a run can be compared with the
+ * one before it without asking the model.
+ */
+
+export const reportFrequencyValidator = v.union(v.literal("daily"), v.literal("weekly"));
+
+export const reportMetricValidator = v.object({
+  sheetName: v.string(),
+  column: v.optional(v.string()), // Unset for the row count of the sheet
+  kind: v.union(v.literal("rows"), v.literal("sum"), v.literal("average")),
+  value: v.number(),
+});
+
+export const reportMetricChangeValidator = v.object({
+  label: v.string(),
+  previous: v.optional(v.number()), // Unset when the metric is new
+  current: v.optional(v.number()), // Unset when the metric is gone
+});
+
+export type ReportFrequency = Infer<typeof reportFrequencyValidator>;
+export type ReportMetric = Infer<typeof reportMetricValidator>;
+export type ReportMetricChange = Infer<typeof reportMetricChangeValidator>;
+
+export interface ReportSchedule {
+  frequency: ReportFrequency;
+  hourUtc: number;
+  // 0 is Sunday; only used by weekly reports
+  dayOfWeek?: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Share of a column's values that must be numbers for it to get a sum and average
+const NUMERIC_COLUMN_SHARE = 0.8;
+
+/**
+ * First time after `after` the schedule is due
+ */
+export function nextRunTime(schedule: ReportSchedule, after: number = Date.now()): number {
+  const date = new Date(after);
+  let next = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), schedule.hourUtc);
+  if (schedule.frequency === "weekly") {
+    const dayOfWeek = schedule.dayOfWeek ?? 1;
+    next += ((dayOfWeek - date.getUTCDay() + 7) % 7) * DAY_MS;
+  }
+  while (next <= after) {
+    next += schedule.frequency === "weekly" ? 7 * DAY_MS : DAY_MS;
+  }
+  return next;
+}
+
+// Numbers as written in cells, allowing thousands separators, currency symbols and percents
+function toNumber(value: string | number | boolean): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const cleaned = value.trim().replace(/[$€£¥,\s]/g, "").replace(/%$/, "");
+  if (!cleaned || !/^[-+]?(\d+\.?\d*|\.\d+)$/.test(cleaned)) return null;
+  return parseFloat(cleaned);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Row count of each sheet and the sum and average of its numeric columns.
+ * The first non-empty row of a sheet is read as its header row.
+ */
+export function computeReportMetrics(sheets: any[]): ReportMetric[] {
+  const metrics: ReportMetric[] = [];
+
+  for (const sheet of evaluateWorkbook(sheets)) {
+    const headerRow = sheet.values.findIndex((row) => row.some((value) => String(value).trim() !== ""));
+    if (headerRow === -1) continue;
+
+    const dataRows = sheet.values
+      .slice(headerRow + 1)
+      .filter((row) => row.some((value) => String(value).trim() !== ""));
+    metrics.push({ sheetName: sheet.name, kind: "rows", value: dataRows.length });
+
+    sheet.values[headerRow].forEach((headerValue, col) => {
+      const header = String(headerValue).trim();
+      if (!header) return;
+
+      const filled = dataRows.map((row) => row[col] ?? "").filter((value) => String(value).trim() !== "");
+      const numbers = filled.map(toNumber).filter((value): value is number => value !== null);
+      if (numbers.length === 0 || numbers.length < filled.length * NUMERIC_COLUMN_SHARE) return;
+
+      const sum = numbers.reduce((total, value) => total + value, 0);
+      metrics.push({ sheetName: sheet.name, column: header, kind: "sum", value: round(sum) });
+      metrics.push({ sheetName: sheet.name, column: header, kind: "average", value: round(sum / numbers.length) });
+    });
+  }
+
+  return metrics;
+}
+
+/**
+ * Readable name of a metric, e.g. "Sales: Revenue (sum)"
+ */
+export function describeMetric(metric: Pick<ReportMetric, "sheetName" | "column" | "kind">): string {
+  return metric.column
+    ? `${metric.sheetName}: ${metric.column} (${metric.kind})`
+    : `${metric.sheetName}: rows`;
+}
+
+/**
+ * Metrics that changed, appeared or disappeared between two runs
+ */
+export function diffReportMetrics(previous: ReportMetric[], current: ReportMetric[]): ReportMetricChange[] {
+  const previousByLabel = new Map(previous.map((metric) => [describeMetric(metric), metric.value]));
+  const changes: ReportMetricChange[] = [];
+
+  for (const metric of current) {
+    const label = describeMetric(metric);
+    const before = previousByLabel.get(label);
+    previousByLabel.delete(label);
+    if (before !== metric.value) {
+      changes.push({ label, previous: before, current: metric.value });
+    }
+  }
+  for (const [label, before] of previousByLabel) {
+    changes.push({ label, previous: before });
+  }
+
+  return changes;
+}
+
+/**
+ * One line per change, for the report prompt
+ */
+export function formatMetricChanges(changes: ReportMetricChange[]): string {
+  return changes
+    .map((change) => {
+      if (change.previous === undefined) return `- ${change.label}: new, ${change.current}`;
+      if (change.current === undefined) return `- ${change.label}: removed, was ${change.previous}`;
+      const percent = change.previous !== 0
+        ? ` (${change.current >= change.previous ? "+" : ""}${(((change.current - change.previous) / Math.abs(change.previous)) * 100).toFixed(1)}%)`
+        : "";
+      return `- ${change.label}: ${change.previous} -> ${change.current}${percent}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,168 @@
+import { listMessages } from "@convex-dev/agent";
+import { LanguageModel } from "ai";
+import { describe, expect, test } from "vitest";
+import { components } from "../_generated/api";
+import { Id } from "../_generated/dataModel";
+import { ActionCtx } from "../_generated/server";
+import { convexTestWithAgent, createFixture } from "../test.setup";
+import { RECENT_THREAD_MESSAGES, resumeAssistantThread } from "./aiThreads";
+
+type TestConvex = ReturnType<typeof convexTestWithAgent>;
+
+// resumeAssistantThread only reaches the backend through runQuery and
+// runMutation, so the test client can stand in for an action's ctx
+function actionCtx(t: TestConvex): ActionCtx {
+  return {
+    runQuery: (query: any, args: any) => t.query(query, args),
+    runMutation: (mutation: any, args: any) => t.mutation(mutation, args),
+  } as unknown as ActionCtx;
+}
+
+// Summarizer that answers "summary 1", "summary 2", ... and remembers the
+// lines of every prompt it was given
+function summaryModel() {
+  const prompts: string[][] = [];
+  const model: LanguageModel = {
+    specificationVersion: "v2",
+    provider: "test",
+    modelId: "summarizer",
+    supportedUrls: {},
+    doGenerate: async (options) => {
+      const text = options.prompt
+        .map((message) =>
+          typeof message.content === "string"
+            ? message.content
+            : message.content.map((part) => (part.type === "text" ? part.text : "")).join("")
+        )
+        .join("\n");
+      prompts.push(text.split("\n"));
+      return {
+        content: [{ type: "text", text: `summary ${prompts.length}` }],
+        finishReason: "stop",
+        usage: { inputTokens: 100, outputTokens: 20, totalTokens: 120 },
+        warnings: [],
+      };
+    },
+    doStream: async () => {
+      throw new Error("The summarizer does not stream");
+    },
+  };
+  return { model, prompts };
+}
+
+function history(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? ("user" as const) : ("assistant" as const),
+    content: `message ${i + 1}`,
+  }));
+}
+
+async function createConversation(t: TestConvex) {
+  const { userId, spreadsheetId } = await createFixture(t);
+  const conversationId: Id<"aiConversations"> = await t.run(async (ctx) => {
+    const now = Date.now();
+    return await ctx.db.insert("aiConversations", {
+      spreadsheetId,
+      ownerId: userId,
+      title: "Test conversation",
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+  return { userId, conversationId };
+}
+
+async function threadTexts(t: TestConvex, threadId: string): Promise<string[]> {
+  const { page } = await listMessages(actionCtx(t), components.agent, {
+    threadId,
+    paginationOpts: { cursor: null, numItems: 100 },
+  });
+  return page
+    .sort((a, b) => a.order - b.order || a.stepOrder - b.stepOrder)
+    .map((message) => message.text ?? "");
+}
+
+describe("resumeAssistantThread", () => {
+  test("creates a thread on the first turn without summarizing", async () => {
+    const t = convexTestWithAgent();
+    const { userId, conversationId } = await createConversation(t);
+    const { model, prompts } = summaryModel();
+
+    const thread = await resumeAssistantThread(actionCtx(t), {
+      conversationId,
+      ownerId: userId,
+      title: "Test conversation",
+      history: [],
+      model,
+    });
+
+    expect(thread.summary).toBeUndefined();
+    expect(prompts).toHaveLength(0);
+    expect(await threadTexts(t, thread.threadId)).toEqual([]);
+
+    const again = await resumeAssistantThread(actionCtx(t), {
+      conversationId,
+      ownerId: userId,
+      title: "Test conversation",
+      history: history(2),
+      model,
+    });
+    expect(again.threadId).toBe(thread.threadId);
+  });
+
+  test("copies recent messages into a new thread and summarizes the older ones", async () => {
+    const t = convexTestWithAgent();
+    const { userId, conversationId } = await createConversation(t);
+    const { model, prompts } = summaryModel();
+    const messages = history(RECENT_THREAD_MESSAGES + 4);
+
+    const thread = await resumeAssistantThread(actionCtx(t), {
+      conversationId,
+      ownerId: userId,
+      title: "Test conversation",
+      history: messages,
+      model,
+    });
+
+    expect(await threadTexts(t, thread.threadId)).toEqual(messages.slice(4).map((message) => message.content));
+    expect(thread.summary).toBe("summary 1");
+    expect(thread.summaryUsage).toEqual({ inputTokens: 100, outputTokens: 20 });
+    expect(prompts[0]).toContain("assistant: message 4");
+    expect(prompts[0]).not.toContain("user: message 5");
+  });
+
+  test("summarizes in batches once enough messages fall out of the recent window", async () => {
+    const t = convexTestWithAgent();
+    const { userId, conversationId } = await createConversation(t);
+    const { model, prompts } = summaryModel();
+    const resume = (count: number) =>
+      resumeAssistantThread(actionCtx(t), {
+        conversationId,
+        ownerId: userId,
+        title: "Test conversation",
+        history: history(count),
+        model,
+      });
+
+    await resume(RECENT_THREAD_MESSAGES);
+    expect(prompts).toHaveLength(0);
+
+    // Fewer than a batch of messages past the recent window keeps the summary as it is
+    const short = await resume(RECENT_THREAD_MESSAGES + 9);
+    expect(short.summary).toBeUndefined();
+    expect(prompts).toHaveLength(0);
+
+    const batched = await resume(RECENT_THREAD_MESSAGES + 10);
+    expect(batched.summary).toBe("summary 1");
+    expect(prompts[0]).toContain("user: message 1");
+    expect(prompts[0]).toContain("assistant: message 10");
+
+    // The next batch is folded into the previous summary
+    const next = await resume(RECENT_THREAD_MESSAGES + 20);
+    expect(next.summary).toBe("summary 2");
+    expect(prompts[1]).toContain("summary 1");
+    expect(prompts[1]).toContain("user: message 11");
+    expect(prompts[1]).toContain("assistant: message 20");
+    expect(prompts[1]).not.toContain("assistant: message 10");
+  });
+});
@@ -0,0 +1,145 @@
+import { Agent, createThread, saveMessages } from "@convex-dev/agent";
+import { generateText, LanguageModel } from "ai";
+import { components, internal } from "../_generated/api";
+import { Id } from "../_generated/dataModel";
+import { ActionCtx } from "../_generated/server";
+import { TokenUsage } from "./aiUsage";
+
+/**
+ * Conversation memory for the assistant. Each conversation keeps one agent
+ * thread per agent; the thread replays the most recent messages to the model
+ * and everything older is folded into a running summary.
+ */
+
+type ConversationMessage = { role: "user" | "assistant"; content: string };
+
+export interface AssistantThread {
+  threadId: string;
+  userId: string;
+  // Summary of the messages older than the ones the thread replays
+  summary?: string;
+  // Tokens spent updating the summary on this turn
+  summaryUsage?: TokenUsage;
+}
+
+// Thread key used when the conversation has no agent configured
+const DEFAULT_THREAD_AGENT = "default";
+// Messages the thread replays to the model on every turn
+export const RECENT_THREAD_MESSAGES = 10;
+// Unsummarized messages allowed past the replayed ones before summarizing again
+const SUMMARY_BATCH_MESSAGES = 10;
+// Characters per message passed to the summarizer
+const MAX_SUMMARIZED_MESSAGE_CHARS = 2000;
+
+/**
+ * Agent bound to the thread component, used to stream replies into threads
+ */
+export function createThreadAgent(name: string, languageModel: LanguageModel): Agent {
+  return new Agent(components.agent, { name, languageModel });
+}
+
+// Fold messages into the previous summary of the conversation
+async function summarizeMessages(
+  model: LanguageModel,
+  previousSummary: string | undefined,
+  messages: ConversationMessage[]
+): Promise<{ summary: string; usage: TokenUsage }> {
+  const transcript = messages
+    .map((msg) => {
+      const content = msg.content.length > MAX_SUMMARIZED_MESSAGE_CHARS
+        ? `${msg.content.substring(0, MAX_SUMMARIZED_MESSAGE_CHARS)}...(truncated)`
+        : msg.content;
+      return `${msg.role}: ${content}`;
+    })
+    .join("\n");
+
+  const { text, usage } = await generateText({
+    model,
+    system: "You summarize conversations between a user and a spreadsheet assistant. Keep the user's goals, decisions, the sheets, ranges, tables and charts that were created or discussed, and any open questions. Write at most 200 words.",
+    prompt: previousSummary
+      ? `Summary so far:\n${previousSummary}\n\nMessages since then:\n${transcript}\n\nWrite the updated summary.`
+      : `Conversation:\n${transcript}\n\nWrite the summary.`,
+    temperature: 0,
+    maxOutputTokens: 400,
+  });
+  return {
+    summary: text.trim(),
+    usage: { inputTokens: usage.inputTokens ?? 0, outputTokens: usage.outputTokens ?? 0 },
+  };
+}
+
+/**
+ * Get the thread of a conversation for an agent, creating it on the first
+ * turn, and bring its summary up to date. `history` is the conversation
+ * before the current user message.
+ */
+export async function resumeAssistantThread(
+  ctx: ActionCtx,
+  options: {
+    conversationId: Id<"aiConversations">;
+    agentId?: Id<"aiAgents">;
+    ownerId: Id<"users">;
+    title: string;
+    history: ConversationMessage[];
+    model: LanguageModel;
+  }
+): Promise<AssistantThread> {
+  const agentKey = options.agentId ?? DEFAULT_THREAD_AGENT;
+  const userId = options.ownerId;
+  const recentStart = Math.max(options.history.length - RECENT_THREAD_MESSAGES, 0);
+
+  const existing = await ctx.runQuery(internal.aiAgents.getThreadForConversation, {
+    conversationId: options.conversationId,
+    agentId: agentKey,
+  });
+
+  if (!existing) {
+    const threadId = await createThread(ctx, components.agent, { userId, title: options.title });
+
+    // Conversations that predate the thread (or switch agents) keep their
+    // history: recent messages are copied in, older ones are summarized
+    const recent = options.history.slice(recentStart);
+    if (recent.length > 0) {
+      await saveMessages(ctx, components.agent, { threadId, userId, messages: recent });
+    }
+    const summarized = recentStart > 0
+      ? await summarizeMessages(options.model, undefined, options.history.slice(0, recentStart))
+      : undefined;
+
+    await ctx.runMutation(internal.aiAgents.saveThread, {
+      conversationId: options.conversationId,
+      agentId: agentKey,
+      threadId,
+      ownerId: options.ownerId,
+      summary: summarized?.summary,
+      summarizedMessageCount: recentStart,
+    });
+    return { threadId, userId, summary: summarized?.summary, summaryUsage: summarized?.usage };
+  }
+
+  let summary = existing.summary;
+  let summaryUsage: TokenUsage | undefined;
+  const summarizedCount = existing.summarizedMessageCount ?? 0;
+  // Summarize in batches so the summarizer does not run on every turn
+  if (recentStart - summarizedCount >= SUMMARY_BATCH_MESSAGES) {
+    try {
+      const summarized = await summarizeMessages(
+        options.model,
+        summary,
+        options.history.slice(summarizedCount, recentStart)
+      );
+      summary = summarized.summary;
+      summaryUsage = summarized.usage;
+      await ctx.runMutation(internal.aiAgents.updateThreadSummary, {
+        threadDocId: existing._id,
+        summary,
+        summarizedMessageCount: recentStart,
+      });
+    } catch (error) {
+      // An outdated summary is better than failing the turn
+      console.error("Error summarizing conversation:", error);
+    }
+  }
+
+  return { threadId: existing.threadId, userId, summary, summaryUsage };
+}
@@ -0,0 +1,588 @@
+import { tool } from "ai";
+import { z } from "zod";
+import * as XLSX from "xlsx";
+import { internal } from "../_generated/api";
+import { Id } from "../_generated/dataModel";
+import { ActionCtx } from "../_generated/server";
+import { MAX_READ_CELLS, readSheetRange } from "./aiContext";
+import { ChartSpec } from "./aiCharts";
+import { CleanupOperation, CleanupSpec, planCleanup } from "./dataCleaning";
+import { MAX_PREVIEW_ROWS, QueryResult, runQueryPlan } from "./queryPlans";
+import { findSheetIndex } from "./sheetCodec";
+
+/**
+ * Tools the assistant can call to change the spreadsheet. Each tool validates
+ * its input with zod, writes through the same internal mutations the rest of
+ * the app uses, and returns a short result the model can report back on.
+ */
+
+export interface SpreadsheetToolOptions {
+  spreadsheetId: Id<"spreadsheets">;
+  ownerId: Id<"users">;
+  // Assistant message the changes are recorded on
+  messageId: Id<"aiMessages">;
+  authorName?: string;
+  userMessage: string;
+  documents: any[];
+}
+
+const chartTypeSchema = z.enum(["bar", "line", "area", "pie"]);
+
+// Mirrors cleanupSpecValidator
+const cleanupSpecSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("trimWhitespace"),
+    sheetName: z.string().min(1),
+    columns: z.array(z.string().min(1)).optional().describe("Columns to trim; all columns when omitted"),
+  }),
+  z.object({
+    kind: z.literal("normalizeDates"),
+    sheetName: z.string().min(1),
+    column: z.string().min(1),
+    dayFirst: z.boolean().optional().describe("Read ambiguous dates like 03/04/2024 as day/month"),
+  }),
+  z.object({
+    kind: z.literal("normalizeCurrency"),
+    sheetName: z.string().min(1),
+    column: z.string().min(1),
+    decimals: z.number().int().min(0).max(6).optional().describe("Decimals to keep, 2 by default"),
+  }),
+  z.object({
+    kind: z.literal("dedupeRows"),
+    sheetName: z.string().min(1),
+    columns: z.array(z.string().min(1)).optional().describe("Columns that identify a row; all columns when omitted"),
+  }),
+  z.object({
+    kind: z.literal("fillBlanks"),
+    sheetName: z.string().min(1),
+    column: z.string().min(1),
+    strategy: z.enum(["value", "previous", "flag"]).describe("Fill with a value, copy the value above, or highlight the blanks"),
+    value: z.string().optional().describe("Value to fill with, for the value strategy"),
+  }),
+  z.object({
+    kind: z.literal("splitColumn"),
+    sheetName: z.string().min(1),
+    column: z.string().min(1),
+    delimiter: z.string().min(1),
+    newColumns: z.array(z.string().min(1)).min(2).describe("Headers of the resulting columns, left to right"),
+  }),
+  z.object({
+    kind: z.literal("mergeColumns"),
+    sheetName: z.string().min(1),
+    columns: z.array(z.string().min(1)).min(2),
+    separator: z.string().optional().describe("Put between the values, a space by default"),
+    newColumn: z.string().optional().describe("Header of the merged column"),
+  }),
+]);
+
+// Operations per proposed cleanup plan
+const MAX_CLEANUP_OPERATIONS = 10;
+
+// Mirrors queryPlanValidator
+const queryPlanSchema = z.object({
+  sheetName: z.string().min(1),
+  title: z.string().optional().describe("Short name of the result, e.g. Orders over 500 in March"),
+  filters: z
+    .array(
+      z.object({
+        column: z.string().min(1),
+        operator: z.enum([
+          "equals",
+          "notEquals",
+          "contains",
+          "greaterThan",
+          "greaterOrEqual",
+          "lessThan",
+          "lessOrEqual",
+          "between",
+          "isBlank",
+          "isNotBlank",
+        ]),
+        value: z.string().optional().describe("Number, date (YYYY-MM-DD) or text to compare with"),
+        valueTo: z.string().optional().describe("Upper bound for between, inclusive"),
+      })
+    )
+    .describe("All filters must match"),
+  groupBy: z.array(z.string().min(1)).optional(),
+  aggregates: z
+    .array(
+      z.object({
+        fn: z.enum(["sum", "average", "count", "min", "max"]),
+        column: z.string().min(1).optional().describe("Column to aggregate; omit to count rows"),
+      })
+    )
+    .optional(),
+  columns: z.array(z.string().min(1)).optional().describe("Columns to show when not grouping; all when omitted"),
+  sort: z.array(z.object({ column: z.string().min(1), direction: z.enum(["asc", "desc"]) })).optional(),
+  limit: z.number().int().min(1).optional(),
+});
+
+// Labels of summary rows that should not be charted as data
+function isCalculatedLabel(text: string): boolean {
+  const lower = text.toLowerCase();
+  return (
+    lower.startsWith("sum") ||
+    lower.startsWith("average") ||
+    lower.startsWith("avg") ||
+    lower.startsWith("total") ||
+    lower.startsWith("count") ||
+    lower.startsWith("min") ||
+    lower.startsWith("max") ||
+    lower.includes("sum of") ||
+    lower.includes("average of") ||
+    lower.includes("total of")
+  );
+}
+
+/**
+ * Find the header row holding the given columns in the first rows of a sheet
+ * and the A1 range spanning them down to the last data row
+ */
+function findChartRange(
+  sheet: any,
+  columns: string[]
+): { range: string; foundColumns: string[]; dataRowCount: number } {
+  const columnIndices: number[] = [];
+  const foundColumns: string[] = [];
+  let headerRow = -1;
+
+  for (const rowKey in sheet.rows || {}) {
+    if (rowKey === "len") continue;
+
+    const rowNum = parseInt(rowKey);
+    if (rowNum > 10) break;
+
+    const row = sheet.rows[rowKey];
+    if (!row.cells) continue;
+
+    const rowIndices: number[] = [];
+    const rowColumns: string[] = [];
+    let hasCalculatedLabel = false;
+
+    for (const colKey in row.cells) {
+      const text = row.cells[colKey]?.text;
+      if (!text) continue;
+      if (isCalculatedLabel(text)) {
+        hasCalculatedLabel = true;
+        break;
+      }
+
+      const cellLower = text.toLowerCase();
+      for (const column of columns) {
+        const columnLower = column.toLowerCase();
+        if (cellLower === columnLower || cellLower.includes(columnLower) || columnLower.includes(cellLower)) {
+          const colIndex = parseInt(colKey);
+          if (!rowIndices.includes(colIndex)) {
+            rowIndices.push(colIndex);
+            rowColumns.push(text);
+          }
+        }
+      }
+    }
+
+    if (!hasCalculatedLabel && rowIndices.length >= Math.min(2, columns.length)) {
+      columnIndices.push(...rowIndices);
+      foundColumns.push(...rowColumns);
+      headerRow = rowNum;
+      break;
+    }
+  }
+
+  if (columnIndices.length === 0) {
+    throw new Error(`Could not find columns: ${columns.join(", ")} in sheet "${sheet.name}"`);
+  }
+
+  // Count data rows below the header, stopping at the first summary row
+  let dataRowCount = 0;
+  for (const rowKey in sheet.rows) {
+    if (rowKey === "len") continue;
+
+    const rowNum = parseInt(rowKey);
+    const row = sheet.rows[rowKey];
+    if (!row.cells || rowNum <= headerRow) continue;
+
+    let hasData = false;
+    let isCalculatedRow = false;
+    for (const colIndex of columnIndices) {
+      const text = row.cells[colIndex.toString()]?.text;
+      if (!text) continue;
+      if (isCalculatedLabel(text)) {
+        isCalculatedRow = true;
+        break;
+      }
+      hasData = true;
+    }
+
+    if (isCalculatedRow) break;
+    if (hasData) dataRowCount++;
+  }
+
+  const range = XLSX.utils.encode_range({
+    s: { r: headerRow, c: Math.min(...columnIndices) },
+    e: { r: headerRow + dataRowCount, c: Math.max(...columnIndices) },
+  });
+  return { range, foundColumns, dataRowCount };
+}
+
+// Headers and padded string rows of a table extracted from a document
+function documentTableToRows(table: any): { headers: string[]; dataRows: string[][] } {
+  const headers = (table.rows[0] || [])
+    .map((h: any) => String(h || ""))
+    .filter((h: string) => h.trim());
+
+  const dataRows = table.rows.slice(1).map((row: any[]) => {
+    const stringRow = row.map((cell: any) => String(cell || "")).slice(0, headers.length);
+    while (stringRow.length < headers.length) {
+      stringRow.push("");
+    }
+    return stringRow;
+  });
+
+  return { headers, dataRows };
+}
+
+async function loadSpreadsheetSheets(ctx: ActionCtx, spreadsheetId: Id<"spreadsheets">): Promise<any[]> {
+  const spreadsheetData = await ctx.runQuery(internal.ai.getSpreadsheetData, { spreadsheetId });
+  if (!spreadsheetData?.data) {
+    throw new Error("No spreadsheet data found");
+  }
+  return JSON.parse(spreadsheetData.data);
+}
+
+/**
+ * Tools that only read the spreadsheet, for runs nobody is watching such as
+ * scheduled reports
+ */
+export function createReadOnlyTools(ctx: ActionCtx, spreadsheetId: Id<"spreadsheets">) {
+  const loadSheets = () => loadSpreadsheetSheets(ctx, spreadsheetId);
+
+  return {
+    readRange: tool({
+      description: `Read the values of a range of cells, with formulas computed. Use it for any rows not shown in the context. Returns at most ${MAX_READ_CELLS} cells; read large ranges in parts.`,
+      inputSchema: z.object({
+        sheetName: z.string().min(1),
+        range: z
+          .string()
+          .regex(/^[A-Za-z]{1,3}[1-9][0-9]*(:[A-Za-z]{1,3}[1-9][0-9]*)?$/, "Expected a range like A1:C10")
+          .describe("A1 range to read, e.g. A1:D50"),
+      }),
+      execute: async ({ sheetName, range }) => readSheetRange(await loadSheets(), sheetName, range),
+    }),
+
+    createChart: tool({
+      description:
+        "Show a chart with your reply. Give the column used for the labels and the columns to plot as series, by their header names. The chart is checked against the sheet and the user can pin it to the spreadsheet.",
+      inputSchema: z.object({
+        sheetName: z.string().min(1).describe("Sheet holding the data"),
+        type: chartTypeSchema,
+        labelColumn: z.string().min(1).describe("Header of the column used for the x axis or the pie slices"),
+        series: z.array(z.string().min(1)).min(1).describe("Headers of the columns to plot, one series each"),
+        range: z
+          .string()
+          .regex(/^[A-Za-z]{1,3}[1-9][0-9]*:[A-Za-z]{1,3}[1-9][0-9]*$/, "Expected a range like A1:C10")
+          .optional()
+          .describe("Exact range including the header row, when the columns alone are ambiguous"),
+        title: z.string().optional(),
+        xAxisLabel: z.string().optional(),
+        yAxisLabel: z.string().optional(),
+      }),
+      execute: async ({ sheetName, type, labelColumn, series, range, title, xAxisLabel, yAxisLabel }) => {
+        if (type === "pie" && series.length > 1) {
+          throw new Error("A pie chart shows a single series");
+        }
+
+        const sheets = await loadSheets();
+        const sheetIndex = findSheetIndex(sheets, sheetName);
+        if (sheetIndex === -1) {
+          throw new Error(`Sheet "${sheetName}" not found`);
+        }
+
+        const sheet = sheets[sheetIndex];
+        const columns = [labelColumn, ...series];
+        let found: { range: string; foundColumns: string[]; dataRowCount: number };
+        if (range) {
+          const bounds = XLSX.utils.decode_range(range.toUpperCase());
+          found = { range: XLSX.utils.encode_range(bounds), foundColumns: columns, dataRowCount: bounds.e.r - bounds.s.r };
+        } else {
+          found = findChartRange(sheet, columns);
+        }
+
+        // Use the headers as they are written in the sheet
+        const matchHeader = (column: string) => {
+          const lower = column.toLowerCase();
+          const header = found.foundColumns.find((candidate) => {
+            const candidateLower = candidate.toLowerCase();
+            return candidateLower === lower || candidateLower.includes(lower) || lower.includes(candidateLower);
+          });
+          if (!header) {
+            throw new Error(`Column "${column}" not found in sheet "${sheet.name}"`);
+          }
+          return header;
+        };
+
+        const chartData: ChartSpec = {
+          type,
+          range: found.range,
+          sheetName: sheet.name,
+          title: title || `${type.charAt(0).toUpperCase() + type.slice(1)} Chart: ${found.foundColumns.join(" vs ")}`,
+          labelColumn: matchHeader(labelColumn),
+          series: series.map(matchHeader),
+          xAxisLabel,
+          yAxisLabel,
+        };
+        return { chartData, dataPoints: found.dataRowCount };
+      },
+    }),
+
+    queryData: tool({
+      description:
+        "Answer a question about rows of a sheet (find, filter, sort, group, total) with a query plan. The plan is run exactly on the data and shown to the user with its result, which they can save as a new sheet. Use the numbers it returns instead of computing them yourself. Columns are given by their header names.",
+      inputSchema: queryPlanSchema,
+      execute: async (plan) => {
+        const sheets = await loadSheets();
+        const sheetIndex = findSheetIndex(sheets, plan.sheetName);
+        const normalizedPlan = sheetIndex === -1 ? plan : { ...plan, sheetName: sheets[sheetIndex].name };
+        const output = runQueryPlan(sheets, normalizedPlan);
+
+        const queryResult: QueryResult = {
+          plan: normalizedPlan,
+          steps: output.steps,
+          headers: output.headers,
+          rows: output.rows.slice(0, MAX_PREVIEW_ROWS),
+          totalRows: output.rows.length,
+          matchedRows: output.matchedRows,
+        };
+        return { queryResult };
+      },
+    }),
+  };
+}
+
+/**
+ * Build the tool set for one assistant turn
+ */
+export function createSpreadsheetTools(ctx: ActionCtx, options: SpreadsheetToolOptions) {
+  const { spreadsheetId, ownerId, messageId, authorName } = options;
+
+  const loadSheets = () => loadSpreadsheetSheets(ctx, spreadsheetId);
+  const { readRange, createChart, queryData } = createReadOnlyTools(ctx, spreadsheetId);
+
+  return {
+    readRange,
+
+    createTable: tool({
+      description:
+        "Create a new table with the given column headers and empty rows. Use only when the user asks for a new table, not to change an existing one.",
+      inputSchema: z.object({
+        sheetName: z.string().min(1).describe("Sheet to put the table in. A new sheet is created if it does not exist."),
+        headers: z.array(z.string().min(1)).min(1).describe("Column headers, left to right"),
+        numRows: z.number().int().min(1).max(1000).default(5).describe("Number of empty data rows"),
+      }),
+      execute: async ({ sheetName, headers, numRows }) => {
+        const result = await ctx.runMutation(internal.spreadsheets.internalCreateTableWithSpec, {
+          spreadsheetId,
+          ownerId,
+          authorName,
+          messageId,
+          headers,
+          numRows,
+          sheetName,
+        });
+        return { sheetName: result.sheetName, message: result.message };
+      },
+    }),
+
+    writeRange: tool({
+      description:
+        "Write values into a block of cells starting at a cell, e.g. to fill in, add or update rows and columns of an existing table. Values starting with = are stored as formulas.",
+      inputSchema: z.object({
+        sheetName: z.string().min(1).describe("Existing sheet to write to"),
+        startCell: z
+          .string()
+          .regex(/^[A-Za-z]{1,3}[1-9][0-9]*$/, "Expected a cell reference like B2")
+          .describe("Top-left cell of the block, e.g. A1"),
+        values: z
+          .array(z.array(z.union([z.string(), z.number(), z.boolean(), z.null()])))
+          .min(1)
+          .describe("Rows of values. null clears a cell."),
+      }),
+      execute: async ({ sheetName, startCell, values }) => {
+        const sheets = await loadSheets();
+        const sheetIndex = findSheetIndex(sheets, sheetName);
+        if (sheetIndex === -1) {
+          throw new Error(`Sheet "${sheetName}" not found`);
+        }
+
+        const start = XLSX.utils.decode_cell(startCell.toUpperCase());
+        const cells = values.map((row) => row.map((value) => (value === null ? null : { text: String(value) })));
+        const result = await ctx.runMutation(internal.spreadsheets.internalPatchCellRange, {
+          spreadsheetId,
+          ownerId,
+          authorName,
+          messageId,
+          sheetName: sheets[sheetIndex].name,
+          startRow: start.r,
+          startCol: start.c,
+          cells,
+        });
+        if (!result.success) {
+          throw new Error(`The cells were changed by someone else: ${result.conflicts.join("; ")}`);
+        }
+
+        const width = Math.max(...values.map((row) => row.length), 1);
+        const range = XLSX.utils.encode_range({
+          s: start,
+          e: { r: start.r + values.length - 1, c: start.c + width - 1 },
+        });
+        return { sheetName: sheets[sheetIndex].name, range };
+      },
+    }),
+
+    createChart,
+
+    queryData,
+
+    createDashboard: tool({
+      description: "Build a KPI dashboard from the data in all sheets.",
+      inputSchema: z.object({
+        focus: z.string().optional().describe("What the dashboard should focus on, in the user's words"),
+      }),
+      execute: async ({ focus }) => {
+        const result = await ctx.runMutation(internal.ai.analyzeSheetsForDashboard, {
+          spreadsheetId,
+          ownerId,
+          userMessage: focus || options.userMessage,
+          messageId,
+        });
+        if (!result.success) {
+          throw new Error(result.message || "Failed to analyze data");
+        }
+        return { message: result.message };
+      },
+    }),
+
+    computeStats: tool({
+      description:
+        "Compute a statistic of a column and write the result below it in the sheet. Only use when the user wants the result added to the spreadsheet; answer plain questions from the data directly.",
+      inputSchema: z.object({
+        columnName: z.string().min(1).describe("Header of the column"),
+        operation: z.enum(["sum", "average", "count", "min", "max"]),
+        sheetName: z.string().optional().describe("Sheet holding the column, if known"),
+      }),
+      execute: async ({ columnName, operation, sheetName }) => {
+        const result = await ctx.runMutation(internal.spreadsheets.internalCalculateColumnStats, {
+          spreadsheetId,
+          ownerId,
+          authorName,
+          messageId,
+          columnName,
+          sheetName,
+          operation,
+        });
+        return {
+          result: result.result,
+          operation: result.operation,
+          columnName: result.columnName,
+          sheetName: result.sheetName,
+          rowCount: result.rowCount,
+        };
+      },
+    }),
+
+    proposeCleanup: tool({
+      description:
+        "Propose a data cleaning plan for the user to review. Nothing is changed until the user applies the operations, so describe the plan instead of claiming it was applied. Columns are given by their header names.",
+      inputSchema: z.object({
+        operations: z.array(cleanupSpecSchema).min(1).max(MAX_CLEANUP_OPERATIONS),
+      }),
+      execute: async ({ operations }) => {
+        const sheets = await loadSheets();
+        const planned: CleanupOperation[] = [];
+        const unchanged: string[] = [];
+        operations.forEach((spec, index) => {
+          const sheetIndex = findSheetIndex(sheets, spec.sheetName);
+          if (sheetIndex === -1) {
+            throw new Error(`Sheet "${spec.sheetName}" not found`);
+          }
+          const normalizedSpec = { ...spec, sheetName: sheets[sheetIndex].name } as CleanupSpec;
+          const { description, changeCount, preview } = planCleanup(sheets[sheetIndex], normalizedSpec);
+          if (changeCount === 0) {
+            unchanged.push(description);
+            return;
+          }
+          planned.push({ id: `op${index + 1}`, spec: normalizedSpec, description, changeCount, preview, status: "pending" });
+        });
+
+        if (planned.length === 0) {
+          throw new Error(`None of the operations would change anything: ${unchanged.join("; ")}`);
+        }
+        return {
+          cleanupPlan: { operations: planned },
+          proposed: planned.map((operation) => `${operation.description} (${operation.changeCount})`),
+          unchanged,
+        };
+      },
+    }),
+
+    importDocumentTable: tool({
+      description:
+        "Copy a table extracted from an uploaded document into a sheet with its exact headers and rows. Never make up table contents yourself.",
+      inputSchema: z.object({
+        documentNumber: z.number().int().min(1).describe("Number of the document as listed under UPLOADED DOCUMENTS"),
+        tableNumber: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Number of the table within the document. Omit to import every table."),
+        sheetName: z.string().min(1).optional().describe("Sheet to create. Defaults to the document name."),
+      }),
+      execute: async ({ documentNumber, tableNumber, sheetName }) => {
+        const document = options.documents[documentNumber - 1];
+        if (!document) {
+          throw new Error(`Document ${documentNumber} not found`);
+        }
+
+        let tables: any[] = [];
+        try {
+          tables = JSON.parse(document.extractedTables || "[]");
+        } catch {
+          // Unreadable extraction results count as no tables
+        }
+        tables = tables.filter((table) => Array.isArray(table?.rows) && table.rows.length > 0);
+        if (tables.length === 0) {
+          throw new Error(`No tables were found in "${document.fileName}"`);
+        }
+
+        const selected = tableNumber ? [tables[tableNumber - 1]] : tables;
+        if (!selected[0]) {
+          throw new Error(`"${document.fileName}" has only ${tables.length} table(s)`);
+        }
+
+        const baseName = sheetName || document.fileName.replace(/\.[^/.]+$/, "").substring(0, 20);
+        const created: Array<{ sheetName: string; columns: string[]; rows: number }> = [];
+        for (let i = 0; i < selected.length; i++) {
+          const { headers, dataRows } = documentTableToRows(selected[i]);
+          if (headers.length === 0) continue;
+
+          const targetName = selected.length === 1 ? baseName : `${baseName}_${i + 1}`;
+          await ctx.runMutation(internal.spreadsheets.internalCreateTableFromDocument, {
+            spreadsheetId,
+            ownerId,
+            authorName,
+            messageId,
+            headers,
+            dataRows,
+            sheetName: targetName,
+          });
+          created.push({ sheetName: targetName, columns: headers, rows: dataRows.length });
+        }
+
+        if (created.length === 0) {
+          throw new Error("The tables have no headers to import");
+        }
+        return { document: document.fileName, tables: created };
+      },
+    }),
+  };
+}
@@ -0,0 +1,131 @@
+import { v } from "convex/values";
+import { Doc, Id } from "../_generated/dataModel";
+import { DatabaseReader } from "../_generated/server";
+
+/**
+ * Usage metering for model calls. Every call is stored in aiUsage with its
+ * tokens and estimated cost; spend per user and per project is checked
+ * against daily and monthly quotas before a new message is accepted.
+ */
+
+export const messageUsageValidator = v.object({
+  inputTokens: v.number(),
+  outputTokens: v.number(),
+  latencyMs: v.number(),
+  costUsd: v.number(),
+});
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type QuotaPeriod = "day" | "month";
+
+type QuotaScope = { ownerId: Id<"users"> } | { projectId: Id<"projects"> };
+
+// Deployment defaults, overridden per user or project in aiQuotas; unset means unlimited
+const DEFAULT_LIMIT_ENV = {
+  user: { day: "AI_USER_DAILY_LIMIT_USD", month: "AI_USER_MONTHLY_LIMIT_USD" },
+  project: { day: "AI_PROJECT_DAILY_LIMIT_USD", month: "AI_PROJECT_MONTHLY_LIMIT_USD" },
+} as const;
+
+/**
+ * Add two usage counts
+ */
+export function addUsage(a: TokenUsage, b: TokenUsage | undefined): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + (b?.inputTokens ?? 0),
+    outputTokens: a.outputTokens + (b?.outputTokens ?? 0),
+  };
+}
+
+/**
+ * Estimated cost in USD of a call, from the model's registry prices.
+ * Unregistered models (e.g. self-hosted ones) cost nothing.
+ */
+export function estimateCost(model: Doc<"aiModels"> | null, usage: TokenUsage): number {
+  if (!model) return 0;
+  return (
+    (usage.inputTokens * model.inputCostPerMillion + usage.outputTokens * model.outputCostPerMillion) / 1_000_000
+  );
+}
+
+/**
+ * Start of the current UTC day or month
+ */
+export function periodStart(period: QuotaPeriod, now: number = Date.now()): number {
+  const date = new Date(now);
+  return period === "day"
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+/**
+ * Usage records of a user or project since a time
+ */
+export async function listUsageSince(
+  db: DatabaseReader,
+  scope: QuotaScope,
+  since: number
+): Promise<Doc<"aiUsage">[]> {
+  if ("ownerId" in scope) {
+    return await db
+      .query("aiUsage")
+      .withIndex("by_owner_created", (q) => q.eq("ownerId", scope.ownerId).gte("createdAt", since))
+      .collect();
+  }
+  return await db
+    .query("aiUsage")
+    .withIndex("by_project_created", (q) => q.eq("projectId", scope.projectId).gte("createdAt", since))
+    .collect();
+}
+
+/**
+ * Spending limit in USD of a user or project for a period, or undefined when unlimited
+ */
+export async function getQuotaLimit(
+  db: DatabaseReader,
+  scope: QuotaScope,
+  period: QuotaPeriod
+): Promise<number | undefined> {
+  const quota = "ownerId" in scope
+    ? await db.query("aiQuotas").withIndex("by_owner", (q) => q.eq("ownerId", scope.ownerId)).first()
+    : await db.query("aiQuotas").withIndex("by_project", (q) => q.eq("projectId", scope.projectId)).first();
+
+  const override = period === "day" ? quota?.dailyLimitUsd : quota?.monthlyLimitUsd;
+  if (override !== undefined) return override;
+
+  const envName = DEFAULT_LIMIT_ENV["ownerId" in scope ? "user" : "project"][period];
+  const value = Number(process.env[envName]);
+  return process.env[envName] && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Throw when the user or the project has used up a daily or monthly quota
+ */
+export async function checkUsageQuota(
+  db: DatabaseReader,
+  ownerId: Id<"users">,
+  projectId: Id<"projects">
+): Promise<void> {
+  const scopes: Array<{ scope: QuotaScope; label: string }> = [
+    { scope: { ownerId }, label: "Your" },
+    { scope: { projectId }, label: "This project's" },
+  ];
+
+  for (const { scope, label } of scopes) {
+    for (const period of ["day", "month"] as const) {
+      const limit = await getQuotaLimit(db, scope, period);
+      if (limit === undefined) continue;
+
+      const records = await listUsageSince(db, scope, periodStart(period));
+      const spent = records.reduce((sum, record) => sum + record.costUsd, 0);
+      if (spent >= limit) {
+        throw new Error(
+          `${label} ${period === "day" ? "daily" : "monthly"} AI budget of $${limit.toFixed(2)} has been used up`
+        );
+      }
+    }
+  }
+}
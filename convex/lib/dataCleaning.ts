@@ -0,0 +1,486 @@
+import { Infer, v } from "convex/values";
+import * as XLSX from "xlsx";
+import { SheetOp } from "./sheetOps";
+
+/**
+ * Cleanup plans proposed by the data cleaning agent. The model only picks the
+ * operations (trim, normalize dates or currencies, dedupe, fill blanks, split
+ * or merge columns); the cell changes are computed here from the sheet, once
+ * for the preview shown in the chat and again against the current data when
+ * the user applies an operation.
+ *
+ * Tables are assumed to start at their header row, the first non-empty row
+ * of the sheet. Formula cells are never rewritten.
+ */
+
+export const cleanupSpecValidator = v.union(
+  // Trim and collapse whitespace; all columns when none are given
+  v.object({ kind: v.literal("trimWhitespace"), sheetName: v.string(), columns: v.optional(v.array(v.string())) }),
+  // Rewrite dates as YYYY-MM-DD; dayFirst reads 03/04/2024 as 3 April
+  v.object({
+    kind: v.literal("normalizeDates"),
+    sheetName: v.string(),
+    column: v.string(),
+    dayFirst: v.optional(v.boolean()),
+  }),
+  // Rewrite amounts like "$1,234.5" or "(12.00)" as plain numbers
+  v.object({
+    kind: v.literal("normalizeCurrency"),
+    sheetName: v.string(),
+    column: v.string(),
+    decimals: v.optional(v.number()),
+  }),
+  // Delete rows repeating an earlier row; compared on all columns when none are given
+  v.object({ kind: v.literal("dedupeRows"), sheetName: v.string(), columns: v.optional(v.array(v.string())) }),
+  v.object({
+    kind: v.literal("fillBlanks"),
+    sheetName: v.string(),
+    column: v.string(),
+    // value: write `value`; previous: copy the value above; flag: highlight the cell
+    strategy: v.union(v.literal("value"), v.literal("previous"), v.literal("flag")),
+    value: v.optional(v.string()),
+  }),
+  // Split on a delimiter into the column and new columns inserted after it
+  v.object({
+    kind: v.literal("splitColumn"),
+    sheetName: v.string(),
+    column: v.string(),
+    delimiter: v.string(),
+    newColumns: v.array(v.string()),
+  }),
+  // Join columns into the first of them and delete the others
+  v.object({
+    kind: v.literal("mergeColumns"),
+    sheetName: v.string(),
+    columns: v.array(v.string()),
+    separator: v.optional(v.string()),
+    newColumn: v.optional(v.string()),
+  }),
+);
+
+export const cleanupPreviewValidator = v.object({
+  cell: v.string(),
+  before: v.string(),
+  after: v.string(),
+});
+
+export const cleanupOperationValidator = v.object({
+  id: v.string(),
+  spec: cleanupSpecValidator,
+  description: v.string(),
+  changeCount: v.number(),
+  preview: v.array(cleanupPreviewValidator),
+  status: v.union(v.literal("pending"), v.literal("applied")),
+  // Spreadsheet versions written when applied, used to undo the operation
+  commit: v.optional(v.object({ baseVersion: v.number(), version: v.number() })),
+});
+
+export const cleanupPlanValidator = v.object({
+  operations: v.array(cleanupOperationValidator),
+});
+
+export type CleanupSpec = Infer<typeof cleanupSpecValidator>;
+export type CleanupPreview = Infer<typeof cleanupPreviewValidator>;
+export type CleanupOperation = Infer<typeof cleanupOperationValidator>;
+export type CleanupPlan = Infer<typeof cleanupPlanValidator>;
+
+export interface CleanupResult {
+  ops: SheetOp[];
+  description: string;
+  changeCount: number;
+  preview: CleanupPreview[];
+}
+
+// Changes shown per operation in the plan
+const MAX_PREVIEW_CHANGES = 5;
+// Highlight used to flag blank cells
+const FLAG_STYLE = { bgcolor: "#fff3cd" };
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+interface Table {
+  headerRow: number;
+  lastRow: number;
+  headers: Map<number, string>;
+}
+
+function cellText(sheet: any, row: number, col: number): string {
+  const text = sheet.rows?.[row]?.cells?.[col]?.text;
+  return text === undefined || text === null ? "" : String(text);
+}
+
+function rowNumbers(sheet: any): number[] {
+  return Object.keys(sheet.rows || {})
+    .filter((key) => key !== "len")
+    .map((key) => parseInt(key, 10))
+    .filter((row) => !isNaN(row))
+    .sort((a, b) => a - b);
+}
+
+// Header row, last row with data and the header of each column
+function readTable(sheet: any): Table {
+  let headerRow = -1;
+  let lastRow = -1;
+  for (const row of rowNumbers(sheet)) {
+    const cells = sheet.rows[row]?.cells || {};
+    const hasText = Object.keys(cells).some((col) => cellText(sheet, row, parseInt(col, 10)).trim() !== "");
+    if (!hasText) continue;
+    if (headerRow === -1) headerRow = row;
+    lastRow = row;
+  }
+  if (headerRow === -1) {
+    throw new Error(`Sheet "${sheet.name}" has no data`);
+  }
+
+  const headers = new Map<number, string>();
+  for (const col of Object.keys(sheet.rows[headerRow]?.cells || {})) {
+    const header = cellText(sheet, headerRow, parseInt(col, 10)).trim();
+    if (header) headers.set(parseInt(col, 10), header);
+  }
+  return { headerRow, lastRow, headers };
+}
+
+function findColumn(sheet: any, table: Table, column: string): number {
+  const wanted = column.trim().toLowerCase();
+  for (const [col, header] of table.headers) {
+    if (header.toLowerCase() === wanted) return col;
+  }
+  throw new Error(`Column "${column}" not found in sheet "${sheet.name}"`);
+}
+
+function findColumns(sheet: any, table: Table, columns: string[] | undefined): number[] {
+  if (!columns || columns.length === 0) {
+    return [...table.headers.keys()].sort((a, b) => a - b);
+  }
+  return columns.map((column) => findColumn(sheet, table, column));
+}
+
+function dataRows(table: Table): number[] {
+  const rows: number[] = [];
+  for (let row = table.headerRow + 1; row <= table.lastRow; row++) rows.push(row);
+  return rows;
+}
+
+function ref(row: number, col: number): string {
+  return XLSX.utils.encode_cell({ r: row, c: col });
+}
+
+function isFormula(text: string): boolean {
+  return text.startsWith("=");
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += year < 50 ? 2000 : 1900;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Read a date written as 2024-01-05, 1/5/2024, 05.01.24, Jan 5 2024 or
+ * 5 January 2024 and return it as YYYY-MM-DD, or null if it is not a date
+ */
+export function parseDate(text: string, dayFirst = false): string | null {
+  const value = text.trim();
+
+  let match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (match) {
+    const first = Number(match[1]);
+    const second = Number(match[2]);
+    // A part above 12 can only be the day
+    const isDayFirst = first > 12 ? true : second > 12 ? false : dayFirst;
+    return isDayFirst
+      ? toIsoDate(Number(match[3]), second, first)
+      : toIsoDate(Number(match[3]), first, second);
+  }
+
+  const monthOf = (name: string) => MONTHS.indexOf(name.substring(0, 3).toLowerCase()) + 1;
+  match = value.match(/^([A-Za-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/);
+  if (match && monthOf(match[1]) > 0) return toIsoDate(Number(match[3]), monthOf(match[1]), Number(match[2]));
+
+  match = value.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([A-Za-z]{3,9})\.?,?\s+(\d{4})$/);
+  if (match && monthOf(match[2]) > 0) return toIsoDate(Number(match[3]), monthOf(match[2]), Number(match[1]));
+
+  return null;
+}
+
+/**
+ * Read an amount like "$1,234.50", "1.234,50 €", "USD 12" or "(45.00)" and
+ * return the number, or null if it is not an amount
+ */
+export function parseCurrency(text: string): number | null {
+  let value = text.trim();
+  if (!value) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  value = value.replace(/[A-Za-z$€£¥₹\s]/g, "");
+  if (value.endsWith("-")) {
+    negative = true;
+    value = value.slice(0, -1);
+  }
+  if (value.startsWith("-")) {
+    negative = !negative;
+    value = value.slice(1);
+  }
+  if (!/^[\d.,]+$/.test(value) || !/\d/.test(value)) return null;
+
+  // The last separator is the decimal one when both are used, or a lone comma
+  // followed by one or two digits
+  const lastDot = value.lastIndexOf(".");
+  const lastComma = value.lastIndexOf(",");
+  let normalized: string;
+  if (lastDot !== -1 && lastComma !== -1) {
+    const decimal = lastDot > lastComma ? "." : ",";
+    const thousands = decimal === "." ? "," : ".";
+    normalized = value.split(thousands).join("").replace(decimal, ".");
+  } else if (lastComma !== -1) {
+    normalized = /,\d{1,2}$/.test(value) && value.indexOf(",") === lastComma
+      ? value.replace(",", ".")
+      : value.split(",").join("");
+  } else {
+    normalized = value;
+  }
+
+  const amount = Number(normalized);
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+// Collect the cell rewrites of columns and their preview
+function rewriteCells(
+  sheet: any,
+  table: Table,
+  cols: number[],
+  rewrite: (text: string) => string | null
+): { ops: SheetOp[]; preview: CleanupPreview[]; skipped: number } {
+  const ops: SheetOp[] = [];
+  const preview: CleanupPreview[] = [];
+  let skipped = 0;
+  for (const row of dataRows(table)) {
+    for (const col of cols) {
+      const before = cellText(sheet, row, col);
+      if (!before || isFormula(before)) continue;
+      const after = rewrite(before);
+      if (after === null) {
+        skipped++;
+        continue;
+      }
+      if (after === before) continue;
+      ops.push({ type: "setCell", sheet: sheet.name, row, col, text: after });
+      if (preview.length < MAX_PREVIEW_CHANGES) preview.push({ cell: ref(row, col), before, after });
+    }
+  }
+  return { ops, preview, skipped };
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Compute the sheet operations, preview and description of a cleanup step
+ * against the current data of a sheet
+ */
+export function planCleanup(sheet: any, spec: CleanupSpec): CleanupResult {
+  const table = readTable(sheet);
+
+  switch (spec.kind) {
+    case "trimWhitespace": {
+      const cols = findColumns(sheet, table, spec.columns);
+      const { ops, preview } = rewriteCells(sheet, table, cols, (text) => text.replace(/\s+/g, " ").trim());
+      const where = spec.columns?.length ? spec.columns.join(", ") : "all columns";
+      return { ops, preview, changeCount: ops.length, description: `Trim extra whitespace in ${where}` };
+    }
+
+    case "normalizeDates": {
+      const col = findColumn(sheet, table, spec.column);
+      const { ops, preview, skipped } = rewriteCells(sheet, table, [col], (text) => parseDate(text, spec.dayFirst));
+      let description = `Write dates in ${table.headers.get(col)} as YYYY-MM-DD`;
+      if (skipped > 0) description += ` (left as is: ${plural(skipped, "value")} not read as a date)`;
+      return { ops, preview, changeCount: ops.length, description };
+    }
+
+    case "normalizeCurrency": {
+      const col = findColumn(sheet, table, spec.column);
+      const decimals = Math.min(Math.max(Math.round(spec.decimals ?? 2), 0), 6);
+      const { ops, preview, skipped } = rewriteCells(sheet, table, [col], (text) => {
+        const amount = parseCurrency(text);
+        return amount === null ? null : amount.toFixed(decimals);
+      });
+      let description = `Write amounts in ${table.headers.get(col)} as plain numbers with ${plural(decimals, "decimal")}`;
+      if (skipped > 0) description += ` (left as is: ${plural(skipped, "value")} not read as an amount)`;
+      return { ops, preview, changeCount: ops.length, description };
+    }
+
+    case "dedupeRows": {
+      const cols = findColumns(sheet, table, spec.columns);
+      const seen = new Map<string, number>();
+      const duplicates: number[] = [];
+      const preview: CleanupPreview[] = [];
+      for (const row of dataRows(table)) {
+        const values = cols.map((col) => cellText(sheet, row, col).trim().toLowerCase());
+        if (values.every((value) => value === "")) continue;
+        const key = JSON.stringify(values);
+        const first = seen.get(key);
+        if (first === undefined) {
+          seen.set(key, row);
+          continue;
+        }
+        duplicates.push(row);
+        if (preview.length < MAX_PREVIEW_CHANGES) {
+          preview.push({
+            cell: `Row ${row + 1}`,
+            before: cols.map((col) => cellText(sheet, row, col)).join(" | "),
+            after: `Deleted (same as row ${first + 1})`,
+          });
+        }
+      }
+
+      // Delete from the bottom so the earlier row numbers stay valid
+      const ops: SheetOp[] = [];
+      for (let i = duplicates.length - 1; i >= 0; ) {
+        let start = duplicates[i];
+        let count = 1;
+        while (i - count >= 0 && duplicates[i - count] === start - 1) {
+          start--;
+          count++;
+        }
+        ops.push({ type: "deleteRows", sheet: sheet.name, index: start, count });
+        i -= count;
+      }
+      const where = spec.columns?.length ? ` by ${spec.columns.join(", ")}` : "";
+      return { ops, preview, changeCount: duplicates.length, description: `Delete ${plural(duplicates.length, "duplicate row")}${where}` };
+    }
+
+    case "fillBlanks": {
+      const col = findColumn(sheet, table, spec.column);
+      if (spec.strategy === "value" && spec.value === undefined) {
+        throw new Error("A value is required to fill blanks with");
+      }
+      const ops: SheetOp[] = [];
+      const preview: CleanupPreview[] = [];
+      let previous = "";
+      let count = 0;
+      for (const row of dataRows(table)) {
+        const text = cellText(sheet, row, col);
+        if (text.trim() !== "") {
+          previous = text;
+          continue;
+        }
+        // Rows that are blank in every column are spacing, not missing values
+        if ([...table.headers.keys()].every((c) => cellText(sheet, row, c).trim() === "")) continue;
+
+        let after: string;
+        if (spec.strategy === "flag") {
+          ops.push({ type: "applyStyle", sheet: sheet.name, range: { sri: row, sci: col, eri: row, eci: col }, style: FLAG_STYLE });
+          after = "(highlighted)";
+        } else {
+          const value = spec.strategy === "value" ? spec.value! : previous;
+          if (!value) continue;
+          ops.push({ type: "setCell", sheet: sheet.name, row, col, text: value });
+          after = value;
+        }
+        count++;
+        if (preview.length < MAX_PREVIEW_CHANGES) preview.push({ cell: ref(row, col), before: "", after });
+      }
+      const action = spec.strategy === "flag"
+        ? "Highlight"
+        : spec.strategy === "previous" ? "Fill from the value above" : `Fill with "${spec.value}"`;
+      return { ops, preview, changeCount: count, description: `${action} ${plural(count, "blank cell")} in ${table.headers.get(col)}` };
+    }
+
+    case "splitColumn": {
+      const col = findColumn(sheet, table, spec.column);
+      const parts = spec.newColumns.length;
+      if (parts < 2) {
+        throw new Error("Splitting a column needs at least two new column names");
+      }
+      if (!spec.delimiter) {
+        throw new Error("A delimiter is required to split a column");
+      }
+
+      const ops: SheetOp[] = [
+        { type: "insertCols", sheet: sheet.name, index: col + 1, count: parts - 1 },
+        ...spec.newColumns.map((header, i): SheetOp => ({
+          type: "setCell", sheet: sheet.name, row: table.headerRow, col: col + i, text: header,
+        })),
+      ];
+      const preview: CleanupPreview[] = [];
+      let count = 0;
+      for (const row of dataRows(table)) {
+        const text = cellText(sheet, row, col);
+        if (!text || isFormula(text)) continue;
+        const pieces = text.split(spec.delimiter);
+        if (pieces.length < 2) continue;
+        // Anything past the last new column stays together in it
+        const values = [...pieces.slice(0, parts - 1), pieces.slice(parts - 1).join(spec.delimiter)]
+          .map((piece) => (piece ?? "").trim());
+        values.forEach((value, i) => {
+          if (i === 0 || value) {
+            ops.push({ type: "setCell", sheet: sheet.name, row, col: col + i, text: value || null });
+          }
+        });
+        count++;
+        if (preview.length < MAX_PREVIEW_CHANGES) {
+          preview.push({ cell: ref(row, col), before: text, after: values.join(" | ") });
+        }
+      }
+      return {
+        ops,
+        preview,
+        changeCount: count,
+        description: `Split ${table.headers.get(col)} on "${spec.delimiter}" into ${spec.newColumns.join(", ")}`,
+      };
+    }
+
+    case "mergeColumns": {
+      if (spec.columns.length < 2) {
+        throw new Error("Merging needs at least two columns");
+      }
+      const cols = findColumns(sheet, table, spec.columns);
+      if (new Set(cols).size !== cols.length) {
+        throw new Error("Each column can only be merged once");
+      }
+      const separator = spec.separator ?? " ";
+      const target = Math.min(...cols);
+      const header = spec.newColumn || spec.columns.join(separator);
+
+      const ops: SheetOp[] = [{ type: "setCell", sheet: sheet.name, row: table.headerRow, col: target, text: header }];
+      const preview: CleanupPreview[] = [];
+      let count = 0;
+      for (const row of dataRows(table)) {
+        const values = cols.map((col) => cellText(sheet, row, col).trim());
+        if (values.every((value) => value === "")) continue;
+        const merged = values.filter((value) => value !== "").join(separator);
+        ops.push({ type: "setCell", sheet: sheet.name, row, col: target, text: merged });
+        count++;
+        if (preview.length < MAX_PREVIEW_CHANGES) {
+          preview.push({ cell: ref(row, target), before: values.join(" | "), after: merged });
+        }
+      }
+      // Delete from the right so the other column numbers stay valid
+      for (const col of cols.filter((c) => c !== target).sort((a, b) => b - a)) {
+        ops.push({ type: "deleteCols", sheet: sheet.name, index: col, count: 1 });
+      }
+      return {
+        ops,
+        preview,
+        changeCount: count,
+        description: `Merge ${spec.columns.join(", ")} into ${header}`,
+      };
+    }
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Text and table extraction for uploaded documents, run by the document
+ * processing action. PDF text keeps its line layout and marks each page with
+ * a "=== PAGE n ===" header so readers can tell pages apart; workbooks mark
+ * each sheet with a "=== SHEET name ===" header the same way.
+ */
+import { detectTablesFromText, ExtractedTable, tableFromGrid } from "./documentTables";
+import { DocumentFileType } from "./documentFiles";
+import { extractDocxTables } from "./docxTables";
+import { extractHtmlTables, htmlText, parseHtml } from "./htmlTables";
+import { extractPdfTables, groupIntoLines, PdfPageLayout, PdfRule, PdfTextItem } from "./pdfTables";
+import { computedValueToText, evaluateWorkbook } from "./formulas";
+import { decodeCSVBytes, parseCSV } from "./sheetCodec";
+import { xlsxToXSpreadsheet } from "./xlsx";
+
+export interface ExtractedDocument {
+  text: string;
+  tables: ExtractedTable[];
+  pageCount?: number;
+}
+
+// Called after every page so the queue can show how far along a document is
+export type PageProgressCallback = (processedPages: number, pageCount: number) => Promise<void>;
+
+// Path segment codes used by pdfjs in constructPath operators
+const DRAW_MOVE_TO = 0;
+const DRAW_LINE_TO = 1;
+const DRAW_CURVE_TO = 2;
+const DRAW_CLOSE_PATH = 3;
+
+// Filled rectangles thinner than this are drawn rules; thicker ones are shading
+const MAX_FILLED_RULE_WIDTH = 3;
+
+type Matrix = [number, number, number, number, number, number];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function applyMatrix(m: Matrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+/**
+ * Horizontal and vertical lines drawn on a page, in page coordinates
+ */
+function collectRules(
+  operatorList: { fnArray: number[]; argsArray: any[] },
+  ops: Record<string, number>
+): PdfRule[] {
+  const strokeOps = new Set([ops.stroke, ops.closeStroke, ops.fillStroke, ops.eoFillStroke, ops.closeFillStroke, ops.closeEOFillStroke]);
+  const fillOps = new Set([ops.fill, ops.eoFill]);
+  const rules: PdfRule[] = [];
+  const stack: Matrix[] = [];
+  let matrix: Matrix = [1, 0, 0, 1, 0, 0];
+
+  operatorList.fnArray.forEach((fn, index) => {
+    const args = operatorList.argsArray[index];
+    if (fn === ops.save) {
+      stack.push(matrix);
+    } else if (fn === ops.restore) {
+      matrix = stack.pop() ?? matrix;
+    } else if (fn === ops.transform) {
+      matrix = multiply(matrix, args as Matrix);
+    } else if (fn === ops.constructPath && Array.isArray(args)) {
+      const [paintOp, paths] = args;
+      const stroked = strokeOps.has(paintOp);
+      if ((!stroked && !fillOps.has(paintOp)) || !Array.isArray(paths) || !paths[0]) return;
+
+      const path: ArrayLike<number> = paths[0];
+      const segments: PdfRule[] = [];
+      let start: [number, number] = [0, 0];
+      let current: [number, number] = [0, 0];
+      for (let i = 0; i < path.length; ) {
+        const code = path[i];
+        if (code === DRAW_MOVE_TO) {
+          current = start = applyMatrix(matrix, path[i + 1], path[i + 2]);
+          i += 3;
+        } else if (code === DRAW_LINE_TO) {
+          const next = applyMatrix(matrix, path[i + 1], path[i + 2]);
+          segments.push({ x1: current[0], y1: current[1], x2: next[0], y2: next[1] });
+          current = next;
+          i += 3;
+        } else if (code === DRAW_CURVE_TO) {
+          current = applyMatrix(matrix, path[i + 5], path[i + 6]);
+          i += 7;
+        } else if (code === DRAW_CLOSE_PATH) {
+          segments.push({ x1: current[0], y1: current[1], x2: start[0], y2: start[1] });
+          current = start;
+          i += 1;
+        } else {
+          break;
+        }
+      }
+
+      if (stroked) {
+        rules.push(...segments);
+        return;
+      }
+
+      // A thin filled rectangle is a rule along its longer side
+      const xs = segments.flatMap((segment) => [segment.x1, segment.x2]);
+      const ys = segments.flatMap((segment) => [segment.y1, segment.y2]);
+      if (xs.length === 0) return;
+      const [left, right, bottom, top] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+      if (top - bottom <= MAX_FILLED_RULE_WIDTH && right - left > top - bottom) {
+        const y = (top + bottom) / 2;
+        rules.push({ x1: left, y1: y, x2: right, y2: y });
+      } else if (right - left <= MAX_FILLED_RULE_WIDTH && top - bottom > right - left) {
+        const x = (left + right) / 2;
+        rules.push({ x1: x, y1: bottom, x2: x, y2: top });
+      }
+    }
+  });
+
+  return rules;
+}
+
+export async function extractPdf(
+  data: Uint8Array,
+  onPage?: PageProgressCallback
+): Promise<ExtractedDocument> {
+  const pdfjsLib = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const pdf = await pdfjsLib.getDocument({
+    data,
+    useSystemFonts: true,
+    disableFontFace: true,
+    isEvalSupported: false,
+    verbosity: pdfjsLib.VerbosityLevel.ERRORS,
+  }).promise;
+
+  try {
+    const texts: string[] = [];
+    const layouts: PdfPageLayout[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      const items: PdfTextItem[] = [];
+      for (const item of content.items) {
+        // Marked-content entries carry no text
+        if (!("str" in item) || item.str.trim() === "") continue;
+        items.push({
+          str: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          height: item.height || Math.abs(item.transform[3]),
+        });
+      }
+      const rules = collectRules(await page.getOperatorList(), pdfjsLib.OPS);
+      layouts.push({ pageNumber, items, rules });
+
+      // Two spaces keep column boundaries visible in the text
+      const lines = groupIntoLines(items).map((line) => line.fragments.map((fragment) => fragment.text).join("  "));
+      texts.push(`=== PAGE ${pageNumber} ===\n${lines.join("\n")}`);
+      page.cleanup();
+
+      if (onPage) {
+        await onPage(pageNumber, pdf.numPages);
+      }
+    }
+
+    return { text: texts.join("\n\n"), tables: extractPdfTables(layouts), pageCount: pdf.numPages };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+export async function extractDocx(data: ArrayBuffer): Promise<ExtractedDocument> {
+  const mammoth = await import("mammoth");
+  const result = await mammoth.extractRawText({ buffer: Buffer.from(data) });
+  return { text: result.value.trim(), tables: await extractDocxTables(data) };
+}
+
+// Rows of cells as text, two spaces apart like PDF columns
+function gridText(grid: string[][]): string {
+  return grid.map((values) => values.join("  ").trimEnd()).join("\n");
+}
+
+// Blank rows above a sheet's data would otherwise be read as its header
+function dropLeadingEmptyRows(grid: string[][]): string[][] {
+  const first = grid.findIndex((values) => values.some((value) => value.trim() !== ""));
+  return first === -1 ? [] : grid.slice(first);
+}
+
+/**
+ * Workbooks map straight to tables: one per sheet, titled with the sheet
+ * name, with formula cells read as their computed values
+ */
+export function extractSpreadsheet(data: ArrayBuffer): ExtractedDocument {
+  const sheets = xlsxToXSpreadsheet(data);
+  const computed = evaluateWorkbook(sheets);
+  const texts: string[] = [];
+  const tables: ExtractedTable[] = [];
+
+  computed.forEach((sheet, index) => {
+    const grid = dropLeadingEmptyRows(sheet.values.map((values) => values.map(computedValueToText)));
+    if (grid.length === 0) return;
+
+    texts.push(`=== SHEET ${sheet.name} ===\n${gridText(grid)}`);
+    const table = tableFromGrid(grid, 1, index + 1, sheet.name);
+    if (table) {
+      tables.push(table);
+    }
+  });
+
+  return { text: texts.join("\n\n"), tables };
+}
+
+export function extractCsv(data: ArrayBuffer): ExtractedDocument {
+  const grid = dropLeadingEmptyRows(parseCSV(decodeCSVBytes(data)));
+  const table = tableFromGrid(grid, 1, 1);
+  return { text: gridText(grid), tables: table ? [table] : [] };
+}
+
+export function extractHtml(data: ArrayBuffer): ExtractedDocument {
+  const root = parseHtml(decodeCSVBytes(data));
+  return { text: htmlText(root), tables: extractHtmlTables(root) };
+}
+
+export function extractPlainText(data: ArrayBuffer): ExtractedDocument {
+  const text = decodeCSVBytes(data).trim();
+  return { text, tables: detectTablesFromText(text) };
+}
+
+/**
+ * Whether an OCR engine is configured for image uploads. Set
+ * DOCUMENT_OCR_URL to an endpoint that accepts the raw image as the request
+ * body and answers with the recognized text, either as plain text or as JSON
+ * with a "text" field. A local Tesseract or PaddleOCR server works.
+ */
+export function isOcrConfigured(): boolean {
+  return !!process.env.DOCUMENT_OCR_URL;
+}
+
+export async function extractImage(data: ArrayBuffer, contentType: string): Promise<ExtractedDocument> {
+  const url = process.env.DOCUMENT_OCR_URL;
+  if (!url) {
+    throw new Error("No OCR engine is configured");
+  }
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": contentType || "application/octet-stream" },
+    body: data,
+  });
+  if (!response.ok) {
+    throw new Error(`OCR request failed with status ${response.status}`);
+  }
+
+  let text: string;
+  if ((response.headers.get("content-type") ?? "").includes("application/json")) {
+    const body = await response.json();
+    text = typeof body?.text === "string" ? body.text : "";
+  } else {
+    text = await response.text();
+  }
+
+  text = text.trim();
+  return { text, tables: detectTablesFromText(text) };
+}
+
+/**
+ * Extract text and tables from a stored file of the given type. Page
+ * progress is only reported for PDFs.
+ */
+export async function extractDocument(
+  fileType: DocumentFileType,
+  data: ArrayBuffer,
+  contentType: string,
+  onPage?: PageProgressCallback
+): Promise<ExtractedDocument> {
+  switch (fileType) {
+    case "pdf":
+      return await extractPdf(new Uint8Array(data), onPage);
+    case "docx":
+      return await extractDocx(data);
+    case "xlsx":
+      return extractSpreadsheet(data);
+    case "csv":
+      return extractCsv(data);
+    case "html":
+      return extractHtml(data);
+    case "txt":
+      return extractPlainText(data);
+    case "image":
+      return await extractImage(data, contentType);
+  }
+}
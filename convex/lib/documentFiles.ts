@@ -0,0 +1,67 @@
+import { v } from "convex/values";
+
+/**
+ * Kinds of files that can be uploaded as documents, and how uploads are
+ * recognized. Shared by the schema, the processing action and the upload UI.
+ */
+
+export const documentFileTypeValidator = v.union(
+  v.literal("pdf"),
+  v.literal("docx"),
+  v.literal("xlsx"),
+  v.literal("csv"),
+  v.literal("html"),
+  v.literal("txt"),
+  v.literal("image")
+);
+
+export type DocumentFileType = "pdf" | "docx" | "xlsx" | "csv" | "html" | "txt" | "image";
+
+const EXTENSION_TYPES: Record<string, DocumentFileType> = {
+  pdf: "pdf",
+  docx: "docx",
+  xlsx: "xlsx",
+  xls: "xlsx",
+  csv: "csv",
+  html: "html",
+  htm: "html",
+  txt: "txt",
+  png: "image",
+  jpg: "image",
+  jpeg: "image",
+  webp: "image",
+  gif: "image",
+  bmp: "image",
+  tif: "image",
+  tiff: "image",
+};
+
+const MIME_TYPES: Record<string, DocumentFileType> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "application/vnd.ms-excel": "xlsx",
+  "text/csv": "csv",
+  "text/html": "html",
+  "text/plain": "txt",
+};
+
+// Value for the `accept` attribute of document file inputs
+export const DOCUMENT_FILE_ACCEPT = Object.keys(EXTENSION_TYPES)
+  .map((extension) => `.${extension}`)
+  .join(",");
+
+/**
+ * Work out the document type of an upload from its extension, falling back
+ * to the MIME type. Returns null for unsupported files.
+ */
+export function documentFileType(fileName: string, mimeType: string): DocumentFileType | null {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  if (EXTENSION_TYPES[extension]) {
+    return EXTENSION_TYPES[extension];
+  }
+  if (MIME_TYPES[mimeType]) {
+    return MIME_TYPES[mimeType];
+  }
+  return mimeType.startsWith("image/") ? "image" : null;
+}
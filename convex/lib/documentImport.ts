@@ -0,0 +1,132 @@
+import { v } from "convex/values";
+
+/**
+ * Preparing tables extracted from documents for a sheet: column types, value
+ * conversion and joining tables that were split across pages. Shared by the
+ * table import wizard and the mutation that writes the result, so keep it
+ * free of browser and Node specific APIs.
+ */
+
+export const importColumnTypeValidator = v.union(v.literal("text"), v.literal("number"), v.literal("date"));
+
+export type ImportColumnType = "text" | "number" | "date";
+
+// Where an imported table goes: a sheet created for it, below the data of an
+// existing sheet, or as extra rows of the table an existing sheet holds
+export const importTargetValidator = v.union(v.literal("new"), v.literal("existing"), v.literal("append"));
+
+export type ImportTarget = "new" | "existing" | "append";
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/**
+ * Read a number the way documents print them: currency symbols, thousands
+ * separators and spaces are ignored and accounting parentheses mean negative
+ */
+export function parseImportNumber(value: string): number | null {
+  let text = value.trim().replace(/[\s$€£¥₹,]/g, "");
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(text)) {
+    return null;
+  }
+  return sign * Number(text);
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Read a date as yyyy-mm-dd. Numeric dates are month first unless the first
+ * part cannot be a month; month names are accepted in either order.
+ */
+export function parseImportDate(value: string): string | null {
+  const text = value.trim().toLowerCase();
+
+  let match = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/.exec(text);
+  if (match) {
+    return isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  match = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/.exec(text);
+  if (match) {
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    return first > 12 ? isoDate(Number(match[3]), second, first) : isoDate(Number(match[3]), first, second);
+  }
+
+  match = /^(\d{1,2})\s+([a-z]{3})[a-z]*\.?,?\s+(\d{4})$/.exec(text);
+  if (match && MONTHS.includes(match[2])) {
+    return isoDate(Number(match[3]), MONTHS.indexOf(match[2]) + 1, Number(match[1]));
+  }
+
+  match = /^([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})$/.exec(text);
+  if (match && MONTHS.includes(match[1])) {
+    return isoDate(Number(match[3]), MONTHS.indexOf(match[1]) + 1, Number(match[2]));
+  }
+
+  return null;
+}
+
+/**
+ * Type a column reads as: number or date when every non-empty value parses
+ * as one, text otherwise
+ */
+export function guessColumnType(values: string[]): ImportColumnType {
+  const filled = values.filter((value) => value.trim() !== "");
+  if (filled.length === 0) return "text";
+  if (filled.every((value) => parseImportNumber(value) !== null)) return "number";
+  if (filled.every((value) => parseImportDate(value) !== null)) return "date";
+  return "text";
+}
+
+// Cell text for a value of the chosen type. Values that do not parse are kept as they are.
+export function convertImportValue(value: string, type: ImportColumnType): string {
+  if (type === "number") {
+    const number = parseImportNumber(value);
+    return number === null ? value : String(number);
+  }
+  if (type === "date") {
+    return parseImportDate(value) ?? value;
+  }
+  return value;
+}
+
+// Headers and rows of an extracted table, padded to the same width
+export function toImportTable(table: { rows: unknown[][] }): ImportTable {
+  const cells = table.rows.map((row) => row.map((cell) => (cell === null || cell === undefined ? "" : String(cell))));
+  const width = Math.max(0, ...cells.map((row) => row.length));
+  const padded = cells.map((row) => Array.from({ length: width }, (_, column) => row[column] ?? ""));
+  return { headers: (padded[0] ?? []).map((header) => header.trim()), rows: padded.slice(1) };
+}
+
+function sameHeaders(a: string[], b: string[]): boolean {
+  const normalize = (values: string[]) => values.map((value) => value.trim().toLowerCase()).join("\u0000");
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Join a table continued on a later page onto the first. The continuation's
+ * header row is dropped when it repeats the first table's header, and kept as
+ * a data row otherwise, since extraction reads the first row of every
+ * fragment as a header.
+ */
+export function mergeImportTables(first: ImportTable, next: ImportTable): ImportTable {
+  const width = Math.max(first.headers.length, next.headers.length);
+  const pad = (row: string[]) => Array.from({ length: width }, (_, column) => row[column] ?? "");
+
+  const continued = sameHeaders(first.headers, next.headers) ? next.rows : [next.headers, ...next.rows];
+  return { headers: pad(first.headers), rows: [...first.rows, ...continued].map(pad) };
+}
@@ -0,0 +1,338 @@
+/**
+ * Table detection over extracted document text. Shared by the document
+ * processing action and the /api/extract-tables route.
+ */
+import { generateText, LanguageModel } from "ai";
+
+// Stored as JSON in documents.extractedTables; the first row holds the headers
+export interface ExtractedTable {
+  page: number;
+  rows: string[][];
+  confidence?: number; // 0-1, set by extractors that can judge their result
+  title?: string; // Sheet name or caption when the file has one
+}
+
+// Tables scored below this are worth sending to a language model for fix-up
+export const FIX_UP_CONFIDENCE = 0.6;
+
+/**
+ * Turn a grid of cells read from a structured file into a table. Several
+ * header rows, such as a group title over sub-headings, become one; empty
+ * rows and columns are dropped. Returns null when no data rows are left.
+ */
+export function tableFromGrid(
+  grid: string[][],
+  headerRows: number,
+  page: number,
+  title?: string
+): ExtractedTable | null {
+  const width = Math.max(0, ...grid.map((values) => values.length));
+  const rows = grid.map((values) => Array.from({ length: width }, (_, index) => values[index] ?? ""));
+
+  const headerCount = Math.max(headerRows, 1);
+  const header = Array.from({ length: width }, (_, column) => {
+    const parts: string[] = [];
+    for (const values of rows.slice(0, headerCount)) {
+      const value = values[column];
+      if (value && parts[parts.length - 1] !== value) {
+        parts.push(value);
+      }
+    }
+    return parts.join(" ");
+  });
+
+  const body = rows.slice(headerCount).filter((values) => values.some((value) => value !== ""));
+  const keep = header.map((value, column) => value !== "" || body.some((values) => values[column] !== ""));
+  if (body.length === 0 || !keep.some(Boolean)) {
+    return null;
+  }
+
+  return {
+    page,
+    rows: [header, ...body].map((values) => values.filter((_, column) => keep[column])),
+    confidence: 1,
+    ...(title ? { title } : {}),
+  };
+}
+
+/**
+ * Fallback function to detect tables programmatically from text
+ * Uses smart pattern matching for better accuracy with multi-word values
+ * Handles multi-page tables by combining them into one
+ */
+export function detectTablesFromText(text: string): ExtractedTable[] {
+  const tables: ExtractedTable[] = [];
+  
+  console.log("🔍 Fallback parser starting...");
+  console.log("   Text length:", text.length);
+  
+  // Split text by page markers if they exist
+  const pages = text.split(/=== PAGE \d+ ===/);
+  console.log("   Pages found:", pages.length);
+  
+  // First pass: Find the header on the first page with data
+  let headers: string[] = [];
+  let headerFound = false;
+  let allDataLines: string[] = [];
+  
+  for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
+    const pageText = pages[pageIndex].trim();
+    if (!pageText) continue;
+    
+    const lines = pageText.split('\n').filter(line => line.trim().length > 0);
+    console.log(`   Page ${pageIndex + 1}: ${lines.length} lines`);
+    
+    if (lines.length === 0) continue;
+    
+    // Only look for header on first page with data
+    if (!headerFound) {
+      for (let i = 0; i < Math.min(5, lines.length); i++) {
+        const line = lines[i];
+        const words = line.split(/\s+/);
+        
+        const hasHeaderPattern = words.some(w => 
+          /^[A-Z]/.test(w) || 
+          w.includes('(') ||
+          /ID|Name|Date|Type|Status|Amount|Price|Location|Device|Feature|Duration|User/i.test(w)
+        );
+        
+        if (hasHeaderPattern && words.length >= 3 && words.length <= 20) {
+          // Split header by 2+ spaces
+          headers = line.split(/\s{2,}/).filter(h => h.trim());
+          
+          if (headers.length >= 2) {
+            headerFound = true;
+            console.log(`   ✓ Header found on page ${pageIndex + 1}, line ${i}: "${line}"`);
+            console.log(`   ✓ Headers: ${headers.length} columns - ${headers.join(", ")}`);
+            
+            // Add data lines from this page (after header)
+            allDataLines.push(...lines.slice(i + 1));
+            break;
+          }
+        }
+      }
+      
+      if (!headerFound) {
+        // No header found, try first line as header
+        const firstLine = lines[0];
+        headers = firstLine.split(/\s{2,}/).filter(h => h.trim());
+        if (headers.length >= 2) {
+          headerFound = true;
+          console.log(`   ✓ Using first line as header: ${headers.join(", ")}`);
+          allDataLines.push(...lines.slice(1));
+        }
+      }
+    } else {
+      // Header already found, just add all lines from this page as data
+      console.log(`   ➕ Adding ${lines.length} data lines from page ${pageIndex + 1}`);
+      allDataLines.push(...lines);
+    }
+  }
+  
+  if (!headerFound || headers.length < 2) {
+    console.log("   ✗ No valid header found");
+    return tables;
+  }
+  
+  console.log(`   📊 Total data lines collected: ${allDataLines.length}`);
+  console.log(`   🔄 Combining all pages into ONE continuous table`);
+  
+  const rows: string[][] = [headers];
+  
+  // Smart parsing: Use regex patterns to identify column values
+  for (const line of allDataLines) {
+    const trimmedLine = line.trim();
+    if (!trimmedLine) continue;
+    
+    // Strategy: Split by 2+ spaces first
+    let parts = trimmedLine.split(/\s{2,}/);
+    
+    // If we get exactly the right number of columns, use it
+    if (parts.length === headers.length) {
+      rows.push(parts.map(p => p.trim()));
+      continue;
+    }
+    
+    // If not, try smarter parsing based on patterns
+    const tokens = trimmedLine.split(/\s+/);
+    
+    if (tokens.length >= headers.length) {
+      const rowData: string[] = [];
+      let tokenIdx = 0;
+      
+      for (let colIdx = 0; colIdx < headers.length; colIdx++) {
+        if (tokenIdx >= tokens.length) {
+          rowData.push("");
+          continue;
+        }
+        
+        const header = headers[colIdx].toLowerCase();
+        
+        // Column-specific parsing rules
+        if (header.includes('id') || header.includes('user')) {
+          // Single token (e.g., U1234)
+          rowData.push(tokens[tokenIdx++]);
+        } else if (header.includes('date')) {
+          // Date format YYYY-MM-DD (single token)
+          rowData.push(tokens[tokenIdx++]);
+        } else if (header.includes('duration') || header.includes('mins')) {
+          // Number (possibly with decimal)
+          rowData.push(tokens[tokenIdx++]);
+        } else if (header.includes('device')) {
+          // Single word: Android, iOS, Web
+          rowData.push(tokens[tokenIdx++]);
+        } else if (header.includes('location')) {
+          // Country name (rest of tokens if last column, otherwise single)
+          if (colIdx === headers.length - 1) {
+            // Last column - take remaining tokens
+            rowData.push(tokens.slice(tokenIdx).join(' '));
+            tokenIdx = tokens.length;
+          } else {
+            rowData.push(tokens[tokenIdx++]);
+          }
+        } else if (header.includes('feature') || header.includes('used')) {
+          // Feature can be 1-2 words: "Reports", "API Access", "User Management"
+          let feature = tokens[tokenIdx++];
+          
+          // Check if next token is lowercase or part of known multi-word features
+          if (tokenIdx < tokens.length) {
+            const nextToken = tokens[tokenIdx];
+            // If next token starts with lowercase or is a known continuation word
+            if (/^[a-z]/.test(nextToken) || ['Access', 'Management'].includes(nextToken)) {
+              feature += ' ' + tokens[tokenIdx++];
+            }
+          }
+          
+          rowData.push(feature);
+        } else {
+          // Default: take next token
+          rowData.push(tokens[tokenIdx++]);
+        }
+      }
+      
+      // Ensure row has correct length
+      while (rowData.length < headers.length) {
+        rowData.push("");
+      }
+      
+      rows.push(rowData);
+    } else {
+      // Fallback: just split by spaces and group to match header count
+      const rowData: string[] = [];
+      const tokensPerCol = Math.floor(tokens.length / headers.length);
+      
+      for (let colIdx = 0; colIdx < headers.length; colIdx++) {
+        if (colIdx === headers.length - 1) {
+          // Last column gets remaining tokens
+          const remaining = tokens.slice(colIdx * tokensPerCol);
+          rowData.push(remaining.join(' '));
+        } else {
+          const start = colIdx * tokensPerCol;
+          const end = start + tokensPerCol;
+          rowData.push(tokens.slice(start, end).join(' '));
+        }
+      }
+      
+      rows.push(rowData);
+    }
+  }
+  
+  console.log(`   ✅ Parsed ${rows.length - 1} total data rows`);
+  
+  // Create single table with all data
+  if (rows.length >= 4) {
+    tables.push({
+      page: 1, // All pages combined into one table
+      rows: rows
+    });
+    
+    console.log(`✅ Fallback parser SUCCESS!`);
+    console.log(`   📊 SINGLE CONTINUOUS TABLE (all pages combined)`);
+    console.log(`   Table: ${headers.length} columns × ${rows.length - 1} rows`);
+    console.log(`   Headers: ${headers.join(" | ")}`);
+    console.log(`   Sample row 1: ${rows[1].join(" | ")}`);
+    if (rows.length > 2) {
+      console.log(`   Sample row 2: ${rows[2].join(" | ")}`);
+    }
+    if (rows.length > 3) {
+      console.log(`   Sample row 3: ${rows[3].join(" | ")}`);
+    }
+  } else {
+    console.log(`   ✗ Not enough rows (${rows.length - 1} data rows, need 3+)`);
+  }
+  
+  console.log(`🏁 Fallback parser complete. Found ${tables.length} table(s)`);
+  if (tables.length > 0) {
+    console.log(`   ℹ️  Note: Multi-page tables are combined into ONE table`);
+  }
+  return tables;
+}
+
+/**
+ * Text of one page of a document extracted with page markers, or the whole
+ * text when it has none
+ */
+function pageText(text: string, page: number): string {
+  const pages = text.split(/=== PAGE (\d+) ===/);
+  for (let i = 1; i < pages.length; i += 2) {
+    if (Number(pages[i]) === page) {
+      return pages[i + 1].trim();
+    }
+  }
+  return text;
+}
+
+function parseRows(content: string): string[][] | null {
+  const match = content.match(/\[[\s\S]*\]/);
+  if (!match) return null;
+  try {
+    const rows = JSON.parse(match[0]);
+    if (!Array.isArray(rows) || rows.length < 2 || !rows.every((row) => Array.isArray(row))) {
+      return null;
+    }
+    const width = rows[0].length;
+    return rows.map((row: unknown[]) => {
+      const cells = row.slice(0, width).map((cell) => (cell === null || cell === undefined ? "" : String(cell)));
+      return [...cells, ...Array(width - cells.length).fill("")];
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ask a language model to correct tables the deterministic extractors were
+ * unsure about. Tables keep their original rows when the model fails or
+ * returns something that is not a table.
+ */
+export async function fixUpTablesWithModel(
+  model: LanguageModel,
+  text: string,
+  tables: ExtractedTable[]
+): Promise<ExtractedTable[]> {
+  const fixed: ExtractedTable[] = [];
+
+  for (const table of tables) {
+    if ((table.confidence ?? 0) >= FIX_UP_CONFIDENCE) {
+      fixed.push(table);
+      continue;
+    }
+
+    try {
+      const result = await generateText({
+        model,
+        system:
+          "You correct tables that were extracted from documents. Reply with only a JSON array of rows, each an array of strings, with the header row first. Keep every data row, split merged cells and join cells that were wrapped onto several lines. Never invent values.",
+        prompt: `Page text:\n${pageText(text, table.page).slice(0, 12000)}\n\nExtracted table:\n${JSON.stringify(table.rows)}`,
+        maxOutputTokens: 4000,
+      });
+      const rows = parseRows(result.text);
+      fixed.push(rows ? { ...table, rows } : table);
+    } catch (error) {
+      console.error(`Table fix-up failed for page ${table.page}:`, error);
+      fixed.push(table);
+    }
+  }
+
+  return fixed;
+}
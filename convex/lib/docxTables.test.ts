@@ -0,0 +1,131 @@
+import JSZip from "jszip";
+import { describe, expect, test } from "vitest";
+import { extractDocxTables } from "./docxTables";
+
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+// A DOCX file holding just word/document.xml with the given body
+async function docx(body: string): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  zip.file("word/document.xml", `<?xml version="1.0"?><w:document xmlns:w="${W_NS}"><w:body>${body}</w:body></w:document>`);
+  return await zip.generateAsync({ type: "arraybuffer" });
+}
+
+function cell(text: string, props = "", content = ""): string {
+  return `<w:tc><w:tcPr>${props}</w:tcPr><w:p><w:r><w:t>${text}</w:t></w:r></w:p>${content}</w:tc>`;
+}
+
+function row(cells: string[], props = ""): string {
+  return `<w:tr><w:trPr>${props}</w:trPr>${cells.join("")}</w:tr>`;
+}
+
+function table(rows: string[]): string {
+  return `<w:tbl>${rows.join("")}</w:tbl>`;
+}
+
+const HEADER_ROW = "<w:tblHeader/>";
+const PAGE_BREAK = '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+
+describe("extractDocxTables", () => {
+  test("merges repeated header rows and spreads gridSpan cells across them", async () => {
+    const tables = await extractDocxTables(
+      await docx(
+        table([
+          row([cell("Name", '<w:vMerge w:val="restart"/>'), cell("Pay", '<w:gridSpan w:val="2"/>')], HEADER_ROW),
+          row([cell("", "<w:vMerge/>"), cell("Base"), cell("Bonus")], HEADER_ROW),
+          row([cell("Ann"), cell("100"), cell("10")]),
+          row([cell("Total", '<w:gridSpan w:val="2"/>'), cell("110")]),
+        ])
+      )
+    );
+
+    expect(tables).toEqual([
+      {
+        page: 1,
+        rows: [
+          ["Name", "Pay Base", "Pay Bonus"],
+          ["Ann", "100", "10"],
+          ["Total", "", "110"],
+        ],
+        confidence: 1,
+      },
+    ]);
+  });
+
+  test("repeats vertically merged data cells down the rows they cover", async () => {
+    const tables = await extractDocxTables(
+      await docx(
+        table([
+          row([cell("Team"), cell("Name")], HEADER_ROW),
+          row([cell("Sales", '<w:vMerge w:val="restart"/>'), cell("Ann")]),
+          row([cell("", "<w:vMerge/>"), cell("Bob")]),
+          row([cell("Ops"), cell("Cy")]),
+        ])
+      )
+    );
+
+    expect(tables[0].rows).toEqual([
+      ["Team", "Name"],
+      ["Sales", "Ann"],
+      ["Sales", "Bob"],
+      ["Ops", "Cy"],
+    ]);
+  });
+
+  test("only leading rows marked tblHeader are headers", async () => {
+    const tables = await extractDocxTables(
+      await docx(
+        table([
+          row([cell("Name"), cell("Total")]),
+          row([cell("Ann"), cell("100")], HEADER_ROW),
+          row([cell("Bob"), cell("200")]),
+        ])
+      )
+    );
+
+    expect(tables[0].rows).toEqual([
+      ["Name", "Total"],
+      ["Ann", "100"],
+      ["Bob", "200"],
+    ]);
+  });
+
+  test("lists a nested table after its parent without its text in the parent cell", async () => {
+    const inner = table([row([cell("Q1"), cell("Q2")], HEADER_ROW), row([cell("1"), cell("2")])]);
+    const tables = await extractDocxTables(
+      await docx(
+        table([
+          row([cell("Region"), cell("Quarters")], HEADER_ROW),
+          row([cell("North"), cell("See below", "", inner)]),
+        ])
+      )
+    );
+
+    expect(tables.map((extracted) => extracted.rows)).toEqual([
+      [
+        ["Region", "Quarters"],
+        ["North", "See below"],
+      ],
+      [
+        ["Q1", "Q2"],
+        ["1", "2"],
+      ],
+    ]);
+  });
+
+  test("numbers pages by the page breaks between tables", async () => {
+    const simple = table([row([cell("Name"), cell("Total")], HEADER_ROW), row([cell("Ann"), cell("100")])]);
+    const tables = await extractDocxTables(await docx(simple + PAGE_BREAK + simple));
+
+    expect(tables.map((extracted) => extracted.page)).toEqual([1, 2]);
+  });
+
+  test("rejects archives without a document part", async () => {
+    const zip = new JSZip();
+    zip.file("readme.txt", "not a document");
+
+    await expect(extractDocxTables(await zip.generateAsync({ type: "arraybuffer" }))).rejects.toThrow(
+      "The file is not a Word document"
+    );
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Table extraction straight from the WordprocessingML inside DOCX files.
+ * Merged cells, nested tables and repeated header rows come from the
+ * document's own <w:tbl> structure instead of being guessed from text.
+ */
+import JSZip from "jszip";
+import { DOMParser } from "@xmldom/xmldom";
+import { ExtractedTable, tableFromGrid } from "./documentTables";
+
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+// Wrappers that can sit between a row and its cells
+const CELL_CONTAINERS = ["sdt", "sdtContent", "customXml"];
+
+function isElement(node: Node): node is Element {
+  return node.nodeType === 1;
+}
+
+function childElements(element: Element, localName?: string): Element[] {
+  const result: Element[] = [];
+  for (let i = 0; i < element.childNodes.length; i++) {
+    const node = element.childNodes[i];
+    if (isElement(node) && node.namespaceURI === W_NS && (!localName || node.localName === localName)) {
+      result.push(node);
+    }
+  }
+  return result;
+}
+
+function childElement(element: Element | null, localName: string): Element | null {
+  return element ? childElements(element, localName)[0] ?? null : null;
+}
+
+function wordAttribute(element: Element | null, name: string): string | null {
+  if (!element) return null;
+  return element.getAttributeNS(W_NS, name) || element.getAttribute(`w:${name}`) || null;
+}
+
+// On/off properties such as <w:tblHeader/> are on unless val says otherwise
+function isOn(element: Element | null): boolean {
+  if (!element) return false;
+  const value = wordAttribute(element, "val");
+  return value === null || !["0", "false", "off"].includes(value);
+}
+
+function numberAttribute(element: Element | null, fallback: number): number {
+  const value = Number(wordAttribute(element, "val"));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function isPageBreak(element: Element, renderedBreaks: boolean): boolean {
+  if (renderedBreaks) {
+    return element.localName === "lastRenderedPageBreak";
+  }
+  return element.localName === "br" && wordAttribute(element, "type") === "page";
+}
+
+/**
+ * Text of a cell with its paragraphs joined by spaces. Tables nested in the
+ * cell are left out of the text and collected separately.
+ */
+function cellText(cell: Element, nested: Element[]): string {
+  const parts: string[] = [];
+
+  const walk = (element: Element) => {
+    for (const child of childElements(element)) {
+      switch (child.localName) {
+        case "tbl":
+          nested.push(child);
+          break;
+        case "t":
+          parts.push(child.textContent ?? "");
+          break;
+        case "tab":
+        case "br":
+        case "cr":
+          parts.push(" ");
+          break;
+        case "p":
+          walk(child);
+          parts.push(" ");
+          break;
+        // Deleted revisions and field codes are not visible text
+        case "del":
+        case "instrText":
+          break;
+        default:
+          walk(child);
+      }
+    }
+  };
+  walk(cell);
+
+  return parts.join("").replace(/\s+/g, " ").trim();
+}
+
+function rowCells(row: Element): Element[] {
+  const cells: Element[] = [];
+  for (const child of childElements(row)) {
+    if (child.localName === "tc") {
+      cells.push(child);
+    } else if (CELL_CONTAINERS.includes(child.localName)) {
+      cells.push(...rowCells(child));
+    }
+  }
+  return cells;
+}
+
+/**
+ * Read one table into rows of cells, followed by any tables nested in it.
+ * Horizontally merged cells are repeated in header rows and left empty in
+ * data rows; vertically merged cells repeat the value of the cell above.
+ */
+function readTable(table: Element, page: number): ExtractedTable[] {
+  const nested: Element[] = [];
+  const matrix: string[][] = [];
+  let headerRows = 0;
+  let inHeader = true;
+
+  childElements(table, "tr").forEach((row, rowIndex) => {
+    const rowProps = childElement(row, "trPr");
+    const isHeader = inHeader && isOn(childElement(rowProps, "tblHeader"));
+    if (isHeader) {
+      headerRows++;
+    } else {
+      inHeader = false;
+    }
+
+    const values: string[] = [];
+    let column = numberAttribute(childElement(rowProps, "gridBefore"), 0);
+    for (let i = 0; i < column; i++) values.push("");
+
+    for (const cell of rowCells(row)) {
+      const cellProps = childElement(cell, "tcPr");
+      const span = numberAttribute(childElement(cellProps, "gridSpan"), 1);
+      const vMerge = childElement(cellProps, "vMerge");
+      const continuesAbove = vMerge !== null && wordAttribute(vMerge, "val") !== "restart";
+
+      let text = cellText(cell, nested);
+      if (continuesAbove && rowIndex > 0) {
+        text = matrix[rowIndex - 1][column] ?? "";
+      }
+
+      for (let offset = 0; offset < span; offset++) {
+        values[column + offset] = offset === 0 || isHeader ? text : "";
+      }
+      column += span;
+    }
+
+    matrix.push(values);
+  });
+
+  const tables: ExtractedTable[] = [];
+  const parsed = tableFromGrid(matrix, headerRows, page);
+  if (parsed) {
+    tables.push(parsed);
+  }
+
+  for (const inner of nested) {
+    tables.push(...readTable(inner, page));
+  }
+  return tables;
+}
+
+/**
+ * Extract every table of a DOCX file in document order. Page numbers follow
+ * the page breaks Word recorded when the file was last laid out, or explicit
+ * page breaks when it has none.
+ */
+export async function extractDocxTables(data: ArrayBuffer): Promise<ExtractedTable[]> {
+  const zip = await JSZip.loadAsync(data);
+  const documentXml = await zip.file("word/document.xml")?.async("string");
+  if (!documentXml) {
+    throw new Error("The file is not a Word document");
+  }
+
+  const document = new DOMParser().parseFromString(documentXml, "text/xml");
+  const body = document.getElementsByTagNameNS(W_NS, "body")[0];
+  if (!body) {
+    return [];
+  }
+
+  const renderedBreaks = document.getElementsByTagNameNS(W_NS, "lastRenderedPageBreak").length > 0;
+  const tables: ExtractedTable[] = [];
+  let page = 1;
+
+  const countBreaks = (element: Element) => {
+    for (const child of childElements(element)) {
+      if (isPageBreak(child, renderedBreaks)) page++;
+      countBreaks(child);
+    }
+  };
+
+  const walk = (element: Element) => {
+    for (const child of childElements(element)) {
+      if (child.localName === "tbl") {
+        tables.push(...readTable(child, page));
+        countBreaks(child);
+      } else if (isPageBreak(child, renderedBreaks)) {
+        page++;
+      } else {
+        walk(child);
+      }
+    }
+  };
+  walk(body);
+
+  return tables;
+}
@@ -0,0 +1,226 @@
+import { HyperFormula, DetailedCellError } from "hyperformula";
+
+/**
+ * Shared formula evaluation for stored x-spreadsheet workbooks.
+ *
+ * Used both by Convex functions (AI context, stats, dashboards) and by the
+ * client (charts), so it must stay free of browser and Node specific APIs.
+ */
+
+export type ComputedCellValue = string | number | boolean;
+
+export interface ComputedSheet {
+  name: string;
+  // values[row][col] - formula cells hold their computed result, every other
+  // cell keeps its literal text
+  values: ComputedCellValue[][];
+}
+
+// Read the raw text of a cell from either the rows-based or legacy flat `cells` structure
+export function getCellText(sheet: any, row: number, col: number): string {
+  if (!sheet) return "";
+  if (sheet.cells && !sheet.rows) {
+    const cell = sheet.cells[`${row}_${col}`];
+    const raw = cell?.text ?? cell?.value ?? "";
+    return raw === null || raw === undefined ? "" : String(raw);
+  }
+  const rObj = sheet.rows?.[row] || sheet.rows?.[String(row)];
+  const cObj = rObj?.cells?.[col] || rObj?.cells?.[String(col)];
+  const raw = cObj?.text ?? cObj?.value ?? "";
+  return raw === null || raw === undefined ? "" : String(raw);
+}
+
+export function isFormula(text: unknown): boolean {
+  return typeof text === "string" && text.length > 1 && text.startsWith("=");
+}
+
+// Convert a sheet into a dense 2D array of raw cell texts
+function sheetToTextMatrix(sheet: any): string[][] {
+  const cellsByRow: Record<number, Record<number, string>> = {};
+  let maxRow = -1;
+  let maxCol = -1;
+
+  const put = (r: number, c: number, text: string) => {
+    if (isNaN(r) || isNaN(c) || r < 0 || c < 0 || text === "") return;
+    if (!cellsByRow[r]) cellsByRow[r] = {};
+    cellsByRow[r][c] = text;
+    maxRow = Math.max(maxRow, r);
+    maxCol = Math.max(maxCol, c);
+  };
+
+  if (sheet?.cells && !sheet?.rows) {
+    for (const key of Object.keys(sheet.cells)) {
+      const [r, c] = key.split("_").map((n) => parseInt(n, 10));
+      put(r, c, getCellText(sheet, r, c));
+    }
+  } else if (sheet?.rows) {
+    for (const rowKey of Object.keys(sheet.rows)) {
+      if (rowKey === "len") continue;
+      const cells = sheet.rows[rowKey]?.cells;
+      if (!cells) continue;
+      const r = parseInt(rowKey, 10);
+      for (const colKey of Object.keys(cells)) {
+        const c = parseInt(colKey, 10);
+        put(r, c, getCellText(sheet, r, c));
+      }
+    }
+  }
+
+  const matrix: string[][] = [];
+  for (let r = 0; r <= maxRow; r++) {
+    const row: string[] = [];
+    for (let c = 0; c <= maxCol; c++) {
+      row.push(cellsByRow[r]?.[c] ?? "");
+    }
+    matrix.push(row);
+  }
+  return matrix;
+}
+
+// HyperFormula requires unique, non-empty sheet names
+function uniqueSheetNames(sheets: any[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base = String(sheet?.name || `Sheet${index + 1}`).trim() || `Sheet${index + 1}`;
+    let name = base;
+    let suffix = 2;
+    while (used.has(name.toLowerCase())) {
+      name = `${base} (${suffix++})`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+// Non-formula cells are fed as numbers or forced text so HyperFormula does not
+// reinterpret literals (e.g. "01/02/2024" as a date serial)
+function toEngineInput(text: string): string | number | null {
+  if (text === "") return null;
+  if (isFormula(text)) return text;
+  const trimmed = text.trim();
+  if (trimmed !== "" && !isNaN(Number(trimmed))) return Number(trimmed);
+  return `'${text}`;
+}
+
+function fromEngineValue(value: unknown): ComputedCellValue {
+  if (value instanceof DetailedCellError) return value.value;
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number" || typeof value === "boolean" || typeof value === "string") {
+    return value;
+  }
+  return String(value);
+}
+
+/**
+ * Evaluate every formula in an x-spreadsheet workbook (array of sheets).
+ * Cross-sheet references such as `Sheet2!B3` resolve against the other sheets
+ * in the same workbook.
+ */
+export function evaluateWorkbook(sheets: any[]): ComputedSheet[] {
+  if (!Array.isArray(sheets)) return [];
+
+  const names = uniqueSheetNames(sheets);
+  const matrices = sheets.map((sheet) => sheetToTextMatrix(sheet));
+  const hasFormulas = matrices.some((m) => m.some((row) => row.some(isFormula)));
+
+  let computed: ComputedSheet[] = matrices.map((matrix, i) => ({ name: names[i], values: matrix }));
+
+  if (hasFormulas) {
+    let hf: HyperFormula | null = null;
+    try {
+      const engineSheets: Record<string, Array<Array<string | number | null>>> = {};
+      matrices.forEach((matrix, i) => {
+        engineSheets[names[i]] = matrix.map((row) => row.map(toEngineInput));
+      });
+      hf = HyperFormula.buildFromSheets(engineSheets, { licenseKey: "gpl-v3" });
+
+      computed = matrices.map((matrix, i) => {
+        const sheetId = hf!.getSheetId(names[i]);
+        const engineValues = sheetId === undefined ? [] : hf!.getSheetValues(sheetId);
+        return {
+          name: names[i],
+          values: matrix.map((row, r) =>
+            row.map((text, c) => (isFormula(text) ? fromEngineValue(engineValues[r]?.[c]) : text))
+          ),
+        };
+      });
+    } catch (error) {
+      console.warn("Formula evaluation failed, falling back to raw cell text:", error);
+    } finally {
+      hf?.destroy();
+    }
+  }
+
+  return computed;
+}
+
+/**
+ * Evaluate a single sheet. When the workbook it belongs to is provided,
+ * cross-sheet references are resolved against it.
+ */
+export function evaluateSheet(sheet: any, workbook?: any[]): ComputedSheet {
+  if (Array.isArray(workbook)) {
+    const index = workbook.indexOf(sheet);
+    if (index !== -1) return evaluateWorkbook(workbook)[index];
+  }
+  return evaluateWorkbook([sheet])[0];
+}
+
+export function getComputedValue(
+  computed: ComputedSheet | undefined,
+  row: number,
+  col: number
+): ComputedCellValue {
+  return computed?.values[row]?.[col] ?? "";
+}
+
+// Format a computed value as cell text (numbers as-is, booleans as TRUE/FALSE)
+export function computedValueToText(value: ComputedCellValue): string {
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  return String(value);
+}
+
+/**
+ * Return a copy of the workbook where every formula cell's `text` is replaced
+ * by its computed result. Useful for read-only consumers (AI context, analysis)
+ * that only understand literal cell text. Never persist the result.
+ */
+export function withComputedText(sheets: any[]): any[] {
+  if (!Array.isArray(sheets)) return [];
+  const computed = evaluateWorkbook(sheets);
+
+  return sheets.map((sheet, i) => {
+    if (!sheet) return sheet;
+    const values = computed[i];
+
+    if (sheet.cells && !sheet.rows) {
+      const cells: Record<string, any> = {};
+      for (const [key, cell] of Object.entries<any>(sheet.cells)) {
+        const [r, c] = key.split("_").map((n) => parseInt(n, 10));
+        cells[key] = isFormula(cell?.text)
+          ? { ...cell, text: computedValueToText(getComputedValue(values, r, c)) }
+          : cell;
+      }
+      return { ...sheet, cells };
+    }
+
+    if (!sheet.rows) return sheet;
+    const rows: Record<string, any> = {};
+    for (const [rowKey, row] of Object.entries<any>(sheet.rows)) {
+      if (rowKey === "len" || !row?.cells) {
+        rows[rowKey] = row;
+        continue;
+      }
+      const r = parseInt(rowKey, 10);
+      const cells: Record<string, any> = {};
+      for (const [colKey, cell] of Object.entries<any>(row.cells)) {
+        const c = parseInt(colKey, 10);
+        cells[colKey] = isFormula(cell?.text)
+          ? { ...cell, text: computedValueToText(getComputedValue(values, r, c)) }
+          : cell;
+      }
+      rows[rowKey] = { ...row, cells };
+    }
+    return { ...sheet, rows };
+  });
+}
@@ -0,0 +1,97 @@
+import { describe, expect, test } from "vitest";
+import { extractHtmlTables, htmlText, parseHtml } from "./htmlTables";
+
+describe("extractHtmlTables", () => {
+  test("closes cells and rows that are left open", () => {
+    const tables = extractHtmlTables(
+      parseHtml("<table><tr><th>Name<th>Dept<tr><td>Ann<td>Sales<tr><td>Bob<td>Ops</table><p>After the table")
+    );
+
+    expect(tables).toEqual([
+      {
+        page: 1,
+        rows: [
+          ["Name", "Dept"],
+          ["Ann", "Sales"],
+          ["Bob", "Ops"],
+        ],
+        confidence: 1,
+      },
+    ]);
+  });
+
+  test("spreads rowspan and colspan cells and takes the caption as the title", () => {
+    const tables = extractHtmlTables(
+      parseHtml(`
+        <table>
+          <caption>Pay &amp; bonus</caption>
+          <thead>
+            <tr><th rowspan=2>Name<th colspan="2">Pay</tr>
+            <tr><th>Base<th>Bonus</tr>
+          </thead>
+          <tbody>
+            <tr><td rowspan="2">Ann<td>100<td>10
+            <tr><td>200<td>20
+            <tr><td colspan=2>Total<td>330
+          </tbody>
+        </table>
+      `)
+    );
+
+    expect(tables).toEqual([
+      {
+        page: 1,
+        rows: [
+          ["Name", "Pay Base", "Pay Bonus"],
+          ["Ann", "100", "10"],
+          ["Ann", "200", "20"],
+          ["Total", "", "330"],
+        ],
+        confidence: 1,
+        title: "Pay & bonus",
+      },
+    ]);
+  });
+
+  test("lists a nested table after its parent without its text in the parent cell", () => {
+    const tables = extractHtmlTables(
+      parseHtml(
+        "<div><table><tr><th>Region<th>Quarters<tr><td>North<td>See below<table><tr><th>Q1<th>Q2<tr><td>1<td>2</table></table></div>"
+      )
+    );
+
+    expect(tables.map((table) => table.rows)).toEqual([
+      [
+        ["Region", "Quarters"],
+        ["North", "See below"],
+      ],
+      [
+        ["Q1", "Q2"],
+        ["1", "2"],
+      ],
+    ]);
+  });
+
+  test("a stray end tag inside a table does not close the table", () => {
+    const tables = extractHtmlTables(
+      parseHtml("<div><table><tr><th>Name<th>Dept</div><tr><td>Ann<td>Sales</table></div>")
+    );
+
+    expect(tables[0].rows).toEqual([
+      ["Name", "Dept"],
+      ["Ann", "Sales"],
+    ]);
+  });
+});
+
+describe("htmlText", () => {
+  test("puts each block on its own line and skips the head", () => {
+    const text = htmlText(
+      parseHtml(
+        "<html><head><title>Export</title></head><body><h1>Q1 &amp; Q2</h1><p>First<p>Second<br>line<table><tr><td>A<td>B</table><script>var x = 1;</script></body></html>"
+      )
+    );
+
+    expect(text).toBe("Q1 & Q2\nFirst\nSecond\nline\nA  B");
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Table and text extraction for uploaded HTML reports. Exported reports are
+ * rarely well-formed XML, so the markup is read into a small DOM that closes
+ * cells, rows and paragraphs the way browsers do before tables are read
+ * from it.
+ */
+import { ExtractedTable, tableFromGrid } from "./documentTables";
+
+export interface HtmlElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr",
+]);
+
+// Content of these is never shown as document text
+const SKIPPED_TAGS = new Set(["script", "style", "title", "template", "noscript"]);
+
+const BLOCK_TAGS = new Set([
+  "address", "article", "aside", "blockquote", "caption", "div", "dl", "dt", "dd", "fieldset", "figure", "footer",
+  "form", "h1", "h2", "h3", "h4", "h5", "h6", "header", "hr", "li", "main", "nav", "ol", "p", "pre", "section",
+  "table", "tr", "ul",
+]);
+
+// Opening one of these closes an open element of the listed kinds, without
+// looking past the listed boundaries
+const IMPLIED_CLOSES: Record<string, { closes: string[]; boundary: string[] }> = {
+  td: { closes: ["td", "th"], boundary: ["tr", "table"] },
+  th: { closes: ["td", "th"], boundary: ["tr", "table"] },
+  tr: { closes: ["tr"], boundary: ["table"] },
+  thead: { closes: ["thead", "tbody", "tfoot"], boundary: ["table"] },
+  tbody: { closes: ["thead", "tbody", "tfoot"], boundary: ["table"] },
+  tfoot: { closes: ["thead", "tbody", "tfoot"], boundary: ["table"] },
+  p: { closes: ["p"], boundary: ["td", "th", "div", "li", "table", "body"] },
+  li: { closes: ["li"], boundary: ["ul", "ol", "td", "th"] },
+  option: { closes: ["option"], boundary: ["select"] },
+};
+
+// Block elements that end an open paragraph when they start
+const PARAGRAPH_CLOSERS = new Set([
+  "address", "article", "aside", "blockquote", "div", "dl", "fieldset", "figure", "footer", "form", "h1", "h2", "h3",
+  "h4", "h5", "h6", "header", "hr", "main", "nav", "ol", "pre", "section", "table", "ul",
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", ndash: "–", mdash: "—", hellip: "…",
+  euro: "€", pound: "£", yen: "¥", cent: "¢", copy: "©", reg: "®", trade: "™", deg: "°", times: "×",
+  divide: "÷", middot: "·", laquo: "«", raquo: "»", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+const ATTRIBUTE_PATTERN = /\s*([^\s"'<>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/y;
+
+/**
+ * Parse HTML into a tree rooted at a synthetic "#document" element
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: "#document", attributes: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  // Pop up to and including the nearest open element in `tags`, unless a
+  // boundary element comes first
+  const closeNearest = (tags: string[], boundary: string[]) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (tags.includes(stack[i].tag)) {
+        stack.length = i;
+        return;
+      }
+      if (boundary.includes(stack[i].tag)) {
+        return;
+      }
+    }
+  };
+
+  let i = 0;
+  while (i < html.length) {
+    if (html.startsWith("<!--", i)) {
+      const end = html.indexOf("-->", i + 4);
+      i = end === -1 ? html.length : end + 3;
+      continue;
+    }
+
+    if (html[i] === "<" && (html[i + 1] === "!" || html[i + 1] === "?")) {
+      const end = html.indexOf(">", i);
+      i = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    const closing = html.startsWith("</", i);
+    const tagMatch = /^<\/?([a-zA-Z][a-zA-Z0-9:-]*)/.exec(html.slice(i, i + 64));
+    if (!tagMatch) {
+      const next = html.indexOf("<", i + 1);
+      const end = next === -1 ? html.length : next;
+      current().children.push(decodeEntities(html.slice(i, end)));
+      i = end;
+      continue;
+    }
+
+    const tag = tagMatch[1].toLowerCase();
+    i += tagMatch[0].length;
+
+    if (closing) {
+      const end = html.indexOf(">", i);
+      i = end === -1 ? html.length : end + 1;
+      // Stray end tags inside a table must not close elements outside it
+      closeNearest([tag], tag === "table" ? [] : ["table"]);
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    let selfClosing = false;
+    while (i < html.length && html[i] !== ">") {
+      if (html.startsWith("/>", i)) {
+        selfClosing = true;
+        i++;
+        break;
+      }
+      ATTRIBUTE_PATTERN.lastIndex = i;
+      const attribute = ATTRIBUTE_PATTERN.exec(html);
+      if (!attribute || attribute[0].length === 0) {
+        i++;
+        continue;
+      }
+      attributes[attribute[1].toLowerCase()] = decodeEntities(attribute[2] ?? attribute[3] ?? attribute[4] ?? "");
+      i += attribute[0].length;
+    }
+    i++;
+
+    if (SKIPPED_TAGS.has(tag)) {
+      const end = html.toLowerCase().indexOf(`</${tag}`, i);
+      i = end === -1 ? html.length : html.indexOf(">", end) + 1 || html.length;
+      continue;
+    }
+
+    const implied = IMPLIED_CLOSES[tag] ?? (PARAGRAPH_CLOSERS.has(tag) ? IMPLIED_CLOSES.p : undefined);
+    if (implied) {
+      closeNearest(implied.closes, implied.boundary);
+    }
+
+    const element: HtmlElement = { tag, attributes, children: [] };
+    current().children.push(element);
+    if (!selfClosing && !VOID_TAGS.has(tag)) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+function childElements(element: HtmlElement): HtmlElement[] {
+  return element.children.filter((child): child is HtmlElement => typeof child !== "string");
+}
+
+/**
+ * Text of an element with whitespace collapsed. Nested tables are left out
+ * and collected separately when `nested` is given.
+ */
+function elementText(element: HtmlElement, nested?: HtmlElement[]): string {
+  const parts: string[] = [];
+  const walk = (node: HtmlNode) => {
+    if (typeof node === "string") {
+      parts.push(node);
+    } else if (node.tag === "table" && nested) {
+      nested.push(node);
+    } else if (node.tag === "br") {
+      parts.push(" ");
+    } else {
+      node.children.forEach(walk);
+      if (BLOCK_TAGS.has(node.tag)) parts.push(" ");
+    }
+  };
+  element.children.forEach(walk);
+  return parts.join("").replace(/\s+/g, " ").trim();
+}
+
+function spanAttribute(element: HtmlElement, name: string, max: number): number {
+  const value = parseInt(element.attributes[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? Math.min(value, max) : 1;
+}
+
+// Rows of a table, skipping rows that belong to tables nested inside it
+function tableRows(element: HtmlElement, section = ""): Array<{ row: HtmlElement; section: string }> {
+  const rows: Array<{ row: HtmlElement; section: string }> = [];
+  for (const child of childElements(element)) {
+    if (child.tag === "tr") {
+      rows.push({ row: child, section });
+    } else if (child.tag !== "table") {
+      rows.push(...tableRows(child, ["thead", "tbody", "tfoot"].includes(child.tag) ? child.tag : section));
+    }
+  }
+  return rows;
+}
+
+/**
+ * Read one table into rows of cells, followed by any tables nested in it.
+ * colspan cells are repeated in header rows and left empty in data rows;
+ * rowspan cells repeat their value in the rows they cover.
+ */
+function readTable(table: HtmlElement): ExtractedTable[] {
+  const nested: HtmlElement[] = [];
+  const grid: string[][] = [];
+  const spans: Array<{ text: string; rows: number } | undefined> = [];
+  let headerRows = 0;
+  let inHeader = true;
+  let caption: string | undefined;
+
+  for (const child of childElements(table)) {
+    if (child.tag === "caption") {
+      caption = elementText(child) || undefined;
+    }
+  }
+
+  for (const { row, section } of tableRows(table)) {
+    const cells = childElements(row).filter((cell) => cell.tag === "td" || cell.tag === "th");
+    const isHeader = inHeader && cells.length > 0 && (section === "thead" || cells.every((cell) => cell.tag === "th"));
+    if (isHeader) {
+      headerRows++;
+    } else {
+      inHeader = false;
+    }
+
+    const values: string[] = [];
+    let column = 0;
+    // Skip past cells spanning down from earlier rows, repeating their value
+    const fillSpans = () => {
+      while (spans[column] && spans[column]!.rows > 0) {
+        values[column] = spans[column]!.text;
+        spans[column]!.rows--;
+        column++;
+      }
+    };
+
+    for (const cell of cells) {
+      fillSpans();
+      const colspan = spanAttribute(cell, "colspan", 1000);
+      const rowspan = spanAttribute(cell, "rowspan", 10000);
+      const text = elementText(cell, nested);
+
+      for (let offset = 0; offset < colspan; offset++) {
+        const value = offset === 0 || isHeader ? text : "";
+        values[column + offset] = value;
+        spans[column + offset] = rowspan > 1 ? { text: value, rows: rowspan - 1 } : undefined;
+      }
+      column += colspan;
+    }
+
+    // Cells spanning down from earlier rows after the last cell of this one
+    for (let rest = column; rest < spans.length; rest++) {
+      if (spans[rest] && spans[rest]!.rows > 0) {
+        values[rest] = spans[rest]!.text;
+        spans[rest]!.rows--;
+      }
+    }
+
+    grid.push(values);
+  }
+
+  const tables: ExtractedTable[] = [];
+  const parsed = tableFromGrid(grid, headerRows, 1, caption);
+  if (parsed) {
+    tables.push(parsed);
+  }
+  for (const inner of nested) {
+    tables.push(...readTable(inner));
+  }
+  return tables;
+}
+
+/**
+ * Extract every top-level table of a parsed HTML document in document order,
+ * each followed by the tables nested in it
+ */
+export function extractHtmlTables(root: HtmlElement): ExtractedTable[] {
+  const tables: ExtractedTable[] = [];
+  const walk = (element: HtmlElement) => {
+    for (const child of childElements(element)) {
+      if (child.tag === "table") {
+        tables.push(...readTable(child));
+      } else {
+        walk(child);
+      }
+    }
+  };
+  walk(root);
+  return tables;
+}
+
+/**
+ * Readable text of a parsed HTML document: one line per block element, with
+ * table cells separated by two spaces
+ */
+export function htmlText(root: HtmlElement): string {
+  const parts: string[] = [];
+  const walk = (node: HtmlNode) => {
+    if (typeof node === "string") {
+      parts.push(node.replace(/\s+/g, " "));
+      return;
+    }
+    if (node.tag === "head") return;
+    if (node.tag === "br") {
+      parts.push("\n");
+      return;
+    }
+    node.children.forEach(walk);
+    if (node.tag === "td" || node.tag === "th") {
+      parts.push("  ");
+    } else if (BLOCK_TAGS.has(node.tag)) {
+      parts.push("\n");
+    }
+  };
+  walk(root);
+
+  return parts
+    .join("")
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+$/g, "").replace(/^ +/, ""))
+    .filter((line) => line !== "")
+    .join("\n");
+}
@@ -0,0 +1,113 @@
+import { describe, expect, test } from "vitest";
+import { extractPdfTables, PdfPageLayout, PdfRule, PdfTextItem } from "./pdfTables";
+
+// Text in a 10pt font whose characters are 5pt wide
+function item(str: string, x: number, y: number): PdfTextItem {
+  return { str, x, y, width: str.length * 5, height: 10 };
+}
+
+const COLUMN_X = [50, 200, 300];
+
+// A block of aligned rows without any ruling lines, starting at baseline `top`
+function streamRows(rows: string[][], top: number): PdfTextItem[] {
+  return rows.flatMap((cells, row) => cells.map((cell, column) => item(cell, COLUMN_X[column], top - row * 12)));
+}
+
+function page(pageNumber: number, items: PdfTextItem[], rules: PdfRule[] = []): PdfPageLayout {
+  return { pageNumber, items, rules };
+}
+
+const HEADER = ["Name", "Dept", "Salary"];
+
+describe("extractPdfTables", () => {
+  test("reads a ruled grid with a wrapped cell as one row per band", () => {
+    const rowRules = [720, 705, 690, 675, 660].map((y) => ({ x1: 40, y1: y, x2: 400, y2: y }));
+    const columnRules = [40, 180, 280, 400].map((x) => ({ x1: x, y1: 660, x2: x, y2: 720 }));
+    const items = [
+      ...HEADER.map((cell, column) => item(cell, COLUMN_X[column], 710)),
+      item("Ann", 50, 698),
+      item("Sales and", 200, 698),
+      item("100", 300, 698),
+      item("marketing", 200, 691),
+      ...["Bob", "Ops", "200"].map((cell, column) => item(cell, COLUMN_X[column], 680)),
+      ...["Cy", "Eng", "300"].map((cell, column) => item(cell, COLUMN_X[column], 665)),
+    ];
+
+    const tables = extractPdfTables([page(1, items, [...rowRules, ...columnRules])]);
+
+    expect(tables).toEqual([
+      {
+        page: 1,
+        rows: [HEADER, ["Ann", "Sales and marketing", "100"], ["Bob", "Ops", "200"], ["Cy", "Eng", "300"]],
+        confidence: 1,
+      },
+    ]);
+  });
+
+  test("finds columns from alignment when nothing is ruled, leaving surrounding text out", () => {
+    const items = [
+      item("Quarterly headcount", 50, 740),
+      ...streamRows([HEADER, ["Ann", "Sales", "100"], ["Bob", "Ops", "200"], ["Cy", "Eng", "300"]], 700),
+      item("Figures are in thousands", 50, 600),
+    ];
+
+    const tables = extractPdfTables([page(1, items)]);
+
+    expect(tables).toEqual([
+      {
+        page: 1,
+        rows: [HEADER, ["Ann", "Sales", "100"], ["Bob", "Ops", "200"], ["Cy", "Eng", "300"]],
+        confidence: 0.86,
+      },
+    ]);
+  });
+
+  test("a header with fewer than two data rows below it is not a stream table", () => {
+    const tables = extractPdfTables([page(1, streamRows([HEADER, ["Ann", "Sales", "100"]], 700))]);
+
+    expect(tables).toEqual([]);
+  });
+
+  test("joins a table continued on the next page and drops its repeated header", () => {
+    const tables = extractPdfTables([
+      page(1, streamRows([HEADER, ["Ann", "Sales", "100"], ["Bob", "Ops", "200"]], 200)),
+      page(2, streamRows([HEADER, ["Cy", "Eng", "300"], ["Dee", "Ops", "400"]], 750)),
+    ]);
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0].page).toBe(1);
+    expect(tables[0].rows).toEqual([
+      HEADER,
+      ["Ann", "Sales", "100"],
+      ["Bob", "Ops", "200"],
+      ["Cy", "Eng", "300"],
+      ["Dee", "Ops", "400"],
+    ]);
+  });
+
+  test("joins a continuation without a header when its columns line up", () => {
+    const tables = extractPdfTables([
+      page(1, streamRows([HEADER, ["Ann", "Sales", "100"], ["Bob", "Ops", "200"]], 200)),
+      page(2, streamRows([["Cy", "Eng", "300"], ["Dee", "Ops", "400"], ["Eve", "Sales", "500"]], 750)),
+    ]);
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0].rows.slice(3)).toEqual([
+      ["Cy", "Eng", "300"],
+      ["Dee", "Ops", "400"],
+      ["Eve", "Sales", "500"],
+    ]);
+  });
+
+  test("keeps tables with different columns on consecutive pages apart", () => {
+    const tables = extractPdfTables([
+      page(1, streamRows([HEADER, ["Ann", "Sales", "100"], ["Bob", "Ops", "200"]], 200)),
+      page(2, streamRows([["Region", "Total"], ["North", "300"], ["South", "400"]], 750)),
+    ]);
+
+    expect(tables.map((table) => [table.page, table.rows[0]])).toEqual([
+      [1, HEADER],
+      [2, ["Region", "Total"]],
+    ]);
+  });
+});
@@ -0,0 +1,554 @@
+/**
+ * Table extraction from PDF page geometry. Text items are grouped into lines
+ * and fragments by position. Ruling lines drawn on the page bound tables and
+ * mark cell borders where present; otherwise columns come from the gaps that
+ * run through every line of an aligned block of text.
+ */
+import type { ExtractedTable } from "./documentTables";
+
+export interface PdfTextItem {
+  str: string;
+  x: number;
+  y: number; // Baseline, measured from the bottom of the page
+  width: number;
+  height: number;
+}
+
+// A straight horizontal or vertical line drawn on the page
+export interface PdfRule {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PdfPageLayout {
+  pageNumber: number;
+  items: PdfTextItem[];
+  rules: PdfRule[];
+}
+
+// Consecutive text on one line that belongs to the same cell
+export interface TextFragment {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+export interface TextLine {
+  y: number;
+  height: number;
+  fragments: TextFragment[];
+}
+
+// A table found on one page, before page-spanning tables are joined
+interface PageTable {
+  page: number;
+  rows: string[][];
+  columns: Array<[number, number]>;
+  confidence: number;
+  dataRows: number;
+}
+
+// Items whose baselines are this close (relative to their height) share a line
+const LINE_TOLERANCE = 0.5;
+
+// Horizontal gaps wider than this many average characters split fragments
+const COLUMN_GAP_CHARS = 1.5;
+
+// Positions closer than this (in points) are treated as the same rule
+const RULE_TOLERANCE = 2;
+
+// Shorter drawn lines are underlines or decoration rather than cell borders
+const MIN_RULE_LENGTH = 20;
+
+// Tables without ruling lines need a header and at least this many data rows
+const MIN_STREAM_DATA_ROWS = 2;
+
+// Column centres of tables on consecutive pages must line up this closely to be joined
+const COLUMN_ALIGN_TOLERANCE = 12;
+
+/**
+ * Group positioned text into lines, top to bottom, and split each line into
+ * fragments at wide horizontal gaps
+ */
+export function groupIntoLines(items: PdfTextItem[]): TextLine[] {
+  const sorted = items.filter((item) => item.str.trim() !== "").sort((a, b) => b.y - a.y || a.x - b.x);
+  const groups: PdfTextItem[][] = [];
+
+  for (const item of sorted) {
+    const current = groups[groups.length - 1];
+    const tolerance = Math.max(item.height * LINE_TOLERANCE, 2);
+    if (current && Math.abs(current[0].y - item.y) <= tolerance) {
+      current.push(item);
+    } else {
+      groups.push([item]);
+    }
+  }
+
+  return groups.map((group) => {
+    group.sort((a, b) => a.x - b.x);
+    const fragments: TextFragment[] = [];
+    let previous: PdfTextItem | null = null;
+
+    for (const item of group) {
+      const last = fragments[fragments.length - 1];
+      if (previous && last) {
+        const gap = item.x - (previous.x + previous.width);
+        const charWidth = previous.width / Math.max(previous.str.length, 1);
+        if (gap <= charWidth * COLUMN_GAP_CHARS) {
+          last.text += (gap > charWidth * 0.2 ? " " : "") + item.str;
+          last.x1 = Math.max(last.x1, item.x + item.width);
+          previous = item;
+          continue;
+        }
+      }
+      fragments.push({ text: item.str, x0: item.x, x1: item.x + item.width });
+      previous = item;
+    }
+
+    return {
+      y: group[0].y,
+      height: Math.max(...group.map((item) => item.height)),
+      fragments: fragments
+        .map((fragment) => ({ ...fragment, text: fragment.text.replace(/\s+/g, " ").trim() }))
+        .filter((fragment) => fragment.text !== ""),
+    };
+  });
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Join collinear segments that touch, so tables drawn as one rectangle per
+ * cell produce rules spanning the whole table
+ */
+function mergeRules(rules: PdfRule[], horizontal: boolean): PdfRule[] {
+  const segments = rules
+    .filter((rule) =>
+      horizontal
+        ? Math.abs(rule.y1 - rule.y2) <= 1 && Math.abs(rule.x2 - rule.x1) > 1
+        : Math.abs(rule.x1 - rule.x2) <= 1 && Math.abs(rule.y2 - rule.y1) > 1
+    )
+    .map((rule) =>
+      horizontal
+        ? { at: rule.y1, start: Math.min(rule.x1, rule.x2), end: Math.max(rule.x1, rule.x2) }
+        : { at: rule.x1, start: Math.min(rule.y1, rule.y2), end: Math.max(rule.y1, rule.y2) }
+    )
+    .sort((a, b) => a.at - b.at || a.start - b.start);
+
+  const merged: Array<{ at: number; start: number; end: number }> = [];
+  for (const segment of segments) {
+    const match = merged.find(
+      (other) =>
+        Math.abs(other.at - segment.at) <= RULE_TOLERANCE &&
+        segment.start <= other.end + RULE_TOLERANCE &&
+        segment.end >= other.start - RULE_TOLERANCE
+    );
+    if (match) {
+      match.start = Math.min(match.start, segment.start);
+      match.end = Math.max(match.end, segment.end);
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  return merged
+    .filter((segment) => segment.end - segment.start >= MIN_RULE_LENGTH)
+    .map((segment) =>
+      horizontal
+        ? { x1: segment.start, y1: segment.at, x2: segment.end, y2: segment.at }
+        : { x1: segment.at, y1: segment.start, x2: segment.at, y2: segment.end }
+    );
+}
+
+/**
+ * Cluster nearby positions and return one value per cluster, ascending
+ */
+function clusterPositions(values: number[]): number[] {
+  const clusters: number[][] = [];
+  for (const value of [...values].sort((a, b) => a - b)) {
+    const last = clusters[clusters.length - 1];
+    if (last && value - last[last.length - 1] <= RULE_TOLERANCE) {
+      last.push(value);
+    } else {
+      clusters.push([value]);
+    }
+  }
+  return clusters.map((cluster) => cluster.reduce((sum, value) => sum + value, 0) / cluster.length);
+}
+
+/**
+ * Columns of a block of lines: the x ranges left over once the gaps that run
+ * through every multi-fragment line are removed
+ */
+function columnsFromText(lines: TextLine[]): Array<[number, number]> {
+  const spans = lines
+    .filter((line) => line.fragments.length > 1)
+    .flatMap((line) => line.fragments.map((fragment): [number, number] => [fragment.x0, fragment.x1]))
+    .sort((a, b) => a[0] - b[0]);
+
+  const columns: Array<[number, number]> = [];
+  for (const [start, end] of spans) {
+    const last = columns[columns.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      columns.push([start, end]);
+    }
+  }
+  return columns;
+}
+
+function columnForFragment(fragment: TextFragment, columns: Array<[number, number]>): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  columns.forEach(([start, end], index) => {
+    const overlap = Math.min(end, fragment.x1) - Math.max(start, fragment.x0);
+    // Prefer the column the fragment overlaps most; fall back to the nearest one
+    const center = (fragment.x0 + fragment.x1) / 2;
+    const score = overlap > 0 ? overlap : -Math.min(Math.abs(center - start), Math.abs(center - end));
+    if (score > bestScore) {
+      bestScore = score;
+      best = index;
+    }
+  });
+  return best;
+}
+
+function lineCells(line: TextLine, columns: Array<[number, number]>): string[] {
+  const cells = columns.map(() => "");
+  for (const fragment of line.fragments) {
+    const index = columnForFragment(fragment, columns);
+    cells[index] = cells[index] ? `${cells[index]} ${fragment.text}` : fragment.text;
+  }
+  return cells;
+}
+
+/**
+ * A line that only continues wrapped text from the row above: nothing in the
+ * first column and fewer than half of the other cells filled
+ */
+function isContinuation(cells: string[]): boolean {
+  const filled = cells.filter((cell) => cell !== "").length;
+  return cells[0] === "" && filled > 0 && filled < cells.length / 2;
+}
+
+function appendCells(row: string[], cells: string[]): void {
+  cells.forEach((cell, index) => {
+    if (cell) {
+      row[index] = row[index] ? `${row[index]} ${cell}` : cell;
+    }
+  });
+}
+
+/**
+ * Score how table-like the rows are, from 0 to 1. Ruled grids start higher
+ * than tables inferred from text alignment alone.
+ */
+function scoreTable(rows: string[][], structure: number): number {
+  const columnCount = rows[0].length;
+  const dataRows = rows.slice(1);
+  const filledCounts = dataRows.map((row) => row.filter((cell) => cell !== "").length);
+  const fillRatio = filledCounts.reduce((sum, count) => sum + count, 0) / (dataRows.length * columnCount);
+  const consistentRows = filledCounts.filter((count) => count >= columnCount - 1).length / dataRows.length;
+  const headerFilled = rows[0].filter((cell) => cell !== "").length / columnCount;
+  const rowFactor = Math.min(1, dataRows.length / 3);
+
+  return round2(0.35 * structure + 0.25 * consistentRows + 0.2 * fillRatio + 0.1 * headerFilled + 0.1 * rowFactor);
+}
+
+/**
+ * Build rows from lines, one row per line with wrapped lines folded into the
+ * row above
+ */
+function rowsFromLines(lines: TextLine[], columns: Array<[number, number]>): string[][] {
+  const rows: string[][] = [];
+  for (const line of lines) {
+    const cells = lineCells(line, columns);
+    if (rows.length > 0 && isContinuation(cells)) {
+      appendCells(rows[rows.length - 1], cells);
+    } else {
+      rows.push(cells);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Drop columns that ended up empty in every row
+ */
+function compactColumns(rows: string[][], columns: Array<[number, number]>) {
+  const keep = columns.map((_, index) => rows.some((row) => row[index] !== ""));
+  return {
+    rows: rows.map((row) => row.filter((_, index) => keep[index])),
+    columns: columns.filter((_, index) => keep[index]),
+  };
+}
+
+function finishTable(
+  page: number,
+  rows: string[][],
+  columns: Array<[number, number]>,
+  structure: number,
+  minDataRows: number
+): PageTable | null {
+  const compacted = compactColumns(rows, columns);
+  if (compacted.columns.length < 2 || compacted.rows.length < minDataRows + 1) {
+    return null;
+  }
+  return {
+    page,
+    rows: compacted.rows,
+    columns: compacted.columns,
+    confidence: scoreTable(compacted.rows, structure),
+    dataRows: compacted.rows.length - 1,
+  };
+}
+
+interface RuledRegion {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+  rowRules: number[]; // Descending
+  columnRules: number[]; // Ascending
+}
+
+/**
+ * Find areas bounded by horizontal rules of similar width, with any vertical
+ * rules that fall inside them
+ */
+function findRuledRegions(rules: PdfRule[]): RuledRegion[] {
+  const horizontal = mergeRules(rules, true).sort((a, b) => b.y1 - a.y1);
+  const vertical = mergeRules(rules, false);
+  const regions: RuledRegion[] = [];
+  let group: PdfRule[] = [];
+
+  const closeGroup = () => {
+    if (group.length >= 2) {
+      const left = Math.min(...group.map((rule) => rule.x1));
+      const right = Math.max(...group.map((rule) => rule.x2));
+      const top = group[0].y1;
+      const bottom = group[group.length - 1].y1;
+      const inside = vertical.filter(
+        (rule) =>
+          rule.x1 >= left - RULE_TOLERANCE &&
+          rule.x1 <= right + RULE_TOLERANCE &&
+          Math.min(rule.y2, top) - Math.max(rule.y1, bottom) >= (top - bottom) / 2
+      );
+      regions.push({
+        top,
+        bottom,
+        left,
+        right,
+        rowRules: clusterPositions(group.map((rule) => rule.y1)).reverse(),
+        columnRules: clusterPositions(inside.map((rule) => rule.x1)),
+      });
+    }
+    group = [];
+  };
+
+  for (const rule of horizontal) {
+    const previous = group[group.length - 1];
+    if (previous) {
+      const overlap = Math.min(previous.x2, rule.x2) - Math.max(previous.x1, rule.x1);
+      const shorter = Math.min(previous.x2 - previous.x1, rule.x2 - rule.x1);
+      if (overlap < shorter * 0.8) {
+        closeGroup();
+      }
+    }
+    group.push(rule);
+  }
+  closeGroup();
+
+  return regions;
+}
+
+/**
+ * Build a table from a ruled area. A header line sitting just above the top
+ * rule, as in tables that only underline their rows, becomes the first row.
+ */
+function ruledTable(page: number, region: RuledRegion, lines: TextLine[], header: TextLine | null): PageTable | null {
+  let columns: Array<[number, number]>;
+  if (region.columnRules.length >= 2) {
+    const edges = clusterPositions([region.left, ...region.columnRules, region.right]);
+    columns = edges.slice(1).map((edge, index): [number, number] => [edges[index], edge]);
+  } else {
+    columns = columnsFromText(header ? [header, ...lines] : lines);
+  }
+  if (columns.length < 2) {
+    return null;
+  }
+
+  // Rows between each pair of rules; most bands holding one or two lines means
+  // every row is ruled and extra lines are wrapped text inside a cell
+  const bands = region.rowRules.slice(1).map((bottom, index) => ({
+    top: region.rowRules[index],
+    bottom,
+    lines: lines.filter((line) => line.y < region.rowRules[index] && line.y > bottom),
+  }));
+  const filledBands = bands.filter((band) => band.lines.length > 0);
+  const everyRowRuled =
+    filledBands.length >= 2 && median(filledBands.map((band) => band.lines.length)) <= 2;
+
+  const headerRows = header ? [lineCells(header, columns)] : [];
+
+  if (everyRowRuled) {
+    const rows = filledBands.map((band) => {
+      const row = columns.map(() => "");
+      for (const line of band.lines) {
+        appendCells(row, lineCells(line, columns));
+      }
+      return row;
+    });
+    return finishTable(page, [...headerRows, ...rows], columns, region.columnRules.length >= 2 ? 1 : 0.9, 1);
+  }
+
+  return finishTable(page, [...headerRows, ...rowsFromLines(lines, columns)], columns, 0.8, 1);
+}
+
+/**
+ * Split lines outside ruled areas into blocks of aligned multi-fragment lines
+ */
+function findTextBlocks(lines: TextLine[]): TextLine[][] {
+  const blocks: TextLine[][] = [];
+  let block: TextLine[] = [];
+
+  const closeBlock = () => {
+    // Single-fragment lines can only continue a row, never end a table
+    while (block.length > 0 && block[block.length - 1].fragments.length < 2) {
+      block.pop();
+    }
+    if (block.length > 0) {
+      blocks.push(block);
+    }
+    block = [];
+  };
+
+  for (const line of lines) {
+    const previous = block[block.length - 1];
+    if (previous) {
+      const gaps = block.slice(1).map((current, index) => block[index].y - current.y);
+      const expectedGap = gaps.length > 0 ? median(gaps) : previous.height * 1.5;
+      if (previous.y - line.y > Math.max(expectedGap * 1.8, line.height * 2.5)) {
+        closeBlock();
+      }
+    }
+
+    if (line.fragments.length > 1 || block.length > 0) {
+      block.push(line);
+    }
+  }
+  closeBlock();
+
+  return blocks;
+}
+
+function textTable(page: number, lines: TextLine[]): PageTable | null {
+  const columns = columnsFromText(lines);
+  if (columns.length < 2) {
+    return null;
+  }
+  return finishTable(page, rowsFromLines(lines, columns), columns, 0.6, MIN_STREAM_DATA_ROWS);
+}
+
+function extractPageTables(layout: PdfPageLayout): PageTable[] {
+  const lines = groupIntoLines(layout.items).filter((line) => line.fragments.length > 0);
+  const tables: Array<{ top: number; table: PageTable }> = [];
+  const used = new Set<TextLine>();
+
+  for (const region of findRuledRegions(layout.rules)) {
+    const inside = lines.filter(
+      (line) =>
+        !used.has(line) &&
+        line.y < region.top &&
+        line.y > region.bottom &&
+        line.fragments.some((fragment) => fragment.x1 > region.left && fragment.x0 < region.right)
+    );
+    const above = lines.filter(
+      (line) =>
+        !used.has(line) &&
+        line.y >= region.top &&
+        line.y - region.top <= line.height * 2 &&
+        line.fragments.length > 1 &&
+        line.fragments.every((fragment) => fragment.x1 > region.left && fragment.x0 < region.right)
+    );
+    const header = above.length > 0 ? above[above.length - 1] : null;
+
+    const table = ruledTable(layout.pageNumber, region, inside, header);
+    if (table) {
+      inside.forEach((line) => used.add(line));
+      if (header) used.add(header);
+      tables.push({ top: header ? header.y : region.top, table });
+    }
+  }
+
+  for (const block of findTextBlocks(lines.filter((line) => !used.has(line)))) {
+    const table = textTable(layout.pageNumber, block);
+    if (table) {
+      tables.push({ top: block[0].y, table });
+    }
+  }
+
+  return tables.sort((a, b) => b.top - a.top).map((entry) => entry.table);
+}
+
+function sameHeader(a: string[], b: string[]): boolean {
+  const normalize = (cells: string[]) => cells.map((cell) => cell.toLowerCase().replace(/\s+/g, " ").trim()).join("|");
+  return normalize(a) === normalize(b);
+}
+
+function columnsAlign(a: Array<[number, number]>, b: Array<[number, number]>): boolean {
+  return a.every(([start, end], index) => {
+    const [otherStart, otherEnd] = b[index];
+    return Math.abs((start + end) / 2 - (otherStart + otherEnd) / 2) <= COLUMN_ALIGN_TOLERANCE;
+  });
+}
+
+/**
+ * Extract tables from the pages of a PDF. A table that ends one page and one
+ * that starts the next are joined when they have the same columns, dropping
+ * the repeated header row.
+ */
+export function extractPdfTables(pages: PdfPageLayout[]): ExtractedTable[] {
+  const joined: PageTable[] = [];
+  let previousPageLast: PageTable | null = null;
+
+  for (const layout of pages) {
+    const tables = extractPageTables(layout);
+
+    tables.forEach((table, index) => {
+      const previous = index === 0 ? previousPageLast : null;
+      const continues =
+        previous &&
+        previous.rows[0].length === table.rows[0].length &&
+        (sameHeader(previous.rows[0], table.rows[0]) || columnsAlign(previous.columns, table.columns));
+
+      if (previous && continues) {
+        const newRows = sameHeader(previous.rows[0], table.rows[0]) ? table.rows.slice(1) : table.rows;
+        const totalRows = previous.dataRows + newRows.length;
+        previous.confidence = round2(
+          (previous.confidence * previous.dataRows + table.confidence * newRows.length) / Math.max(totalRows, 1)
+        );
+        previous.rows.push(...newRows);
+        previous.dataRows = totalRows;
+      } else {
+        joined.push(table);
+      }
+    });
+
+    // Only a table that ends a page can continue on the next one
+    previousPageLast = tables.length > 0 ? joined[joined.length - 1] : null;
+  }
+
+  return joined.map((table) => ({ page: table.page, rows: table.rows, confidence: table.confidence }));
+}
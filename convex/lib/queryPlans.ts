@@ -0,0 +1,391 @@
+import { Infer, v } from "convex/values";
+import { computedValueToText, evaluateWorkbook } from "./formulas";
+import { findSheetIndex } from "./sheetCodec";
+import { parseDate } from "./dataCleaning";
+import { SheetOp } from "./sheetOps";
+
+/**
+ * Query plans compiled by the assistant from questions like "orders over
+ * $500 from March". The model only writes the plan (filters, grouping,
+ * aggregates, sort); the rows are computed here from the sheet, so the
+ * numbers shown are never made up and the plan can be checked step by step.
+ *
+ * Tables are assumed to start at their header row, the first non-empty row
+ * of the sheet. Formulas are evaluated before the plan runs.
+ */
+
+export const queryOperatorValidator = v.union(
+  v.literal("equals"),
+  v.literal("notEquals"),
+  v.literal("contains"),
+  v.literal("greaterThan"),
+  v.literal("greaterOrEqual"),
+  v.literal("lessThan"),
+  v.literal("lessOrEqual"),
+  v.literal("between"),
+  v.literal("isBlank"),
+  v.literal("isNotBlank")
+);
+
+export const queryFilterValidator = v.object({
+  column: v.string(),
+  operator: queryOperatorValidator,
+  value: v.optional(v.string()),
+  valueTo: v.optional(v.string()), // Upper bound of between, inclusive
+});
+
+export const queryAggregateValidator = v.object({
+  fn: v.union(v.literal("sum"), v.literal("average"), v.literal("count"), v.literal("min"), v.literal("max")),
+  column: v.optional(v.string()), // Unset counts rows
+});
+
+export const querySortValidator = v.object({
+  column: v.string(),
+  direction: v.union(v.literal("asc"), v.literal("desc")),
+});
+
+export const queryPlanValidator = v.object({
+  sheetName: v.string(),
+  title: v.optional(v.string()),
+  filters: v.array(queryFilterValidator),
+  groupBy: v.optional(v.array(v.string())),
+  aggregates: v.optional(v.array(queryAggregateValidator)),
+  columns: v.optional(v.array(v.string())), // Columns to show when not grouping; all when unset
+  sort: v.optional(v.array(querySortValidator)),
+  limit: v.optional(v.number()),
+});
+
+export const queryResultValidator = v.object({
+  plan: queryPlanValidator,
+  steps: v.array(v.string()),
+  headers: v.array(v.string()),
+  rows: v.array(v.array(v.string())), // The first rows of the result
+  totalRows: v.number(),
+  matchedRows: v.number(), // Rows of the sheet that passed the filters
+  viewSheetName: v.optional(v.string()), // Set once saved as a sheet
+});
+
+export type QueryOperator = Infer<typeof queryOperatorValidator>;
+export type QueryFilter = Infer<typeof queryFilterValidator>;
+export type QueryAggregate = Infer<typeof queryAggregateValidator>;
+export type QueryPlan = Infer<typeof queryPlanValidator>;
+export type QueryResult = Infer<typeof queryResultValidator>;
+
+export interface QueryOutput {
+  steps: string[];
+  headers: string[];
+  rows: string[][];
+  matchedRows: number;
+}
+
+// Rows of a result kept on the message and shown to the model
+export const MAX_PREVIEW_ROWS = 20;
+// Rows written at most to a view sheet
+export const MAX_VIEW_ROWS = 2000;
+// Excel's limit on sheet names
+const MAX_SHEET_NAME_LENGTH = 31;
+
+const OPERATOR_TEXT: Record<QueryOperator, string> = {
+  equals: "is",
+  notEquals: "is not",
+  contains: "contains",
+  greaterThan: ">",
+  greaterOrEqual: ">=",
+  lessThan: "<",
+  lessOrEqual: "<=",
+  between: "is between",
+  isBlank: "is blank",
+  isNotBlank: "is not blank",
+};
+
+const AGGREGATE_TEXT: Record<QueryAggregate["fn"], string> = {
+  sum: "Sum",
+  average: "Average",
+  count: "Count",
+  min: "Min",
+  max: "Max",
+};
+
+type CellValue = string | number | boolean;
+
+// A number written as 500, -1,234.5, $500, (45), 12% or 3.5 EUR; other text is not a number
+function readNumber(value: CellValue): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+
+  let text = value.trim();
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1).trim();
+  }
+  text = text.replace(/^[$€£¥₹]\s*|\s*[$€£¥₹]$|\s*\b(USD|EUR|GBP|INR|JPY)$/gi, "");
+  const percent = text.endsWith("%");
+  if (percent) text = text.slice(0, -1).trim();
+
+  if (!/^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?$/.test(text) || !/\d/.test(text)) return null;
+  const number = Number(text.replace(/,/g, "")) * (negative ? -1 : 1);
+  return percent ? number / 100 : number;
+}
+
+function cellString(value: CellValue | undefined): string {
+  return value === undefined ? "" : computedValueToText(value).trim();
+}
+
+// Compare two values as numbers, dates or text; null when either is blank or
+// they are not the same kind of value
+function compareValues(a: CellValue, b: CellValue): number | null {
+  const aText = cellString(a);
+  const bText = cellString(b);
+  if (!aText || !bText) return null;
+
+  const aNumber = readNumber(a);
+  const bNumber = readNumber(b);
+  if (aNumber !== null && bNumber !== null) return aNumber - bNumber;
+
+  const aDate = aNumber === null ? parseDate(aText) : null;
+  const bDate = bNumber === null ? parseDate(bText) : null;
+  if (aDate && bDate) return aDate < bDate ? -1 : aDate > bDate ? 1 : 0;
+
+  if (aNumber !== null || bNumber !== null || aDate || bDate) return null;
+  return aText.localeCompare(bText, undefined, { sensitivity: "base" });
+}
+
+function matchesFilter(value: CellValue, filter: QueryFilter): boolean {
+  const text = cellString(value);
+  switch (filter.operator) {
+    case "isBlank":
+      return text === "";
+    case "isNotBlank":
+      return text !== "";
+    case "contains":
+      return text.toLowerCase().includes((filter.value ?? "").trim().toLowerCase());
+    case "equals":
+    case "notEquals": {
+      const target = (filter.value ?? "").trim();
+      const equal = compareValues(value, target) === 0 || text.toLowerCase() === target.toLowerCase();
+      return filter.operator === "equals" ? equal : !equal;
+    }
+    case "between": {
+      const low = compareValues(value, filter.value ?? "");
+      const high = compareValues(value, filter.valueTo ?? "");
+      return low !== null && high !== null && low >= 0 && high <= 0;
+    }
+    default: {
+      const comparison = compareValues(value, filter.value ?? "");
+      if (comparison === null) return false;
+      if (filter.operator === "greaterThan") return comparison > 0;
+      if (filter.operator === "greaterOrEqual") return comparison >= 0;
+      if (filter.operator === "lessThan") return comparison < 0;
+      return comparison <= 0;
+    }
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function aggregate(fn: QueryAggregate["fn"], values: CellValue[] | null, rowCount: number): string {
+  if (fn === "count") {
+    return String(values ? values.filter((value) => cellString(value) !== "").length : rowCount);
+  }
+
+  const numbers = (values ?? []).map(readNumber).filter((value): value is number => value !== null);
+  if (numbers.length === 0) return "";
+  if (fn === "sum") return String(round(numbers.reduce((total, value) => total + value, 0), 6));
+  if (fn === "average") return String(round(numbers.reduce((total, value) => total + value, 0) / numbers.length, 2));
+  return String(fn === "min" ? Math.min(...numbers) : Math.max(...numbers));
+}
+
+function aggregateLabel(fn: QueryAggregate["fn"], header?: string): string {
+  return header ? `${AGGREGATE_TEXT[fn]} of ${header}` : AGGREGATE_TEXT[fn];
+}
+
+function describeAggregate(fn: QueryAggregate["fn"], header?: string): string {
+  return header ? `${fn} of ${header}` : "count of rows";
+}
+
+function describeFilter(header: string, filter: QueryFilter): string {
+  if (filter.operator === "isBlank" || filter.operator === "isNotBlank") {
+    return `${header} ${OPERATOR_TEXT[filter.operator]}`;
+  }
+  if (filter.operator === "between") {
+    return `${header} is between ${filter.value ?? ""} and ${filter.valueTo ?? ""}`;
+  }
+  return `${header} ${OPERATOR_TEXT[filter.operator]} ${filter.value ?? ""}`;
+}
+
+/**
+ * Run a query plan against a workbook and return every row of the result,
+ * with the plan described step by step using the sheet's own headers
+ */
+export function runQueryPlan(sheets: any[], plan: QueryPlan): QueryOutput {
+  const sheetIndex = findSheetIndex(sheets, plan.sheetName);
+  if (sheetIndex === -1) {
+    throw new Error(`Sheet "${plan.sheetName}" not found`);
+  }
+  const sheetName = sheets[sheetIndex].name;
+  const values = evaluateWorkbook(sheets)[sheetIndex]?.values ?? [];
+
+  const headerRow = values.findIndex((row) => row.some((value) => cellString(value) !== ""));
+  if (headerRow === -1) {
+    throw new Error(`Sheet "${sheetName}" has no data`);
+  }
+  const headerCells = values[headerRow].map((value) => cellString(value));
+  const sourceColumns = headerCells
+    .map((header, col) => ({ header, col }))
+    .filter((column) => column.header !== "");
+  const dataRows = values
+    .slice(headerRow + 1)
+    .filter((row) => row.some((value) => cellString(value) !== ""));
+
+  const columnOf = (name: string): { header: string; col: number } => {
+    const lower = name.trim().toLowerCase();
+    const column = sourceColumns.find((candidate) => candidate.header.toLowerCase() === lower);
+    if (!column) {
+      throw new Error(
+        `Column "${name}" not found in sheet "${sheetName}". Columns: ${sourceColumns.map((c) => c.header).join(", ")}`
+      );
+    }
+    return column;
+  };
+
+  const steps = [`From ${sheetName}`];
+
+  // Filters
+  let rows = dataRows;
+  plan.filters.forEach((filter, index) => {
+    const column = columnOf(filter.column);
+    if (filter.operator === "between" && (filter.value === undefined || filter.valueTo === undefined)) {
+      throw new Error(`The between filter on ${column.header} needs a value and a valueTo`);
+    }
+    rows = rows.filter((row) => matchesFilter(row[column.col] ?? "", filter));
+    steps.push(`${index === 0 ? "Where" : "And"} ${describeFilter(column.header, filter)}`);
+  });
+  const matchedRows = rows.length;
+
+  let headers: string[];
+  let output: CellValue[][];
+  const groupBy = (plan.groupBy ?? []).map(columnOf);
+  const grouping = groupBy.length > 0 || (plan.aggregates ?? []).length > 0;
+
+  if (grouping) {
+    const aggregates = (plan.aggregates?.length ? plan.aggregates : [{ fn: "count" as const }]).map((spec) => ({
+      fn: spec.fn,
+      column: spec.column ? columnOf(spec.column) : undefined,
+    }));
+    headers = [
+      ...groupBy.map((column) => column.header),
+      ...aggregates.map((spec) => aggregateLabel(spec.fn, spec.column?.header)),
+    ];
+
+    // Groups keep the order in which their first row appears
+    const groups = new Map<string, CellValue[][]>();
+    for (const row of rows) {
+      const key = JSON.stringify(groupBy.map((column) => cellString(row[column.col]).toLowerCase()));
+      const group = groups.get(key);
+      if (group) group.push(row);
+      else groups.set(key, [row]);
+    }
+    if (groupBy.length === 0 && groups.size === 0) {
+      groups.set("[]", []);
+    }
+
+    output = [...groups.values()].map((groupRows) => [
+      ...groupBy.map((column) => cellString(groupRows[0]?.[column.col])),
+      ...aggregates.map((spec) =>
+        aggregate(spec.fn, spec.column ? groupRows.map((row) => row[spec.column!.col] ?? "") : null, groupRows.length)
+      ),
+    ]);
+
+    if (groupBy.length > 0) steps.push(`Group by ${groupBy.map((column) => column.header).join(", ")}`);
+    steps.push(`Compute ${aggregates.map((spec) => describeAggregate(spec.fn, spec.column?.header)).join(", ")}`);
+  } else {
+    const shown = plan.columns?.length ? plan.columns.map(columnOf) : sourceColumns;
+    headers = shown.map((column) => column.header);
+
+    // Sort on the source rows so columns that are not shown can be used
+    output = rows;
+    if (plan.columns?.length) steps.push(`Show ${headers.join(", ")}`);
+  }
+
+  // Sort
+  if (plan.sort?.length) {
+    const keys = plan.sort.map((sort) => {
+      if (grouping) {
+        const lower = sort.column.trim().toLowerCase();
+        let index = headers.findIndex((header) => header.toLowerCase() === lower);
+        // "Amount" also names the first aggregate of the Amount column
+        if (index === -1) index = headers.findIndex((header) => header.toLowerCase().endsWith(` of ${lower}`));
+        if (index === -1) {
+          throw new Error(`Cannot sort by "${sort.column}"; the result has ${headers.join(", ")}`);
+        }
+        return { index, header: headers[index], direction: sort.direction };
+      }
+      const column = columnOf(sort.column);
+      return { index: column.col, header: column.header, direction: sort.direction };
+    });
+
+    output = [...output].sort((a, b) => {
+      for (const key of keys) {
+        const comparison = compareValues(a[key.index] ?? "", b[key.index] ?? "");
+        if (comparison === null) {
+          // Blanks go last whatever the direction
+          const aBlank = cellString(a[key.index]) === "";
+          const bBlank = cellString(b[key.index]) === "";
+          if (aBlank !== bBlank) return aBlank ? 1 : -1;
+          continue;
+        }
+        if (comparison !== 0) return key.direction === "asc" ? comparison : -comparison;
+      }
+      return 0;
+    });
+    steps.push(
+      `Sort by ${keys.map((key) => `${key.header} ${key.direction === "asc" ? "ascending" : "descending"}`).join(", ")}`
+    );
+  }
+
+  if (!grouping) {
+    const shown = plan.columns?.length ? plan.columns.map(columnOf) : sourceColumns;
+    output = output.map((row) => shown.map((column) => row[column.col] ?? ""));
+  }
+
+  if (plan.limit !== undefined) {
+    output = output.slice(0, Math.max(0, Math.floor(plan.limit)));
+    steps.push(`Keep the first ${plan.limit} rows`);
+  }
+
+  return {
+    steps,
+    headers,
+    rows: output.map((row) => row.map((value) => cellString(value))),
+    matchedRows,
+  };
+}
+
+/**
+ * Name for a new sheet holding a query result
+ */
+export function viewSheetBaseName(plan: QueryPlan): string {
+  const name = (plan.title?.trim() || `${plan.sheetName} view`).replace(/[\\/?*[\]:\s]+/g, " ").trim();
+  // Leave room for the suffix that keeps the name unique
+  return name.substring(0, MAX_SHEET_NAME_LENGTH - 4).trim();
+}
+
+/**
+ * Operations that add a sheet holding a query result
+ */
+export function buildViewSheetOps(sheetName: string, headers: string[], rows: string[][]): SheetOp[] {
+  const ops: SheetOp[] = [{ type: "addSheet", sheet: sheetName }];
+  headers.forEach((header, col) => {
+    ops.push({ type: "setCell", sheet: sheetName, row: 0, col, text: header });
+  });
+  rows.forEach((row, index) => {
+    row.forEach((text, col) => {
+      if (text !== "") ops.push({ type: "setCell", sheet: sheetName, row: index + 1, col, text });
+    });
+  });
+  return ops;
+}
@@ -0,0 +1,26 @@
+import { describe, expect, test } from "vitest";
+import { getCellText } from "./formulas";
+import { csvRowsToSheet, parseCSV, sheetToCSV } from "./sheetCodec";
+
+describe("parseCSV", () => {
+  test("keeps blank lines as empty rows", () => {
+    expect(parseCSV("a,b\r\n\r\nc,d")).toEqual([["a", "b"], [""], ["c", "d"]]);
+  });
+
+  test("a final line break does not add a row", () => {
+    expect(parseCSV("a,b\nc,d\n")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+
+  test("exported sheets with gaps import with every cell in place", () => {
+    const sheet = csvRowsToSheet([["Name", "Total"], [], ["Ann", "=1+2"]], "Sheet1");
+    const imported = csvRowsToSheet(parseCSV(sheetToCSV([sheet], 0)), "Sheet1");
+
+    expect(getCellText(imported, 0, 0)).toBe("Name");
+    expect(getCellText(imported, 1, 0)).toBe("");
+    expect(getCellText(imported, 2, 0)).toBe("Ann");
+    expect(getCellText(imported, 2, 1)).toBe("3");
+  });
+});
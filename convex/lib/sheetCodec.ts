@@ -0,0 +1,392 @@
+import * as XLSX from "xlsx";
+import { computedValueToText, evaluateWorkbook, getComputedValue } from "./formulas";
+
+/**
+ * Canonical codec for stored spreadsheet data.
+ *
+ * The canonical format is the x-spreadsheet workbook: an array of sheets using
+ * `rows[r].cells[c]`. Older documents may store the workbook in
+ * `xSpreadsheetData` / `workbookData`, or use a flat `cells["r_c"]` map; both
+ * are migrated on read.
+ */
+
+export interface StoredSpreadsheetFields {
+  data?: string;
+  xSpreadsheetData?: string;
+  workbookData?: string;
+}
+
+export interface CSVOptions {
+  delimiter?: string;
+}
+
+export interface SheetCell {
+  text?: string;
+  style?: number;
+  merge?: [number, number];
+}
+
+export interface SheetRow {
+  cells?: Record<number, SheetCell>;
+  height?: number;
+}
+
+/**
+ * A sheet in the canonical format. Only the fields the server reads are
+ * typed; x-spreadsheet adds others that are stored as they are.
+ */
+export interface Sheet {
+  name: string;
+  rows: { len?: number; [row: number]: SheetRow };
+  cols: { len?: number; [col: number]: { width?: number } };
+  merges: string[];
+  styles: any[];
+  [key: string]: any;
+}
+
+const CSV_DELIMITER_CANDIDATES = [",", ";", "\t", "|"];
+
+// Create an empty sheet in the canonical format
+export function createEmptySheet(name: string): Sheet {
+  return {
+    name,
+    freeze: "A1",
+    styles: [],
+    merges: [],
+    rows: { len: 100 },
+    cols: { len: 26 },
+    validations: [],
+    autofilter: {},
+  };
+}
+
+// Migrate a single sheet to the rows-based format
+export function normalizeSheet(sheet: any, index = 0): Sheet {
+  const normalized: any = {
+    ...createEmptySheet(`Sheet${index + 1}`),
+    ...(sheet && typeof sheet === "object" ? sheet : {}),
+  };
+  if (!normalized.name) normalized.name = `Sheet${index + 1}`;
+
+  const rows: any = normalized.rows && typeof normalized.rows === "object" ? { ...normalized.rows } : {};
+  let maxRow = -1;
+  let maxCol = -1;
+
+  // Legacy flat map: cells["r_c"] = { text, style }
+  if (normalized.cells && typeof normalized.cells === "object") {
+    for (const [key, cell] of Object.entries<any>(normalized.cells)) {
+      const [r, c] = key.split("_").map((n) => parseInt(n, 10));
+      if (isNaN(r) || isNaN(c) || !cell) continue;
+      const text = cell.text ?? cell.value;
+      if ((text === undefined || text === null || text === "") && cell.style === undefined) continue;
+
+      const row = rows[r] ? { ...rows[r], cells: { ...(rows[r].cells || {}) } } : { cells: {} };
+      // Rows-based cells win when both exist
+      if (!row.cells[c]) {
+        const migrated: any = {};
+        if (text !== undefined && text !== null && text !== "") migrated.text = String(text);
+        if (typeof cell.style === "number" && normalized.styles?.[cell.style]) migrated.style = cell.style;
+        row.cells[c] = migrated;
+      }
+      rows[r] = row;
+      maxRow = Math.max(maxRow, r);
+      maxCol = Math.max(maxCol, c);
+    }
+  }
+  delete normalized.cells;
+
+  for (const rowKey of Object.keys(rows)) {
+    if (rowKey === "len") continue;
+    const r = parseInt(rowKey, 10);
+    if (!isNaN(r)) maxRow = Math.max(maxRow, r);
+    for (const colKey of Object.keys(rows[rowKey]?.cells || {})) {
+      const c = parseInt(colKey, 10);
+      if (!isNaN(c)) maxCol = Math.max(maxCol, c);
+    }
+  }
+
+  rows.len = Math.max(rows.len || 100, maxRow + 1);
+  normalized.rows = rows;
+  normalized.cols = { len: 26, ...(normalized.cols || {}) };
+  normalized.cols.len = Math.max(normalized.cols.len || 26, maxCol + 1);
+  if (!Array.isArray(normalized.styles)) normalized.styles = [];
+  if (!Array.isArray(normalized.merges)) normalized.merges = [];
+  return normalized;
+}
+
+// Parse a workbook JSON string, accepting a bare array, a single sheet or { sheets: [...] }
+export function parseWorkbook(dataString: string | undefined | null): Sheet[] {
+  if (!dataString || dataString === "undefined") return [];
+  const parsed = JSON.parse(dataString);
+  const sheets = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray(parsed?.sheets)
+      ? parsed.sheets
+      : parsed && typeof parsed === "object"
+        ? [parsed]
+        : [];
+  return sheets.map((sheet: any, index: number) => normalizeSheet(sheet, index));
+}
+
+/**
+ * Read the workbook of a spreadsheet document, preferring `data` and falling
+ * back to the legacy `xSpreadsheetData` and `workbookData` fields.
+ */
+export function readWorkbook(doc: StoredSpreadsheetFields): Sheet[] {
+  for (const field of [doc.data, doc.xSpreadsheetData, doc.workbookData]) {
+    if (!field) continue;
+    try {
+      const sheets = parseWorkbook(field);
+      if (sheets.length > 0) return sheets;
+    } catch (error) {
+      console.warn("Skipping unparseable spreadsheet data:", error);
+    }
+  }
+  return [];
+}
+
+export function serializeWorkbook(sheets: any[]): string {
+  return JSON.stringify(sheets);
+}
+
+// True when the document still relies on legacy fields or flat cells
+export function needsMigration(doc: StoredSpreadsheetFields): boolean {
+  if (doc.xSpreadsheetData !== undefined || doc.workbookData !== undefined) return true;
+  if (!doc.data) return false;
+  try {
+    const parsed = JSON.parse(doc.data);
+    return !Array.isArray(parsed) || parsed.some((sheet: any) => sheet && sheet.cells);
+  } catch {
+    return false;
+  }
+}
+
+export function findSheetIndex(sheets: any[], sheetName: string): number {
+  const exact = sheets.findIndex((sheet) => sheet.name === sheetName);
+  if (exact !== -1) return exact;
+  const lower = sheetName.toLowerCase();
+  return sheets.findIndex((sheet) => String(sheet.name || "").toLowerCase() === lower);
+}
+
+// Pick a sheet name that does not clash with existing sheets
+export function uniqueSheetName(sheets: any[], base: string): string {
+  const existing = new Set(sheets.map((sheet) => String(sheet.name || "").toLowerCase()));
+  let name = base;
+  let suffix = 2;
+  while (existing.has(name.toLowerCase())) {
+    name = `${base} (${suffix++})`;
+  }
+  return name;
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+function escapeCSVValue(value: string, delimiter: string): string {
+  if (
+    value.includes(delimiter) ||
+    value.includes('"') ||
+    value.includes("\n") ||
+    value.includes("\r") ||
+    value !== value.trim()
+  ) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Serialize one sheet of a workbook as CSV. Formula cells are exported as
+ * their computed values.
+ */
+export function sheetToCSV(sheets: any[], sheetIndex: number, options: CSVOptions = {}): string {
+  const delimiter = options.delimiter || ",";
+  const computed = evaluateWorkbook(sheets)[sheetIndex];
+  if (!computed || computed.values.length === 0) return "";
+
+  const lines = computed.values.map((_, r) =>
+    computed.values[r]
+      .map((__, c) => escapeCSVValue(computedValueToText(getComputedValue(computed, r, c)), delimiter))
+      .join(delimiter)
+  );
+  // Drop trailing empty lines
+  while (lines.length > 0 && lines[lines.length - 1].split(delimiter).every((v) => v === "")) {
+    lines.pop();
+  }
+  return lines.join("\r\n");
+}
+
+// Count delimiter occurrences outside quotes on the first lines of the input
+export function detectDelimiter(text: string): string {
+  const sample = text.slice(0, 10000);
+  let best = ",";
+  let bestScore = 0;
+
+  for (const candidate of CSV_DELIMITER_CANDIDATES) {
+    const counts: number[] = [];
+    let count = 0;
+    let inQuotes = false;
+    for (let i = 0; i < sample.length && counts.length < 10; i++) {
+      const ch = sample[i];
+      if (ch === '"') {
+        inQuotes = !inQuotes;
+      } else if (!inQuotes && ch === candidate) {
+        count++;
+      } else if (!inQuotes && ch === "\n") {
+        counts.push(count);
+        count = 0;
+      }
+    }
+    if (count > 0) counts.push(count);
+    if (counts.length === 0 || counts[0] === 0) continue;
+
+    // Prefer delimiters that appear consistently on every line
+    const consistent = counts.filter((n) => n === counts[0]).length / counts.length;
+    const score = counts[0] * consistent;
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * RFC 4180 CSV parser. Supports quoted fields containing delimiters, escaped
+ * quotes and line breaks, CRLF / LF / CR line endings and custom delimiters.
+ */
+export function parseCSV(text: string, options: CSVOptions = {}): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter = options.delimiter || detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(field);
+    field = "";
+    rows.push(row);
+    row = [];
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '"' && field === "") {
+      inQuotes = true;
+    } else if (input.startsWith(delimiter, i)) {
+      row.push(field);
+      field = "";
+      i += delimiter.length;
+      continue;
+    } else if (ch === "\r" || ch === "\n") {
+      endRow();
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+
+  // A final line break ends the last row rather than starting an empty one
+  if (field !== "" || row.length > 0) endRow();
+
+  // Blank lines stay as empty rows so the cells below keep their positions
+  return rows;
+}
+
+/**
+ * Decode raw CSV bytes. Honors a byte order mark, then the requested
+ * encoding, then tries strict UTF-8 before falling back to Windows-1252.
+ */
+export function decodeCSVBytes(bytes: ArrayBuffer | Uint8Array, encoding?: string): string {
+  const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) {
+    return new TextDecoder("utf-8").decode(data.subarray(3));
+  }
+  if (data[0] === 0xff && data[1] === 0xfe) {
+    return new TextDecoder("utf-16le").decode(data.subarray(2));
+  }
+  if (data[0] === 0xfe && data[1] === 0xff) {
+    return new TextDecoder("utf-16be").decode(data.subarray(2));
+  }
+  if (encoding) {
+    return new TextDecoder(encoding).decode(data);
+  }
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    try {
+      return new TextDecoder("windows-1252").decode(data);
+    } catch {
+      // Runtimes without legacy encodings: Latin-1 maps bytes 1:1
+      let out = "";
+      for (let i = 0; i < data.length; i++) out += String.fromCharCode(data[i]);
+      return out;
+    }
+  }
+}
+
+// Build a canonical sheet from parsed CSV rows
+export function csvRowsToSheet(rows: string[][], name: string): Sheet {
+  const sheet = createEmptySheet(name);
+  let maxCol = 0;
+  rows.forEach((values, r) => {
+    values.forEach((value, c) => {
+      if (value === "") return;
+      if (!sheet.rows[r]) sheet.rows[r] = { cells: {} };
+      sheet.rows[r].cells![c] = { text: value };
+      maxCol = Math.max(maxCol, c + 1);
+    });
+  });
+  sheet.rows.len = Math.max(100, rows.length);
+  sheet.cols.len = Math.max(26, maxCol);
+  return sheet;
+}
+
+// File-system safe name for a sheet inside an archive
+function csvFileName(sheetName: string, used: Set<string>): string {
+  const base = sheetName.replace(/[\\\/:*?"<>|]/g, "_").trim() || "Sheet";
+  let name = base;
+  let suffix = 2;
+  while (used.has(name.toLowerCase())) name = `${base} (${suffix++})`;
+  used.add(name.toLowerCase());
+  return `${name}.csv`;
+}
+
+/**
+ * Export every sheet as its own CSV file inside a zip archive.
+ */
+export function workbookToCSVZip(sheets: any[], options: CSVOptions = {}): Uint8Array {
+  const zip = XLSX.CFB.utils.cfb_new();
+  const used = new Set<string>();
+  const encoder = new TextEncoder();
+
+  sheets.forEach((sheet, index) => {
+    const csv = sheetToCSV(sheets, index, options);
+    // BOM so Excel detects UTF-8
+    const content = encoder.encode(`\uFEFF${csv}`);
+    XLSX.CFB.utils.cfb_add(zip, `/${csvFileName(String(sheet.name || `Sheet${index + 1}`), used)}`, content);
+  });
+
+  return new Uint8Array(XLSX.CFB.write(zip, { fileType: "zip", type: "array" }));
+}
@@ -0,0 +1,751 @@
+import { Infer, v } from "convex/values";
+import * as XLSX from "xlsx";
+import { createEmptySheet, findSheetIndex, normalizeSheet } from "./sheetCodec";
+
+/**
+ * Cell-level change operations for x-spreadsheet workbooks.
+ *
+ * Every write (the editor, imports, AI tools) is expressed as a list of
+ * operations applied against a known spreadsheet version. Operations that
+ * were based on an older version are rebased over the operations committed
+ * since, or rejected when they touch the same cells.
+ *
+ * Shared by Convex functions and the client, so keep it free of browser and
+ * Node specific APIs.
+ */
+
+const cellRangeValidator = v.object({
+  sri: v.number(),
+  sci: v.number(),
+  eri: v.number(),
+  eci: v.number(),
+});
+
+export const sheetOpValidator = v.union(
+  // text null removes the cell (including its style)
+  v.object({
+    type: v.literal("setCell"),
+    sheet: v.string(),
+    row: v.number(),
+    col: v.number(),
+    text: v.union(v.string(), v.null()),
+  }),
+  v.object({ type: v.literal("insertRows"), sheet: v.string(), index: v.number(), count: v.number() }),
+  v.object({ type: v.literal("deleteRows"), sheet: v.string(), index: v.number(), count: v.number() }),
+  v.object({ type: v.literal("insertCols"), sheet: v.string(), index: v.number(), count: v.number() }),
+  v.object({ type: v.literal("deleteCols"), sheet: v.string(), index: v.number(), count: v.number() }),
+  v.object({ type: v.literal("addSheet"), sheet: v.string(), index: v.optional(v.number()) }),
+  v.object({ type: v.literal("renameSheet"), sheet: v.string(), newName: v.string() }),
+  v.object({ type: v.literal("deleteSheet"), sheet: v.string() }),
+  // style is an x-spreadsheet style object (font, bgcolor, border, ...); null clears it
+  v.object({ type: v.literal("applyStyle"), sheet: v.string(), range: cellRangeValidator, style: v.any() }),
+  v.object({
+    type: v.literal("setRowHeight"),
+    sheet: v.string(),
+    row: v.number(),
+    height: v.union(v.number(), v.null()),
+  }),
+  v.object({
+    type: v.literal("setSheetProps"),
+    sheet: v.string(),
+    props: v.object({
+      freeze: v.optional(v.string()),
+      merges: v.optional(v.array(v.string())),
+      cols: v.optional(v.any()),
+      validations: v.optional(v.any()),
+      autofilter: v.optional(v.any()),
+      rowCount: v.optional(v.number()),
+    }),
+  }),
+);
+
+export type SheetOp = Infer<typeof sheetOpValidator>;
+export type CellRange = Infer<typeof cellRangeValidator>;
+
+export interface RebaseResult {
+  ops: SheetOp[];
+  conflicts: string[];
+}
+
+// Upper bound for a single applyStyle range, to keep one op from exploding a sheet
+const MAX_STYLE_RANGE_CELLS = 100000;
+
+const SHEET_PROP_KEYS = ["freeze", "merges", "cols", "validations", "autofilter"] as const;
+
+function sameSheet(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function cellRef(row: number, col: number): string {
+  return XLSX.utils.encode_cell({ r: row, c: col });
+}
+
+function assertIndex(value: number, label: string) {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid ${label}: ${value}`);
+  }
+}
+
+function getSheet(sheets: any[], name: string): any {
+  const index = findSheetIndex(sheets, name);
+  if (index === -1) {
+    throw new Error(`Sheet "${name}" not found`);
+  }
+  return sheets[index];
+}
+
+// ---------------------------------------------------------------------------
+// Applying operations
+// ---------------------------------------------------------------------------
+
+// Store a row back, dropping it when it no longer holds cells or settings
+function putRow(sheet: any, row: number, rowObj: any) {
+  const hasCells = rowObj.cells && Object.keys(rowObj.cells).length > 0;
+  const hasProps = Object.keys(rowObj).some((key) => key !== "cells");
+  if (!hasCells && !hasProps) {
+    delete sheet.rows[row];
+    return;
+  }
+  if (!hasCells) delete rowObj.cells;
+  sheet.rows[row] = rowObj;
+}
+
+function growSheet(sheet: any, row: number, col: number) {
+  sheet.rows.len = Math.max(sheet.rows.len || 100, row + 1);
+  sheet.cols.len = Math.max(sheet.cols.len || 26, col + 1);
+}
+
+function styleIndex(sheet: any, style: any): number {
+  const key = JSON.stringify(style);
+  const existing = sheet.styles.findIndex((s: any) => JSON.stringify(s) === key);
+  if (existing !== -1) return existing;
+  sheet.styles.push(style);
+  return sheet.styles.length - 1;
+}
+
+function setCellStyle(sheet: any, row: number, col: number, style: any) {
+  const rowObj = { ...(sheet.rows[row] || {}) };
+  const cells = { ...(rowObj.cells || {}) };
+  const cell = { ...(cells[col] || {}) };
+
+  if (style === null || style === undefined || Object.keys(style).length === 0) {
+    delete cell.style;
+  } else {
+    cell.style = styleIndex(sheet, style);
+  }
+
+  if (Object.keys(cell).length === 0) {
+    delete cells[col];
+  } else {
+    cells[col] = cell;
+  }
+  rowObj.cells = cells;
+  putRow(sheet, row, rowObj);
+}
+
+/**
+ * Move numeric keys >= index by delta. With a negative delta the keys in the
+ * deleted span [index, index - delta) are dropped. Non-numeric keys (len) are kept.
+ */
+function shiftKeys(obj: Record<string, any>, index: number, delta: number): Record<string, any> {
+  const shifted: Record<string, any> = {};
+  for (const [key, value] of Object.entries(obj || {})) {
+    const n = parseInt(key, 10);
+    if (isNaN(n) || String(n) !== key) {
+      shifted[key] = value;
+    } else if (n < index) {
+      shifted[n] = value;
+    } else if (delta < 0 && n < index - delta) {
+      continue;
+    } else {
+      shifted[n + delta] = value;
+    }
+  }
+  return shifted;
+}
+
+// Shift merge ranges along one axis; merges overlapping deleted rows/cols are dropped
+function shiftMerges(merges: string[], axis: "r" | "c", index: number, delta: number): string[] {
+  const result: string[] = [];
+  for (const ref of merges || []) {
+    const range = XLSX.utils.decode_range(ref);
+    const start = range.s[axis];
+    const end = range.e[axis];
+    if (delta > 0) {
+      if (start >= index) {
+        range.s[axis] += delta;
+        range.e[axis] += delta;
+      } else if (end >= index) {
+        range.e[axis] += delta;
+      }
+    } else {
+      const deletedEnd = index - delta - 1;
+      if (start > deletedEnd) {
+        range.s[axis] += delta;
+        range.e[axis] += delta;
+      } else if (end >= index) {
+        continue;
+      }
+    }
+    result.push(XLSX.utils.encode_range(range));
+  }
+  return result;
+}
+
+// x-spreadsheet expects `merge: [rows, cols]` on the top-left cell of every merge
+function syncMergeCells(sheet: any) {
+  for (const rowKey of Object.keys(sheet.rows)) {
+    const cells = sheet.rows[rowKey]?.cells;
+    if (!cells) continue;
+    for (const colKey of Object.keys(cells)) {
+      if (cells[colKey]?.merge) {
+        const cell = { ...cells[colKey] };
+        delete cell.merge;
+        cells[colKey] = cell;
+      }
+    }
+  }
+  for (const ref of sheet.merges || []) {
+    const range = XLSX.utils.decode_range(ref);
+    const rowObj = { ...(sheet.rows[range.s.r] || {}) };
+    const cells = { ...(rowObj.cells || {}) };
+    cells[range.s.c] = { ...(cells[range.s.c] || {}), merge: [range.e.r - range.s.r, range.e.c - range.s.c] };
+    rowObj.cells = cells;
+    sheet.rows[range.s.r] = rowObj;
+  }
+}
+
+function shiftRows(sheet: any, index: number, delta: number) {
+  const len = sheet.rows.len || 100;
+  sheet.rows = shiftKeys(sheet.rows, index, delta);
+  sheet.rows.len = Math.max(1, len + delta);
+  sheet.merges = shiftMerges(sheet.merges, "r", index, delta);
+  syncMergeCells(sheet);
+}
+
+function shiftCols(sheet: any, index: number, delta: number) {
+  for (const rowKey of Object.keys(sheet.rows)) {
+    const rowObj = sheet.rows[rowKey];
+    if (rowKey === "len" || !rowObj?.cells) continue;
+    putRow(sheet, Number(rowKey), { ...rowObj, cells: shiftKeys(rowObj.cells, index, delta) });
+  }
+  const len = sheet.cols.len || 26;
+  sheet.cols = shiftKeys(sheet.cols, index, delta);
+  sheet.cols.len = Math.max(1, len + delta);
+  sheet.merges = shiftMerges(sheet.merges, "c", index, delta);
+  syncMergeCells(sheet);
+}
+
+function applyOp(sheets: any[], op: SheetOp) {
+  switch (op.type) {
+    case "setCell": {
+      assertIndex(op.row, "row");
+      assertIndex(op.col, "column");
+      const sheet = getSheet(sheets, op.sheet);
+      const rowObj = { ...(sheet.rows[op.row] || {}) };
+      const cells = { ...(rowObj.cells || {}) };
+      if (op.text === null) {
+        delete cells[op.col];
+      } else {
+        cells[op.col] = { ...(cells[op.col] || {}), text: op.text };
+        growSheet(sheet, op.row, op.col);
+      }
+      rowObj.cells = cells;
+      putRow(sheet, op.row, rowObj);
+      return;
+    }
+    case "insertRows":
+    case "deleteRows":
+    case "insertCols":
+    case "deleteCols": {
+      assertIndex(op.index, "index");
+      if (!Number.isInteger(op.count) || op.count < 1) {
+        throw new Error(`Invalid count: ${op.count}`);
+      }
+      const sheet = getSheet(sheets, op.sheet);
+      const delta = op.type.startsWith("insert") ? op.count : -op.count;
+      if (op.type.endsWith("Rows")) {
+        shiftRows(sheet, op.index, delta);
+      } else {
+        shiftCols(sheet, op.index, delta);
+      }
+      return;
+    }
+    case "addSheet": {
+      const name = op.sheet.trim();
+      if (!name) {
+        throw new Error("Sheet name cannot be empty");
+      }
+      if (findSheetIndex(sheets, name) !== -1) {
+        throw new Error(`Sheet "${name}" already exists`);
+      }
+      const index = op.index === undefined ? sheets.length : Math.min(Math.max(0, op.index), sheets.length);
+      sheets.splice(index, 0, createEmptySheet(name));
+      return;
+    }
+    case "renameSheet": {
+      const sheet = getSheet(sheets, op.sheet);
+      const newName = op.newName.trim();
+      if (!newName) {
+        throw new Error("Sheet name cannot be empty");
+      }
+      const existing = findSheetIndex(sheets, newName);
+      if (existing !== -1 && sheets[existing] !== sheet) {
+        throw new Error(`Sheet "${newName}" already exists`);
+      }
+      sheet.name = newName;
+      return;
+    }
+    case "deleteSheet": {
+      const index = findSheetIndex(sheets, op.sheet);
+      if (index === -1) {
+        throw new Error(`Sheet "${op.sheet}" not found`);
+      }
+      if (sheets.length === 1) {
+        throw new Error("Cannot delete the last sheet");
+      }
+      sheets.splice(index, 1);
+      return;
+    }
+    case "applyStyle": {
+      const sheet = getSheet(sheets, op.sheet);
+      const r1 = Math.min(op.range.sri, op.range.eri);
+      const r2 = Math.max(op.range.sri, op.range.eri);
+      const c1 = Math.min(op.range.sci, op.range.eci);
+      const c2 = Math.max(op.range.sci, op.range.eci);
+      assertIndex(r1, "row");
+      assertIndex(c1, "column");
+      if ((r2 - r1 + 1) * (c2 - c1 + 1) > MAX_STYLE_RANGE_CELLS) {
+        throw new Error(`Style range is too large (max ${MAX_STYLE_RANGE_CELLS} cells)`);
+      }
+      for (let r = r1; r <= r2; r++) {
+        for (let c = c1; c <= c2; c++) {
+          setCellStyle(sheet, r, c, op.style);
+        }
+      }
+      growSheet(sheet, r2, c2);
+      return;
+    }
+    case "setRowHeight": {
+      assertIndex(op.row, "row");
+      const sheet = getSheet(sheets, op.sheet);
+      const rowObj = { ...(sheet.rows[op.row] || {}) };
+      if (op.height === null) {
+        delete rowObj.height;
+      } else {
+        rowObj.height = op.height;
+      }
+      putRow(sheet, op.row, rowObj);
+      return;
+    }
+    case "setSheetProps": {
+      const sheet = getSheet(sheets, op.sheet);
+      const { rowCount, ...props } = op.props;
+      for (const key of SHEET_PROP_KEYS) {
+        if (props[key] !== undefined) sheet[key] = props[key];
+      }
+      if (rowCount !== undefined) {
+        assertIndex(rowCount, "row count");
+        sheet.rows.len = Math.max(1, rowCount);
+      }
+      if (props.merges !== undefined) syncMergeCells(sheet);
+      return;
+    }
+  }
+}
+
+/**
+ * Apply operations to a workbook and return the new workbook. The input is
+ * not modified. Throws when an operation is invalid (unknown sheet, duplicate
+ * name, ...), in which case none of the operations should be persisted.
+ */
+export function applyOps(sheets: any[], ops: SheetOp[]): any[] {
+  const result = JSON.parse(JSON.stringify(sheets)).map((sheet: any, index: number) =>
+    normalizeSheet(sheet, index)
+  );
+  for (const op of ops) {
+    applyOp(result, op);
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Rebasing
+// ---------------------------------------------------------------------------
+
+type Axis = "row" | "col";
+
+// Result of transforming one op: the adjusted op, null to drop it, or a conflict message
+type TransformResult = SheetOp | null | string;
+
+function axisOf(op: SheetOp): Axis | null {
+  switch (op.type) {
+    case "insertRows":
+    case "deleteRows":
+      return "row";
+    case "insertCols":
+    case "deleteCols":
+      return "col";
+    default:
+      return null;
+  }
+}
+
+function shiftPosition(pos: number, index: number, delta: number): number | null {
+  if (delta > 0) return pos >= index ? pos + delta : pos;
+  if (pos < index) return pos;
+  if (pos < index - delta) return null;
+  return pos + delta;
+}
+
+// Adjust an op for rows/cols inserted or deleted by a concurrent op
+function transformForAxis(op: SheetOp, axis: Axis, index: number, delta: number): TransformResult {
+  const label = axis === "row" ? "Row" : "Column";
+
+  switch (op.type) {
+    case "setCell": {
+      const pos = shiftPosition(axis === "row" ? op.row : op.col, index, delta);
+      if (pos === null) {
+        return `${label} of cell ${cellRef(op.row, op.col)} in "${op.sheet}" was deleted`;
+      }
+      return axis === "row" ? { ...op, row: pos } : { ...op, col: pos };
+    }
+    case "setRowHeight": {
+      if (axis !== "row") return op;
+      const row = shiftPosition(op.row, index, delta);
+      return row === null ? null : { ...op, row };
+    }
+    case "insertRows":
+    case "deleteRows":
+    case "insertCols":
+    case "deleteCols": {
+      if (axisOf(op) !== axis) return op;
+      const isDelete = op.type.startsWith("delete");
+      if (delta > 0) {
+        if (op.index >= index) return { ...op, index: op.index + delta };
+        if (isDelete && op.index + op.count > index) {
+          return `${label}s inserted inside the deleted range of "${op.sheet}"`;
+        }
+        return op;
+      }
+      const deletedEnd = index - delta;
+      if (!isDelete) {
+        if (op.index < index) return op;
+        return { ...op, index: op.index >= deletedEnd ? op.index + delta : index };
+      }
+      if (op.index + op.count <= index) return op;
+      if (op.index >= deletedEnd) return { ...op, index: op.index + delta };
+      return `${label}s ${index + 1}-${deletedEnd} of "${op.sheet}" were already deleted`;
+    }
+    case "applyStyle": {
+      const [startKey, endKey] = axis === "row" ? (["sri", "eri"] as const) : (["sci", "eci"] as const);
+      const start = Math.min(op.range[startKey], op.range[endKey]);
+      const end = Math.max(op.range[startKey], op.range[endKey]);
+      let newStart = start;
+      let newEnd = end;
+      if (delta > 0) {
+        if (start >= index) {
+          newStart += delta;
+          newEnd += delta;
+        } else if (end >= index) {
+          newEnd += delta;
+        }
+      } else {
+        if (end >= index && start < index - delta) {
+          return `Styled range in "${op.sheet}" overlaps deleted ${label.toLowerCase()}s`;
+        }
+        if (start >= index - delta) {
+          newStart += delta;
+          newEnd += delta;
+        }
+      }
+      return { ...op, range: { ...op.range, [startKey]: newStart, [endKey]: newEnd } };
+    }
+    default:
+      return op;
+  }
+}
+
+function rangesOverlap(a: CellRange, b: CellRange): boolean {
+  return (
+    Math.max(Math.min(a.sri, a.eri), Math.min(b.sri, b.eri)) <= Math.min(Math.max(a.sri, a.eri), Math.max(b.sri, b.eri)) &&
+    Math.max(Math.min(a.sci, a.eci), Math.min(b.sci, b.eci)) <= Math.min(Math.max(a.sci, a.eci), Math.max(b.sci, b.eci))
+  );
+}
+
+// Transform `op` so it applies after the already committed `applied` op
+function transformOp(op: SheetOp, applied: SheetOp): TransformResult {
+  switch (applied.type) {
+    case "renameSheet": {
+      if ((op.type === "addSheet" && sameSheet(op.sheet, applied.newName)) ||
+          (op.type === "renameSheet" && sameSheet(op.newName, applied.newName) && !sameSheet(op.sheet, applied.sheet))) {
+        return `Sheet "${applied.newName}" already exists`;
+      }
+      if (!sameSheet(op.sheet, applied.sheet)) return op;
+      if (op.type === "renameSheet") {
+        return `Sheet "${applied.sheet}" was renamed to "${applied.newName}"`;
+      }
+      return { ...op, sheet: applied.newName };
+    }
+    case "deleteSheet": {
+      if (!sameSheet(op.sheet, applied.sheet) || op.type === "addSheet") return op;
+      return op.type === "deleteSheet" ? null : `Sheet "${applied.sheet}" was deleted`;
+    }
+    case "addSheet": {
+      const name = op.type === "renameSheet" ? op.newName : op.type === "addSheet" ? op.sheet : null;
+      if (name !== null && sameSheet(name, applied.sheet)) {
+        return `Sheet "${applied.sheet}" was added by someone else`;
+      }
+      return op;
+    }
+    default:
+      break;
+  }
+
+  if (op.type === "addSheet" || !sameSheet(op.sheet, applied.sheet)) return op;
+
+  switch (applied.type) {
+    case "setCell":
+      if (op.type === "setCell" && op.row === applied.row && op.col === applied.col) {
+        // The same value written twice is not a conflict
+        if (op.text === applied.text) return null;
+        return `Cell ${cellRef(op.row, op.col)} in "${op.sheet}" was changed by someone else`;
+      }
+      return op;
+    case "applyStyle":
+      if (op.type === "applyStyle" && rangesOverlap(op.range, applied.range)) {
+        return `Formatting in "${op.sheet}" was changed by someone else`;
+      }
+      return op;
+    case "insertRows":
+    case "insertCols":
+      return transformForAxis(op, axisOf(applied)!, applied.index, applied.count);
+    case "deleteRows":
+    case "deleteCols":
+      return transformForAxis(op, axisOf(applied)!, applied.index, -applied.count);
+    default:
+      return op;
+  }
+}
+
+/**
+ * Rebase `ops` (written against an older version) over the operations that
+ * were committed since, in commit order. Row/column positions and sheet
+ * names are adjusted; edits to the same cell, range or sheet are reported as
+ * conflicts.
+ */
+export function rebaseOps(ops: SheetOp[], committed: SheetOp[]): RebaseResult {
+  const conflicts: string[] = [];
+  let rebased = ops;
+  for (const applied of committed) {
+    const next: SheetOp[] = [];
+    for (const op of rebased) {
+      const result = transformOp(op, applied);
+      if (typeof result === "string") {
+        if (!conflicts.includes(result)) conflicts.push(result);
+      } else if (result) {
+        next.push(result);
+      }
+    }
+    rebased = next;
+  }
+  return { ops: rebased, conflicts };
+}
+
+// ---------------------------------------------------------------------------
+// Diffing
+// ---------------------------------------------------------------------------
+
+function resolveStyle(sheet: any, cell: any): any {
+  if (typeof cell?.style !== "number") return null;
+  return sheet.styles?.[cell.style] ?? null;
+}
+
+function isEmptyCell(cell: any): boolean {
+  return !cell || ((cell.text === undefined || cell.text === "") && cell.style === undefined);
+}
+
+function numericKeys(...objects: any[]): number[] {
+  const keys = new Set<number>();
+  for (const obj of objects) {
+    for (const key of Object.keys(obj || {})) {
+      const n = parseInt(key, 10);
+      if (!isNaN(n) && String(n) === key) keys.add(n);
+    }
+  }
+  return [...keys].sort((a, b) => a - b);
+}
+
+function diffSheet(name: string, base: any, next: any, ops: SheetOp[]) {
+  const props: Record<string, any> = {};
+  for (const key of SHEET_PROP_KEYS) {
+    if (JSON.stringify(base[key] ?? null) !== JSON.stringify(next[key] ?? null) && next[key] !== undefined) {
+      props[key] = next[key];
+    }
+  }
+  if ((next.rows.len || 100) !== (base.rows.len || 100)) props.rowCount = next.rows.len;
+  if (Object.keys(props).length > 0) {
+    ops.push({ type: "setSheetProps", sheet: name, props });
+  }
+
+  for (const r of numericKeys(base.rows, next.rows)) {
+    const baseRow = base.rows[r] || {};
+    const nextRow = next.rows[r] || {};
+    // Consecutive cells in a row that get the same style become one applyStyle op
+    const styleRuns: Array<{ start: number; end: number; style: any }> = [];
+
+    for (const c of numericKeys(baseRow.cells, nextRow.cells)) {
+      const baseCell = baseRow.cells?.[c];
+      const nextCell = nextRow.cells?.[c];
+
+      if (isEmptyCell(nextCell)) {
+        if (!isEmptyCell(baseCell)) {
+          ops.push({ type: "setCell", sheet: name, row: r, col: c, text: null });
+        }
+        continue;
+      }
+
+      const baseText = baseCell?.text ?? "";
+      const nextText = nextCell.text ?? "";
+      if (baseText !== nextText) {
+        ops.push({ type: "setCell", sheet: name, row: r, col: c, text: String(nextText) });
+      }
+
+      const baseStyle = isEmptyCell(baseCell) ? null : resolveStyle(base, baseCell);
+      const nextStyle = resolveStyle(next, nextCell);
+      if (JSON.stringify(baseStyle) !== JSON.stringify(nextStyle)) {
+        const last = styleRuns[styleRuns.length - 1];
+        if (last && last.end === c - 1 && JSON.stringify(last.style) === JSON.stringify(nextStyle)) {
+          last.end = c;
+        } else {
+          styleRuns.push({ start: c, end: c, style: nextStyle });
+        }
+      }
+    }
+
+    for (const run of styleRuns) {
+      ops.push({
+        type: "applyStyle",
+        sheet: name,
+        range: { sri: r, sci: run.start, eri: r, eci: run.end },
+        style: run.style,
+      });
+    }
+
+    if ((baseRow.height ?? null) !== (nextRow.height ?? null)) {
+      ops.push({ type: "setRowHeight", sheet: name, row: r, height: nextRow.height ?? null });
+    }
+  }
+}
+
+/**
+ * Compute the operations that turn `base` into `next`. Used by the editor,
+ * which only exposes full snapshots, to turn local edits into operations.
+ * Sheets are matched by name, then by position (renames). New sheets are
+ * appended at the end.
+ */
+export function diffWorkbooks(base: any[], next: any[]): SheetOp[] {
+  const baseSheets = base.map((sheet, index) => normalizeSheet(sheet, index));
+  const nextSheets = next.map((sheet, index) => normalizeSheet(sheet, index));
+  const matches = new Map<number, number>(); // next index -> base index
+  const used = new Set<number>();
+
+  nextSheets.forEach((sheet, i) => {
+    const baseIndex = baseSheets.findIndex((b, j) => !used.has(j) && b.name === sheet.name);
+    if (baseIndex !== -1) {
+      used.add(baseIndex);
+      matches.set(i, baseIndex);
+    }
+  });
+
+  const sheetOps: SheetOp[] = [];
+  nextSheets.forEach((sheet, i) => {
+    if (matches.has(i) || i >= baseSheets.length || used.has(i)) return;
+    used.add(i);
+    matches.set(i, i);
+    sheetOps.push({ type: "renameSheet", sheet: baseSheets[i].name, newName: sheet.name });
+  });
+
+  nextSheets.forEach((sheet, i) => {
+    if (!matches.has(i)) sheetOps.push({ type: "addSheet", sheet: sheet.name });
+  });
+
+  baseSheets.forEach((sheet, j) => {
+    if (!used.has(j)) sheetOps.push({ type: "deleteSheet", sheet: sheet.name });
+  });
+
+  const contentOps: SheetOp[] = [];
+  nextSheets.forEach((sheet, i) => {
+    const baseIndex = matches.get(i);
+    const baseSheet = baseIndex === undefined ? normalizeSheet(createEmptySheet(sheet.name)) : baseSheets[baseIndex];
+    diffSheet(sheet.name, baseSheet, sheet, contentOps);
+  });
+
+  return [...sheetOps, ...contentOps];
+}
+
+// ---------------------------------------------------------------------------
+// Summaries
+// ---------------------------------------------------------------------------
+
+// Singular and plural wording of each per-sheet change counter
+const SUMMARY_LABELS: Record<string, [string, string]> = {
+  edited: ["cell edited", "cells edited"],
+  cleared: ["cell cleared", "cells cleared"],
+  insertRows: ["row inserted", "rows inserted"],
+  deleteRows: ["row deleted", "rows deleted"],
+  insertCols: ["column inserted", "columns inserted"],
+  deleteCols: ["column deleted", "columns deleted"],
+  applyStyle: ["range formatted", "ranges formatted"],
+  setRowHeight: ["row resized", "rows resized"],
+  setSheetProps: ["settings change", "settings changes"],
+};
+
+/**
+ * Describe a list of operations in a short human readable sentence, e.g.
+ * `Added sheet "Q3"; Sheet1: 12 cells edited, 2 rows deleted`.
+ */
+export function summarizeOps(ops: SheetOp[]): string {
+  const sheetChanges: string[] = [];
+  const counts = new Map<string, Map<string, number>>();
+  const count = (sheet: string, key: string, n = 1) => {
+    if (!counts.has(sheet)) counts.set(sheet, new Map());
+    const sheetCounts = counts.get(sheet)!;
+    sheetCounts.set(key, (sheetCounts.get(key) ?? 0) + n);
+  };
+
+  for (const op of ops) {
+    switch (op.type) {
+      case "addSheet":
+        sheetChanges.push(`Added sheet "${op.sheet}"`);
+        break;
+      case "renameSheet":
+        sheetChanges.push(`Renamed "${op.sheet}" to "${op.newName}"`);
+        break;
+      case "deleteSheet":
+        sheetChanges.push(`Deleted sheet "${op.sheet}"`);
+        break;
+      case "setCell":
+        count(op.sheet, op.text === null ? "cleared" : "edited");
+        break;
+      case "insertRows":
+      case "deleteRows":
+      case "insertCols":
+      case "deleteCols":
+        count(op.sheet, op.type, op.count);
+        break;
+      default:
+        count(op.sheet, op.type);
+    }
+  }
+
+  const parts = [...sheetChanges];
+  for (const [sheet, sheetCounts] of counts) {
+    const details = [...sheetCounts].map(([key, n]) => {
+      const [singular, plural] = SUMMARY_LABELS[key];
+      return `${n} ${n === 1 ? singular : plural}`;
+    });
+    parts.push(`${sheet}: ${details.join(", ")}`);
+  }
+  return parts.length > 0 ? parts.join("; ") : "No changes";
+}
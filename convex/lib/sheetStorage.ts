@@ -0,0 +1,656 @@
+import { Doc, Id } from "../_generated/dataModel";
+import { DatabaseReader, DatabaseWriter } from "../_generated/server";
+import { createEmptySheet, findSheetIndex, normalizeSheet, readWorkbook } from "./sheetCodec";
+import { recordAppliedChange } from "./aiChanges";
+import { SheetOp, applyOps, diffWorkbooks, rebaseOps, summarizeOps } from "./sheetOps";
+
+/**
+ * Normalized spreadsheet storage.
+ *
+ * Each sheet is a `sheets` document holding its settings, and its cells are
+ * split into `sheetRowChunks` of ROW_CHUNK_SIZE rows. Writes only touch the
+ * chunks whose content changed, and commits only read the chunks their
+ * operations touch. Spreadsheets that have not been migrated yet
+ * are still read from the legacy `data` blob.
+ *
+ * Edits go through commitSheetOps so they are versioned and logged;
+ * saveWorkbook is only used to create or migrate whole workbooks.
+ *
+ * Every commit is also recorded as a revision for the version history. Old
+ * versions are rebuilt from the nearest `sheetSnapshots` copy by replaying
+ * the logged operations after it.
+ */
+
+export const ROW_CHUNK_SIZE = 100;
+
+type ReaderCtx = { db: DatabaseReader };
+type WriterCtx = { db: DatabaseWriter };
+
+// Operations per sheetOperations entry (Convex arrays are limited to 8192 values)
+const OPS_PER_LOG_ENTRY = 1000;
+
+// A full snapshot is stored every SNAPSHOT_INTERVAL versions to bound replays
+const SNAPSHOT_INTERVAL = 25;
+
+// Characters per sheetSnapshots document (documents are limited to 1MB)
+const SNAPSHOT_PART_SIZE = 250_000;
+
+// Saves by the same user within this window are merged into one revision
+const REVISION_MERGE_WINDOW_MS = 5 * 60_000;
+
+export interface CommitOptions {
+  authorId: Id<"users">;
+  source: "user" | "ai";
+  // Version the operations were written against; defaults to the current version
+  baseVersion?: number;
+  // Shown in the version history; defaults to the user's name, or "AI Assistant"
+  authorName?: string;
+  // Describes commits that are not plain edits, e.g. "Restored version 12"
+  label?: string;
+  // Assistant message whose applied changes should include this commit
+  messageId?: Id<"aiMessages">;
+}
+
+export interface CommitResult {
+  success: boolean;
+  version: number;
+  conflicts: string[];
+}
+
+// Row chunks an operation batch touches in one sheet, as inclusive chunk index
+// ranges, or "all" when its rows shift or its merges change
+type ChunkRanges = Array<[number, number]> | "all";
+
+interface SplitSheet {
+  name: string;
+  meta: string;
+  rowCount: number;
+  chunks: Map<number, string>;
+}
+
+export function getChunkIndex(row: number): number {
+  return Math.floor(row / ROW_CHUNK_SIZE);
+}
+
+export async function getSheetDocs(ctx: ReaderCtx, spreadsheetId: Id<"spreadsheets">): Promise<Doc<"sheets">[]> {
+  return await ctx.db
+    .query("sheets")
+    .withIndex("by_spreadsheet", (q) => q.eq("spreadsheetId", spreadsheetId))
+    .collect();
+}
+
+async function getChunkDocs(ctx: ReaderCtx, sheetId: Id<"sheets">): Promise<Doc<"sheetRowChunks">[]> {
+  return await ctx.db
+    .query("sheetRowChunks")
+    .withIndex("by_sheet_chunk", (q) => q.eq("sheetId", sheetId))
+    .collect();
+}
+
+// Load the chunks of a sheet that fall in the given ranges, one query per run of adjacent chunks
+async function getChunkDocsInRanges(
+  ctx: ReaderCtx,
+  sheetId: Id<"sheets">,
+  ranges: Array<[number, number]>
+): Promise<Doc<"sheetRowChunks">[]> {
+  const merged: Array<[number, number]> = [];
+  for (const [first, last] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const previous = merged[merged.length - 1];
+    if (previous && first <= previous[1] + 1) {
+      previous[1] = Math.max(previous[1], last);
+    } else {
+      merged.push([first, last]);
+    }
+  }
+
+  const docs: Doc<"sheetRowChunks">[] = [];
+  for (const [first, last] of merged) {
+    docs.push(
+      ...(await ctx.db
+        .query("sheetRowChunks")
+        .withIndex("by_sheet_chunk", (q) => q.eq("sheetId", sheetId).gte("chunkIndex", first).lte("chunkIndex", last))
+        .collect())
+    );
+  }
+  return docs;
+}
+
+// Rebuild an x-spreadsheet sheet from its document and row chunks
+function assembleSheet(sheetDoc: Doc<"sheets">, chunks: Doc<"sheetRowChunks">[]): any {
+  const meta = JSON.parse(sheetDoc.meta || "{}");
+  const rows: any = { len: sheetDoc.rowCount };
+  for (const chunk of chunks) {
+    Object.assign(rows, JSON.parse(chunk.rows));
+  }
+  return normalizeSheet({ ...meta, name: sheetDoc.name, rows }, sheetDoc.index);
+}
+
+// Split a sheet into its settings and serialized row chunks
+function splitSheet(sheet: any): SplitSheet {
+  const { name, rows, ...rest } = sheet;
+  const byChunk = new Map<number, Record<number, any>>();
+
+  const rowIndexes = Object.keys(rows || {})
+    .filter((key) => key !== "len")
+    .map((key) => parseInt(key, 10))
+    .filter((r) => !isNaN(r) && r >= 0);
+
+  for (const r of rowIndexes) {
+    const chunkIndex = getChunkIndex(r);
+    if (!byChunk.has(chunkIndex)) byChunk.set(chunkIndex, {});
+    byChunk.get(chunkIndex)![r] = rows[r];
+  }
+
+  // Integer keys serialize in ascending order, so equal chunks give equal strings
+  const chunks = new Map<number, string>();
+  for (const [chunkIndex, chunkRows] of byChunk) {
+    chunks.set(chunkIndex, JSON.stringify(chunkRows));
+  }
+
+  return {
+    name: String(name),
+    meta: JSON.stringify(rest),
+    rowCount: rows?.len ?? 100,
+    chunks,
+  };
+}
+
+/**
+ * Load the workbook of a spreadsheet as an array of x-spreadsheet sheets,
+ * falling back to the legacy blob fields when it has not been migrated.
+ * Always returns at least one sheet.
+ */
+export async function loadWorkbook(ctx: ReaderCtx, spreadsheet: Doc<"spreadsheets">): Promise<any[]> {
+  const sheetDocs = await getSheetDocs(ctx, spreadsheet._id);
+  if (sheetDocs.length === 0) {
+    const sheets = readWorkbook(spreadsheet);
+    return sheets.length > 0 ? sheets : [createEmptySheet("Sheet1")];
+  }
+
+  const sheets = [];
+  for (const sheetDoc of sheetDocs) {
+    sheets.push(assembleSheet(sheetDoc, await getChunkDocs(ctx, sheetDoc._id)));
+  }
+  return sheets;
+}
+
+async function writeChunks(
+  ctx: WriterCtx,
+  spreadsheetId: Id<"spreadsheets">,
+  sheetId: Id<"sheets">,
+  chunks: Map<number, string>,
+  now: number,
+  // Chunks to compare against and replace; defaults to every chunk of the sheet
+  loaded?: Doc<"sheetRowChunks">[]
+): Promise<void> {
+  const existing = new Map((loaded ?? (await getChunkDocs(ctx, sheetId))).map((doc) => [doc.chunkIndex, doc]));
+
+  for (const [chunkIndex, rows] of chunks) {
+    const doc = existing.get(chunkIndex);
+    existing.delete(chunkIndex);
+    if (!doc) {
+      await ctx.db.insert("sheetRowChunks", { spreadsheetId, sheetId, chunkIndex, rows, updatedAt: now });
+    } else if (doc.rows !== rows) {
+      await ctx.db.patch(doc._id, { rows, updatedAt: now });
+    }
+  }
+
+  for (const doc of existing.values()) {
+    await ctx.db.delete(doc._id);
+  }
+}
+
+async function deleteSheetDoc(ctx: WriterCtx, sheetDoc: Doc<"sheets">): Promise<void> {
+  for (const chunk of await getChunkDocs(ctx, sheetDoc._id)) {
+    await ctx.db.delete(chunk._id);
+  }
+  await ctx.db.delete(sheetDoc._id);
+}
+
+/**
+ * Persist a whole workbook. Sheets are matched to their documents by name,
+ * then by position (so renames keep their chunks), and only changed sheet
+ * settings and row chunks are written. Clears the legacy blob fields.
+ */
+export async function saveWorkbook(
+  ctx: WriterCtx,
+  spreadsheetId: Id<"spreadsheets">,
+  sheets: any[]
+): Promise<void> {
+  const now = Date.now();
+  const existing = await getSheetDocs(ctx, spreadsheetId);
+  const unmatched = new Set(existing);
+  const normalized = sheets.map((sheet, index) => normalizeSheet(sheet, index));
+
+  // Match by name first so reordering sheets does not rewrite their rows
+  const matches: Array<Doc<"sheets"> | undefined> = normalized.map((sheet) => {
+    const doc = existing.find((d) => unmatched.has(d) && d.name === sheet.name);
+    if (doc) unmatched.delete(doc);
+    return doc;
+  });
+  normalized.forEach((_sheet, index) => {
+    if (matches[index]) return;
+    const doc = existing.find((d) => unmatched.has(d) && d.index === index);
+    if (doc) {
+      unmatched.delete(doc);
+      matches[index] = doc;
+    }
+  });
+
+  for (const doc of unmatched) {
+    await deleteSheetDoc(ctx, doc);
+  }
+
+  for (let index = 0; index < normalized.length; index++) {
+    const split = splitSheet(normalized[index]);
+    let sheetId: Id<"sheets">;
+    const doc = matches[index];
+
+    if (doc) {
+      sheetId = doc._id;
+      if (
+        doc.name !== split.name ||
+        doc.index !== index ||
+        doc.meta !== split.meta ||
+        doc.rowCount !== split.rowCount
+      ) {
+        await ctx.db.patch(doc._id, {
+          name: split.name,
+          index,
+          meta: split.meta,
+          rowCount: split.rowCount,
+          updatedAt: now,
+        });
+      }
+    } else {
+      sheetId = await ctx.db.insert("sheets", {
+        spreadsheetId,
+        name: split.name,
+        index,
+        meta: split.meta,
+        rowCount: split.rowCount,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    await writeChunks(ctx, spreadsheetId, sheetId, split.chunks, now);
+  }
+
+  await ctx.db.patch(spreadsheetId, {
+    data: undefined,
+    xSpreadsheetData: undefined,
+    workbookData: undefined,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Commit a batch of sheet operations. Operations written against an older
+ * `baseVersion` are rebased over the ones committed since; if any of them
+ * conflict nothing is written and the conflicts are returned. On success the
+ * operations are appended to the operation log and the spreadsheet version
+ * is bumped.
+ */
+export async function commitSheetOps(
+  ctx: WriterCtx,
+  spreadsheet: Doc<"spreadsheets">,
+  ops: SheetOp[],
+  options: CommitOptions
+): Promise<CommitResult> {
+  const currentVersion = spreadsheet.version ?? 0;
+  const baseVersion = options.baseVersion ?? currentVersion;
+  if (baseVersion > currentVersion) {
+    throw new Error(`Unknown spreadsheet version ${baseVersion}`);
+  }
+
+  let rebased = ops;
+  if (baseVersion < currentVersion) {
+    const committed = await ctx.db
+      .query("sheetOperations")
+      .withIndex("by_spreadsheet_version", (q) =>
+        q.eq("spreadsheetId", spreadsheet._id).gt("version", baseVersion)
+      )
+      .collect();
+    const result = rebaseOps(ops, committed.flatMap((entry) => entry.ops));
+    if (result.conflicts.length > 0) {
+      return { success: false, version: currentVersion, conflicts: result.conflicts };
+    }
+    rebased = result.ops;
+  }
+
+  if (rebased.length === 0) {
+    return { success: true, version: currentVersion, conflicts: [] };
+  }
+
+  const version = currentVersion + Math.ceil(rebased.length / OPS_PER_LOG_ENTRY);
+  const snapshotDue = Math.floor(version / SNAPSHOT_INTERVAL) > Math.floor(currentVersion / SNAPSHOT_INTERVAL);
+  // The first commit keeps the current workbook so it can be restored later
+  const hasSnapshot = await ctx.db
+    .query("sheetSnapshots")
+    .withIndex("by_spreadsheet_version", (q) => q.eq("spreadsheetId", spreadsheet._id))
+    .first();
+  const sheetDocs = await getSheetDocs(ctx, spreadsheet._id);
+  const touched = getTouchedChunks(sheetDocs, rebased);
+
+  // Snapshots, legacy blobs and added, renamed or deleted sheets need the whole workbook
+  if (touched && hasSnapshot && !snapshotDue && sheetDocs.length > 0) {
+    await writeTouchedChunks(ctx, spreadsheet._id, sheetDocs, touched, rebased);
+  } else {
+    const before = await loadWorkbook(ctx, spreadsheet);
+    if (!hasSnapshot) {
+      await writeSnapshot(ctx, spreadsheet._id, currentVersion, before);
+    }
+    const sheets = applyOps(before, rebased);
+    await saveWorkbook(ctx, spreadsheet._id, sheets);
+    if (snapshotDue) {
+      await writeSnapshot(ctx, spreadsheet._id, version, sheets);
+    }
+  }
+
+  const now = Date.now();
+  for (let i = 0; i < rebased.length; i += OPS_PER_LOG_ENTRY) {
+    await ctx.db.insert("sheetOperations", {
+      spreadsheetId: spreadsheet._id,
+      version: currentVersion + i / OPS_PER_LOG_ENTRY + 1,
+      authorId: options.authorId,
+      source: options.source,
+      ops: rebased.slice(i, i + OPS_PER_LOG_ENTRY),
+      createdAt: now,
+    });
+  }
+  await ctx.db.patch(spreadsheet._id, { version, updatedAt: now });
+
+  await recordRevision(ctx, spreadsheet._id, currentVersion, version, rebased, options, now);
+  if (options.messageId) {
+    await recordAppliedChange(ctx, options.messageId, {
+      commit: { baseVersion: currentVersion, version, ops: rebased },
+    });
+  }
+
+  return { success: true, version, conflicts: [] };
+}
+
+/**
+ * Row chunks each sheet (by position) needs for a batch of operations, or
+ * null when the batch adds, renames or deletes sheets. Cell, style and row
+ * height edits touch the chunks of their rows; inserting or deleting rows or
+ * columns and changing merges touch the whole sheet.
+ */
+function getTouchedChunks(sheetDocs: Doc<"sheets">[], ops: SheetOp[]): Map<number, ChunkRanges> | null {
+  const touched = new Map<number, ChunkRanges>();
+  for (const op of ops) {
+    if (op.type === "addSheet" || op.type === "renameSheet" || op.type === "deleteSheet") {
+      return null;
+    }
+    // Unknown sheets are reported when the operations are applied
+    const index = findSheetIndex(sheetDocs, op.sheet);
+    const ranges = touched.get(index) ?? [];
+    if (index === -1 || ranges === "all") continue;
+
+    if (op.type === "setCell" || op.type === "setRowHeight") {
+      ranges.push([getChunkIndex(op.row), getChunkIndex(op.row)]);
+    } else if (op.type === "applyStyle") {
+      ranges.push([
+        getChunkIndex(Math.min(op.range.sri, op.range.eri)),
+        getChunkIndex(Math.max(op.range.sri, op.range.eri)),
+      ]);
+    } else if (op.type !== "setSheetProps" || op.props.merges !== undefined) {
+      touched.set(index, "all");
+      continue;
+    }
+    touched.set(index, ranges);
+  }
+  return touched;
+}
+
+/**
+ * Apply operations that stay within existing sheets, reading and writing only
+ * the row chunks they touch. Other sheets are assembled without their rows,
+ * since the operations only need their names.
+ */
+async function writeTouchedChunks(
+  ctx: WriterCtx,
+  spreadsheetId: Id<"spreadsheets">,
+  sheetDocs: Doc<"sheets">[],
+  touched: Map<number, ChunkRanges>,
+  ops: SheetOp[]
+): Promise<void> {
+  const loaded = new Map<number, Doc<"sheetRowChunks">[]>();
+  for (const [index, ranges] of touched) {
+    const sheetId = sheetDocs[index]._id;
+    loaded.set(
+      index,
+      ranges === "all" ? await getChunkDocs(ctx, sheetId) : await getChunkDocsInRanges(ctx, sheetId, ranges)
+    );
+  }
+
+  const sheets = applyOps(
+    sheetDocs.map((doc, index) => assembleSheet(doc, loaded.get(index) ?? [])),
+    ops
+  );
+
+  const now = Date.now();
+  for (const [index, chunks] of loaded) {
+    const doc = sheetDocs[index];
+    const split = splitSheet(normalizeSheet(sheets[index], index));
+    if (doc.meta !== split.meta || doc.rowCount !== split.rowCount) {
+      await ctx.db.patch(doc._id, { meta: split.meta, rowCount: split.rowCount, updatedAt: now });
+    }
+    await writeChunks(ctx, spreadsheetId, doc._id, split.chunks, now, chunks);
+  }
+}
+
+async function writeSnapshot(
+  ctx: WriterCtx,
+  spreadsheetId: Id<"spreadsheets">,
+  version: number,
+  sheets: any[]
+): Promise<void> {
+  const data = JSON.stringify(sheets);
+  const createdAt = Date.now();
+  for (let part = 0; part * SNAPSHOT_PART_SIZE < data.length || part === 0; part++) {
+    await ctx.db.insert("sheetSnapshots", {
+      spreadsheetId,
+      version,
+      part,
+      data: data.slice(part * SNAPSHOT_PART_SIZE, (part + 1) * SNAPSHOT_PART_SIZE),
+      createdAt,
+    });
+  }
+}
+
+// Add a revision for a commit, or extend the latest one when the same user keeps editing
+async function recordRevision(
+  ctx: WriterCtx,
+  spreadsheetId: Id<"spreadsheets">,
+  baseVersion: number,
+  version: number,
+  ops: SheetOp[],
+  options: CommitOptions,
+  now: number
+): Promise<void> {
+  const latest = await ctx.db
+    .query("sheetRevisions")
+    .withIndex("by_spreadsheet_version", (q) => q.eq("spreadsheetId", spreadsheetId))
+    .order("desc")
+    .first();
+
+  if (
+    latest &&
+    latest.version === baseVersion &&
+    latest.source === "user" &&
+    options.source === "user" &&
+    latest.authorId === options.authorId &&
+    !latest.label &&
+    !options.label &&
+    now - latest.updatedAt < REVISION_MERGE_WINDOW_MS
+  ) {
+    const entries = await ctx.db
+      .query("sheetOperations")
+      .withIndex("by_spreadsheet_version", (q) =>
+        q.eq("spreadsheetId", spreadsheetId).gt("version", latest.baseVersion)
+      )
+      .collect();
+    await ctx.db.patch(latest._id, {
+      version,
+      summary: summarizeOps(entries.flatMap((entry) => entry.ops)),
+      updatedAt: now,
+    });
+    return;
+  }
+
+  let authorName = options.authorName;
+  if (!authorName) {
+    const author = options.source === "user" ? await ctx.db.get(options.authorId) : null;
+    authorName = author?.name ?? "AI Assistant";
+  }
+
+  await ctx.db.insert("sheetRevisions", {
+    spreadsheetId,
+    baseVersion,
+    version,
+    authorId: options.authorId,
+    authorName,
+    source: options.source,
+    summary: summarizeOps(ops),
+    label: options.label,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Rebuild the workbook as it was at `version`, starting from the closest
+ * snapshot at or before it and replaying the logged operations after that.
+ */
+export async function loadWorkbookAtVersion(
+  ctx: ReaderCtx,
+  spreadsheet: Doc<"spreadsheets">,
+  version: number
+): Promise<any[]> {
+  if (version === (spreadsheet.version ?? 0)) {
+    return await loadWorkbook(ctx, spreadsheet);
+  }
+  if (version > (spreadsheet.version ?? 0)) {
+    throw new Error(`Unknown spreadsheet version ${version}`);
+  }
+
+  const closest = await ctx.db
+    .query("sheetSnapshots")
+    .withIndex("by_spreadsheet_version", (q) =>
+      q.eq("spreadsheetId", spreadsheet._id).lte("version", version)
+    )
+    .order("desc")
+    .first();
+  if (!closest) {
+    throw new Error(`Version ${version} is no longer available`);
+  }
+
+  const parts = await ctx.db
+    .query("sheetSnapshots")
+    .withIndex("by_spreadsheet_version", (q) =>
+      q.eq("spreadsheetId", spreadsheet._id).eq("version", closest.version)
+    )
+    .collect();
+  const sheets = JSON.parse(parts.map((part) => part.data).join(""));
+
+  const entries = await ctx.db
+    .query("sheetOperations")
+    .withIndex("by_spreadsheet_version", (q) =>
+      q.eq("spreadsheetId", spreadsheet._id).gt("version", closest.version).lte("version", version)
+    )
+    .collect();
+  return applyOps(sheets, entries.flatMap((entry) => entry.ops));
+}
+
+/**
+ * Revert earlier commits, given as consecutive version ranges. The inverse
+ * operations are rebased over everything committed since; if any of the
+ * reverted cells or created sheets were edited in the meantime nothing is
+ * written and the conflicts are returned.
+ */
+export async function revertCommits(
+  ctx: WriterCtx,
+  spreadsheet: Doc<"spreadsheets">,
+  commits: Array<{ baseVersion: number; version: number }>,
+  options: CommitOptions
+): Promise<CommitResult> {
+  const currentVersion = spreadsheet.version ?? 0;
+  const sorted = [...commits].sort((a, b) => a.baseVersion - b.baseVersion);
+  if (sorted.length === 0) {
+    return { success: true, version: currentVersion, conflicts: [] };
+  }
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].baseVersion !== sorted[i - 1].version) {
+      return {
+        success: false,
+        version: currentVersion,
+        conflicts: ["Other changes were made to the spreadsheet in between these changes"],
+      };
+    }
+  }
+
+  const from = sorted[0].baseVersion;
+  const to = sorted[sorted.length - 1].version;
+  const before = await loadWorkbookAtVersion(ctx, spreadsheet, from);
+  const after = await loadWorkbookAtVersion(ctx, spreadsheet, to);
+  const inverse = diffWorkbooks(after, before);
+
+  // Rebasing only catches edits to the same cells, so also refuse to delete
+  // sheets that were created here and touched since
+  const later = await ctx.db
+    .query("sheetOperations")
+    .withIndex("by_spreadsheet_version", (q) =>
+      q.eq("spreadsheetId", spreadsheet._id).gt("version", to)
+    )
+    .collect();
+  const laterOps = later.flatMap((entry) => entry.ops);
+  const conflicts: string[] = [];
+  for (const op of inverse) {
+    if (op.type !== "deleteSheet") continue;
+    const name = op.sheet.toLowerCase();
+    if (laterOps.some((laterOp) => laterOp.sheet.toLowerCase() === name)) {
+      conflicts.push(`Sheet "${op.sheet}" was edited since`);
+    }
+  }
+  if (conflicts.length > 0) {
+    return { success: false, version: currentVersion, conflicts };
+  }
+
+  return await commitSheetOps(ctx, spreadsheet, inverse, { ...options, baseVersion: to });
+}
+
+// Remove every sheet, row chunk, logged operation, revision and snapshot of a spreadsheet
+export async function deleteSheetStorage(ctx: WriterCtx, spreadsheetId: Id<"spreadsheets">): Promise<void> {
+  const chunks = await ctx.db
+    .query("sheetRowChunks")
+    .withIndex("by_spreadsheet", (q) => q.eq("spreadsheetId", spreadsheetId))
+    .collect();
+  for (const chunk of chunks) {
+    await ctx.db.delete(chunk._id);
+  }
+  for (const sheetDoc of await getSheetDocs(ctx, spreadsheetId)) {
+    await ctx.db.delete(sheetDoc._id);
+  }
+  const operations = await ctx.db
+    .query("sheetOperations")
+    .withIndex("by_spreadsheet_version", (q) => q.eq("spreadsheetId", spreadsheetId))
+    .collect();
+  for (const entry of operations) {
+    await ctx.db.delete(entry._id);
+  }
+  const revisions = await ctx.db
+    .query("sheetRevisions")
+    .withIndex("by_spreadsheet_version", (q) => q.eq("spreadsheetId", spreadsheetId))
+    .collect();
+  for (const revision of revisions) {
+    await ctx.db.delete(revision._id);
+  }
+  const snapshots = await ctx.db
+    .query("sheetSnapshots")
+    .withIndex("by_spreadsheet_version", (q) => q.eq("spreadsheetId", spreadsheetId))
+    .collect();
+  for (const snapshot of snapshots) {
+    await ctx.db.delete(snapshot._id);
+  }
+}
@@ -0,0 +1,619 @@
+import * as XLSX from "xlsx";
+import { evaluateWorkbook, getComputedValue, isFormula } from "./formulas";
+
+/**
+ * XLSX <-> x-spreadsheet conversion.
+ *
+ * The community build of `xlsx` handles values, formulas, merges and sizes but
+ * neither reads nor writes cell styles or frozen panes, so those are carried by
+ * patching the OOXML parts inside the zip directly.
+ */
+
+const DEFAULT_FONT_NAME = "Arial";
+const DEFAULT_FONT_SIZE = 10;
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+
+// x-spreadsheet `format` values and their Excel number format codes
+const FORMAT_CODES: Record<string, string> = {
+  text: "@",
+  number: "#,##0.00",
+  percent: "0.00%",
+  rmb: "￥#,##0.00",
+  usd: "$#,##0.00",
+  eur: "€#,##0.00",
+  date: "yyyy-mm-dd",
+  time: "hh:mm:ss",
+  datetime: "yyyy-mm-dd hh:mm:ss",
+  duration: "[h]:mm:ss",
+};
+
+const BORDER_STYLES = ["thin", "medium", "thick", "dashed", "dotted", "double"];
+
+// ---------------------------------------------------------------------------
+// Zip helpers
+// ---------------------------------------------------------------------------
+
+function findZipEntry(zip: any, path: string): any {
+  const target = path.toLowerCase();
+  const paths: string[] = zip?.FullPaths || [];
+  for (let i = 0; i < paths.length; i++) {
+    if (paths[i].replace(/^Root Entry[\/]/, "").toLowerCase() === target) {
+      return zip.FileIndex[i];
+    }
+  }
+  return null;
+}
+
+function readZipText(zip: any, path: string): string | null {
+  const entry = findZipEntry(zip, path);
+  if (!entry?.content) return null;
+  return new TextDecoder("utf-8").decode(new Uint8Array(entry.content));
+}
+
+function writeZipText(zip: any, path: string, text: string) {
+  const content = new TextEncoder().encode(text);
+  const entry = findZipEntry(zip, path);
+  if (entry) {
+    entry.content = content;
+    entry.size = content.length;
+  } else {
+    XLSX.CFB.utils.cfb_add(zip, path, content);
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function getAttr(attrs: string, name: string): string | undefined {
+  const match = attrs.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? match[1] : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Colors
+// ---------------------------------------------------------------------------
+
+function toArgb(color: string | undefined): string | null {
+  if (!color) return null;
+  let hex = color.trim().replace(/^#/, "");
+  if (/^[0-9a-f]{3}$/i.test(hex)) {
+    hex = hex.split("").map((ch) => ch + ch).join("");
+  }
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return null;
+  return `FF${hex.toUpperCase()}`;
+}
+
+function fromArgb(argb: string | undefined): string | undefined {
+  if (!argb || !/^[0-9a-f]{6,8}$/i.test(argb)) return undefined;
+  return `#${argb.slice(-6).toLowerCase()}`;
+}
+
+// ---------------------------------------------------------------------------
+// Export: x-spreadsheet -> xlsx
+// ---------------------------------------------------------------------------
+
+function cellTextToXlsxCell(text: string, computed: string | number | boolean): XLSX.CellObject | null {
+  if (isFormula(text)) {
+    const formula = text.slice(1);
+    if (typeof computed === "number") return { t: "n", v: computed, f: formula };
+    if (typeof computed === "boolean") return { t: "b", v: computed, f: formula };
+    return { t: "s", v: String(computed ?? ""), f: formula };
+  }
+  const trimmed = text.trim();
+  // Keep identifiers with leading zeros (e.g. "00123") as text
+  if (trimmed !== "" && !/^-?0\d/.test(trimmed) && isFinite(Number(trimmed))) {
+    return { t: "n", v: Number(trimmed) };
+  }
+  if (/^(true|false)$/i.test(trimmed)) {
+    return { t: "b", v: trimmed.toLowerCase() === "true" };
+  }
+  return { t: "s", v: text };
+}
+
+interface StyleTables {
+  fonts: string[];
+  fills: string[];
+  borders: string[];
+  numFmts: string[];
+  xfs: string[];
+}
+
+function fontXml(style: any): string {
+  const font = style?.font || {};
+  const parts: string[] = [];
+  if (font.bold) parts.push("<b/>");
+  if (font.italic) parts.push("<i/>");
+  if (style?.strike) parts.push("<strike/>");
+  if (style?.underline) parts.push("<u/>");
+  parts.push(`<sz val="${Number(font.size) || DEFAULT_FONT_SIZE}"/>`);
+  const color = toArgb(style?.color);
+  if (color) parts.push(`<color rgb="${color}"/>`);
+  parts.push(`<name val="${escapeXml(String(font.name || DEFAULT_FONT_NAME))}"/>`);
+  return `<font>${parts.join("")}</font>`;
+}
+
+function fillXml(style: any): string | null {
+  const color = toArgb(style?.bgcolor);
+  if (!color) return null;
+  return `<fill><patternFill patternType="solid"><fgColor rgb="${color}"/><bgColor indexed="64"/></patternFill></fill>`;
+}
+
+function borderXml(style: any): string | null {
+  const border = style?.border;
+  if (!border) return null;
+  const side = (name: string) => {
+    const value = border[name];
+    if (!Array.isArray(value) || !BORDER_STYLES.includes(value[0])) return `<${name}/>`;
+    const color = toArgb(value[1]) || "FF000000";
+    return `<${name} style="${value[0]}"><color rgb="${color}"/></${name}>`;
+  };
+  return `<border>${side("left")}${side("right")}${side("top")}${side("bottom")}<diagonal/></border>`;
+}
+
+function indexOfOrAdd(list: string[], xml: string): number {
+  const existing = list.indexOf(xml);
+  if (existing !== -1) return existing;
+  list.push(xml);
+  return list.length - 1;
+}
+
+function addCellXf(tables: StyleTables, style: any): number {
+  const fontId = indexOfOrAdd(tables.fonts, fontXml(style));
+  const fill = fillXml(style);
+  const fillId = fill ? indexOfOrAdd(tables.fills, fill) : 0;
+  const border = borderXml(style);
+  const borderId = border ? indexOfOrAdd(tables.borders, border) : 0;
+
+  let numFmtId = 0;
+  const formatCode = style?.format ? FORMAT_CODES[style.format] : undefined;
+  if (formatCode === "@") {
+    numFmtId = 49;
+  } else if (formatCode) {
+    numFmtId = 164 + indexOfOrAdd(tables.numFmts, formatCode);
+  }
+
+  const alignment: string[] = [];
+  if (style?.align) alignment.push(`horizontal="${style.align}"`);
+  if (style?.valign) alignment.push(`vertical="${style.valign === "middle" ? "center" : style.valign}"`);
+  if (style?.textwrap) alignment.push(`wrapText="1"`);
+
+  const attrs =
+    `numFmtId="${numFmtId}" fontId="${fontId}" fillId="${fillId}" borderId="${borderId}" xfId="0"` +
+    ` applyFont="1"${fillId ? ' applyFill="1"' : ""}${borderId ? ' applyBorder="1"' : ""}` +
+    `${numFmtId ? ' applyNumberFormat="1"' : ""}${alignment.length ? ' applyAlignment="1"' : ""}`;
+  const xml = alignment.length
+    ? `<xf ${attrs}><alignment ${alignment.join(" ")}/></xf>`
+    : `<xf ${attrs}/>`;
+  return indexOfOrAdd(tables.xfs, xml);
+}
+
+function stylesXml(tables: StyleTables): string {
+  const numFmts = tables.numFmts.length
+    ? `<numFmts count="${tables.numFmts.length}">${tables.numFmts
+        .map((code, i) => `<numFmt numFmtId="${164 + i}" formatCode="${escapeXml(code)}"/>`)
+        .join("")}</numFmts>`
+    : "";
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<styleSheet xmlns="${MAIN_NS}">` +
+    numFmts +
+    `<fonts count="${tables.fonts.length}">${tables.fonts.join("")}</fonts>` +
+    `<fills count="${tables.fills.length}">${tables.fills.join("")}</fills>` +
+    `<borders count="${tables.borders.length}">${tables.borders.join("")}</borders>` +
+    `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>` +
+    `<cellXfs count="${tables.xfs.length}">${tables.xfs.join("")}</cellXfs>` +
+    `<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>` +
+    `<dxfs count="0"/>` +
+    `<tableStyles count="0" defaultTableStyle="TableStyleMedium9" defaultPivotStyle="PivotStyleMedium4"/>` +
+    `</styleSheet>`
+  );
+}
+
+function freezePaneXml(freeze: string | undefined): string | null {
+  if (!freeze || freeze === "A1") return null;
+  const { r, c } = XLSX.utils.decode_cell(freeze);
+  if (r <= 0 && c <= 0) return null;
+  const activePane = r > 0 && c > 0 ? "bottomRight" : r > 0 ? "bottomLeft" : "topRight";
+  const split = `${c > 0 ? ` xSplit="${c}"` : ""}${r > 0 ? ` ySplit="${r}"` : ""}`;
+  return (
+    `<pane${split} topLeftCell="${freeze}" activePane="${activePane}" state="frozen"/>` +
+    `<selection pane="${activePane}"/>`
+  );
+}
+
+function patchSheetXml(xml: string, cellStyles: Map<string, number>, freeze: string | undefined): string {
+  // Replace the default styles written by the library with ours
+  let out = xml.replace(/<c r="([A-Z]+\d+)"([^>]*?)(\/?)>/g, (_match, ref, attrs, selfClose) => {
+    const cleaned = String(attrs).replace(/\s+s="\d+"/, "");
+    const xf = cellStyles.get(ref);
+    return `<c r="${ref}"${xf ? ` s="${xf}"` : ""}${cleaned}${selfClose}>`;
+  });
+
+  const pane = freezePaneXml(freeze);
+  if (pane) {
+    if (/<sheetView\b[^>]*\/>/.test(out)) {
+      out = out.replace(/<sheetView\b([^>]*?)\/>/, `<sheetView$1>${pane}</sheetView>`);
+    } else if (!/<sheetViews\b/.test(out)) {
+      const view = `<sheetViews><sheetView workbookViewId="0">${pane}</sheetView></sheetViews>`;
+      out = out.replace(/(<sheetFormatPr\b|<cols>|<sheetData\b)/, `${view}$1`);
+    }
+  }
+  return out;
+}
+
+/**
+ * Convert an x-spreadsheet workbook (array of sheets) into .xlsx bytes.
+ * Every sheet is exported with its merges, column widths, row heights,
+ * frozen panes, cell styles and formulas (with computed cached values).
+ */
+export function xSpreadsheetToXlsx(sheets: any[]): Uint8Array {
+  const workbook = XLSX.utils.book_new();
+  const computedSheets = evaluateWorkbook(sheets);
+  const tables: StyleTables = {
+    fonts: [fontXml(null)],
+    fills: [
+      `<fill><patternFill patternType="none"/></fill>`,
+      `<fill><patternFill patternType="gray125"/></fill>`,
+    ],
+    borders: [`<border><left/><right/><top/><bottom/><diagonal/></border>`],
+    numFmts: [],
+    xfs: [`<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>`],
+  };
+  const sheetCellStyles: Array<Map<string, number>> = [];
+  const usedNames = new Set<string>();
+
+  sheets.forEach((sheet, sheetIndex) => {
+    const worksheet: XLSX.WorkSheet = {};
+    const cellStyles = new Map<string, number>();
+    const styleXfs = new Map<number, number>();
+    let maxRow = 0;
+    let maxCol = 0;
+
+    const rows = sheet?.rows || {};
+    for (const rowKey of Object.keys(rows)) {
+      if (rowKey === "len") continue;
+      const r = parseInt(rowKey, 10);
+      const cells = rows[rowKey]?.cells || {};
+      for (const colKey of Object.keys(cells)) {
+        const c = parseInt(colKey, 10);
+        if (isNaN(r) || isNaN(c)) continue;
+        const cell = cells[colKey] || {};
+        const text = cell.text === undefined || cell.text === null ? "" : String(cell.text);
+        const ref = XLSX.utils.encode_cell({ r, c });
+
+        let xlsxCell = text !== ""
+          ? cellTextToXlsxCell(text, getComputedValue(computedSheets[sheetIndex], r, c))
+          : null;
+
+        if (typeof cell.style === "number" && sheet.styles?.[cell.style]) {
+          if (!styleXfs.has(cell.style)) {
+            styleXfs.set(cell.style, addCellXf(tables, sheet.styles[cell.style]));
+          }
+          cellStyles.set(ref, styleXfs.get(cell.style)!);
+          // Styled empty cells still need to exist in the sheet to carry their style
+          if (!xlsxCell) xlsxCell = { t: "s", v: "" };
+        }
+
+        if (!xlsxCell) continue;
+        worksheet[ref] = xlsxCell;
+        maxRow = Math.max(maxRow, r);
+        maxCol = Math.max(maxCol, c);
+      }
+    }
+
+    worksheet["!ref"] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: maxRow, c: maxCol } });
+
+    if (Array.isArray(sheet?.merges) && sheet.merges.length > 0) {
+      worksheet["!merges"] = sheet.merges.map((range: string) => XLSX.utils.decode_range(range));
+    }
+
+    const colInfos: XLSX.ColInfo[] = [];
+    for (const colKey of Object.keys(sheet?.cols || {})) {
+      const width = sheet.cols[colKey]?.width;
+      if (colKey !== "len" && typeof width === "number") {
+        colInfos[parseInt(colKey, 10)] = { wpx: width };
+      }
+    }
+    if (colInfos.length > 0) worksheet["!cols"] = colInfos;
+
+    const rowInfos: XLSX.RowInfo[] = [];
+    for (const rowKey of Object.keys(rows)) {
+      const height = rows[rowKey]?.height;
+      if (rowKey !== "len" && typeof height === "number") {
+        rowInfos[parseInt(rowKey, 10)] = { hpx: height };
+      }
+    }
+    if (rowInfos.length > 0) worksheet["!rows"] = rowInfos;
+
+    // Excel sheet names are limited to 31 characters and must be unique
+    const baseName = String(sheet?.name || `Sheet${sheetIndex + 1}`).replace(/[\\\/\?\*\[\]:]/g, "_").slice(0, 31);
+    let name = baseName;
+    let suffix = 2;
+    while (usedNames.has(name.toLowerCase())) {
+      const tail = ` (${suffix++})`;
+      name = baseName.slice(0, 31 - tail.length) + tail;
+    }
+    usedNames.add(name.toLowerCase());
+
+    XLSX.utils.book_append_sheet(workbook, worksheet, name);
+    sheetCellStyles.push(cellStyles);
+  });
+
+  const written = XLSX.write(workbook, { type: "array", bookType: "xlsx", bookSST: true });
+  const zip = XLSX.CFB.read(new Uint8Array(written), { type: "array" });
+
+  sheets.forEach((sheet, sheetIndex) => {
+    const path = `xl/worksheets/sheet${sheetIndex + 1}.xml`;
+    const xml = readZipText(zip, path);
+    if (xml) {
+      writeZipText(zip, path, patchSheetXml(xml, sheetCellStyles[sheetIndex], sheet?.freeze));
+    }
+  });
+  writeZipText(zip, "xl/styles.xml", stylesXml(tables));
+
+  return new Uint8Array(XLSX.CFB.write(zip, { fileType: "zip", type: "array" }));
+}
+
+// ---------------------------------------------------------------------------
+// Import: xlsx -> x-spreadsheet
+// ---------------------------------------------------------------------------
+
+function childXml(xml: string, tag: string): string[] {
+  const out: string[] = [];
+  const re = new RegExp(`<${tag}\\b[^>]*?(?:/>|>[\\s\\S]*?</${tag}>)`, "g");
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(xml))) out.push(match[0]);
+  return out;
+}
+
+function sectionXml(xml: string, tag: string): string {
+  const match = xml.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`));
+  return match ? match[1] : "";
+}
+
+function formatFromCode(numFmtId: number, code: string | undefined): string | undefined {
+  if (numFmtId === 49 || code === "@") return "text";
+  if (numFmtId === 9 || numFmtId === 10) return "percent";
+  if (numFmtId >= 14 && numFmtId <= 17) return "date";
+  if (numFmtId >= 18 && numFmtId <= 21) return "time";
+  if (numFmtId === 22) return "datetime";
+  if (numFmtId >= 3 && numFmtId <= 8) return "number";
+  if (!code) return undefined;
+  if (code.includes("$")) return "usd";
+  if (code.includes("€")) return "eur";
+  if (/[¥￥]/.test(code)) return "rmb";
+  if (code.includes("%")) return "percent";
+  if (/\[h\]/i.test(code)) return "duration";
+  const hasDate = /y|d/i.test(code.replace(/"[^"]*"/g, ""));
+  const hasTime = /h|s/i.test(code.replace(/"[^"]*"/g, ""));
+  if (hasDate && hasTime) return "datetime";
+  if (hasDate) return "date";
+  if (hasTime) return "time";
+  if (/[0#]/.test(code)) return "number";
+  return undefined;
+}
+
+/**
+ * Parse styles.xml into x-spreadsheet style objects, indexed by cellXfs id.
+ * Entries are null when the xf carries nothing worth keeping.
+ */
+function parseStylesXml(xml: string | null): Array<any | null> {
+  if (!xml) return [];
+
+  const numFmts: Record<number, string> = {};
+  for (const fmt of childXml(sectionXml(xml, "numFmts"), "numFmt")) {
+    const id = parseInt(getAttr(fmt, "numFmtId") || "", 10);
+    const code = getAttr(fmt, "formatCode");
+    if (!isNaN(id) && code) numFmts[id] = code.replace(/&quot;/g, '"').replace(/&amp;/g, "&");
+  }
+
+  const fonts = childXml(sectionXml(xml, "fonts"), "font").map((font) => {
+    const style: any = {};
+    const fontStyle: any = {};
+    if (/<b\/>|<b val="(1|true)"\/>/.test(font)) fontStyle.bold = true;
+    if (/<i\/>|<i val="(1|true)"\/>/.test(font)) fontStyle.italic = true;
+    if (/<strike\/>|<strike val="(1|true)"\/>/.test(font)) style.strike = true;
+    if (/<u\b(?![^>]*val="none")/.test(font)) style.underline = true;
+    const size = parseFloat(getAttr(font.match(/<sz\b[^>]*>/)?.[0] || "", "val") || "");
+    if (!isNaN(size) && size !== DEFAULT_FONT_SIZE) fontStyle.size = size;
+    const name = getAttr(font.match(/<name\b[^>]*>/)?.[0] || "", "val");
+    if (name && name !== DEFAULT_FONT_NAME) fontStyle.name = name;
+    const color = fromArgb(getAttr(font.match(/<color\b[^>]*>/)?.[0] || "", "rgb"));
+    if (color && color !== "#000000") style.color = color;
+    if (Object.keys(fontStyle).length > 0) style.font = fontStyle;
+    return style;
+  });
+
+  const fills = childXml(sectionXml(xml, "fills"), "fill").map((fill) => {
+    if (!/patternType="solid"/.test(fill)) return undefined;
+    return fromArgb(getAttr(fill.match(/<fgColor\b[^>]*>/)?.[0] || "", "rgb"));
+  });
+
+  const borders = childXml(sectionXml(xml, "borders"), "border").map((border) => {
+    const result: Record<string, [string, string]> = {};
+    for (const side of ["left", "right", "top", "bottom"]) {
+      const el = border.match(new RegExp(`<${side}\\b[^>]*?(?:/>|>[\\s\\S]*?</${side}>)`))?.[0];
+      const lineStyle = el ? getAttr(el, "style") : undefined;
+      if (!lineStyle) continue;
+      const mapped = BORDER_STYLES.includes(lineStyle)
+        ? lineStyle
+        : lineStyle.includes("dash") ? "dashed" : lineStyle === "hair" ? "dotted" : "thin";
+      result[side] = [mapped, fromArgb(getAttr(el!.match(/<color\b[^>]*>/)?.[0] || "", "rgb")) || "#000000"];
+    }
+    return Object.keys(result).length > 0 ? result : undefined;
+  });
+
+  return childXml(sectionXml(xml, "cellXfs"), "xf").map((xf) => {
+    const style: any = { ...(fonts[parseInt(getAttr(xf, "fontId") || "0", 10)] || {}) };
+    const bgcolor = fills[parseInt(getAttr(xf, "fillId") || "0", 10)];
+    if (bgcolor) style.bgcolor = bgcolor;
+    const border = borders[parseInt(getAttr(xf, "borderId") || "0", 10)];
+    if (border) style.border = border;
+
+    const numFmtId = parseInt(getAttr(xf, "numFmtId") || "0", 10);
+    const format = numFmtId ? formatFromCode(numFmtId, numFmts[numFmtId]) : undefined;
+    if (format) style.format = format;
+
+    const alignment = xf.match(/<alignment\b[^>]*>/)?.[0];
+    if (alignment) {
+      const horizontal = getAttr(alignment, "horizontal");
+      if (horizontal === "left" || horizontal === "center" || horizontal === "right") style.align = horizontal;
+      const vertical = getAttr(alignment, "vertical");
+      if (vertical === "top" || vertical === "bottom") style.valign = vertical;
+      if (vertical === "center") style.valign = "middle";
+      if (getAttr(alignment, "wrapText") === "1" || getAttr(alignment, "wrapText") === "true") style.textwrap = true;
+    }
+
+    return Object.keys(style).length > 0 ? style : null;
+  });
+}
+
+// Resolve worksheet part paths in workbook order
+function worksheetPaths(zip: any): string[] {
+  const workbookXml = readZipText(zip, "xl/workbook.xml");
+  const relsXml = readZipText(zip, "xl/_rels/workbook.xml.rels");
+  if (!workbookXml || !relsXml) return [];
+
+  const targets: Record<string, string> = {};
+  for (const rel of childXml(relsXml, "Relationship")) {
+    const id = getAttr(rel, "Id");
+    const target = getAttr(rel, "Target");
+    if (id && target) {
+      targets[id] = target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.?\//, "")}`;
+    }
+  }
+
+  return childXml(sectionXml(workbookXml, "sheets"), "sheet").map((sheet) => {
+    const id = getAttr(sheet, "r:id") || "";
+    return targets[id] || "";
+  });
+}
+
+function xlsxCellText(cell: XLSX.CellObject): string {
+  if (cell.f) return `=${cell.f}`;
+  if (cell.v === undefined || cell.v === null) return "";
+  switch (cell.t) {
+    case "b":
+      return cell.v ? "TRUE" : "FALSE";
+    case "e":
+      return cell.w || "#N/A";
+    case "d":
+      return cell.w || String(cell.v);
+    case "n":
+      // Dates are stored as serial numbers; keep the formatted text
+      if (cell.z && XLSX.SSF.is_date(cell.z as string) && cell.w) return cell.w;
+      return String(cell.v);
+    default:
+      return String(cell.v);
+  }
+}
+
+/**
+ * Parse .xlsx (and other workbook formats `xlsx` can read) into x-spreadsheet
+ * sheets. Styles and frozen panes are only available for OOXML files.
+ */
+export function xlsxToXSpreadsheet(data: ArrayBuffer | Uint8Array): any[] {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const workbook = XLSX.read(bytes, {
+    type: "array",
+    cellFormula: true,
+    cellStyles: true,
+    cellNF: true,
+  });
+
+  let zip: any = null;
+  try {
+    zip = XLSX.CFB.read(bytes, { type: "array" });
+  } catch {
+    // Not a zip container (e.g. legacy .xls); values are still imported
+  }
+  const isOoxml = !!(zip && findZipEntry(zip, "xl/workbook.xml"));
+  const xfStyles = isOoxml ? parseStylesXml(readZipText(zip, "xl/styles.xml")) : [];
+  const paths = isOoxml ? worksheetPaths(zip) : [];
+
+  return workbook.SheetNames.map((sheetName, sheetIndex) => {
+    const worksheet = workbook.Sheets[sheetName];
+    const sheet: any = {
+      name: sheetName,
+      freeze: "A1",
+      styles: [],
+      merges: [],
+      rows: {},
+      cols: {},
+      validations: [],
+      autofilter: {},
+    };
+    const styleIndexes = new Map<number, number>();
+    let maxRow = 0;
+    let maxCol = 0;
+
+    const ensureCell = (r: number, c: number) => {
+      if (!sheet.rows[r]) sheet.rows[r] = { cells: {} };
+      if (!sheet.rows[r].cells) sheet.rows[r].cells = {};
+      if (!sheet.rows[r].cells[c]) sheet.rows[r].cells[c] = {};
+      maxRow = Math.max(maxRow, r);
+      maxCol = Math.max(maxCol, c);
+      return sheet.rows[r].cells[c];
+    };
+
+    for (const ref of Object.keys(worksheet)) {
+      if (ref.startsWith("!")) continue;
+      const text = xlsxCellText(worksheet[ref] as XLSX.CellObject);
+      if (text === "") continue;
+      const { r, c } = XLSX.utils.decode_cell(ref);
+      ensureCell(r, c).text = text;
+    }
+
+    for (const merge of worksheet["!merges"] || []) {
+      sheet.merges.push(XLSX.utils.encode_range(merge));
+      ensureCell(merge.s.r, merge.s.c).merge = [merge.e.r - merge.s.r, merge.e.c - merge.s.c];
+    }
+
+    (worksheet["!cols"] || []).forEach((col, c) => {
+      if (!col || col.hidden) return;
+      const width = col.wpx ?? (col.wch !== undefined ? Math.round(col.wch * 7 + 5) : col.width !== undefined ? Math.round(col.width * 7) : undefined);
+      if (width) sheet.cols[c] = { width };
+    });
+
+    (worksheet["!rows"] || []).forEach((row, r) => {
+      if (!row) return;
+      const height = row.hpx ?? (row.hpt !== undefined ? Math.round((row.hpt * 4) / 3) : undefined);
+      if (!height) return;
+      if (!sheet.rows[r]) sheet.rows[r] = { cells: {} };
+      sheet.rows[r].height = height;
+    });
+
+    const sheetXml = paths[sheetIndex] ? readZipText(zip, paths[sheetIndex]) : null;
+    if (sheetXml) {
+      const pane = sheetXml.match(/<pane\b[^>]*>/)?.[0];
+      if (pane && /state="frozen/.test(pane)) {
+        const xSplit = parseInt(getAttr(pane, "xSplit") || "0", 10) || 0;
+        const ySplit = parseInt(getAttr(pane, "ySplit") || "0", 10) || 0;
+        sheet.freeze = XLSX.utils.encode_cell({ r: ySplit, c: xSplit });
+      }
+
+      const cellRe = /<c\b([^>]*?)\/?>/g;
+      let match: RegExpExecArray | null;
+      while ((match = cellRe.exec(sheetXml))) {
+        const ref = getAttr(match[1], "r");
+        const xfId = parseInt(getAttr(match[1], "s") || "", 10);
+        if (!ref || isNaN(xfId) || !xfStyles[xfId]) continue;
+        if (!styleIndexes.has(xfId)) {
+          styleIndexes.set(xfId, sheet.styles.length);
+          sheet.styles.push(xfStyles[xfId]);
+        }
+        const { r, c } = XLSX.utils.decode_cell(ref);
+        ensureCell(r, c).style = styleIndexes.get(xfId);
+      }
+    }
+
+    sheet.rows.len = Math.max(100, maxRow + 1);
+    sheet.cols.len = Math.max(26, maxCol + 1);
+    return sheet;
+  });
+}
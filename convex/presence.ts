@@ -0,0 +1,178 @@
+import { query, mutation, internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+import { requireSpreadsheetAccess } from "./lib/access";
+
+// Sessions that have not sent a heartbeat within this window are hidden
+export const PRESENCE_TIMEOUT_MS = 30_000;
+
+// Sessions older than this are removed by the cleanup cron
+const PRESENCE_EXPIRY_MS = 10 * 60_000;
+
+const PRESENCE_COLORS = [
+  "#e11d48",
+  "#2563eb",
+  "#16a34a",
+  "#d97706",
+  "#7c3aed",
+  "#0891b2",
+  "#db2777",
+  "#65a30d",
+];
+
+// Stable color per session so a cursor keeps its color between heartbeats
+function getSessionColor(sessionId: string): string {
+  let hash = 0;
+  for (let i = 0; i < sessionId.length; i++) {
+    hash = (hash * 31 + sessionId.charCodeAt(i)) | 0;
+  }
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+}
+
+const presenceValidator = v.object({
+  sessionId: v.string(),
+  userId: v.id("users"),
+  name: v.string(),
+  imageUrl: v.optional(v.string()),
+  color: v.string(),
+  sheetName: v.optional(v.string()),
+  selection: v.optional(v.string()),
+  lastSeen: v.number(),
+});
+
+/**
+ * Record that an editing session is open on a spreadsheet, along with the
+ * sheet and A1 selection it is looking at. Called periodically as a heartbeat.
+ */
+export const updatePresence = mutation({
+  args: {
+    spreadsheetId: v.id("spreadsheets"),
+    sessionId: v.string(),
+    sheetName: v.optional(v.string()),
+    selection: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { user } = await requireSpreadsheetAccess(ctx, args.spreadsheetId);
+
+    const existing = await ctx.db
+      .query("spreadsheetPresence")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .unique();
+
+    const fields = {
+      spreadsheetId: args.spreadsheetId,
+      userId: user._id,
+      name: user.name,
+      imageUrl: user.imageUrl,
+      sheetName: args.sheetName,
+      selection: args.selection,
+      lastSeen: Date.now(),
+    };
+
+    if (existing) {
+      if (existing.userId !== user._id) {
+        throw new Error("Not authorized to update this session");
+      }
+      await ctx.db.patch(existing._id, fields);
+    } else {
+      await ctx.db.insert("spreadsheetPresence", {
+        ...fields,
+        sessionId: args.sessionId,
+        color: getSessionColor(args.sessionId),
+      });
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Remove an editing session when its editor is closed
+ */
+export const leaveSpreadsheet = mutation({
+  args: {
+    sessionId: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const existing = await ctx.db
+      .query("spreadsheetPresence")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .unique();
+
+    if (existing && existing.userId === user._id) {
+      await ctx.db.delete(existing._id);
+    }
+
+    return null;
+  },
+});
+
+/**
+ * List the editing sessions currently open on a spreadsheet
+ */
+export const listPresence = query({
+  args: {
+    spreadsheetId: v.id("spreadsheets"),
+  },
+  returns: v.array(presenceValidator),
+  handler: async (ctx, args) => {
+    await requireSpreadsheetAccess(ctx, args.spreadsheetId);
+
+    const cutoff = Date.now() - PRESENCE_TIMEOUT_MS;
+    const sessions = await ctx.db
+      .query("spreadsheetPresence")
+      .withIndex("by_spreadsheet", (q) => q.eq("spreadsheetId", args.spreadsheetId))
+      .collect();
+
+    return sessions
+      .filter((session) => session.lastSeen > cutoff)
+      .map((session) => ({
+        sessionId: session.sessionId,
+        userId: session.userId,
+        name: session.name,
+        imageUrl: session.imageUrl,
+        color: session.color,
+        sheetName: session.sheetName,
+        selection: session.selection,
+        lastSeen: session.lastSeen,
+      }));
+  },
+});
+
+/**
+ * Delete sessions whose editor stopped sending heartbeats without leaving
+ */
+export const cleanupStalePresence = internalMutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const stale = await ctx.db
+      .query("spreadsheetPresence")
+      .withIndex("by_last_seen", (q) => q.lt("lastSeen", Date.now() - PRESENCE_EXPIRY_MS))
+      .take(500);
+
+    for (const session of stale) {
+      await ctx.db.delete(session._id);
+    }
+
+    if (stale.length > 0) {
+      console.log(`🧹 Removed ${stale.length} stale presence sessions`);
+    }
+    return stale.length;
+  },
+});
@@ -1,5 +1,6 @@
 import { query, mutation } from "./_generated/server";
 import { v } from "convex/values";
+import { deleteSheetStorage } from "./lib/sheetStorage";
 
 /**
  * Get all projects for the current user
@@ -40,6 +41,54 @@ export const getUserProjects = query({
   },
 });
 
+/**
+ * Get the projects other users have shared with the current user
+ */
+export const getSharedProjects = query({
+  args: {},
+  returns: v.array(
+    v.object({
+      _id: v.id("projects"),
+      _creationTime: v.number(),
+      name: v.string(),
+      description: v.optional(v.string()),
+      ownerId: v.id("users"),
+      createdAt: v.number(),
+      updatedAt: v.number(),
+      ownerName: v.string(),
+    }),
+  ),
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const memberships = await ctx.db
+      .query("projectMembers")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const result = [];
+    for (const membership of memberships) {
+      const project = await ctx.db.get(membership.projectId);
+      if (!project) continue;
+      const owner = await ctx.db.get(project.ownerId);
+      result.push({ ...project, ownerName: owner?.name ?? "Unknown" });
+    }
+    return result;
+  },
+});
+
 /**
  * Create a new project
  */
@@ -157,10 +206,193 @@ export const deleteProject = mutation({
       .collect();
 
     for (const spreadsheet of spreadsheets) {
+      await deleteSheetStorage(ctx, spreadsheet._id);
       await ctx.db.delete(spreadsheet._id);
     }
 
+    const members = await ctx.db
+      .query("projectMembers")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+
+    for (const member of members) {
+      await ctx.db.delete(member._id);
+    }
+
     await ctx.db.delete(args.projectId);
     return null;
   },
 });
+
+/**
+ * List the members of a project. Visible to the owner and the members.
+ */
+export const getProjectMembers = query({
+  args: {
+    projectId: v.id("projects"),
+  },
+  returns: v.array(
+    v.object({
+      userId: v.id("users"),
+      name: v.string(),
+      email: v.string(),
+      imageUrl: v.optional(v.string()),
+      createdAt: v.number(),
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const project = await ctx.db.get(args.projectId);
+    if (!project) {
+      throw new Error("Project not found");
+    }
+
+    const members = await ctx.db
+      .query("projectMembers")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+
+    if (project.ownerId !== user._id && !members.some((member) => member.userId === user._id)) {
+      throw new Error("Not authorized to view this project");
+    }
+
+    const result = [];
+    for (const member of members) {
+      const memberUser = await ctx.db.get(member.userId);
+      if (!memberUser) continue;
+      result.push({
+        userId: memberUser._id,
+        name: memberUser.name,
+        email: memberUser.email,
+        imageUrl: memberUser.imageUrl,
+        createdAt: member.createdAt,
+      });
+    }
+    return result;
+  },
+});
+
+/**
+ * Give a registered user access to a project's spreadsheets by email
+ */
+export const addProjectMember = mutation({
+  args: {
+    projectId: v.id("projects"),
+    email: v.string(),
+  },
+  returns: v.id("projectMembers"),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const project = await ctx.db.get(args.projectId);
+    if (!project) {
+      throw new Error("Project not found");
+    }
+
+    if (project.ownerId !== user._id) {
+      throw new Error("Not authorized to share this project");
+    }
+
+    const email = args.email.trim();
+    const invitee = await ctx.db
+      .query("users")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .first();
+
+    if (!invitee) {
+      throw new Error(`No user with the email ${email}`);
+    }
+
+    if (invitee._id === project.ownerId) {
+      throw new Error("The project owner already has access");
+    }
+
+    const existing = await ctx.db
+      .query("projectMembers")
+      .withIndex("by_project_user", (q) => q.eq("projectId", args.projectId).eq("userId", invitee._id))
+      .unique();
+
+    if (existing) {
+      return existing._id;
+    }
+
+    return await ctx.db.insert("projectMembers", {
+      projectId: args.projectId,
+      userId: invitee._id,
+      addedBy: user._id,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Remove a member from a project. The owner can remove anyone; members can
+ * remove themselves.
+ */
+export const removeProjectMember = mutation({
+  args: {
+    projectId: v.id("projects"),
+    userId: v.id("users"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
+      .unique();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const project = await ctx.db.get(args.projectId);
+    if (!project) {
+      throw new Error("Project not found");
+    }
+
+    if (project.ownerId !== user._id && args.userId !== user._id) {
+      throw new Error("Not authorized to remove members from this project");
+    }
+
+    const member = await ctx.db
+      .query("projectMembers")
+      .withIndex("by_project_user", (q) => q.eq("projectId", args.projectId).eq("userId", args.userId))
+      .unique();
+
+    if (member) {
+      await ctx.db.delete(member._id);
+    }
+
+    return null;
+  },
+});
@@ -0,0 +1,118 @@
+import { query, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { requireSpreadsheetAccess } from "./lib/access";
+import { findSheetIndex, serializeWorkbook, uniqueSheetName } from "./lib/sheetCodec";
+import { diffWorkbooks } from "./lib/sheetOps";
+import { commitSheetOps, loadWorkbook, loadWorkbookAtVersion } from "./lib/sheetStorage";
+
+const revisionValidator = v.object({
+  _id: v.id("sheetRevisions"),
+  _creationTime: v.number(),
+  spreadsheetId: v.id("spreadsheets"),
+  baseVersion: v.number(),
+  version: v.number(),
+  authorId: v.id("users"),
+  authorName: v.string(),
+  source: v.union(v.literal("user"), v.literal("ai")),
+  summary: v.string(),
+  label: v.optional(v.string()),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
+/**
+ * List the revisions of a spreadsheet, newest first
+ */
+export const listRevisions = query({
+  args: {
+    spreadsheetId: v.id("spreadsheets"),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(revisionValidator),
+  handler: async (ctx, args) => {
+    await requireSpreadsheetAccess(ctx, args.spreadsheetId);
+
+    return await ctx.db
+      .query("sheetRevisions")
+      .withIndex("by_spreadsheet_version", (q) => q.eq("spreadsheetId", args.spreadsheetId))
+      .order("desc")
+      .take(Math.min(args.limit ?? 50, 200));
+  },
+});
+
+/**
+ * Get the workbook as it was at a given version, as a JSON string of
+ * x-spreadsheet sheets
+ */
+export const getRevisionData = query({
+  args: {
+    spreadsheetId: v.id("spreadsheets"),
+    version: v.number(),
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    const { spreadsheet } = await requireSpreadsheetAccess(ctx, args.spreadsheetId);
+
+    return serializeWorkbook(await loadWorkbookAtVersion(ctx, spreadsheet, args.version));
+  },
+});
+
+/**
+ * Restore the whole workbook to a previous version. The restore is committed
+ * as a new revision, so it can itself be undone from the history.
+ */
+export const restoreRevision = mutation({
+  args: {
+    spreadsheetId: v.id("spreadsheets"),
+    version: v.number(),
+  },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    const { user, spreadsheet } = await requireSpreadsheetAccess(ctx, args.spreadsheetId);
+
+    const target = await loadWorkbookAtVersion(ctx, spreadsheet, args.version);
+    const current = await loadWorkbook(ctx, spreadsheet);
+    const result = await commitSheetOps(ctx, spreadsheet, diffWorkbooks(current, target), {
+      authorId: user._id,
+      source: "user",
+      label: `Restored version ${args.version}`,
+    });
+
+    console.log(`⏪ Restored spreadsheet ${args.spreadsheetId} to version ${args.version}`);
+    return result.version;
+  },
+});
+
+/**
+ * Copy one sheet out of a previous version into the current workbook as a
+ * new sheet. Returns the name of the new sheet.
+ */
+export const copySheetFromRevision = mutation({
+  args: {
+    spreadsheetId: v.id("spreadsheets"),
+    version: v.number(),
+    sheetName: v.string(),
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    const { user, spreadsheet } = await requireSpreadsheetAccess(ctx, args.spreadsheetId);
+
+    const revisionSheets = await loadWorkbookAtVersion(ctx, spreadsheet, args.version);
+    const sheetIndex = findSheetIndex(revisionSheets, args.sheetName);
+    if (sheetIndex === -1) {
+      throw new Error(`Sheet "${args.sheetName}" not found in version ${args.version}`);
+    }
+
+    const current = await loadWorkbook(ctx, spreadsheet);
+    const name = uniqueSheetName(current, `${revisionSheets[sheetIndex].name} (v${args.version})`);
+    const target = [...current, { ...revisionSheets[sheetIndex], name }];
+
+    await commitSheetOps(ctx, spreadsheet, diffWorkbooks(current, target), {
+      authorId: user._id,
+      source: "user",
+      label: `Copied "${revisionSheets[sheetIndex].name}" from version ${args.version}`,
+    });
+
+    return name;
+  },
+});
@@ -1,5 +1,13 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { appliedChangesValidator } from "./lib/aiChanges";
+import { chartSpecValidator } from "./lib/aiCharts";
+import { cleanupPlanValidator } from "./lib/dataCleaning";
+import { documentFileTypeValidator } from "./lib/documentFiles";
+import { queryResultValidator } from "./lib/queryPlans";
+import { reportFrequencyValidator, reportMetricChangeValidator, reportMetricValidator } from "./lib/aiReports";
+import { messageUsageValidator } from "./lib/aiUsage";
+import { sheetOpValidator } from "./lib/sheetOps";
 
 export default defineSchema({
   users: defineTable({
@@ -23,6 +31,17 @@ export default defineSchema({
     updatedAt: v.number(),
   }).index("by_owner", ["ownerId"]),
 
+  // Users other than the owner who can open and edit a project's spreadsheets
+  projectMembers: defineTable({
+    projectId: v.id("projects"),
+    userId: v.id("users"),
+    addedBy: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("by_project", ["projectId"])
+    .index("by_user", ["userId"])
+    .index("by_project_user", ["projectId", "userId"]),
+
   spreadsheets: defineTable({
     projectId: v.id("projects"),
     name: v.string(),
@@ -36,10 +55,82 @@ export default defineSchema({
     activeSheetIndex: v.optional(v.number()),
     workbookData: v.optional(v.string()),
     xSpreadsheetData: v.optional(v.string()),
+    version: v.optional(v.number()), // Incremented by every committed batch of sheet operations
   })
     .index("by_project", ["projectId"])
     .index("by_owner", ["ownerId"]),
 
+  // One document per sheet; cell rows live in sheetRowChunks
+  sheets: defineTable({
+    spreadsheetId: v.id("spreadsheets"),
+    name: v.string(),
+    index: v.number(), // Position of the sheet in the workbook
+    meta: v.string(), // JSON string of sheet settings (freeze, styles, merges, cols, ...)
+    rowCount: v.number(), // x-spreadsheet rows.len
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_spreadsheet", ["spreadsheetId", "index"]),
+
+  // Fixed-size blocks of rows so an edit only rewrites the chunk it touches
+  sheetRowChunks: defineTable({
+    spreadsheetId: v.id("spreadsheets"),
+    sheetId: v.id("sheets"),
+    chunkIndex: v.number(), // Covers rows [chunkIndex * ROW_CHUNK_SIZE, (chunkIndex + 1) * ROW_CHUNK_SIZE)
+    rows: v.string(), // JSON string of { [rowIndex]: { cells, height? } }
+    updatedAt: v.number(),
+  })
+    .index("by_sheet_chunk", ["sheetId", "chunkIndex"])
+    .index("by_spreadsheet", ["spreadsheetId"]),
+
+  // Log of committed sheet operations, used to rebase writes based on older versions
+  sheetOperations: defineTable({
+    spreadsheetId: v.id("spreadsheets"),
+    version: v.number(), // Spreadsheet version produced by this batch
+    authorId: v.id("users"),
+    source: v.union(v.literal("user"), v.literal("ai")),
+    ops: v.array(sheetOpValidator),
+    createdAt: v.number(),
+  }).index("by_spreadsheet_version", ["spreadsheetId", "version"]),
+
+  // Version history: one entry per commit, with consecutive saves by the same user merged
+  sheetRevisions: defineTable({
+    spreadsheetId: v.id("spreadsheets"),
+    baseVersion: v.number(), // Version before the first change of this revision
+    version: v.number(), // Version after the last change of this revision
+    authorId: v.id("users"),
+    authorName: v.string(), // User name, or the agent name for AI changes
+    source: v.union(v.literal("user"), v.literal("ai")),
+    summary: v.string(),
+    label: v.optional(v.string()), // e.g. "Restored version 12"
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_spreadsheet_version", ["spreadsheetId", "version"]),
+
+  // Full workbook copies that old versions are rebuilt from by replaying sheetOperations
+  sheetSnapshots: defineTable({
+    spreadsheetId: v.id("spreadsheets"),
+    version: v.number(),
+    part: v.number(), // Large workbooks are split over several documents
+    data: v.string(),
+    createdAt: v.number(),
+  }).index("by_spreadsheet_version", ["spreadsheetId", "version", "part"]),
+
+  // Editing sessions currently open on a spreadsheet, refreshed by heartbeats
+  spreadsheetPresence: defineTable({
+    spreadsheetId: v.id("spreadsheets"),
+    userId: v.id("users"),
+    sessionId: v.string(), // One per open editor tab
+    name: v.string(),
+    imageUrl: v.optional(v.string()),
+    color: v.string(),
+    sheetName: v.optional(v.string()),
+    selection: v.optional(v.string()), // A1 reference, e.g. "B2" or "A1:C4"
+    lastSeen: v.number(),
+  })
+    .index("by_spreadsheet", ["spreadsheetId"])
+    .index("by_session", ["sessionId"])
+    .index("by_last_seen", ["lastSeen"]),
+
   charts: defineTable({
     spreadsheetId: v.id("spreadsheets"),
     ownerId: v.id("users"),
@@ -56,6 +147,11 @@ export default defineSchema({
       v.object({
         xIsFirstRowHeader: v.optional(v.boolean()),
         xIsFirstColumn: v.optional(v.boolean()),
+        // Set when pinned from an AI chart spec
+        labelColumn: v.optional(v.string()),
+        series: v.optional(v.array(v.string())),
+        xAxisLabel: v.optional(v.string()),
+        yAxisLabel: v.optional(v.string()),
       }),
     ),
     createdAt: v.number(),
@@ -82,23 +178,15 @@ export default defineSchema({
     role: v.union(v.literal("user"), v.literal("assistant")),
     content: v.string(),
     // For AI responses that include charts
-    chartData: v.optional(
-      v.object({
-        type: v.union(
-          v.literal("line"),
-          v.literal("bar"),
-          v.literal("area"),
-          v.literal("pie"),
-        ),
-        range: v.string(),
-        sheetName: v.optional(v.string()),
-        title: v.optional(v.string()),
-      }),
-    ),
+    chartData: v.optional(chartSpecValidator),
+    // Data cleaning plan proposed by the assistant, applied by the user
+    cleanupPlan: v.optional(cleanupPlanValidator),
+    // Query plan the assistant ran to answer a question, with the first rows
+    queryResult: v.optional(queryResultValidator),
     // Agent and LLM information
     agentId: v.optional(v.string()),
     modelName: v.optional(v.string()),
-    provider: v.optional(v.string()), // "openai", "anthropic", "google", "mistral"
+    provider: v.optional(v.string()), // "openai", "anthropic", "google", "mistral", "openai_compatible"
     agentType: v.optional(
       v.union(
         v.literal("general"),
@@ -110,11 +198,45 @@ export default defineSchema({
     // Streaming support
     isStreaming: v.optional(v.boolean()), // true if message is currently being streamed
     isComplete: v.optional(v.boolean()), // true if streaming is complete
+    // Spreadsheet changes, charts and dashboards this message applied
+    appliedChanges: v.optional(appliedChangesValidator),
+    // Tokens, latency and estimated cost of the model calls behind the message
+    usage: v.optional(messageUsageValidator),
     createdAt: v.number(),
   })
     .index("by_conversation", ["conversationId"])
     .index("by_owner", ["ownerId"]),
 
+  // One record per assistant turn, for usage reports and quotas
+  aiUsage: defineTable({
+    ownerId: v.id("users"),
+    projectId: v.id("projects"),
+    spreadsheetId: v.id("spreadsheets"),
+    conversationId: v.optional(v.id("aiConversations")),
+    messageId: v.optional(v.id("aiMessages")),
+    agentId: v.optional(v.id("aiAgents")),
+    provider: v.string(),
+    modelName: v.string(),
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    latencyMs: v.number(),
+    costUsd: v.number(), // Estimated from the model registry prices
+    createdAt: v.number(),
+  })
+    .index("by_owner_created", ["ownerId", "createdAt"])
+    .index("by_project_created", ["projectId", "createdAt"]),
+
+  // Spending limits overriding the deployment defaults for a user or project
+  aiQuotas: defineTable({
+    ownerId: v.optional(v.id("users")),
+    projectId: v.optional(v.id("projects")),
+    dailyLimitUsd: v.optional(v.number()),
+    monthlyLimitUsd: v.optional(v.number()),
+    updatedAt: v.number(),
+  })
+    .index("by_owner", ["ownerId"])
+    .index("by_project", ["projectId"]),
+
   // AI Agent Configurations
   aiAgents: defineTable({
     name: v.string(),
@@ -124,8 +246,10 @@ export default defineSchema({
       v.literal("anthropic"),
       v.literal("google"),
       v.literal("mistral"),
+      v.literal("openai_compatible"),
     ),
     modelName: v.string(),
+    baseUrl: v.optional(v.string()), // Endpoint of an openai_compatible server, e.g. http://localhost:11434/v1
     systemPrompt: v.string(),
     // Agent type: specialized capabilities (optional for backward compatibility)
     agentType: v.optional(
@@ -144,12 +268,85 @@ export default defineSchema({
     .index("by_owner", ["ownerId"])
     .index("by_provider", ["provider"]),
 
+  // Models agents may use; seeded from the built-in list in lib/aiModels
+  aiModels: defineTable({
+    provider: v.union(
+      v.literal("openai"),
+      v.literal("anthropic"),
+      v.literal("google"),
+      v.literal("mistral"),
+    ),
+    modelName: v.string(),
+    displayName: v.string(),
+    contextWindow: v.number(), // Tokens
+    inputCostPerMillion: v.number(), // USD per million input tokens
+    outputCostPerMillion: v.number(), // USD per million output tokens
+    supportsTools: v.boolean(),
+    supportsVision: v.boolean(),
+    supportsJsonMode: v.boolean(),
+    isActive: v.boolean(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_provider_model", ["provider", "modelName"]),
+
+  // LLM provider API keys owned by users, optionally limited to one project
+  aiProviderKeys: defineTable({
+    ownerId: v.id("users"),
+    provider: v.union(
+      v.literal("openai"),
+      v.literal("anthropic"),
+      v.literal("google"),
+      v.literal("mistral"),
+      v.literal("openai_compatible"),
+    ),
+    projectId: v.optional(v.id("projects")), // Workspace the key is limited to; all of the user's projects when unset
+    encryptedKey: v.string(), // AES-GCM encrypted key
+    keyHint: v.string(), // Last characters of the key, for display
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_owner_provider", ["ownerId", "provider", "projectId"]),
+
+  // Agent prompts run on a schedule against a spreadsheet
+  aiReports: defineTable({
+    spreadsheetId: v.id("spreadsheets"),
+    ownerId: v.id("users"),
+    agentId: v.id("aiAgents"),
+    title: v.string(),
+    prompt: v.string(),
+    frequency: reportFrequencyValidator,
+    hourUtc: v.number(),
+    dayOfWeek: v.optional(v.number()), // 0 is Sunday; weekly reports only
+    isActive: v.boolean(),
+    nextRunAt: v.number(),
+    lastRunAt: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_spreadsheet", ["spreadsheetId"])
+    .index("by_active_next_run", ["isActive", "nextRunAt"]),
+
+  // Output of one run of a scheduled report
+  aiReportRuns: defineTable({
+    reportId: v.id("aiReports"),
+    spreadsheetId: v.id("spreadsheets"),
+    ownerId: v.id("users"),
+    status: v.union(v.literal("completed"), v.literal("failed")),
+    content: v.string(), // Markdown summary, or the error of a failed run
+    charts: v.array(chartSpecValidator),
+    metrics: v.array(reportMetricValidator), // Read from the data, for comparing runs
+    changes: v.optional(v.array(reportMetricChangeValidator)), // Unset on the first run
+    usage: v.optional(messageUsageValidator),
+    createdAt: v.number(),
+  }).index("by_report_created", ["reportId", "createdAt"]),
+
   // AI Threads for agent conversations
   aiThreads: defineTable({
     conversationId: v.id("aiConversations"),
     agentId: v.string(),
     threadId: v.string(), // External thread ID from agent
     ownerId: v.id("users"),
+    summary: v.optional(v.string()), // Summary of the messages older than the replayed ones
+    summarizedMessageCount: v.optional(v.number()), // Conversation messages covered by the summary
     createdAt: v.number(),
     updatedAt: v.number(),
   })
@@ -163,11 +360,14 @@ export default defineSchema({
     conversationId: v.optional(v.id("aiConversations")),
     ownerId: v.id("users"),
     fileName: v.string(),
-    fileType: v.union(v.literal("pdf"), v.literal("docx")),
+    fileType: documentFileTypeValidator,
     storageId: v.id("_storage"), // Convex file storage ID
     extractedText: v.optional(v.string()), // Full text content
     extractedTables: v.optional(v.string()), // JSON string of tables found
     pageCount: v.optional(v.number()),
+    processedPages: v.optional(v.number()), // Progress while a PDF is being read
+    attempts: v.optional(v.number()), // Processing runs so far, including retries
+    processingStartedAt: v.optional(v.number()), // When the current processing run claimed the document
     processingStatus: v.union(
       v.literal("pending"),
       v.literal("processing"),
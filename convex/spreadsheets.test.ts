@@ -0,0 +1,87 @@
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import { api, internal } from "./_generated/api";
+import schema from "./schema";
+import { getCellText } from "./lib/formulas";
+import { loadWorkbook } from "./lib/sheetStorage";
+import { createFixture, insertUser, modules } from "./test.setup";
+
+describe("internalCreateTableFromDocument", () => {
+  test("appends rows under the matching columns and adds headers for new ones", async () => {
+    const t = convexTest(schema, modules);
+    const { userId, spreadsheetId } = await createFixture(t);
+
+    await t.mutation(internal.spreadsheets.internalCreateTableFromDocument, {
+      spreadsheetId,
+      ownerId: userId,
+      headers: ["salary", "Name", "Department"],
+      dataRows: [["64000", "Dana White", "Sales"]],
+      sheetName: "Sheet1",
+      mode: "append",
+    });
+
+    const [sheet] = await t.run(async (ctx) => loadWorkbook(ctx, (await ctx.db.get(spreadsheetId))!));
+    const row = (r: number) => [0, 1, 2, 3, 4].map((col) => getCellText(sheet, r, col));
+    expect(row(0)).toEqual(["Name", "Age", "City", "Salary", "Department"]);
+    expect(row(6)).toEqual(["Dana White", "", "", "64000", "Sales"]);
+  });
+});
+
+describe("importCSVToSpreadsheet", () => {
+  test("adds a new sheet instead of overwriting one with the same name", async () => {
+    const t = convexTest(schema, modules);
+    const { spreadsheetId } = await createFixture(t);
+    const owner = t.withIdentity({ subject: "user_test" });
+
+    await owner.mutation(api.spreadsheets.importCSVToSpreadsheet, {
+      spreadsheetId,
+      csvData: "a,b",
+      sheetName: "Sheet1",
+    });
+    let sheets = await t.run(async (ctx) => loadWorkbook(ctx, (await ctx.db.get(spreadsheetId))!));
+    expect(sheets.map((sheet) => sheet.name)).toEqual(["Sheet1", "Sheet1 (2)"]);
+    expect(getCellText(sheets[0], 0, 0)).toBe("Name");
+
+    await owner.mutation(api.spreadsheets.importCSVToSpreadsheet, {
+      spreadsheetId,
+      csvData: "a,b",
+      sheetName: "Sheet1",
+      replace: true,
+    });
+    sheets = await t.run(async (ctx) => loadWorkbook(ctx, (await ctx.db.get(spreadsheetId))!));
+    expect(sheets).toHaveLength(2);
+    expect(getCellText(sheets[0], 0, 0)).toBe("a");
+  });
+});
+
+describe("shared spreadsheets", () => {
+  test("project members can chart, export and import", async () => {
+    const t = convexTest(schema, modules);
+    const { userId, projectId, spreadsheetId } = await createFixture(t);
+    await t.run(async (ctx) => {
+      const memberId = await insertUser(ctx, "user_member");
+      await ctx.db.insert("projectMembers", { projectId, userId: memberId, addedBy: userId, createdAt: Date.now() });
+      await insertUser(ctx, "user_stranger");
+    });
+    const member = t.withIdentity({ subject: "user_member" });
+
+    await member.mutation(api.spreadsheets.createChart, {
+      spreadsheetId,
+      title: "Salaries",
+      type: "bar",
+      range: "A1:D6",
+    });
+    expect(await member.query(api.spreadsheets.listCharts, { spreadsheetId })).toHaveLength(1);
+    expect(await member.query(api.spreadsheets.exportSpreadsheetAsCSV, { spreadsheetId })).toContain("Salary");
+    await member.mutation(api.spreadsheets.importCSVToSpreadsheet, {
+      spreadsheetId,
+      csvData: "a,b\n1,2",
+      sheetName: "Imported",
+    });
+
+    const stranger = t.withIdentity({ subject: "user_stranger" });
+    await expect(stranger.query(api.spreadsheets.listCharts, { spreadsheetId })).rejects.toThrow(
+      "Not authorized to access this spreadsheet"
+    );
+  });
+});
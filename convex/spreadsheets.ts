@@ -1,6 +1,22 @@
 import { query, mutation, internalMutation, internalQuery } from "./_generated/server";
 import { v } from "convex/values";
 import { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { canAccessProject, canAccessSpreadsheet, requireSpreadsheetAccess } from "./lib/access";
+import { convertImportValue, importColumnTypeValidator, importTargetValidator } from "./lib/documentImport";
+import { evaluateWorkbook, getCellText, getComputedValue } from "./lib/formulas";
+import {
+  createEmptySheet,
+  csvRowsToSheet,
+  findSheetIndex,
+  parseCSV,
+  serializeWorkbook,
+  sheetToCSV,
+  uniqueSheetName,
+  workbookToCSVZip,
+} from "./lib/sheetCodec";
+import { SheetOp, diffWorkbooks, sheetOpValidator } from "./lib/sheetOps";
+import { commitSheetOps, getSheetDocs, loadWorkbook, saveWorkbook } from "./lib/sheetStorage";
 
 /**
  * Get all spreadsheets for a project
@@ -23,6 +39,7 @@ export const getProjectSpreadsheets = query({
       activeSheetIndex: v.optional(v.number()),
       workbookData: v.optional(v.string()),
       xSpreadsheetData: v.optional(v.string()),
+      version: v.optional(v.number()),
     }),
   ),
   handler: async (ctx, args) => {
@@ -79,32 +96,22 @@ export const createSpreadsheet = mutation({
       throw new Error("Project not found");
     }
 
-    if (project.ownerId !== user._id) {
+    if (!(await canAccessProject(ctx.db, project, user._id))) {
       throw new Error("Not authorized to create spreadsheet in this project");
     }
 
-    // Default x-spreadsheet data
-    const defaultData = JSON.stringify([
-      {
-        name: "Sheet1",
-        freeze: "A1",
-        styles: [],
-        merges: [],
-        cols: { len: 26 },
-        rows: { len: 100 },
-        cells: {},
-      },
-    ]);
-
     const now = Date.now();
-    return await ctx.db.insert("spreadsheets", {
+    const spreadsheetId = await ctx.db.insert("spreadsheets", {
       projectId: args.projectId,
       name: args.name,
       ownerId: user._id,
       createdAt: now,
       updatedAt: now,
-      data: defaultData,
     });
+
+    // Default x-spreadsheet data
+    await saveWorkbook(ctx, spreadsheetId, [createEmptySheet("Sheet1")]);
+    return spreadsheetId;
   },
 });
 
@@ -129,6 +136,7 @@ export const getSpreadsheetData = query({
       activeSheetIndex: v.optional(v.number()),
       workbookData: v.optional(v.string()),
       xSpreadsheetData: v.optional(v.string()),
+      version: v.optional(v.number()),
     }),
     v.null(),
   ),
@@ -152,54 +160,44 @@ export const getSpreadsheetData = query({
       return null;
     }
 
-    if (spreadsheet.ownerId !== user._id) {
+    if (!(await canAccessSpreadsheet(ctx.db, spreadsheet, user._id))) {
       throw new Error("Not authorized to view this spreadsheet");
     }
 
-    return spreadsheet;
+    // Clients still receive the workbook as a single JSON string
+    return {
+      ...spreadsheet,
+      data: serializeWorkbook(await loadWorkbook(ctx, spreadsheet)),
+    };
   },
 });
 
+const commitResultValidator = v.object({
+  success: v.boolean(),
+  version: v.number(),
+  conflicts: v.array(v.string()),
+});
+
 /**
- * Update spreadsheet data
+ * Apply a batch of cell-level operations written against `baseVersion`.
+ * Operations based on an older version are rebased over the changes made
+ * since; when they conflict nothing is written and the conflicts are returned.
  */
-export const updateSpreadsheetData = mutation({
+export const applySpreadsheetOps = mutation({
   args: {
     spreadsheetId: v.id("spreadsheets"),
-    data: v.string(),
+    baseVersion: v.number(),
+    ops: v.array(sheetOpValidator),
   },
-  returns: v.null(),
+  returns: commitResultValidator,
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
-      .unique();
+    const { user, spreadsheet } = await requireSpreadsheetAccess(ctx, args.spreadsheetId);
 
-    if (!user) {
-      throw new Error("User not found");
-    }
-
-    const spreadsheet = await ctx.db.get(args.spreadsheetId);
-    if (!spreadsheet) {
-      throw new Error("Spreadsheet not found");
-    }
-
-    if (spreadsheet.ownerId !== user._id) {
-      throw new Error("Not authorized to edit this spreadsheet");
-    }
-
-    const now = Date.now();
-    await ctx.db.patch(args.spreadsheetId, {
-      data: args.data,
-      updatedAt: now,
+    return await commitSheetOps(ctx, spreadsheet, args.ops, {
+      authorId: user._id,
+      source: "user",
+      baseVersion: args.baseVersion,
     });
-
-    return null;
   },
 });
 
@@ -247,188 +245,235 @@ export const updateSpreadsheetName = mutation({
 });
 
 /**
- * Export spreadsheet data as CSV
+ * Export a single sheet as CSV (defaults to the first sheet)
  */
 export const exportSpreadsheetAsCSV = query({
   args: {
     spreadsheetId: v.id("spreadsheets"),
+    sheetName: v.optional(v.string()),
+    delimiter: v.optional(v.string()),
   },
   returns: v.string(),
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
-      .unique();
+    const { spreadsheet } = await requireSpreadsheetAccess(ctx, args.spreadsheetId);
 
-    if (!user) {
-      throw new Error("User not found");
+    const sheets = await loadWorkbook(ctx, spreadsheet);
+    if (sheets.length === 0) {
+      return "";
     }
 
-    const spreadsheet = await ctx.db.get(args.spreadsheetId);
-    if (!spreadsheet) {
-      throw new Error("Spreadsheet not found");
+    const sheetIndex = args.sheetName ? findSheetIndex(sheets, args.sheetName) : 0;
+    if (sheetIndex === -1) {
+      throw new Error(`Sheet "${args.sheetName}" not found`);
     }
 
-    if (spreadsheet.ownerId !== user._id) {
-      throw new Error("Not authorized to export this spreadsheet");
-    }
-
-    try {
-      // Handle both old and new data formats
-      let dataString = spreadsheet.data;
-
-      // If data field doesn't exist, try to use xSpreadsheetData or workbookData
-      if (!dataString && spreadsheet.xSpreadsheetData) {
-        dataString = spreadsheet.xSpreadsheetData;
-      } else if (!dataString && spreadsheet.workbookData) {
-        dataString = spreadsheet.workbookData;
-      }
-
-      if (!dataString) {
-        return "";
-      }
-
-      const data = JSON.parse(dataString);
-      const sheet = data[0]; // Get first sheet
+    return sheetToCSV(sheets, sheetIndex, { delimiter: args.delimiter });
+  },
+});
 
-      if (!sheet || !sheet.cells) {
-        return "";
-      }
+/**
+ * Export every sheet as a zip archive with one CSV file per sheet
+ */
+export const exportSpreadsheetAsCSVZip = query({
+  args: {
+    spreadsheetId: v.id("spreadsheets"),
+    delimiter: v.optional(v.string()),
+  },
+  returns: v.bytes(),
+  handler: async (ctx, args) => {
+    const { spreadsheet } = await requireSpreadsheetAccess(ctx, args.spreadsheetId);
 
-      // Find the bounds of the data
-      let maxRow = 0;
-      let maxCol = 0;
+    const zip = workbookToCSVZip(await loadWorkbook(ctx, spreadsheet), { delimiter: args.delimiter });
+    return zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.byteLength) as ArrayBuffer;
+  },
+});
 
-      Object.keys(sheet.cells).forEach((key) => {
-        const [r, c] = key.split("_").map(Number);
-        maxRow = Math.max(maxRow, r);
-        maxCol = Math.max(maxCol, c);
-      });
+/**
+ * Import CSV data into a sheet. Adds a new sheet, named after `sheetName` but
+ * never clashing with an existing one, unless `replace` is set: then the
+ * contents of the existing `sheetName` are replaced. The delimiter is
+ * detected when omitted.
+ */
+export const importCSVToSpreadsheet = mutation({
+  args: {
+    spreadsheetId: v.id("spreadsheets"),
+    csvData: v.string(),
+    sheetName: v.optional(v.string()),
+    delimiter: v.optional(v.string()),
+    replace: v.optional(v.boolean()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { user, spreadsheet } = await requireSpreadsheetAccess(ctx, args.spreadsheetId);
 
-      // Create a 2D array to hold the data
-      const csvData: string[][] = [];
-      for (let row = 0; row <= maxRow; row++) {
-        csvData[row] = [];
-        for (let col = 0; col <= maxCol; col++) {
-          csvData[row][col] = "";
-        }
+    try {
+      const csvRows = parseCSV(args.csvData, { delimiter: args.delimiter });
+      const before = await loadWorkbook(ctx, spreadsheet);
+      const sheets = [...before];
+
+      const existingIndex = args.replace && args.sheetName ? findSheetIndex(sheets, args.sheetName) : -1;
+      if (existingIndex !== -1) {
+        const existing = sheets[existingIndex];
+        const imported = csvRowsToSheet(csvRows, existing.name);
+        sheets[existingIndex] = { ...existing, rows: imported.rows, cols: imported.cols, merges: [] };
+      } else {
+        const name = uniqueSheetName(sheets, args.sheetName || `Sheet${sheets.length + 1}`);
+        sheets.push(csvRowsToSheet(csvRows, name));
       }
 
-      // Fill in the actual data
-      Object.keys(sheet.cells).forEach((key) => {
-        const [r, c] = key.split("_").map(Number);
-        const cell = sheet.cells[key];
-        const value = cell.text || "";
-
-        // Escape CSV values (add quotes if contains comma, newline, or quote)
-        if (
-          value.includes(",") ||
-          value.includes("\n") ||
-          value.includes('"')
-        ) {
-          csvData[r][c] = `"${value.replace(/"/g, '""')}"`;
-        } else {
-          csvData[r][c] = value;
-        }
+      await commitSheetOps(ctx, spreadsheet, diffWorkbooks(before, sheets), {
+        authorId: user._id,
+        source: "user",
       });
 
-      // Convert to CSV string
-      const csvRows = csvData.map((row) => row.join(","));
-      return csvRows.join("\n");
+      return null;
     } catch (error) {
-      console.error("Error parsing spreadsheet data:", error);
-      return "";
+      console.error("Error importing CSV:", error);
+      throw new Error(`Failed to import CSV data: ${error instanceof Error ? error.message : String(error)}`);
     }
   },
 });
 
+// null clears the cell; style is an x-spreadsheet style object (null clears it)
+const cellPatchValidator = v.union(
+  v.null(),
+  v.object({
+    text: v.optional(v.string()),
+    style: v.optional(v.any()),
+  }),
+);
+
+type CellPatch = { text?: string; style?: any } | null;
+
+// Turn a 2D block of cells anchored at (startRow, startCol) into sheet operations
+function cellRangeToOps(sheet: string, startRow: number, startCol: number, cells: CellPatch[][]): SheetOp[] {
+  const ops: SheetOp[] = [];
+  cells.forEach((rowCells, r) => {
+    rowCells.forEach((cell, c) => {
+      const row = startRow + r;
+      const col = startCol + c;
+      if (cell === null) {
+        ops.push({ type: "setCell", sheet, row, col, text: null });
+        return;
+      }
+      if (cell.text !== undefined) {
+        ops.push({ type: "setCell", sheet, row, col, text: cell.text });
+      }
+      if (cell.style !== undefined) {
+        ops.push({ type: "applyStyle", sheet, range: { sri: row, sci: col, eri: row, eci: col }, style: cell.style });
+      }
+    });
+  });
+  return ops;
+}
+
 /**
- * Import CSV data into spreadsheet
+ * Write a rectangular block of cells starting at (startRow, startCol).
+ * Shorthand for applySpreadsheetOps with setCell/applyStyle operations; when
+ * `baseVersion` is omitted the write applies on top of the latest version.
  */
-export const importCSVToSpreadsheet = mutation({
+export const patchCellRange = mutation({
   args: {
     spreadsheetId: v.id("spreadsheets"),
-    csvData: v.string(),
+    sheetName: v.string(),
+    startRow: v.number(),
+    startCol: v.number(),
+    cells: v.array(v.array(cellPatchValidator)),
+    baseVersion: v.optional(v.number()),
   },
-  returns: v.null(),
+  returns: commitResultValidator,
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
-      .unique();
-
-    if (!user) {
-      throw new Error("User not found");
-    }
+    const { user, spreadsheet } = await requireSpreadsheetAccess(ctx, args.spreadsheetId);
+
+    return await commitSheetOps(
+      ctx,
+      spreadsheet,
+      cellRangeToOps(args.sheetName, args.startRow, args.startCol, args.cells),
+      { authorId: user._id, source: "user", baseVersion: args.baseVersion }
+    );
+  },
+});
 
+/**
+ * Internal variant of patchCellRange for AI and server-side writers
+ */
+export const internalPatchCellRange = internalMutation({
+  args: {
+    spreadsheetId: v.id("spreadsheets"),
+    ownerId: v.id("users"),
+    // Agent shown as the author in the version history
+    authorName: v.optional(v.string()),
+    // Assistant message that records these changes so they can be undone
+    messageId: v.optional(v.id("aiMessages")),
+    sheetName: v.string(),
+    startRow: v.number(),
+    startCol: v.number(),
+    cells: v.array(v.array(cellPatchValidator)),
+  },
+  returns: commitResultValidator,
+  handler: async (ctx, args) => {
     const spreadsheet = await ctx.db.get(args.spreadsheetId);
     if (!spreadsheet) {
       throw new Error("Spreadsheet not found");
     }
 
-    if (spreadsheet.ownerId !== user._id) {
-      throw new Error("Not authorized to import data into this spreadsheet");
+    if (!(await canAccessSpreadsheet(ctx.db, spreadsheet, args.ownerId))) {
+      throw new Error("Not authorized to edit this spreadsheet");
     }
 
-    try {
-      // Parse CSV data
-      const lines = args.csvData.split("\n");
-      const csvRows: string[][] = [];
-
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (line) {
-          const row = parseCSVLine(line);
-          csvRows.push(row);
-        }
+    return await commitSheetOps(
+      ctx,
+      spreadsheet,
+      cellRangeToOps(args.sheetName, args.startRow, args.startCol, args.cells),
+      {
+        authorId: args.ownerId,
+        source: "ai",
+        authorName: args.authorName,
+        messageId: args.messageId,
       }
+    );
+  },
+});
 
-      // Convert to x-spreadsheet format
-      const sheet: any = {
-        name: "Sheet1",
-        freeze: "A1",
-        styles: [],
-        merges: [],
-        cols: { len: Math.max(26, csvRows[0]?.length || 26) },
-        rows: { len: Math.max(100, csvRows.length) },
-        cells: {},
-      };
+/**
+ * Migrate spreadsheets from the `data` blob (and the legacy `xSpreadsheetData`
+ * / `workbookData` fields) to `sheets` and `sheetRowChunks` documents.
+ * Processes one page per run and reschedules itself until done.
+ */
+export const migrateSheetStorage = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+    batchSize: v.optional(v.number()),
+  },
+  returns: v.object({
+    migrated: v.number(),
+    isDone: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    const batchSize = args.batchSize ?? 20;
+    const page = await ctx.db
+      .query("spreadsheets")
+      .paginate({ cursor: args.cursor ?? null, numItems: batchSize });
 
-      // Add cells
-      csvRows.forEach((row, rowIndex) => {
-        row.forEach((value, colIndex) => {
-          if (value.trim()) {
-            sheet.cells[`${rowIndex}_${colIndex}`] = {
-              text: value.trim(),
-              style: 0,
-            };
-          }
-        });
-      });
+    let migrated = 0;
+    for (const spreadsheet of page.page) {
+      const sheetDocs = await getSheetDocs(ctx, spreadsheet._id);
+      if (sheetDocs.length > 0) continue;
 
-      const newData = JSON.stringify([sheet]);
+      await saveWorkbook(ctx, spreadsheet._id, await loadWorkbook(ctx, spreadsheet));
+      migrated++;
+    }
 
-      const now = Date.now();
-      await ctx.db.patch(args.spreadsheetId, {
-        data: newData,
-        updatedAt: now,
-      });
+    console.log(`📦 Migrated ${migrated} spreadsheet(s) to sheet storage`);
 
-      return null;
-    } catch (error) {
-      console.error("Error importing CSV:", error);
-      throw new Error("Failed to import CSV data");
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.spreadsheets.migrateSheetStorage, {
+        cursor: page.continueCursor,
+        batchSize,
+      });
     }
+
+    return { migrated, isDone: page.isDone };
   },
 });
 
@@ -456,6 +501,10 @@ export const listCharts = query({
         v.object({
           xIsFirstRowHeader: v.optional(v.boolean()),
           xIsFirstColumn: v.optional(v.boolean()),
+          labelColumn: v.optional(v.string()),
+          series: v.optional(v.array(v.string())),
+          xAxisLabel: v.optional(v.string()),
+          yAxisLabel: v.optional(v.string()),
         }),
       ),
       createdAt: v.number(),
@@ -463,19 +512,7 @@ export const listCharts = query({
     }),
   ),
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) throw new Error("Not authenticated");
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
-      .unique();
-    if (!user) throw new Error("User not found");
-
-    const spreadsheet = await ctx.db.get(args.spreadsheetId);
-    if (!spreadsheet) throw new Error("Spreadsheet not found");
-    if (spreadsheet.ownerId !== user._id)
-      throw new Error("Not authorized to view charts");
+    await requireSpreadsheetAccess(ctx, args.spreadsheetId);
 
     return await ctx.db
       .query("charts")
@@ -503,24 +540,16 @@ export const createChart = mutation({
       v.object({
         xIsFirstRowHeader: v.optional(v.boolean()),
         xIsFirstColumn: v.optional(v.boolean()),
+        labelColumn: v.optional(v.string()),
+        series: v.optional(v.array(v.string())),
+        xAxisLabel: v.optional(v.string()),
+        yAxisLabel: v.optional(v.string()),
       }),
     ),
   },
   returns: v.id("charts"),
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) throw new Error("Not authenticated");
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
-      .unique();
-    if (!user) throw new Error("User not found");
-
-    const spreadsheet = await ctx.db.get(args.spreadsheetId);
-    if (!spreadsheet) throw new Error("Spreadsheet not found");
-    if (spreadsheet.ownerId !== user._id)
-      throw new Error("Not authorized to create charts for this spreadsheet");
+    const { user } = await requireSpreadsheetAccess(ctx, args.spreadsheetId);
 
     const now = Date.now();
     return await ctx.db.insert("charts", {
@@ -537,42 +566,6 @@ export const createChart = mutation({
   },
 });
 
-/**
- * Internal mutation to create a chart (called by AI)
- */
-export const internalCreateChart = internalMutation({
-  args: {
-    spreadsheetId: v.id("spreadsheets"),
-    ownerId: v.id("users"),
-    title: v.string(),
-    type: v.union(
-      v.literal("line"),
-      v.literal("bar"),
-      v.literal("area"),
-      v.literal("pie"),
-    ),
-    range: v.string(),
-    sheetName: v.optional(v.string()),
-  },
-  returns: v.id("charts"),
-  handler: async (ctx, args) => {
-    const spreadsheet = await ctx.db.get(args.spreadsheetId);
-    if (!spreadsheet) throw new Error("Spreadsheet not found");
-
-    const now = Date.now();
-    return await ctx.db.insert("charts", {
-      spreadsheetId: args.spreadsheetId,
-      ownerId: args.ownerId,
-      title: args.title,
-      type: args.type,
-      range: args.range,
-      sheetName: args.sheetName,
-      createdAt: now,
-      updatedAt: now,
-    });
-  },
-});
-
 export const updateChart = mutation({
   args: {
     chartId: v.id("charts"),
@@ -590,30 +583,31 @@ export const updateChart = mutation({
       v.object({
         xIsFirstRowHeader: v.optional(v.boolean()),
         xIsFirstColumn: v.optional(v.boolean()),
+        labelColumn: v.optional(v.string()),
+        series: v.optional(v.array(v.string())),
+        xAxisLabel: v.optional(v.string()),
+        yAxisLabel: v.optional(v.string()),
       }),
     ),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) throw new Error("Not authenticated");
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
-      .unique();
-    if (!user) throw new Error("User not found");
-
     const chart = await ctx.db.get(args.chartId);
     if (!chart) throw new Error("Chart not found");
-    if (chart.ownerId !== user._id)
-      throw new Error("Not authorized to edit this chart");
+    await requireSpreadsheetAccess(ctx, chart.spreadsheetId);
 
     const updates: Partial<{
       title: string;
       type: "line" | "bar" | "area" | "pie";
       range: string;
-      options: { xIsFirstRowHeader?: boolean; xIsFirstColumn?: boolean };
+      options: {
+        xIsFirstRowHeader?: boolean;
+        xIsFirstColumn?: boolean;
+        labelColumn?: string;
+        series?: string[];
+        xAxisLabel?: string;
+        yAxisLabel?: string;
+      };
       updatedAt: number;
     }> = {};
     if (args.title !== undefined) updates.title = args.title;
@@ -631,19 +625,9 @@ export const deleteChart = mutation({
   args: { chartId: v.id("charts") },
   returns: v.null(),
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) throw new Error("Not authenticated");
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_clerk_id", (q) => q.eq("clerkId", identity.subject))
-      .unique();
-    if (!user) throw new Error("User not found");
-
     const chart = await ctx.db.get(args.chartId);
     if (!chart) return null;
-    if (chart.ownerId !== user._id)
-      throw new Error("Not authorized to delete this chart");
+    await requireSpreadsheetAccess(ctx, chart.spreadsheetId);
 
     await ctx.db.delete(args.chartId);
     return null;
@@ -688,6 +672,22 @@ function findNextAvailableRow(sheet: any, startFrom: number = 0): number {
   return maxUsedRow + 1;
 }
 
+/**
+ * Find the first row with content, where a sheet's header usually is
+ */
+function findFirstUsedRow(sheet: any): number {
+  let minUsedRow = -1;
+  for (const rowKey in sheet.rows || {}) {
+    if (rowKey === "len") continue;
+
+    const rowNum = parseInt(rowKey);
+    if (!isRowEmpty(sheet.rows[rowKey]) && (minUsedRow === -1 || rowNum < minUsedRow)) {
+      minUsedRow = rowNum;
+    }
+  }
+  return Math.max(minUsedRow, 0);
+}
+
 /**
  * Generate sample data based on column header name
  */
@@ -804,39 +804,6 @@ function generateSampleData(headerName: string, rowNumber: number): string {
   return `Value ${rowNumber}`;
 }
 
-/**
- * Helper function to parse a CSV line
- */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = "";
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        // Escaped quote
-        current += '"';
-        i++; // Skip next quote
-      } else {
-        // Toggle quote state
-        inQuotes = !inQuotes;
-      }
-    } else if (char === "," && !inQuotes) {
-      // Field separator
-      result.push(current);
-      current = "";
-    } else {
-      current += char;
-    }
-  }
-
-  result.push(current);
-  return result;
-}
-
 /**
  * Internal query to get all sheet names from a spreadsheet
  */
@@ -852,7 +819,7 @@ export const internalGetSheetNames = internalQuery({
     }
 
     try {
-      const data = JSON.parse(spreadsheet.data || "[]");
+      const data = await loadWorkbook(ctx, spreadsheet);
       if (!Array.isArray(data)) {
         return [];
       }
@@ -872,6 +839,8 @@ export const internalInsertTestData = internalMutation({
   args: {
     spreadsheetId: v.id("spreadsheets"),
     ownerId: v.id("users"),
+    authorName: v.optional(v.string()),
+    messageId: v.optional(v.id("aiMessages")),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -880,41 +849,33 @@ export const internalInsertTestData = internalMutation({
       throw new Error("Spreadsheet not found");
     }
 
-    if (spreadsheet.ownerId !== args.ownerId) {
+    if (!(await canAccessSpreadsheet(ctx.db, spreadsheet, args.ownerId))) {
       throw new Error("Not authorized to edit this spreadsheet");
     }
 
     try {
-      const data = JSON.parse(spreadsheet.data || "[]");
+      const data = await loadWorkbook(ctx, spreadsheet);
       if (!Array.isArray(data) || data.length === 0) {
         throw new Error("Invalid spreadsheet data");
       }
 
       const sheet = data[0];
       
-      // Initialize rows if not present
-      if (!sheet.rows) {
-        sheet.rows = { len: 100 };
-      }
-      
       // Find the next truly available row (skipping empty rows)
       const nextRow = findNextAvailableRow(sheet, 0);
 
       // Insert "test" in the first column of the next available row
-      if (!sheet.rows[nextRow]) {
-        sheet.rows[nextRow] = { cells: {} };
-      }
-      if (!sheet.rows[nextRow].cells) {
-        sheet.rows[nextRow].cells = {};
-      }
-      sheet.rows[nextRow].cells["0"] = { text: "test" };
-
-      const newData = JSON.stringify(data);
-      const now = Date.now();
-      await ctx.db.patch(args.spreadsheetId, {
-        data: newData,
-        updatedAt: now,
-      });
+      await commitSheetOps(
+        ctx,
+        spreadsheet,
+        [{ type: "setCell", sheet: sheet.name, row: nextRow, col: 0, text: "test" }],
+        {
+          authorId: args.ownerId,
+          source: "ai",
+          authorName: args.authorName,
+          messageId: args.messageId,
+        }
+      );
 
       return null;
     } catch (error) {
@@ -931,6 +892,8 @@ export const internalCreateTableWithSpec = internalMutation({
   args: {
     spreadsheetId: v.id("spreadsheets"),
     ownerId: v.id("users"),
+    authorName: v.optional(v.string()),
+    messageId: v.optional(v.id("aiMessages")),
     headers: v.array(v.string()),
     numRows: v.number(),
     sheetName: v.optional(v.string()),
@@ -946,111 +909,51 @@ export const internalCreateTableWithSpec = internalMutation({
       throw new Error("Spreadsheet not found");
     }
 
-    if (spreadsheet.ownerId !== args.ownerId) {
+    if (!(await canAccessSpreadsheet(ctx.db, spreadsheet, args.ownerId))) {
       throw new Error("Not authorized to edit this spreadsheet");
     }
 
     try {
-      const data = JSON.parse(spreadsheet.data || "[]");
+      const data = await loadWorkbook(ctx, spreadsheet);
       if (!Array.isArray(data)) {
         throw new Error("Invalid spreadsheet data");
       }
 
-      let targetSheet;
-      let targetSheetName = args.sheetName || "Sheet1";
-      let isNewSheet = false;
+      const ops: SheetOp[] = [];
+      const targetSheetName = args.sheetName || "Sheet1";
 
-      // Find or create the target sheet
-      if (args.sheetName) {
-        targetSheet = data.find(s => s.name === args.sheetName);
-        
-        // If sheet doesn't exist, create it
-        if (!targetSheet) {
-          targetSheet = {
-            name: args.sheetName,
-            freeze: "A1",
-            styles: [],
-            merges: [],
-            rows: { len: Math.max(100, args.numRows + 1) },
-            cols: { len: Math.max(26, args.headers.length) },
-            validations: [],
-            autofilter: {},
-          };
-          data.push(targetSheet);
-          isNewSheet = true;
-        }
-      } else {
-        // Use first sheet if no sheet name specified
-        if (data.length === 0) {
-          targetSheet = {
-            name: "Sheet1",
-            freeze: "A1",
-            styles: [],
-            merges: [],
-            rows: { len: Math.max(100, args.numRows + 1) },
-            cols: { len: Math.max(26, args.headers.length) },
-            validations: [],
-            autofilter: {},
-          };
-          data.push(targetSheet);
-          isNewSheet = true;
-        } else {
-          targetSheet = data[0];
-        }
-      }
+      // Use first sheet if no sheet name specified
+      let targetSheet = args.sheetName ? data.find((s) => s.name === args.sheetName) : data[0];
+      const isNewSheet = !targetSheet;
 
-      // Initialize rows if not present
-      if (!targetSheet.rows) {
-        targetSheet.rows = { len: Math.max(100, args.numRows + 1) };
+      // If sheet doesn't exist, create it
+      if (!targetSheet) {
+        targetSheet = createEmptySheet(targetSheetName);
+        ops.push({ type: "addSheet", sheet: targetSheetName });
       }
 
       // Find the next truly available row (skipping empty rows)
       const startRow = findNextAvailableRow(targetSheet, 0);
+      const sheet = targetSheet.name;
 
       // Create header row
-      if (!targetSheet.rows[startRow]) {
-        targetSheet.rows[startRow] = { cells: {} };
-      }
-      if (!targetSheet.rows[startRow].cells) {
-        targetSheet.rows[startRow].cells = {};
-      }
-
       args.headers.forEach((header, colIndex) => {
-        targetSheet.rows[startRow].cells[colIndex.toString()] = { text: header };
+        ops.push({ type: "setCell", sheet, row: startRow, col: colIndex, text: header });
       });
 
-      // Create data rows with sample data
+      // Create data rows with sample data based on header names
       for (let i = 1; i <= args.numRows; i++) {
-        const rowIndex = startRow + i;
-        if (!targetSheet.rows[rowIndex]) {
-          targetSheet.rows[rowIndex] = { cells: {} };
-        }
-        if (!targetSheet.rows[rowIndex].cells) {
-          targetSheet.rows[rowIndex].cells = {};
-        }
-        
-        // Fill cells with sample data based on header names
         args.headers.forEach((header, colIndex) => {
           const sampleValue = generateSampleData(header.toLowerCase(), i);
-          targetSheet.rows[rowIndex].cells[colIndex.toString()] = { text: sampleValue };
+          ops.push({ type: "setCell", sheet, row: startRow + i, col: colIndex, text: sampleValue });
         });
       }
 
-      // Update cols length if needed
-      if (!targetSheet.cols) {
-        targetSheet.cols = { len: Math.max(26, args.headers.length) };
-      } else {
-        targetSheet.cols.len = Math.max(targetSheet.cols.len || 26, args.headers.length);
-      }
-
-      // Update rows length if needed
-      targetSheet.rows.len = Math.max(targetSheet.rows.len || 100, startRow + args.numRows + 1);
-
-      const newData = JSON.stringify(data);
-      const now = Date.now();
-      await ctx.db.patch(args.spreadsheetId, {
-        data: newData,
-        updatedAt: now,
+      await commitSheetOps(ctx, spreadsheet, ops, {
+        authorId: args.ownerId,
+        source: "ai",
+        authorName: args.authorName,
+        messageId: args.messageId,
       });
 
       return {
@@ -1072,7 +975,11 @@ export const internalCalculateColumnStats = internalMutation({
   args: {
     spreadsheetId: v.id("spreadsheets"),
     ownerId: v.id("users"),
+    authorName: v.optional(v.string()),
+    messageId: v.optional(v.id("aiMessages")),
     columnName: v.string(),
+    // Only look for the column in this sheet
+    sheetName: v.optional(v.string()),
     operation: v.union(
       v.literal("sum"),
       v.literal("average"),
@@ -1096,12 +1003,12 @@ export const internalCalculateColumnStats = internalMutation({
       throw new Error("Spreadsheet not found");
     }
 
-    if (spreadsheet.ownerId !== args.ownerId) {
+    if (!(await canAccessSpreadsheet(ctx.db, spreadsheet, args.ownerId))) {
       throw new Error("Not authorized to edit this spreadsheet");
     }
 
     try {
-      const data = JSON.parse(spreadsheet.data || "[]");
+      const data = await loadWorkbook(ctx, spreadsheet);
       if (!Array.isArray(data) || data.length === 0) {
         throw new Error("Invalid spreadsheet data");
       }
@@ -1115,6 +1022,7 @@ export const internalCalculateColumnStats = internalMutation({
       
       for (const sheet of data) {
         if (!sheet.rows) continue;
+        if (args.sheetName && (sheet.name || "").toLowerCase() !== args.sheetName.toLowerCase()) continue;
         
         // Try to find the column in this sheet
         for (const rowKey in sheet.rows) {
@@ -1164,6 +1072,9 @@ export const internalCalculateColumnStats = internalMutation({
       
       console.log(`Found column "${foundColumnName}" (index ${columnIndex}) in sheet "${sheetName}" for search term "${args.columnName}"`);
 
+      // Evaluate formulas across the workbook so computed cells count as numbers
+      const computedSheet = evaluateWorkbook(data)[data.indexOf(targetSheet)];
+
       // Collect values from the column (skip header row)
       const values: number[] = [];
       for (const rowKey in targetSheet.rows) {
@@ -1174,9 +1085,11 @@ export const internalCalculateColumnStats = internalMutation({
         
         const row = targetSheet.rows[rowKey];
         if (row.cells && row.cells[columnIndex.toString()]) {
-          const cellText = row.cells[columnIndex.toString()].text;
-          if (cellText && cellText.trim() !== "") {
-            const num = parseFloat(cellText);
+          const cellValue = getComputedValue(computedSheet, rowNum, columnIndex);
+          if (typeof cellValue === "number") {
+            values.push(cellValue);
+          } else if (typeof cellValue === "string" && cellValue.trim() !== "") {
+            const num = parseFloat(cellValue);
             if (!isNaN(num)) {
               values.push(num);
             }
@@ -1217,24 +1130,28 @@ export const internalCalculateColumnStats = internalMutation({
       // Add the result to the spreadsheet (find next truly available row)
       const nextRow = findNextAvailableRow(targetSheet, headerRow + 1);
 
-      if (!targetSheet.rows[nextRow]) {
-        targetSheet.rows[nextRow] = { cells: {} };
-      }
-      if (!targetSheet.rows[nextRow].cells) {
-        targetSheet.rows[nextRow].cells = {};
-      }
-
-      // Add label in first column (use the actual column name found)
-      targetSheet.rows[nextRow].cells["0"] = { text: `${operation.toUpperCase()} of ${foundColumnName}:` };
-      // Add result in the column
-      targetSheet.rows[nextRow].cells[columnIndex.toString()] = { text: result.toString() };
-
-      const newData = JSON.stringify(data);
-      const now = Date.now();
-      await ctx.db.patch(args.spreadsheetId, {
-        data: newData,
-        updatedAt: now,
-      });
+      await commitSheetOps(
+        ctx,
+        spreadsheet,
+        [
+          // Add label in first column (use the actual column name found)
+          {
+            type: "setCell",
+            sheet: targetSheet.name,
+            row: nextRow,
+            col: 0,
+            text: `${operation.toUpperCase()} of ${foundColumnName}:`,
+          },
+          // Add result in the column
+          { type: "setCell", sheet: targetSheet.name, row: nextRow, col: columnIndex, text: result.toString() },
+        ],
+        {
+          authorId: args.ownerId,
+          source: "ai",
+          authorName: args.authorName,
+          messageId: args.messageId,
+        }
+      );
 
       return {
         success: true,
@@ -1252,15 +1169,24 @@ export const internalCalculateColumnStats = internalMutation({
 });
 
 /**
- * Create table from document with actual data
+ * Create table from document with actual data. Without a mode the sheet is
+ * created when missing; "new" requires that it does not exist yet, "existing"
+ * and "append" that it does. Appended rows go under the sheet's table without
+ * a header, matched to its header row by column name.
  */
 export const internalCreateTableFromDocument = internalMutation({
   args: {
     spreadsheetId: v.id("spreadsheets"),
     ownerId: v.id("users"),
+    authorName: v.optional(v.string()),
+    messageId: v.optional(v.id("aiMessages")),
     headers: v.array(v.string()),
     dataRows: v.array(v.array(v.string())),
     sheetName: v.string(),
+    columnTypes: v.optional(v.array(importColumnTypeValidator)),
+    mode: v.optional(importTargetValidator),
+    source: v.optional(v.union(v.literal("user"), v.literal("ai"))),
+    label: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
@@ -1272,98 +1198,120 @@ export const internalCreateTableFromDocument = internalMutation({
       const spreadsheet = await ctx.db.get(args.spreadsheetId);
       if (!spreadsheet) throw new Error("Spreadsheet not found");
 
-      const data = spreadsheet.data ? JSON.parse(spreadsheet.data) : [];
+      const data = await loadWorkbook(ctx, spreadsheet);
       
+      const ops: SheetOp[] = [];
+
       // Find or create the target sheet
       let targetSheet = data.find((s: any) => s.name === args.sheetName);
+      if (targetSheet && args.mode === "new") {
+        throw new Error(`Sheet "${args.sheetName}" already exists`);
+      }
+      if (!targetSheet && (args.mode === "existing" || args.mode === "append")) {
+        throw new Error(`Sheet "${args.sheetName}" not found`);
+      }
       
       if (!targetSheet) {
-        // Create new sheet with dynamic row length based on data
-        const requiredRows = Math.max(args.dataRows.length + 10, 100); // Add buffer of 10 rows
-        targetSheet = {
-          name: args.sheetName,
-          freeze: "A1",
-          styles: [],
-          merges: [],
-          rows: {
-            len: requiredRows,
-          },
-          cols: {
-            len: 26,
-          },
-          validations: [],
-          autofilter: {},
-        };
-        data.push(targetSheet);
-      }
-
-      if (!targetSheet.rows) {
-        targetSheet.rows = { len: 100 };
+        targetSheet = createEmptySheet(args.sheetName);
+        ops.push({ type: "addSheet", sheet: args.sheetName });
       }
 
       // Find next available row
       const startRow = findNextAvailableRow(targetSheet);
+      const appending = args.mode === "append";
+      const firstDataRow = appending ? startRow : startRow + 1;
+
+      // Sheet column for every table column. Appended columns follow the
+      // sheet's header row, and columns it lacks go after its last column
+      // with their header added to that row.
+      let columns = args.headers.map((_, colIndex) => colIndex);
+      let headerRow = startRow;
+      let newHeaders = args.headers.map((_, colIndex) => colIndex);
+      if (appending) {
+        headerRow = findFirstUsedRow(targetSheet);
+        const sheetHeaders: string[] = [];
+        for (let col = 0; col < Math.max(targetSheet.cols?.len || 26, args.headers.length); col++) {
+          sheetHeaders.push(getCellText(targetSheet, headerRow, col).trim().toLowerCase());
+        }
+        let nextColumn = sheetHeaders.reduce((last, header, col) => (header ? col + 1 : last), 0);
+        newHeaders = [];
+        columns = args.headers.map((header, colIndex) => {
+          const match = sheetHeaders.indexOf(header.trim().toLowerCase());
+          if (match !== -1 && header.trim()) return match;
+          newHeaders.push(colIndex);
+          return nextColumn++;
+        });
+      }
       
       // Ensure rows.len can accommodate all the data we're about to add
-      const totalRowsNeeded = startRow + args.dataRows.length + 10; // +1 for header, +10 buffer
-      if (targetSheet.rows.len < totalRowsNeeded) {
-        targetSheet.rows.len = totalRowsNeeded;
+      const totalRowsNeeded = firstDataRow + args.dataRows.length + 10; // +10 buffer
+      const sheetCapacity = Math.max(targetSheet.rows?.len || 100, totalRowsNeeded);
+      if (sheetCapacity > (targetSheet.rows?.len || 100)) {
+        ops.push({ type: "setSheetProps", sheet: args.sheetName, props: { rowCount: sheetCapacity } });
         console.log(`📊 Expanding sheet "${args.sheetName}" to ${totalRowsNeeded} rows to fit all data`);
       }
 
-      // Create header row
-      if (!targetSheet.rows[startRow]) {
-        targetSheet.rows[startRow] = { cells: {} };
-      }
-      if (!targetSheet.rows[startRow].cells) {
-        targetSheet.rows[startRow].cells = {};
-      }
-
       // Add headers
-      args.headers.forEach((header, colIndex) => {
-        targetSheet.rows[startRow].cells[colIndex.toString()] = { text: header };
+      newHeaders.forEach((colIndex) => {
+        ops.push({ type: "setCell", sheet: args.sheetName, row: headerRow, col: columns[colIndex], text: args.headers[colIndex] });
       });
 
       // Add data rows
       let rowsCreated = 0;
       args.dataRows.forEach((row, rowIndex) => {
-        const actualRowIndex = startRow + rowIndex + 1;
-        
-        if (!targetSheet.rows[actualRowIndex]) {
-          targetSheet.rows[actualRowIndex] = { cells: {} };
-        }
-        if (!targetSheet.rows[actualRowIndex].cells) {
-          targetSheet.rows[actualRowIndex].cells = {};
-        }
+        const actualRowIndex = firstDataRow + rowIndex;
 
         // Add each cell in the row
         row.forEach((cell, colIndex) => {
           if (colIndex < args.headers.length) {
-            targetSheet.rows[actualRowIndex].cells[colIndex.toString()] = { 
-              text: cell || "" 
-            };
+            const type = args.columnTypes?.[colIndex] ?? "text";
+            ops.push({
+              type: "setCell",
+              sheet: args.sheetName,
+              row: actualRowIndex,
+              col: columns[colIndex],
+              text: convertImportValue(cell || "", type),
+            });
           }
         });
 
         rowsCreated++;
       });
 
+      // Number and date columns get the matching cell format
+      if (rowsCreated > 0) {
+        args.columnTypes?.forEach((type, colIndex) => {
+          if (type === "text" || colIndex >= args.headers.length) return;
+          ops.push({
+            type: "applyStyle",
+            sheet: args.sheetName,
+            range: { sri: firstDataRow, sci: columns[colIndex], eri: firstDataRow + rowsCreated - 1, eci: columns[colIndex] },
+            style: { format: type },
+          });
+        });
+      }
+
       // Update spreadsheet
-      await ctx.db.patch(args.spreadsheetId, {
-        data: JSON.stringify(data),
-        updatedAt: Date.now(),
+      await commitSheetOps(ctx, spreadsheet, ops, {
+        authorId: args.ownerId,
+        source: args.source ?? "ai",
+        authorName: args.authorName,
+        label: args.label,
+        messageId: args.messageId,
       });
 
       console.log(`✅ Table created successfully:`);
       console.log(`   Sheet: "${args.sheetName}"`);
       console.log(`   Headers: ${args.headers.length} columns`);
       console.log(`   Data rows: ${rowsCreated}`);
-      console.log(`   Sheet capacity: ${targetSheet.rows.len} rows`);
+      console.log(`   Sheet capacity: ${sheetCapacity} rows`);
       console.log(`   Start row: ${startRow}`);
 
       return {
         success: true,
-        message: `Successfully created table from document in sheet "${args.sheetName}" with ${args.headers.length} columns and ${rowsCreated} data rows.`,
+        message: appending
+          ? `Successfully appended ${rowsCreated} rows from document to sheet "${args.sheetName}".`
+          : `Successfully created table from document in sheet "${args.sheetName}" with ${args.headers.length} columns and ${rowsCreated} data rows.`,
         rowsCreated,
       };
     } catch (error) {
@@ -0,0 +1,55 @@
+/// <reference types="vite/client" />
+import { convexTest, TestConvex } from "convex-test";
+import agentSchema from "../node_modules/@convex-dev/agent/dist/component/schema.js";
+import testData from "../test-data.csv?raw";
+import { Id } from "./_generated/dataModel";
+import { MutationCtx } from "./_generated/server";
+import schema from "./schema";
+import { csvRowsToSheet, parseCSV } from "./lib/sheetCodec";
+import { saveWorkbook } from "./lib/sheetStorage";
+
+/**
+ * Shared setup for the convex-test suites. Convex does not deploy files with
+ * two dots in their name, and the module glob leaves this one out too.
+ */
+
+export const modules = import.meta.glob(["./**/*.ts", "!./**/*.test.ts", "!./test.setup.ts"]);
+
+const agentModules = import.meta.glob("../node_modules/@convex-dev/agent/dist/component/**/*.js");
+
+// A test backend with the agent component, for code that keeps threads
+export function convexTestWithAgent() {
+  const t = convexTest(schema, modules);
+  t.registerComponent("agent", agentSchema, agentModules);
+  return t;
+}
+
+// A signed-in user; tests act as them through t.withIdentity({ subject: clerkId })
+export async function insertUser(ctx: MutationCtx, clerkId: string): Promise<Id<"users">> {
+  const now = Date.now();
+  return await ctx.db.insert("users", {
+    clerkId,
+    name: clerkId,
+    email: `${clerkId}@example.com`,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+// A user "user_test" owning a project with a spreadsheet whose Sheet1 holds test-data.csv
+export async function createFixture(t: TestConvex<typeof schema>) {
+  return await t.run(async (ctx) => {
+    const now = Date.now();
+    const userId = await insertUser(ctx, "user_test");
+    const projectId = await ctx.db.insert("projects", { name: "Test", ownerId: userId, createdAt: now, updatedAt: now });
+    const spreadsheetId = await ctx.db.insert("spreadsheets", {
+      projectId,
+      name: "Employees",
+      ownerId: userId,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await saveWorkbook(ctx, spreadsheetId, [csvRowsToSheet(parseCSV(testData), "Sheet1")]);
+    return { userId, projectId, spreadsheetId };
+  });
+}
@@ -1,217 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-/**
- * Fallback function to detect tables programmatically from text
- * Uses smart pattern matching for better accuracy with multi-word values
- * Handles multi-page tables by combining them into one
- */
-function detectTablesFromText(text: string): any[] {
-  const tables: any[] = [];
-  
-  console.log("🔍 Fallback parser starting...");
-  console.log("   Text length:", text.length);
-  
-  // Split text by page markers if they exist
-  const pages = text.split(/=== PAGE \d+ ===/);
-  console.log("   Pages found:", pages.length);
-  
-  // First pass: Find the header on the first page with data
-  let headers: string[] = [];
-  let headerFound = false;
-  let allDataLines: string[] = [];
-  
-  for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
-    const pageText = pages[pageIndex].trim();
-    if (!pageText) continue;
-    
-    const lines = pageText.split('\n').filter(line => line.trim().length > 0);
-    console.log(`   Page ${pageIndex + 1}: ${lines.length} lines`);
-    
-    if (lines.length === 0) continue;
-    
-    // Only look for header on first page with data
-    if (!headerFound) {
-      for (let i = 0; i < Math.min(5, lines.length); i++) {
-        const line = lines[i];
-        const words = line.split(/\s+/);
-        
-        const hasHeaderPattern = words.some(w => 
-          /^[A-Z]/.test(w) || 
-          w.includes('(') ||
-          /ID|Name|Date|Type|Status|Amount|Price|Location|Device|Feature|Duration|User/i.test(w)
-        );
-        
-        if (hasHeaderPattern && words.length >= 3 && words.length <= 20) {
-          // Split header by 2+ spaces
-          headers = line.split(/\s{2,}/).filter(h => h.trim());
-          
-          if (headers.length >= 2) {
-            headerFound = true;
-            console.log(`   ✓ Header found on page ${pageIndex + 1}, line ${i}: "${line}"`);
-            console.log(`   ✓ Headers: ${headers.length} columns - ${headers.join(", ")}`);
-            
-            // Add data lines from this page (after header)
-            allDataLines.push(...lines.slice(i + 1));
-            break;
-          }
-        }
-      }
-      
-      if (!headerFound) {
-        // No header found, try first line as header
-        const firstLine = lines[0];
-        headers = firstLine.split(/\s{2,}/).filter(h => h.trim());
-        if (headers.length >= 2) {
-          headerFound = true;
-          console.log(`   ✓ Using first line as header: ${headers.join(", ")}`);
-          allDataLines.push(...lines.slice(1));
-        }
-      }
-    } else {
-      // Header already found, just add all lines from this page as data
-      console.log(`   ➕ Adding ${lines.length} data lines from page ${pageIndex + 1}`);
-      allDataLines.push(...lines);
-    }
-  }
-  
-  if (!headerFound || headers.length < 2) {
-    console.log("   ✗ No valid header found");
-    return tables;
-  }
-  
-  console.log(`   📊 Total data lines collected: ${allDataLines.length}`);
-  console.log(`   🔄 Combining all pages into ONE continuous table`);
-  
-  const rows: string[][] = [headers];
-  
-  // Smart parsing: Use regex patterns to identify column values
-  for (const line of allDataLines) {
-    const trimmedLine = line.trim();
-    if (!trimmedLine) continue;
-    
-    // Strategy: Split by 2+ spaces first
-    let parts = trimmedLine.split(/\s{2,}/);
-    
-    // If we get exactly the right number of columns, use it
-    if (parts.length === headers.length) {
-      rows.push(parts.map(p => p.trim()));
-      continue;
-    }
-    
-    // If not, try smarter parsing based on patterns
-    const tokens = trimmedLine.split(/\s+/);
-    
-    if (tokens.length >= headers.length) {
-      const rowData: string[] = [];
-      let tokenIdx = 0;
-      
-      for (let colIdx = 0; colIdx < headers.length; colIdx++) {
-        if (tokenIdx >= tokens.length) {
-          rowData.push("");
-          continue;
-        }
-        
-        const header = headers[colIdx].toLowerCase();
-        
-        // Column-specific parsing rules
-        if (header.includes('id') || header.includes('user')) {
-          // Single token (e.g., U1234)
-          rowData.push(tokens[tokenIdx++]);
-        } else if (header.includes('date')) {
-          // Date format YYYY-MM-DD (single token)
-          rowData.push(tokens[tokenIdx++]);
-        } else if (header.includes('duration') || header.includes('mins')) {
-          // Number (possibly with decimal)
-          rowData.push(tokens[tokenIdx++]);
-        } else if (header.includes('device')) {
-          // Single word: Android, iOS, Web
-          rowData.push(tokens[tokenIdx++]);
-        } else if (header.includes('location')) {
-          // Country name (rest of tokens if last column, otherwise single)
-          if (colIdx === headers.length - 1) {
-            // Last column - take remaining tokens
-            rowData.push(tokens.slice(tokenIdx).join(' '));
-            tokenIdx = tokens.length;
-          } else {
-            rowData.push(tokens[tokenIdx++]);
-          }
-        } else if (header.includes('feature') || header.includes('used')) {
-          // Feature can be 1-2 words: "Reports", "API Access", "User Management"
-          let feature = tokens[tokenIdx++];
-          
-          // Check if next token is lowercase or part of known multi-word features
-          if (tokenIdx < tokens.length) {
-            const nextToken = tokens[tokenIdx];
-            // If next token starts with lowercase or is a known continuation word
-            if (/^[a-z]/.test(nextToken) || ['Access', 'Management'].includes(nextToken)) {
-              feature += ' ' + tokens[tokenIdx++];
-            }
-          }
-          
-          rowData.push(feature);
-        } else {
-          // Default: take next token
-          rowData.push(tokens[tokenIdx++]);
-        }
-      }
-      
-      // Ensure row has correct length
-      while (rowData.length < headers.length) {
-        rowData.push("");
-      }
-      
-      rows.push(rowData);
-    } else {
-      // Fallback: just split by spaces and group to match header count
-      const rowData: string[] = [];
-      const tokensPerCol = Math.floor(tokens.length / headers.length);
-      
-      for (let colIdx = 0; colIdx < headers.length; colIdx++) {
-        if (colIdx === headers.length - 1) {
-          // Last column gets remaining tokens
-          const remaining = tokens.slice(colIdx * tokensPerCol);
-          rowData.push(remaining.join(' '));
-        } else {
-          const start = colIdx * tokensPerCol;
-          const end = start + tokensPerCol;
-          rowData.push(tokens.slice(start, end).join(' '));
-        }
-      }
-      
-      rows.push(rowData);
-    }
-  }
-  
-  console.log(`   ✅ Parsed ${rows.length - 1} total data rows`);
-  
-  // Create single table with all data
-  if (rows.length >= 4) {
-    tables.push({
-      page: 1, // All pages combined into one table
-      rows: rows
-    });
-    
-    console.log(`✅ Fallback parser SUCCESS!`);
-    console.log(`   📊 SINGLE CONTINUOUS TABLE (all pages combined)`);
-    console.log(`   Table: ${headers.length} columns × ${rows.length - 1} rows`);
-    console.log(`   Headers: ${headers.join(" | ")}`);
-    console.log(`   Sample row 1: ${rows[1].join(" | ")}`);
-    if (rows.length > 2) {
-      console.log(`   Sample row 2: ${rows[2].join(" | ")}`);
-    }
-    if (rows.length > 3) {
-      console.log(`   Sample row 3: ${rows[3].join(" | ")}`);
-    }
-  } else {
-    console.log(`   ✗ Not enough rows (${rows.length - 1} data rows, need 3+)`);
-  }
-  
-  console.log(`🏁 Fallback parser complete. Found ${tables.length} table(s)`);
-  if (tables.length > 0) {
-    console.log(`   ℹ️  Note: Multi-page tables are combined into ONE table`);
-  }
-  return tables;
-}
+import { detectTablesFromText } from '../../../../convex/lib/documentTables';
 
 export async function POST(request: NextRequest) {
   console.log("\n" + "=".repeat(80));
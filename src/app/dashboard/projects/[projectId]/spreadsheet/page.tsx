@@ -1,7 +1,7 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef, use } from "react";
-import { useQuery, useMutation } from "convex/react";
+import { useState, useEffect, useCallback, useMemo, useRef, use } from "react";
+import { useQuery, useMutation, useConvex } from "convex/react";
 import { api } from "../../../../../../convex/_generated/api";
 import { Id } from "../../../../../../convex/_generated/dataModel";
 import { Button } from "@/components/ui/button";
@@ -10,6 +10,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import ChartJSFromRange from "@/components/ChartJSFromRange";
 import ResizableAISidebar from "@/components/ResizableAISidebar";
 import DashboardList from "@/components/DashboardList";
+import ReportList from "@/components/ReportList";
+import PresenceList, { PresenceSession } from "@/components/PresenceList";
+import RevisionHistoryPanel from "@/components/RevisionHistoryPanel";
 import {
   ArrowLeft,
   Save,
@@ -24,6 +27,10 @@ import {
   Bot,
   LayoutDashboard,
   BarChart3,
+  FileSpreadsheet,
+  FileArchive,
+  History,
+  CalendarClock,
 } from "lucide-react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { toast } from "sonner";
@@ -31,6 +38,17 @@ import SheetXSpreadsheetIframe, {
   SheetRef,
 } from "@/components/sheetjs-xspreadsheet";
 import { useUser } from "@clerk/nextjs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { decodeCSVBytes, findSheetIndex } from "../../../../../../convex/lib/sheetCodec";
 
 interface SpreadsheetPageProps {
   params: Promise<{
@@ -38,6 +56,9 @@ interface SpreadsheetPageProps {
   }>;
 }
 
+// How often an open editor refreshes its presence
+const PRESENCE_HEARTBEAT_MS = 10_000;
+
 const SpreadsheetPage = ({ params }: SpreadsheetPageProps) => {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -64,9 +85,15 @@ const SpreadsheetPage = ({ params }: SpreadsheetPageProps) => {
   const [activeSheetName, setActiveSheetName] = useState("Sheet1");
   const [selectedRange, setSelectedRange] = useState<string>("");
   const [isAISidebarOpen, setIsAISidebarOpen] = useState(false);
-  const [bottomPanelTab, setBottomPanelTab] = useState<"charts" | "dashboards">("charts");
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // A CSV whose file name matches an existing sheet, waiting for the user to
+  // choose between replacing that sheet and adding a new one
+  const [pendingCSVImport, setPendingCSVImport] = useState<{ csvData: string; sheetName: string } | null>(null);
+  const [bottomPanelTab, setBottomPanelTab] = useState<"charts" | "dashboards" | "reports">("charts");
 
   const spreadsheetEngineRef = useRef<SheetRef>(null);
+  // Identifies this editor tab in the presence list
+  const [sessionId] = useState(() => crypto.randomUUID());
 
   // Check authentication
   useEffect(() => {
@@ -79,10 +106,7 @@ const SpreadsheetPage = ({ params }: SpreadsheetPageProps) => {
   const updateSpreadsheetName = useMutation(
     api.spreadsheets.updateSpreadsheetName
   );
-  const exportCSV = useQuery(
-    api.spreadsheets.exportSpreadsheetAsCSV,
-    spreadsheetId ? { spreadsheetId } : "skip"
-  );
+  const convex = useConvex();
   const importCSV = useMutation(api.spreadsheets.importCSVToSpreadsheet);
 
   // Get existing spreadsheets for this project
@@ -105,6 +129,18 @@ const SpreadsheetPage = ({ params }: SpreadsheetPageProps) => {
     spreadsheetId ? { spreadsheetId } : "skip"
   );
 
+  // Presence of other editing sessions
+  const presence = useQuery(
+    api.presence.listPresence,
+    spreadsheetId ? { spreadsheetId } : "skip"
+  );
+  const updatePresence = useMutation(api.presence.updatePresence);
+  const leaveSpreadsheet = useMutation(api.presence.leaveSpreadsheet);
+  const remoteSelections = useMemo(
+    () => (presence || []).filter((session: PresenceSession) => session.sessionId !== sessionId),
+    [presence, sessionId]
+  );
+
   // Create or load spreadsheet
   useEffect(() => {
     const initializeSpreadsheet = async () => {
@@ -154,6 +190,35 @@ const SpreadsheetPage = ({ params }: SpreadsheetPageProps) => {
     initializeSpreadsheet();
   }, [projectSpreadsheets, projectId, createSpreadsheet, spreadsheetName, spreadsheetIdFromQuery]);
 
+  // Heartbeat with the current selection so other sessions can draw our cursor
+  useEffect(() => {
+    if (!spreadsheetId) return;
+    const sendHeartbeat = () => {
+      updatePresence({
+        spreadsheetId,
+        sessionId,
+        sheetName: activeSheetName,
+        selection: selectedRange || undefined,
+      }).catch((error) => {
+        console.warn("Failed to update presence:", error);
+      });
+    };
+    // Debounce so dragging a selection does not send a mutation per cell
+    const timeoutId = setTimeout(sendHeartbeat, 200);
+    const intervalId = setInterval(sendHeartbeat, PRESENCE_HEARTBEAT_MS);
+    return () => {
+      clearTimeout(timeoutId);
+      clearInterval(intervalId);
+    };
+  }, [spreadsheetId, sessionId, activeSheetName, selectedRange, updatePresence]);
+
+  useEffect(() => {
+    if (!spreadsheetId) return;
+    return () => {
+      leaveSpreadsheet({ sessionId }).catch(() => {});
+    };
+  }, [spreadsheetId, sessionId, leaveSpreadsheet]);
+
   const handleNameSave = async () => {
     if (spreadsheetId && spreadsheetName.trim()) {
       try {
@@ -173,9 +238,10 @@ const SpreadsheetPage = ({ params }: SpreadsheetPageProps) => {
   };
 
   // Handlers for data changes
-  const handleDataChange = useCallback((data: any[]) => {
+  const handleDataChange = useCallback((data: any[], isSave?: boolean) => {
     setSheetDataCache(data);
-    setHasChanges(true);
+    // Edits are synced automatically; isSave is set once they reach the server
+    setHasChanges(!isSave);
   }, []);
 
   const handleActiveSheetChange = useCallback((sheetName: string, sheetIndex: number) => {
@@ -199,57 +265,129 @@ const SpreadsheetPage = ({ params }: SpreadsheetPageProps) => {
         setHasChanges(false);
         setRefreshTrigger((prev) => prev + 1);
       } catch (error) {
-        toast.error("Failed to save changes");
+        toast.error(`Failed to save changes: ${error instanceof Error ? error.message : String(error)}`);
         console.error("Save error:", error);
       }
     }
   }, []);
 
-  const handleExportCSV = useCallback(() => {
-    if (!exportCSV || !spreadsheetName) return;
+  const handleConflict = useCallback((conflicts: string[]) => {
+    console.warn("Unsaved edits replaced by newer changes:", conflicts);
+    toast.warning(`Some unsaved edits were replaced by newer changes: ${conflicts.join("; ")}`);
+  }, []);
+
+  const handleExportCSV = useCallback(async () => {
+    if (!spreadsheetId || !spreadsheetName) return;
 
     try {
-      const blob = new Blob([exportCSV], { type: "text/csv;charset=utf-8;" });
+      const csv = await convex.query(api.spreadsheets.exportSpreadsheetAsCSV, {
+        spreadsheetId,
+        sheetName: activeSheetName,
+      });
+      // BOM so Excel opens the file as UTF-8
+      const blob = new Blob(["\uFEFF" + csv], { type: "text/csv;charset=utf-8;" });
       const link = document.createElement("a");
       const url = URL.createObjectURL(blob);
       link.setAttribute("href", url);
-      link.setAttribute("download", `${spreadsheetName}.csv`);
+      link.setAttribute("download", `${spreadsheetName} - ${activeSheetName}.csv`);
       link.style.visibility = "hidden";
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+      URL.revokeObjectURL(url);
       toast.success("Spreadsheet exported successfully!");
     } catch (error) {
       console.error("Error exporting CSV:", error);
-      toast.error("Failed to export spreadsheet");
+      toast.error(`Failed to export spreadsheet: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [convex, spreadsheetId, spreadsheetName, activeSheetName]);
+
+  const handleExportCSVZip = useCallback(async () => {
+    if (!spreadsheetId) return;
+
+    try {
+      const zip = await convex.query(api.spreadsheets.exportSpreadsheetAsCSVZip, { spreadsheetId });
+      const blob = new Blob([zip], { type: "application/zip" });
+      const link = document.createElement("a");
+      const url = URL.createObjectURL(blob);
+      link.setAttribute("href", url);
+      link.setAttribute("download", `${spreadsheetName}.zip`);
+      link.style.visibility = "hidden";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      toast.success("All sheets exported successfully!");
+    } catch (error) {
+      console.error("Error exporting CSV zip:", error);
+      toast.error("Failed to export sheets");
+    }
+  }, [convex, spreadsheetId, spreadsheetName]);
+
+  const handleExportXLSX = useCallback(() => {
+    if (!spreadsheetEngineRef.current) return;
+
+    try {
+      spreadsheetEngineRef.current.exportToExcel(spreadsheetName);
+      toast.success("Workbook exported successfully!");
+    } catch (error) {
+      console.error("Error exporting XLSX:", error);
+      toast.error("Failed to export workbook");
     }
-  }, [exportCSV, spreadsheetName]);
+  }, [spreadsheetName]);
+
+  // Without `replace` the server adds the CSV as a new, uniquely named sheet
+  const runCSVImport = useCallback(
+    async (csvData: string, sheetName: string, replace: boolean) => {
+      if (!spreadsheetId) return;
+      try {
+        await importCSV({ spreadsheetId, csvData, sheetName, replace });
+        toast.success(replace ? `Replaced sheet "${sheetName}"` : "CSV imported successfully!");
+        setRefreshTrigger((prev) => prev + 1);
+      } catch (error) {
+        console.error("Error importing CSV:", error);
+        toast.error("Failed to import CSV file");
+      }
+    },
+    [importCSV, spreadsheetId]
+  );
 
   const handleImportCSV = useCallback(
     async (event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
       if (!file || !spreadsheetId) return;
 
+      // Excel workbooks are converted client-side and added as new sheets
+      if (/\.(xlsx|xls)$/i.test(file.name)) {
+        try {
+          await spreadsheetEngineRef.current?.importFromExcel(file);
+          toast.success("Workbook imported! Save to keep the new sheets.");
+        } catch (error) {
+          console.error("Error importing workbook:", error);
+          toast.error("Failed to import Excel file");
+        }
+        event.target.value = "";
+        return;
+      }
+
       if (!file.name.toLowerCase().endsWith(".csv")) {
-        toast.error("Please select a CSV file");
+        toast.error("Please select a CSV or Excel file");
         return;
       }
 
-      try {
-        const text = await file.text();
-        await importCSV({
-          spreadsheetId,
-          csvData: text,
-        });
-        toast.success("CSV imported successfully!");
-        setRefreshTrigger((prev) => prev + 1);
-        event.target.value = "";
-      } catch (error) {
-        console.error("Error importing CSV:", error);
-        toast.error("Failed to import CSV file");
+      // Decode with BOM / encoding detection; the delimiter is detected server-side
+      const csvData = decodeCSVBytes(await file.arrayBuffer());
+      const sheetName = file.name.replace(/\.csv$/i, "");
+      event.target.value = "";
+
+      const sheets = sheetDataCache || spreadsheetEngineRef.current?.getData() || [];
+      if (findSheetIndex(sheets, sheetName) !== -1) {
+        setPendingCSVImport({ csvData, sheetName });
+        return;
       }
+      await runCSVImport(csvData, sheetName, false);
     },
-    [importCSV, spreadsheetId]
+    [runCSVImport, sheetDataCache, spreadsheetId]
   );
 
   const handleDeleteChart = useCallback(async (chartId: Id<"charts">) => {
@@ -303,6 +441,12 @@ const SpreadsheetPage = ({ params }: SpreadsheetPageProps) => {
         onToggle={() => setIsAISidebarOpen(!isAISidebarOpen)}
       />
 
+      <RevisionHistoryPanel
+        spreadsheetId={spreadsheetId}
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+      />
+
       {/* Header */}
       <div className="border-b bg-white flex-shrink-0 w-full min-w-0">
         <div className="px-3 py-2 w-full min-w-0">
@@ -344,6 +488,13 @@ const SpreadsheetPage = ({ params }: SpreadsheetPageProps) => {
               </div>
             </div>
 
+            {presence && (
+              <PresenceList
+                sessions={presence}
+                currentSessionId={sessionId}
+              />
+            )}
+
             {/* Toolbar */}
             <div className="flex items-center gap-0.5 flex-shrink-0">
               <Button variant="outline" size="sm" className="h-7 w-7 p-0">
@@ -367,18 +518,37 @@ const SpreadsheetPage = ({ params }: SpreadsheetPageProps) => {
                 size="sm"
                 className="h-7 w-7 p-0"
                 onClick={handleExportCSV}
-                disabled={!exportCSV}
-                title="Export CSV"
+                disabled={!spreadsheetId}
+                title="Export current sheet as CSV"
               >
                 <Download className="w-3 h-3" />
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={handleExportXLSX}
+                title="Export Excel (.xlsx)"
+              >
+                <FileSpreadsheet className="w-3 h-3" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={handleExportCSVZip}
+                disabled={!spreadsheetId}
+                title="Export all sheets as CSV (.zip)"
+              >
+                <FileArchive className="w-3 h-3" />
+              </Button>
               <div className="relative">
                 <input
                   type="file"
-                  accept=".csv"
+                  accept=".csv,.xlsx,.xls"
                   onChange={handleImportCSV}
                   className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                  title="Import CSV"
+                  title="Import CSV or Excel"
                 />
                 <Button variant="outline" size="sm" className="h-7 w-7 p-0">
                   <Upload className="w-3 h-3" />
@@ -394,6 +564,15 @@ const SpreadsheetPage = ({ params }: SpreadsheetPageProps) => {
                 <Save className="w-3 h-3 mr-0.5" />
                 <span className="hidden lg:inline">Save</span>
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => setIsHistoryOpen(true)}
+                title="Version history"
+              >
+                <History className="w-3 h-3" />
+              </Button>
               <div className="h-7 w-px bg-border mx-0.5" />
               <Button
                 variant="outline"
@@ -478,6 +657,8 @@ const SpreadsheetPage = ({ params }: SpreadsheetPageProps) => {
           refreshTrigger={refreshTrigger}
           onSelectionChange={handleSelectionChange}
           onActiveSheetChange={handleActiveSheetChange}
+          onConflict={handleConflict}
+          remoteSelections={remoteSelections}
         />
       </div>
 
@@ -504,6 +685,15 @@ const SpreadsheetPage = ({ params }: SpreadsheetPageProps) => {
               <LayoutDashboard className="w-3 h-3 mr-1" />
               Dashboards
             </Button>
+            <Button
+              variant={bottomPanelTab === "reports" ? "default" : "ghost"}
+              size="sm"
+              className="h-8 px-3 text-xs"
+              onClick={() => setBottomPanelTab("reports")}
+            >
+              <CalendarClock className="w-3 h-3 mr-1" />
+              Reports
+            </Button>
           </div>
 
           {/* Charts Tab Content */}
@@ -533,6 +723,10 @@ const SpreadsheetPage = ({ params }: SpreadsheetPageProps) => {
                     title={c.title}
                     showSheetName={true}
                     sheetName={c.sheetName || "Sheet1"}
+                    labelColumn={c.options?.labelColumn}
+                    series={c.options?.series}
+                    xAxisLabel={c.options?.xAxisLabel}
+                    yAxisLabel={c.options?.yAxisLabel}
                   />
                 </div>
               ))}
@@ -546,8 +740,46 @@ const SpreadsheetPage = ({ params }: SpreadsheetPageProps) => {
           {bottomPanelTab === "dashboards" && spreadsheetId && (
             <DashboardList spreadsheetId={spreadsheetId} />
           )}
+
+          {/* Reports Tab Content */}
+          {bottomPanelTab === "reports" && spreadsheetId && (
+            <ReportList
+              spreadsheetId={spreadsheetId}
+              sheetData={
+                sheetDataCache ||
+                spreadsheetEngineRef.current?.getData() ||
+                (spreadsheetDoc?.data ? JSON.parse(spreadsheetDoc.data) : [])
+              }
+            />
+          )}
         </div>
       </div>
+
+      <AlertDialog open={!!pendingCSVImport} onOpenChange={(open) => !open && setPendingCSVImport(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace sheet &quot;{pendingCSVImport?.sheetName}&quot;?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A sheet with this name already exists. Replacing it overwrites its contents with the CSV; you
+              can also add the CSV as a new sheet instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingCSVImport && runCSVImport(pendingCSVImport.csvData, pendingCSVImport.sheetName, false)}
+            >
+              Add as new sheet
+            </AlertDialogAction>
+            <AlertDialogAction
+              onClick={() => pendingCSVImport && runCSVImport(pendingCSVImport.csvData, pendingCSVImport.sheetName, true)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Replace
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -24,17 +24,24 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Plus, FileSpreadsheet, Calendar, User } from "lucide-react";
+import { Plus, FileSpreadsheet, Calendar, User, Users } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
+import { ProjectMembersDialog } from "@/components/ProjectMembersDialog";
 
 const ProjectsPage = () => {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [projectName, setProjectName] = useState("");
   const [projectDescription, setProjectDescription] = useState("");
+  const [sharingProject, setSharingProject] = useState<{
+    _id: Id<"projects">;
+    name: string;
+    isOwner: boolean;
+  } | null>(null);
   const router = useRouter();
 
   const projects = useQuery(api.projects.getUserProjects);
+  const sharedProjects = useQuery(api.projects.getSharedProjects);
   const createProject = useMutation(api.projects.createProject);
 
   const handleCreateProject = async () => {
@@ -66,7 +73,7 @@ const ProjectsPage = () => {
     router.push(`/dashboard/projects/${projectId}/spreadsheet`);
   };
 
-  if (projects === undefined) {
+  if (projects === undefined || sharedProjects === undefined) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="text-muted-foreground">Loading projects...</div>
@@ -132,7 +139,7 @@ const ProjectsPage = () => {
         </Dialog>
       </div>
 
-      {projects.length === 0 ? (
+      {projects.length === 0 && sharedProjects.length === 0 ? (
         <div className="text-center py-12">
           <FileSpreadsheet className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
           <h3 className="text-lg font-semibold mb-2">No projects yet</h3>
@@ -171,12 +178,85 @@ const ProjectsPage = () => {
                     <User className="w-4 h-4" />
                     Owner
                   </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setSharingProject({ _id: project._id, name: project.name, isOwner: true });
+                    }}
+                  >
+                    <Users className="w-4 h-4 mr-1" />
+                    Share
+                  </Button>
                 </div>
               </CardContent>
             </Card>
           ))}
         </div>
       )}
+
+      {sharedProjects.length > 0 && (
+        <>
+          <h2 className="text-xl font-semibold mt-10 mb-4">Shared with you</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {sharedProjects.map((project: any) => (
+              <Card
+                key={project._id}
+                className="cursor-pointer hover:shadow-lg transition-shadow"
+                onClick={() => handleProjectClick(project._id)}
+              >
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileSpreadsheet className="w-5 h-5" />
+                    {project.name}
+                  </CardTitle>
+                  {project.description && (
+                    <CardDescription>{project.description}</CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                    <div className="flex items-center gap-1">
+                      <Calendar className="w-4 h-4" />
+                      {new Date(project.createdAt).toLocaleDateString()}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <User className="w-4 h-4" />
+                      {project.ownerName}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="ml-auto"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setSharingProject({ _id: project._id, name: project.name, isOwner: false });
+                      }}
+                    >
+                      <Users className="w-4 h-4 mr-1" />
+                      Members
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+
+      {sharingProject && (
+        <ProjectMembersDialog
+          projectId={sharingProject._id}
+          projectName={sharingProject.name}
+          isOwner={sharingProject.isOwner}
+          open={true}
+          onOpenChange={(open) => {
+            if (!open) setSharingProject(null);
+          }}
+        />
+      )}
     </div>
   );
 };
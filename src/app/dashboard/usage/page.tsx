@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../../../convex/_generated/api";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface BreakdownRow {
+  key: string;
+  label: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+interface QuotaStatus {
+  spentUsd: number;
+  limitUsd?: number;
+}
+
+interface UsageSummary {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  averageLatencyMs: number;
+  byAgent: BreakdownRow[];
+  byProvider: BreakdownRow[];
+  bySpreadsheet: BreakdownRow[];
+  daily: QuotaStatus;
+  monthly: QuotaStatus;
+}
+
+const formatCost = (costUsd: number) => `$${costUsd.toFixed(costUsd < 1 ? 4 : 2)}`;
+
+function QuotaCard({ title, quota }: { title: string; quota: QuotaStatus }) {
+  const percent = quota.limitUsd ? Math.min((quota.spentUsd / quota.limitUsd) * 100, 100) : 0;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-2xl">{formatCost(quota.spentUsd)}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {quota.limitUsd !== undefined ? (
+          <>
+            <Progress value={percent} />
+            <p className="text-xs text-muted-foreground">
+              of {formatCost(quota.limitUsd)} budget ({percent.toFixed(0)}%)
+            </p>
+          </>
+        ) : (
+          <p className="text-xs text-muted-foreground">No budget limit</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function BreakdownTable({ title, rows }: { title: string; rows: BreakdownRow[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No AI usage in this period</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Messages</TableHead>
+                <TableHead className="text-right">Tokens</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium">{row.label}</TableCell>
+                  <TableCell className="text-right">{row.calls}</TableCell>
+                  <TableCell className="text-right">
+                    {(row.inputTokens + row.outputTokens).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCost(row.costUsd)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const UsagePage = () => {
+  const [days, setDays] = useState("30");
+  const usage: UsageSummary | undefined = useQuery(api.aiUsage.getUsageSummary, { days: Number(days) });
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">AI Usage</h1>
+          <p className="text-muted-foreground">
+            Tokens and estimated cost of your AI assistant messages
+          </p>
+        </div>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">Last 7 days</SelectItem>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {usage === undefined ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-muted-foreground">Loading usage...</div>
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Estimated cost</CardDescription>
+                <CardTitle className="text-2xl">{formatCost(usage.costUsd)}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-xs text-muted-foreground">{usage.calls} messages</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Tokens</CardDescription>
+                <CardTitle className="text-2xl">
+                  {(usage.inputTokens + usage.outputTokens).toLocaleString()}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-xs text-muted-foreground">
+                  {usage.inputTokens.toLocaleString()} input / {usage.outputTokens.toLocaleString()} output
+                </p>
+              </CardContent>
+            </Card>
+            <QuotaCard title="Spent today" quota={usage.daily} />
+            <QuotaCard title="Spent this month" quota={usage.monthly} />
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            Average response time: {(usage.averageLatencyMs / 1000).toFixed(1)}s
+          </p>
+
+          <div className="grid gap-4 lg:grid-cols-3">
+            <BreakdownTable title="By agent" rows={usage.byAgent} />
+            <BreakdownTable title="By provider" rows={usage.byProvider} />
+            <BreakdownTable title="By spreadsheet" rows={usage.bySpreadsheet} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UsagePage;
@@ -1,24 +1,44 @@
 "use client";
 
 import React, { useState } from "react";
-import { useQuery, useMutation } from "convex/react";
+import { useQuery, useMutation, useAction } from "convex/react";
 import { api } from "../../convex/_generated/api";
-import { Id } from "../../convex/_generated/dataModel";
+import { Doc, Id } from "../../convex/_generated/dataModel";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Plus,
   Edit,
   Trash2,
   Bot,
   Settings,
+  KeyRound,
 } from "lucide-react";
 import { toast } from "sonner";
 
+type AgentProvider = Doc<"aiAgents">["provider"];
+
+const EMPTY_FORM = {
+  name: "",
+  description: "",
+  provider: "openai" as AgentProvider,
+  modelName: "",
+  baseUrl: "",
+  systemPrompt: "",
+};
+
+interface ProviderKey {
+  _id: Id<"aiProviderKeys">;
+  provider: Doc<"aiProviderKeys">["provider"];
+  projectName?: string;
+  keyHint: string;
+}
+
 interface AIAgentManagerProps {
   spreadsheetId: Id<"spreadsheets">;
 }
@@ -27,13 +47,7 @@ export default function AIAgentManager({ spreadsheetId }: AIAgentManagerProps) {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingAgent, setEditingAgent] = useState<Id<"aiAgents"> | null>(null);
-  const [formData, setFormData] = useState({
-    name: "",
-    description: "",
-    provider: "openai" as "openai" | "anthropic" | "google" | "mistral",
-    modelName: "",
-    systemPrompt: "",
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
 
   // Convex queries and mutations
   const agents = useQuery(api.aiAgents.getAgents, {});
@@ -41,22 +55,34 @@ export default function AIAgentManager({ spreadsheetId }: AIAgentManagerProps) {
   const createAgent = useMutation(api.aiAgents.createAgent);
   const updateAgent = useMutation(api.aiAgents.updateAgent);
   const deleteAgent = useMutation(api.aiAgents.deleteAgent);
+  const models: Doc<"aiModels">[] | undefined = useQuery(api.aiModels.listModels, {});
+  const ensureModelRegistry = useMutation(api.aiModels.ensureModelRegistry);
+  const providerKeys: ProviderKey[] | undefined = useQuery(api.aiKeys.listProviderKeys, {});
+  const setProviderKey = useAction(api.aiKeys.setProviderKey);
+  const deleteProviderKey = useMutation(api.aiKeys.deleteProviderKey);
+
+  const [keyForm, setKeyForm] = useState({
+    provider: "openai" as ProviderKey["provider"],
+    apiKey: "",
+    projectOnly: false,
+  });
+  const [isSavingKey, setIsSavingKey] = useState(false);
+
+  // Only self-hosted endpoints have a base URL
+  const getAgentConfig = () => ({
+    ...formData,
+    baseUrl: formData.provider === "openai_compatible" ? formData.baseUrl : undefined,
+  });
 
   const handleCreateAgent = async () => {
     try {
-      await createAgent(formData);
+      await createAgent(getAgentConfig());
       setIsCreateDialogOpen(false);
-      setFormData({
-        name: "",
-        description: "",
-        provider: "openai",
-        modelName: "",
-        systemPrompt: "",
-      });
+      setFormData(EMPTY_FORM);
       toast.success("AI agent created successfully");
     } catch (error) {
       console.error("Error creating agent:", error);
-      toast.error("Failed to create AI agent");
+      toast.error(`Failed to create AI agent: ${error instanceof Error ? error.message : String(error)}`);
     }
   };
 
@@ -66,21 +92,15 @@ export default function AIAgentManager({ spreadsheetId }: AIAgentManagerProps) {
     try {
       await updateAgent({
         agentId: editingAgent,
-        ...formData,
+        ...getAgentConfig(),
       });
       setIsEditDialogOpen(false);
       setEditingAgent(null);
-      setFormData({
-        name: "",
-        description: "",
-        provider: "openai",
-        modelName: "",
-        systemPrompt: "",
-      });
+      setFormData(EMPTY_FORM);
       toast.success("AI agent updated successfully");
     } catch (error) {
       console.error("Error updating agent:", error);
-      toast.error("Failed to update AI agent");
+      toast.error(`Failed to update AI agent: ${error instanceof Error ? error.message : String(error)}`);
     }
   };
 
@@ -94,6 +114,36 @@ export default function AIAgentManager({ spreadsheetId }: AIAgentManagerProps) {
     }
   };
 
+  const handleSaveKey = async () => {
+    if (!keyForm.apiKey.trim()) return;
+
+    setIsSavingKey(true);
+    try {
+      await setProviderKey({
+        provider: keyForm.provider,
+        apiKey: keyForm.apiKey,
+        spreadsheetId: keyForm.projectOnly ? spreadsheetId : undefined,
+      });
+      setKeyForm({ ...keyForm, apiKey: "" });
+      toast.success("API key saved");
+    } catch (error) {
+      console.error("Error saving API key:", error);
+      toast.error(`Failed to save API key: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsSavingKey(false);
+    }
+  };
+
+  const handleDeleteKey = async (keyId: Id<"aiProviderKeys">) => {
+    try {
+      await deleteProviderKey({ keyId });
+      toast.success("API key removed");
+    } catch (error) {
+      console.error("Error deleting API key:", error);
+      toast.error("Failed to remove API key");
+    }
+  };
+
   const handleEditAgent = (agent: any) => {
     setEditingAgent(agent._id);
     setFormData({
@@ -101,6 +151,7 @@ export default function AIAgentManager({ spreadsheetId }: AIAgentManagerProps) {
       description: agent.description || "",
       provider: agent.provider,
       modelName: agent.modelName,
+      baseUrl: agent.baseUrl || "",
       systemPrompt: agent.systemPrompt,
     });
     setIsEditDialogOpen(true);
@@ -113,6 +164,13 @@ export default function AIAgentManager({ spreadsheetId }: AIAgentManagerProps) {
     }
   }, [agents, getDefaultAgents]);
 
+  // Seed the model registry on first use
+  React.useEffect(() => {
+    if (models && models.length === 0) {
+      ensureModelRegistry().catch(console.error);
+    }
+  }, [models, ensureModelRegistry]);
+
   const getProviderColor = (provider: string) => {
     switch (provider) {
       case "openai":
@@ -123,24 +181,27 @@ export default function AIAgentManager({ spreadsheetId }: AIAgentManagerProps) {
         return "bg-red-100 text-red-800";
       case "mistral":
         return "bg-purple-100 text-purple-800";
+      case "openai_compatible":
+        return "bg-amber-100 text-amber-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
   };
 
-  const getModelSuggestions = (provider: string) => {
-    switch (provider) {
-      case "openai":
-        return ["gpt-4o", "gpt-4o-mini", "gpt-3.5-turbo"];
-      case "anthropic":
-        return ["claude-3-5-sonnet-20241022", "claude-3-haiku-20240307", "claude-3-opus-20240229"];
-      case "google":
-        return ["gemini-1.5-pro", "gemini-1.5-flash", "gemini-pro"];
-      case "mistral":
-        return ["mistral-large-latest", "mistral-medium-latest", "mistral-small-latest"];
-      default:
-        return [];
-    }
+  const getModelOptions = (provider: string) =>
+    (models ?? []).filter((model) => model.provider === provider);
+
+  const selectedModel = models?.find(
+    (model) => model.provider === formData.provider && model.modelName === formData.modelName
+  );
+
+  const describeModel = (model: Doc<"aiModels">) => {
+    const capabilities = [
+      model.supportsTools && "tools",
+      model.supportsVision && "vision",
+      model.supportsJsonMode && "JSON",
+    ].filter(Boolean);
+    return `${Math.round(model.contextWindow / 1000)}k context · $${model.inputCostPerMillion}/$${model.outputCostPerMillion} per 1M tokens · ${capabilities.join(", ")}`;
   };
 
   return (
@@ -192,27 +253,52 @@ export default function AIAgentManager({ spreadsheetId }: AIAgentManagerProps) {
                     <SelectItem value="anthropic">Anthropic</SelectItem>
                     <SelectItem value="google">Google</SelectItem>
                     <SelectItem value="mistral">Mistral</SelectItem>
+                    <SelectItem value="openai_compatible">OpenAI-compatible (self-hosted)</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
-              <div>
-                <label className="text-sm font-medium">Model Name</label>
-                <Select
-                  value={formData.modelName}
-                  onValueChange={(value) => setFormData({ ...formData, modelName: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select model" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {getModelSuggestions(formData.provider).map((model) => (
-                      <SelectItem key={model} value={model}>
-                        {model}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+              {formData.provider === "openai_compatible" ? (
+                <>
+                  <div>
+                    <label className="text-sm font-medium">Base URL</label>
+                    <Input
+                      value={formData.baseUrl}
+                      onChange={(e) => setFormData({ ...formData, baseUrl: e.target.value })}
+                      placeholder="e.g., http://localhost:11434/v1"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium">Model Name</label>
+                    <Input
+                      value={formData.modelName}
+                      onChange={(e) => setFormData({ ...formData, modelName: e.target.value })}
+                      placeholder="e.g., llama3.1"
+                    />
+                  </div>
+                </>
+              ) : (
+                <div>
+                  <label className="text-sm font-medium">Model Name</label>
+                  <Select
+                    value={formData.modelName}
+                    onValueChange={(value) => setFormData({ ...formData, modelName: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getModelOptions(formData.provider).map((model) => (
+                        <SelectItem key={model._id} value={model.modelName}>
+                          {model.displayName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedModel && (
+                    <p className="text-xs text-gray-500 mt-1">{describeModel(selectedModel)}</p>
+                  )}
+                </div>
+              )}
               <div>
                 <label className="text-sm font-medium">System Prompt</label>
                 <Textarea
@@ -233,6 +319,67 @@ export default function AIAgentManager({ spreadsheetId }: AIAgentManagerProps) {
         </Dialog>
       </div>
 
+      <div className="border rounded-lg p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <KeyRound className="w-4 h-4" />
+          <h4 className="font-medium">Provider API Keys</h4>
+        </div>
+        <p className="text-xs text-gray-500">
+          Keys are stored encrypted and used by your agents instead of the shared deployment keys.
+        </p>
+        {providerKeys && providerKeys.length > 0 && (
+          <div className="space-y-1">
+            {providerKeys.map((key) => (
+              <div key={key._id} className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Badge className={getProviderColor(key.provider)}>{key.provider}</Badge>
+                  <span className="font-mono text-xs">••••{key.keyHint}</span>
+                  <span className="text-xs text-gray-500">
+                    {key.projectName ? `Project: ${key.projectName}` : "All projects"}
+                  </span>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleDeleteKey(key._id)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <Select
+            value={keyForm.provider}
+            onValueChange={(value) => setKeyForm({ ...keyForm, provider: value as any })}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="openai">OpenAI</SelectItem>
+              <SelectItem value="anthropic">Anthropic</SelectItem>
+              <SelectItem value="google">Google</SelectItem>
+              <SelectItem value="mistral">Mistral</SelectItem>
+              <SelectItem value="openai_compatible">OpenAI-compatible (self-hosted)</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="password"
+            value={keyForm.apiKey}
+            onChange={(e) => setKeyForm({ ...keyForm, apiKey: e.target.value })}
+            placeholder="Paste API key"
+          />
+          <Button size="sm" onClick={handleSaveKey} disabled={isSavingKey || !keyForm.apiKey.trim()}>
+            Save
+          </Button>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          <Checkbox
+            checked={keyForm.projectOnly}
+            onCheckedChange={(checked) => setKeyForm({ ...keyForm, projectOnly: checked === true })}
+          />
+          Only use this key in this spreadsheet&apos;s project
+        </label>
+      </div>
+
       <div className="grid gap-4">
         {agents?.map((agent) => (
           <div key={agent._id} className="border rounded-lg p-4 space-y-3">
@@ -253,6 +400,9 @@ export default function AIAgentManager({ spreadsheetId }: AIAgentManagerProps) {
                   <p className="text-sm text-gray-600">{agent.description}</p>
                 )}
                 <p className="text-xs text-gray-500">Model: {agent.modelName}</p>
+                {agent.baseUrl && (
+                  <p className="text-xs text-gray-500">Endpoint: {agent.baseUrl}</p>
+                )}
               </div>
               <div className="flex gap-1">
                 <Button
@@ -315,27 +465,52 @@ export default function AIAgentManager({ spreadsheetId }: AIAgentManagerProps) {
                   <SelectItem value="anthropic">Anthropic</SelectItem>
                   <SelectItem value="google">Google</SelectItem>
                   <SelectItem value="mistral">Mistral</SelectItem>
+                  <SelectItem value="openai_compatible">OpenAI-compatible (self-hosted)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
-            <div>
-              <label className="text-sm font-medium">Model Name</label>
-              <Select
-                value={formData.modelName}
-                onValueChange={(value) => setFormData({ ...formData, modelName: value })}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select model" />
-                </SelectTrigger>
-                <SelectContent>
-                  {getModelSuggestions(formData.provider).map((model) => (
-                    <SelectItem key={model} value={model}>
-                      {model}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+            {formData.provider === "openai_compatible" ? (
+              <>
+                <div>
+                  <label className="text-sm font-medium">Base URL</label>
+                  <Input
+                    value={formData.baseUrl}
+                    onChange={(e) => setFormData({ ...formData, baseUrl: e.target.value })}
+                    placeholder="e.g., http://localhost:11434/v1"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Model Name</label>
+                  <Input
+                    value={formData.modelName}
+                    onChange={(e) => setFormData({ ...formData, modelName: e.target.value })}
+                    placeholder="e.g., llama3.1"
+                  />
+                </div>
+              </>
+            ) : (
+              <div>
+                <label className="text-sm font-medium">Model Name</label>
+                <Select
+                  value={formData.modelName}
+                  onValueChange={(value) => setFormData({ ...formData, modelName: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select model" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getModelOptions(formData.provider).map((model) => (
+                      <SelectItem key={model._id} value={model.modelName}>
+                        {model.displayName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedModel && (
+                  <p className="text-xs text-gray-500 mt-1">{describeModel(selectedModel)}</p>
+                )}
+              </div>
+            )}
             <div>
               <label className="text-sm font-medium">System Prompt</label>
               <Textarea
@@ -50,6 +50,10 @@ interface Props {
   showSheetName?: boolean; // Whether to show sheet name in chart header
   sheetName?: string; // Name of the sheet to use for chart data
   showViewDownload?: boolean; // Whether to show view/download buttons
+  labelColumn?: string; // Header of the label column, when not the first one
+  series?: string[]; // Headers of the columns to plot; others in the range are skipped
+  xAxisLabel?: string;
+  yAxisLabel?: string;
 }
 
 // Default colors for charts
@@ -64,6 +68,23 @@ const COLORS = [
   "#C9CBCF", // Gray
 ];
 
+// Reorder the columns to the label column followed by the series, matched by
+// their headers in the first row. Keeps the matrix as is if any is missing.
+function selectChartColumns(
+  matrix: Array<Array<string | number>>,
+  labelColumn?: string,
+  series?: string[]
+): Array<Array<string | number>> {
+  if (matrix.length === 0 || (!labelColumn && !series?.length)) return matrix;
+
+  const headers = matrix[0].map(cell => String(cell ?? "").trim().toLowerCase());
+  const wanted = [labelColumn ?? String(matrix[0][0] ?? ""), ...(series ?? [])];
+  const indices = wanted.map(name => headers.indexOf(name.trim().toLowerCase()));
+  if (indices.some(index => index === -1)) return matrix;
+
+  return matrix.map(row => indices.map(index => row[index] ?? ""));
+}
+
 function parseSpreadsheetData(matrix: Array<Array<string | number>>) {
   if (matrix.length === 0) return { labels: [], datasets: [] };
 
@@ -330,7 +351,19 @@ const pieChartOptions = {
   },
 };
 
-export default function ChartJSFromRange({ sheetData, range, type, title, showSheetName = true, sheetName, showViewDownload = true }: Props) {
+export default function ChartJSFromRange({
+  sheetData,
+  range,
+  type,
+  title,
+  showSheetName = true,
+  sheetName,
+  showViewDownload = true,
+  labelColumn,
+  series,
+  xAxisLabel,
+  yAxisLabel,
+}: Props) {
   const chartRef = useRef<any>(null);
   // Find the sheet by name with fuzzy matching, fallback to first sheet if not found
   const sheet = useMemo(() => {
@@ -364,10 +397,11 @@ export default function ChartJSFromRange({ sheetData, range, type, title, showSh
   }, [sheetData, sheetName]);
   
   const matrix = useMemo(() => {
-    const result = extractRange2D(sheet, range);
+    // Pass the whole workbook so cross-sheet formulas resolve
+    const result = extractRange2D(sheet, range, sheetData);
     console.log("extractRange2D result:", { range, result, sheet: sheet?.name });
     return result;
-  }, [sheet, range]);
+  }, [sheet, range, sheetData]);
   
   // Get sheet name for display
   const displaySheetName = sheet?.name || sheetName || "Sheet1";
@@ -394,11 +428,24 @@ export default function ChartJSFromRange({ sheetData, range, type, title, showSh
   };
 
   const chartData = useMemo(() => {
+    const selected = selectChartColumns(matrix, labelColumn, series);
     if (type === "pie") {
-      return parsePieChartData(matrix);
+      // Skip the header row once the columns were matched by it
+      return parsePieChartData(selected !== matrix ? selected.slice(1) : selected);
     }
-    return parseSpreadsheetData(matrix);
-  }, [matrix, type]);
+    return parseSpreadsheetData(selected);
+  }, [matrix, type, labelColumn, series]);
+
+  const axisOptions = useMemo(() => {
+    if (!xAxisLabel && !yAxisLabel) return chartOptions;
+    return {
+      ...chartOptions,
+      scales: {
+        x: { ...chartOptions.scales.x, title: { display: Boolean(xAxisLabel), text: xAxisLabel } },
+        y: { ...chartOptions.scales.y, title: { display: Boolean(yAxisLabel), text: yAxisLabel } },
+      },
+    };
+  }, [xAxisLabel, yAxisLabel]);
 
   if (!matrix.length || !chartData.labels.length) {
     console.warn("No data for chart:", { 
@@ -426,9 +473,9 @@ export default function ChartJSFromRange({ sheetData, range, type, title, showSh
   const ChartComponent = () => {
     switch (type) {
       case "line":
-        return <Line ref={chartRef} data={chartData} options={chartOptions} />;
+        return <Line ref={chartRef} data={chartData} options={axisOptions} />;
       case "bar":
-        return <Bar ref={chartRef} data={chartData} options={chartOptions} />;
+        return <Bar ref={chartRef} data={chartData} options={axisOptions} />;
       case "area":
         return (
           <Line 
@@ -441,13 +488,13 @@ export default function ChartJSFromRange({ sheetData, range, type, title, showSh
                 tension: 0.4,
               }))
             }} 
-            options={chartOptions} 
+            options={axisOptions} 
           />
         );
       case "pie":
         return <Pie ref={chartRef} data={chartData} options={pieChartOptions} />;
       default:
-        return <Line ref={chartRef} data={chartData} options={chartOptions} />;
+        return <Line ref={chartRef} data={chartData} options={axisOptions} />;
     }
   };
 
@@ -0,0 +1,148 @@
+"use client";
+
+import React, { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Check, Undo2, Wand2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface CleanupOperation {
+  id: string;
+  description: string;
+  changeCount: number;
+  preview: Array<{ cell: string; before: string; after: string }>;
+  status: "pending" | "applied";
+}
+
+interface CleanupPlanCardProps {
+  messageId: Id<"aiMessages">;
+  operations: CleanupOperation[];
+}
+
+export default function CleanupPlanCard({ messageId, operations }: CleanupPlanCardProps) {
+  const applyCleanupOperations = useMutation(api.aiCleanup.applyCleanupOperations);
+  const undoCleanupOperation = useMutation(api.aiCleanup.undoCleanupOperation);
+  // Operation being applied or undone, or "all"
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const pendingCount = operations.filter((operation) => operation.status === "pending").length;
+
+  const handleApply = async (operationId?: string) => {
+    setBusy(operationId ?? "all");
+    try {
+      const result = await applyCleanupOperations({
+        messageId,
+        operationIds: operationId ? [operationId] : undefined,
+      });
+      if (result.errors.length > 0) {
+        toast.error(`Could not apply: ${result.errors.join("; ")}`);
+      } else {
+        toast.success(`Applied ${result.applied} cleanup operation${result.applied === 1 ? "" : "s"}`);
+      }
+    } catch (error) {
+      toast.error(`Failed to apply cleanup: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleUndo = async (operationId: string) => {
+    setBusy(operationId);
+    try {
+      const result = await undoCleanupOperation({ messageId, operationId });
+      if (result.success) {
+        toast.success("Cleanup operation undone");
+      } else {
+        toast.error(`Could not undo: ${result.conflicts.join("; ")}`);
+      }
+    } catch (error) {
+      toast.error(`Failed to undo cleanup: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="mt-3 rounded border bg-white p-2 text-xs">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <span className="font-medium text-gray-700">Cleanup plan</span>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => handleApply()}
+          disabled={pendingCount === 0 || busy !== null}
+        >
+          <Wand2 className="w-3 h-3 mr-1" />
+          {busy === "all" ? "Applying..." : "Apply all"}
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {operations.map((operation) => (
+          <div key={operation.id} className="rounded border p-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="text-gray-700">
+                {operation.description}
+                <span className="text-gray-500"> · {operation.changeCount} change{operation.changeCount === 1 ? "" : "s"}</span>
+              </div>
+              {operation.status === "applied" ? (
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <span className="flex items-center text-green-700">
+                    <Check className="w-3 h-3 mr-0.5" />
+                    Applied
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => handleUndo(operation.id)}
+                    disabled={busy !== null}
+                  >
+                    <Undo2 className="w-3 h-3 mr-1" />
+                    {busy === operation.id ? "Undoing..." : "Undo"}
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs flex-shrink-0"
+                  onClick={() => handleApply(operation.id)}
+                  disabled={busy !== null}
+                >
+                  {busy === operation.id ? "Applying..." : "Apply"}
+                </Button>
+              )}
+            </div>
+
+            {operation.preview.length > 0 && (
+              <table className="mt-1 w-full table-fixed text-gray-600">
+                <tbody>
+                  {operation.preview.map((change, index) => (
+                    <tr key={index}>
+                      <td className="w-14 align-top font-mono text-gray-400">{change.cell}</td>
+                      <td className="truncate align-top line-through decoration-red-300" title={change.before}>
+                        {change.before || "(blank)"}
+                      </td>
+                      <td className="truncate align-top text-gray-800" title={change.after}>
+                        {change.after}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {operation.changeCount > operation.preview.length && (
+              <div className="mt-1 text-gray-400">
+                and {operation.changeCount - operation.preview.length} more
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import {
+  convertImportValue,
+  guessColumnType,
+  ImportColumnType,
+  ImportTable,
+  ImportTarget,
+  mergeImportTables,
+  toImportTable,
+} from "../../convex/lib/documentImport";
+import { uniqueSheetName } from "../../convex/lib/sheetCodec";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Merge, RotateCcw, Table2, X } from "lucide-react";
+import { toast } from "sonner";
+
+// Rows shown in the column step; the rest are imported as they are
+const PREVIEW_ROWS = 50;
+
+interface DraftTable {
+  title?: string;
+  pages: number[];
+  table: ImportTable;
+}
+
+interface DocumentTableWizardProps {
+  documentId: Id<"documents">;
+  fileName: string;
+  extractedTables?: string;
+  sheets: any[];
+  onClose: () => void;
+}
+
+function parseDrafts(extractedTables?: string): DraftTable[] {
+  let tables: any[] = [];
+  try {
+    tables = JSON.parse(extractedTables || "[]");
+  } catch {
+    // Unreadable extraction results count as no tables
+  }
+  return tables
+    .filter((table) => Array.isArray(table?.rows) && table.rows.length > 1)
+    .map((table) => ({
+      title: typeof table.title === "string" ? table.title : undefined,
+      pages: typeof table.page === "number" ? [table.page] : [],
+      table: toImportTable(table),
+    }));
+}
+
+function describePages(pages: number[]): string {
+  if (pages.length === 0) return "";
+  const first = Math.min(...pages);
+  const last = Math.max(...pages);
+  return first === last ? `page ${first}` : `pages ${first}-${last}`;
+}
+
+/**
+ * Review a document's tables before they reach a sheet: pick a table, merge
+ * page-split parts, rename headers, choose column types, drop rows and choose
+ * where it is written
+ */
+export default function DocumentTableWizard({
+  documentId,
+  fileName,
+  extractedTables,
+  sheets,
+  onClose,
+}: DocumentTableWizardProps) {
+  const importDocumentTable = useMutation(api.documents.importDocumentTable);
+  const [drafts, setDrafts] = useState<DraftTable[]>(() => parseDrafts(extractedTables));
+  const [step, setStep] = useState<"tables" | "columns" | "target">("tables");
+  const [selected, setSelected] = useState(0);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [columnTypes, setColumnTypes] = useState<ImportColumnType[]>([]);
+  const [droppedRows, setDroppedRows] = useState<Set<number>>(new Set());
+  const [target, setTarget] = useState<ImportTarget>("new");
+  const [sheetName, setSheetName] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+
+  const sheetNames: string[] = useMemo(() => sheets.map((sheet) => String(sheet?.name ?? "")).filter(Boolean), [sheets]);
+  const draft = drafts[selected];
+  const keptRows = draft ? draft.table.rows.filter((_, index) => !droppedRows.has(index)) : [];
+
+  const defaultSheetName = (title?: string) =>
+    uniqueSheetName(sheets, title || fileName.replace(/\.[^/.]+$/, "").substring(0, 20) || "Imported");
+
+  const handleMerge = (index: number) => {
+    setDrafts((current) => {
+      const [first, next] = [current[index], current[index + 1]];
+      const merged: DraftTable = {
+        title: first.title ?? next.title,
+        pages: [...first.pages, ...next.pages],
+        table: mergeImportTables(first.table, next.table),
+      };
+      return [...current.slice(0, index), merged, ...current.slice(index + 2)];
+    });
+  };
+
+  const handleSelect = (index: number) => {
+    const { table } = drafts[index];
+    setSelected(index);
+    setHeaders(table.headers);
+    setColumnTypes(table.headers.map((_, column) => guessColumnType(table.rows.map((row) => row[column]))));
+    setDroppedRows(new Set());
+    setTarget("new");
+    setSheetName(defaultSheetName(drafts[index].title));
+    setStep("columns");
+  };
+
+  const handleTargetChange = (value: ImportTarget) => {
+    setTarget(value);
+    if (value === "new") {
+      setSheetName(defaultSheetName(draft?.title));
+    } else if (!sheetNames.includes(sheetName)) {
+      setSheetName(sheetNames[0] ?? "");
+    }
+  };
+
+  const toggleRow = (index: number) => {
+    setDroppedRows((current) => {
+      const next = new Set(current);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!draft) return;
+    setIsImporting(true);
+    try {
+      const result = await importDocumentTable({
+        documentId,
+        headers: headers.map((header, column) => header.trim() || `Column ${column + 1}`),
+        columnTypes,
+        dataRows: keptRows,
+        target,
+        sheetName,
+      });
+      toast.success(result.message);
+      onClose();
+    } catch (error) {
+      toast.error(`Failed to import table: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="px-4 py-2 border-t bg-white text-xs max-h-[45vh] overflow-y-auto">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="flex items-center gap-1 min-w-0">
+          {step !== "tables" && (
+            <button
+              onClick={() => setStep(step === "target" ? "columns" : "tables")}
+              className="text-gray-400 hover:text-gray-700"
+              title="Back"
+            >
+              <ArrowLeft className="w-3 h-3" />
+            </button>
+          )}
+          <span className="font-medium text-gray-700 truncate" title={fileName}>
+            Import from {fileName}
+          </span>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Close">
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      {step === "tables" && (
+        <div className="space-y-2">
+          {drafts.length === 0 && <div className="text-gray-500">No tables were found in this document.</div>}
+          {drafts.map((item, index) => (
+            <div key={index} className="rounded border p-2">
+              <div className="flex items-center justify-between gap-2">
+                <button
+                  onClick={() => handleSelect(index)}
+                  className="flex items-center gap-1 min-w-0 text-left text-gray-700 hover:text-blue-600"
+                >
+                  <Table2 className="w-3 h-3 flex-shrink-0" />
+                  <span className="truncate">{item.title || `Table ${index + 1}`}</span>
+                </button>
+                {index < drafts.length - 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs flex-shrink-0"
+                    onClick={() => handleMerge(index)}
+                    title="Join the next table onto this one, for tables split across pages"
+                  >
+                    <Merge className="w-3 h-3 mr-1" />
+                    Merge with next
+                  </Button>
+                )}
+              </div>
+              <div className="text-gray-500">
+                {item.table.rows.length} row{item.table.rows.length === 1 ? "" : "s"} × {item.table.headers.length} column
+                {item.table.headers.length === 1 ? "" : "s"}
+                {item.pages.length > 0 && ` · ${describePages(item.pages)}`}
+              </div>
+              <div className="text-gray-400 truncate" title={item.table.headers.join(", ")}>
+                {item.table.headers.filter(Boolean).join(", ")}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {step === "columns" && draft && (
+        <div className="space-y-2">
+          <div className="space-y-1">
+            {headers.map((header, column) => (
+              <div key={column} className="flex items-center gap-1">
+                <Input
+                  value={header}
+                  placeholder={`Column ${column + 1}`}
+                  onChange={(e) =>
+                    setHeaders((current) => current.map((value, index) => (index === column ? e.target.value : value)))
+                  }
+                  className="h-7 text-xs"
+                />
+                <Select
+                  value={columnTypes[column]}
+                  onValueChange={(value) =>
+                    setColumnTypes((current) =>
+                      current.map((type, index) => (index === column ? (value as ImportColumnType) : type))
+                    )
+                  }
+                >
+                  <SelectTrigger className="h-7 w-24 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="text">Text</SelectItem>
+                    <SelectItem value="number">Number</SelectItem>
+                    <SelectItem value="date">Date</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto rounded border">
+            <table className="w-full text-gray-700">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="w-6" />
+                  {headers.map((header, column) => (
+                    <th key={column} className="px-1 text-left font-medium whitespace-nowrap">
+                      {header || `Column ${column + 1}`}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {draft.table.rows.slice(0, PREVIEW_ROWS).map((row, index) => {
+                  const dropped = droppedRows.has(index);
+                  return (
+                    <tr key={index} className={dropped ? "text-gray-300 line-through" : ""}>
+                      <td className="px-1">
+                        <button
+                          onClick={() => toggleRow(index)}
+                          className="text-gray-400 hover:text-red-600"
+                          title={dropped ? "Keep row" : "Drop row"}
+                        >
+                          {dropped ? <RotateCcw className="w-3 h-3" /> : <X className="w-3 h-3" />}
+                        </button>
+                      </td>
+                      {row.map((cell, column) => (
+                        <td key={column} className="px-1 max-w-[120px] truncate" title={cell}>
+                          {convertImportValue(cell, columnTypes[column] ?? "text")}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {draft.table.rows.length > PREVIEW_ROWS && (
+            <div className="text-gray-400">and {draft.table.rows.length - PREVIEW_ROWS} more rows</div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-gray-500">
+              {keptRows.length} of {draft.table.rows.length} rows kept
+            </span>
+            <Button size="sm" className="h-6 px-2 text-xs" onClick={() => setStep("target")} disabled={keptRows.length === 0}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === "target" && draft && (
+        <div className="space-y-2">
+          <Select value={target} onValueChange={(value) => handleTargetChange(value as ImportTarget)}>
+            <SelectTrigger className="h-7 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="new">New sheet</SelectItem>
+              <SelectItem value="existing" disabled={sheetNames.length === 0}>
+                Below the data of an existing sheet
+              </SelectItem>
+              <SelectItem value="append" disabled={sheetNames.length === 0}>
+                Append rows to an existing table
+              </SelectItem>
+            </SelectContent>
+          </Select>
+
+          {target === "new" ? (
+            <Input
+              value={sheetName}
+              onChange={(e) => setSheetName(e.target.value)}
+              placeholder="Sheet name"
+              className="h-7 text-xs"
+            />
+          ) : (
+            <Select value={sheetName} onValueChange={setSheetName}>
+              <SelectTrigger className="h-7 text-xs">
+                <SelectValue placeholder="Choose a sheet" />
+              </SelectTrigger>
+              <SelectContent>
+                {sheetNames.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <div className="text-gray-500">
+            {target === "append"
+              ? `${keptRows.length} rows will be added under the table in "${sheetName}", matched to its columns by header.`
+              : `A ${headers.length}-column table with ${keptRows.length} rows will be written to "${sheetName}".`}
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={handleImport}
+              disabled={isImporting || !sheetName.trim()}
+            >
+              {isImporting ? "Importing..." : "Import"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import React from "react";
+import { Id } from "../../convex/_generated/dataModel";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+
+export interface PresenceSession {
+  sessionId: string;
+  userId: Id<"users">;
+  name: string;
+  imageUrl?: string;
+  color: string;
+  sheetName?: string;
+  selection?: string;
+  lastSeen: number;
+}
+
+interface PresenceListProps {
+  sessions: PresenceSession[];
+  currentSessionId: string;
+  // Avatars shown before the rest are collapsed into a "+N" counter
+  maxVisible?: number;
+}
+
+function getInitials(name: string): string {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return "?";
+  return parts
+    .slice(0, 2)
+    .map((part) => part[0]!.toUpperCase())
+    .join("");
+}
+
+/**
+ * Avatars of everyone with the spreadsheet open, ringed in the color of
+ * their cursor. The current session is listed first.
+ */
+export default function PresenceList({
+  sessions,
+  currentSessionId,
+  maxVisible = 4,
+}: PresenceListProps) {
+  if (sessions.length === 0) return null;
+
+  const ordered = [...sessions].sort((a, b) => {
+    if (a.sessionId === currentSessionId) return -1;
+    if (b.sessionId === currentSessionId) return 1;
+    return a.name.localeCompare(b.name);
+  });
+  const visible = ordered.slice(0, maxVisible);
+  const hidden = ordered.slice(maxVisible);
+
+  return (
+    <div className="flex items-center -space-x-1.5 flex-shrink-0">
+      {visible.map((session) => {
+        const isCurrent = session.sessionId === currentSessionId;
+        return (
+          <Tooltip key={session.sessionId}>
+            <TooltipTrigger asChild>
+              <div
+                className="rounded-full bg-white p-px"
+                style={{ boxShadow: `0 0 0 2px ${session.color}` }}
+              >
+                <Avatar className="size-6">
+                  {session.imageUrl && <AvatarImage src={session.imageUrl} alt={session.name} />}
+                  <AvatarFallback className="text-[10px]">{getInitials(session.name)}</AvatarFallback>
+                </Avatar>
+              </div>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p className="font-medium">
+                {session.name}
+                {isCurrent ? " (you)" : ""}
+              </p>
+              {session.selection && (
+                <p className="opacity-80">
+                  {session.sheetName ? `${session.sheetName}!` : ""}
+                  {session.selection}
+                </p>
+              )}
+            </TooltipContent>
+          </Tooltip>
+        );
+      })}
+      {hidden.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="size-6 rounded-full bg-gray-100 border text-[10px] font-medium flex items-center justify-center">
+              +{hidden.length}
+            </div>
+          </TooltipTrigger>
+          <TooltipContent>
+            {hidden.map((session) => (
+              <p key={session.sessionId}>{session.name}</p>
+            ))}
+          </TooltipContent>
+        </Tooltip>
+      )}
+    </div>
+  );
+}
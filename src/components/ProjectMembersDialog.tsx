@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, UserMinus, UserPlus } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+
+interface ProjectMember {
+  userId: Id<"users">;
+  name: string;
+  email: string;
+  imageUrl?: string;
+  createdAt: number;
+}
+
+interface ProjectMembersDialogProps {
+  projectId: Id<"projects">;
+  projectName: string;
+  // Owners add and remove members; members can only leave
+  isOwner: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Share a project: everyone listed can open and edit its spreadsheets
+ */
+export function ProjectMembersDialog({
+  projectId,
+  projectName,
+  isOwner,
+  open,
+  onOpenChange,
+}: ProjectMembersDialogProps) {
+  const [email, setEmail] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+
+  const members = useQuery(api.projects.getProjectMembers, open ? { projectId } : "skip");
+  const currentUser = useQuery(api.users.getCurrentUser);
+  const addProjectMember = useMutation(api.projects.addProjectMember);
+  const removeProjectMember = useMutation(api.projects.removeProjectMember);
+
+  const handleAdd = async () => {
+    if (!email.trim()) return;
+
+    setIsAdding(true);
+    try {
+      await addProjectMember({ projectId, email: email.trim() });
+      toast.success(`Shared ${projectName} with ${email.trim()}`);
+      setEmail("");
+    } catch (error) {
+      toast.error(`Failed to add member: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = async (userId: Id<"users">) => {
+    const leaving = userId === currentUser?._id;
+    try {
+      await removeProjectMember({ projectId, userId });
+      if (leaving) {
+        toast.success(`You left ${projectName}`);
+        onOpenChange(false);
+      }
+    } catch (error) {
+      toast.error(`Failed to remove member: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share {projectName}</DialogTitle>
+          <DialogDescription>
+            Members can open and edit every spreadsheet in this project.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <div className="space-y-2">
+            <Label htmlFor="member-email">Add a member by email</Label>
+            <div className="flex gap-2">
+              <Input
+                id="member-email"
+                type="email"
+                placeholder="name@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleAdd();
+                }}
+                disabled={isAdding}
+              />
+              <Button onClick={handleAdd} disabled={isAdding || !email.trim()}>
+                {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">They need to have signed in to Bodrix once.</p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {members === undefined ? (
+            <div className="text-sm text-muted-foreground">Loading members...</div>
+          ) : members.length === 0 ? (
+            <div className="text-sm text-muted-foreground">This project is not shared with anyone yet.</div>
+          ) : (
+            members.map((member: ProjectMember) => {
+              const isSelf = member.userId === currentUser?._id;
+              return (
+                <div key={member.userId} className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Avatar className="h-7 w-7">
+                      <AvatarImage src={member.imageUrl} alt={member.name} />
+                      <AvatarFallback>{member.name.charAt(0).toUpperCase()}</AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium truncate">
+                        {member.name}
+                        {isSelf && " (you)"}
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">{member.email}</div>
+                    </div>
+                  </div>
+                  {(isOwner || isSelf) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(member.userId)}
+                      title={isSelf ? "Leave project" : "Remove member"}
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import React, { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Check, TableProperties } from "lucide-react";
+import { toast } from "sonner";
+
+interface QueryResult {
+  steps: string[];
+  headers: string[];
+  rows: string[][];
+  totalRows: number;
+  matchedRows: number;
+  viewSheetName?: string;
+}
+
+interface QueryResultCardProps {
+  messageId: Id<"aiMessages">;
+  result: QueryResult;
+}
+
+export default function QueryResultCard({ messageId, result }: QueryResultCardProps) {
+  const saveQueryView = useMutation(api.aiQueries.saveQueryView);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await saveQueryView({ messageId });
+      toast.success(
+        saved.truncated
+          ? `Saved the first ${saved.rowCount} rows to "${saved.sheetName}"`
+          : `Saved ${saved.rowCount} row${saved.rowCount === 1 ? "" : "s"} to "${saved.sheetName}"`
+      );
+    } catch (error) {
+      toast.error(`Failed to save view: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 rounded border bg-white p-2 text-xs">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <span className="font-medium text-gray-700">Query plan</span>
+        {result.viewSheetName ? (
+          <span className="flex items-center text-green-700">
+            <Check className="w-3 h-3 mr-0.5" />
+            Saved to &quot;{result.viewSheetName}&quot;
+          </span>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={handleSave}
+            disabled={isSaving}
+          >
+            <TableProperties className="w-3 h-3 mr-1" />
+            {isSaving ? "Saving..." : "Save as view sheet"}
+          </Button>
+        )}
+      </div>
+
+      <ol className="list-decimal list-inside space-y-0.5 text-gray-600 mb-2">
+        {result.steps.map((step, index) => (
+          <li key={index}>{step}</li>
+        ))}
+      </ol>
+
+      {result.headers.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-gray-700">
+            <thead>
+              <tr className="border-b">
+                {result.headers.map((header, index) => (
+                  <th key={index} className="px-1 py-0.5 font-medium whitespace-nowrap">{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {result.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-b last:border-0">
+                  {result.headers.map((_, colIndex) => (
+                    <td key={colIndex} className="px-1 py-0.5 whitespace-nowrap">{row[colIndex] ?? ""}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="mt-1 text-gray-400">
+        {result.totalRows > result.rows.length
+          ? `First ${result.rows.length} of ${result.totalRows} rows`
+          : `${result.totalRows} row${result.totalRows === 1 ? "" : "s"}`}
+        {` · ${result.matchedRows} matching row${result.matchedRows === 1 ? "" : "s"} in the sheet`}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+"use client";
+
+import React, { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, ChevronDown, ChevronRight, Pause, Play, Plus, Trash2 } from "lucide-react";
+import ReactMarkdown from "react-markdown";
+import { toast } from "sonner";
+import ChartJSFromRange from "./ChartJSFromRange";
+
+interface ReportListProps {
+  spreadsheetId: Id<"spreadsheets">;
+  sheetData: any[];
+}
+
+type ReportFrequency = "daily" | "weekly";
+
+interface Report {
+  _id: Id<"aiReports">;
+  agentName?: string;
+  title: string;
+  prompt: string;
+  frequency: ReportFrequency;
+  hourUtc: number;
+  dayOfWeek?: number;
+  isActive: boolean;
+  nextRunAt: number;
+  lastRunAt?: number;
+}
+
+interface ReportRun {
+  _id: Id<"aiReportRuns">;
+  status: "completed" | "failed";
+  content: string;
+  charts: Array<{
+    type: "line" | "bar" | "area" | "pie";
+    range: string;
+    sheetName?: string;
+    title?: string;
+    labelColumn?: string;
+    series?: string[];
+    xAxisLabel?: string;
+    yAxisLabel?: string;
+  }>;
+  changes?: Array<{ label: string; previous?: number; current?: number }>;
+  usage?: { costUsd: number };
+  createdAt: number;
+}
+
+const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function describeSchedule(report: Pick<Report, "frequency" | "hourUtc" | "dayOfWeek">): string {
+  const time = `${String(report.hourUtc).padStart(2, "0")}:00 UTC`;
+  return report.frequency === "weekly"
+    ? `Every ${DAYS[report.dayOfWeek ?? 1]} at ${time}`
+    : `Every day at ${time}`;
+}
+
+function formatDateTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function formatChange(change: { previous?: number; current?: number }): string {
+  if (change.previous === undefined) return `new: ${change.current?.toLocaleString()}`;
+  if (change.current === undefined) return `removed (was ${change.previous.toLocaleString()})`;
+  const percent = change.previous !== 0
+    ? ` (${change.current >= change.previous ? "+" : ""}${(((change.current - change.previous) / Math.abs(change.previous)) * 100).toFixed(1)}%)`
+    : "";
+  return `${change.previous.toLocaleString()} → ${change.current.toLocaleString()}${percent}`;
+}
+
+function ReportRuns({ reportId, sheetData }: { reportId: Id<"aiReports">; sheetData: any[] }) {
+  const runs: ReportRun[] | undefined = useQuery(api.aiReports.getReportRuns, { reportId });
+
+  if (!runs) {
+    return <div className="text-xs text-muted-foreground px-1">Loading runs...</div>;
+  }
+  if (runs.length === 0) {
+    return <div className="text-xs text-muted-foreground px-1">No runs yet.</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {runs.map((run) => (
+        <div key={run._id} className="rounded border p-2">
+          <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+            <span>{formatDateTime(run.createdAt)}</span>
+            <span>
+              {run.status === "failed" ? <span className="text-red-600">Failed</span> : "Completed"}
+              {run.usage && ` · $${run.usage.costUsd.toFixed(4)}`}
+            </span>
+          </div>
+
+          {run.status === "failed" ? (
+            <div className="text-xs text-red-600">{run.content}</div>
+          ) : (
+            <div className="prose prose-sm max-w-none text-sm">
+              <ReactMarkdown
+                components={{
+                  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+                  ul: ({ children }) => <ul className="list-disc list-inside mb-2 space-y-1">{children}</ul>,
+                  ol: ({ children }) => <ol className="list-decimal list-inside mb-2 space-y-1">{children}</ol>,
+                  h1: ({ children }) => <h1 className="text-base font-bold mb-2 text-gray-900">{children}</h1>,
+                  h2: ({ children }) => <h2 className="text-sm font-bold mb-2 text-gray-900">{children}</h2>,
+                  h3: ({ children }) => <h3 className="text-sm font-bold mb-1 text-gray-900">{children}</h3>,
+                }}
+              >
+                {run.content}
+              </ReactMarkdown>
+            </div>
+          )}
+
+          {run.changes && run.changes.length > 0 && (
+            <div className="mt-2 text-xs">
+              <div className="font-medium text-gray-700 mb-1">Changes since the previous run</div>
+              <ul className="space-y-0.5 text-gray-600">
+                {run.changes.map((change) => (
+                  <li key={change.label}>
+                    {change.label}: {formatChange(change)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {run.changes && run.changes.length === 0 && (
+            <div className="mt-2 text-xs text-gray-500">No changes since the previous run.</div>
+          )}
+
+          {run.charts.length > 0 && (
+            <div className="mt-2 grid md:grid-cols-2 gap-2">
+              {run.charts.map((chart, index) => (
+                <div key={index} className="border rounded p-2">
+                  <ChartJSFromRange
+                    sheetData={sheetData}
+                    range={chart.range}
+                    type={chart.type}
+                    title={chart.title}
+                    sheetName={chart.sheetName || "Sheet1"}
+                    showViewDownload={false}
+                    labelColumn={chart.labelColumn}
+                    series={chart.series}
+                    xAxisLabel={chart.xAxisLabel}
+                    yAxisLabel={chart.yAxisLabel}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ReportList({ spreadsheetId, sheetData }: ReportListProps) {
+  const reports: Report[] | undefined = useQuery(api.aiReports.listReports, { spreadsheetId });
+  const agents: Array<{ _id: Id<"aiAgents">; name: string }> | undefined = useQuery(api.aiAgents.getAgents, {});
+  const createReport = useMutation(api.aiReports.createReport);
+  const updateReport = useMutation(api.aiReports.updateReport);
+  const deleteReport = useMutation(api.aiReports.deleteReport);
+  const runReportNow = useMutation(api.aiReports.runReportNow);
+
+  const [isCreating, setIsCreating] = useState(false);
+  const [expandedReportId, setExpandedReportId] = useState<Id<"aiReports"> | null>(null);
+  const [title, setTitle] = useState("Weekly metrics summary");
+  const [prompt, setPrompt] = useState("Summarize the key metrics and how they changed since the last report.");
+  const [agentId, setAgentId] = useState<string>("");
+  const [frequency, setFrequency] = useState<ReportFrequency>("weekly");
+  const [dayOfWeek, setDayOfWeek] = useState(1);
+  const [hourUtc, setHourUtc] = useState(9);
+
+  const handleCreate = async () => {
+    const selectedAgentId = agentId || agents?.[0]?._id;
+    if (!selectedAgentId) {
+      toast.error("Create an AI agent first");
+      return;
+    }
+    try {
+      await createReport({
+        spreadsheetId,
+        agentId: selectedAgentId as Id<"aiAgents">,
+        title,
+        prompt,
+        frequency,
+        hourUtc,
+        dayOfWeek: frequency === "weekly" ? dayOfWeek : undefined,
+      });
+      toast.success("Report scheduled");
+      setIsCreating(false);
+    } catch (error) {
+      toast.error(`Failed to schedule report: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleRunNow = async (reportId: Id<"aiReports">) => {
+    try {
+      await runReportNow({ reportId });
+      setExpandedReportId(reportId);
+      toast.success("Report started");
+    } catch (error) {
+      toast.error(`Failed to run report: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleToggleActive = async (report: Report) => {
+    try {
+      await updateReport({ reportId: report._id, isActive: !report.isActive });
+    } catch (error) {
+      toast.error(`Failed to update report: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleDelete = async (reportId: Id<"aiReports">) => {
+    try {
+      await deleteReport({ reportId });
+      toast.success("Report deleted");
+    } catch (error) {
+      toast.error(`Failed to delete report: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  if (!reports) {
+    return <div className="text-xs text-muted-foreground px-1">Loading reports...</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          Scheduled AI reports run an agent on this spreadsheet and keep each summary.
+        </span>
+        <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => setIsCreating(!isCreating)}>
+          <Plus className="w-3 h-3 mr-1" />
+          New report
+        </Button>
+      </div>
+
+      {isCreating && (
+        <div className="rounded border p-2 grid gap-2 md:grid-cols-2">
+          <Input className="h-8 text-xs" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Report title" />
+          <Select value={agentId || agents?.[0]?._id || ""} onValueChange={setAgentId}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Agent" />
+            </SelectTrigger>
+            <SelectContent>
+              {agents?.map((agent) => (
+                <SelectItem key={agent._id} value={agent._id}>
+                  {agent.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Textarea
+            className="md:col-span-2 text-xs min-h-16"
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="What should the report cover?"
+          />
+          <div className="flex items-center gap-2 md:col-span-2">
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as ReportFrequency)}>
+              <SelectTrigger className="h-8 w-28 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+              </SelectContent>
+            </Select>
+            {frequency === "weekly" && (
+              <Select value={String(dayOfWeek)} onValueChange={(value) => setDayOfWeek(Number(value))}>
+                <SelectTrigger className="h-8 w-32 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DAYS.map((day, index) => (
+                    <SelectItem key={day} value={String(index)}>
+                      {day}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={String(hourUtc)} onValueChange={(value) => setHourUtc(Number(value))}>
+              <SelectTrigger className="h-8 w-32 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <SelectItem key={hour} value={String(hour)}>
+                    {String(hour).padStart(2, "0")}:00 UTC
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" className="h-8 px-3 text-xs ml-auto" onClick={handleCreate}>
+              Schedule
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {reports.length === 0 && !isCreating && (
+        <div className="text-xs text-muted-foreground px-1">No reports yet.</div>
+      )}
+
+      {reports.map((report) => (
+        <div key={report._id} className="rounded border p-2">
+          <div className="flex items-center justify-between gap-2">
+            <button
+              className="flex items-center gap-1 text-left min-w-0"
+              onClick={() => setExpandedReportId(expandedReportId === report._id ? null : report._id)}
+            >
+              {expandedReportId === report._id ? (
+                <ChevronDown className="w-3 h-3 flex-shrink-0" />
+              ) : (
+                <ChevronRight className="w-3 h-3 flex-shrink-0" />
+              )}
+              <span className="text-sm font-medium truncate">{report.title}</span>
+            </button>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => handleRunNow(report._id)}>
+                Run now
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => handleToggleActive(report)}
+                title={report.isActive ? "Pause" : "Resume"}
+              >
+                {report.isActive ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => handleDelete(report._id)}
+                title="Delete report"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+          <div className="flex items-center gap-1 text-xs text-gray-500 mt-1">
+            <CalendarClock className="w-3 h-3" />
+            <span>
+              {describeSchedule(report)}
+              {report.agentName && ` · ${report.agentName}`}
+              {report.isActive ? ` · next ${formatDateTime(report.nextRunAt)}` : " · paused"}
+            </span>
+          </div>
+
+          {expandedReportId === report._id && (
+            <div className="mt-2">
+              <div className="text-xs text-gray-500 mb-2 whitespace-pre-wrap">{report.prompt}</div>
+              <ReportRuns reportId={report._id} sheetData={sheetData} />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import React, { useState, useRef, useEffect, useCallback } from "react";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
+import { DOCUMENT_FILE_ACCEPT, documentFileType } from "../../convex/lib/documentFiles";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -17,8 +18,16 @@ import {
   Settings,
   Paperclip,
   FileText,
+  Undo2,
+  Pin,
+  Loader2,
+  RotateCcw,
+  Table2,
 } from "lucide-react";
 import ChartJSFromRange from "./ChartJSFromRange";
+import CleanupPlanCard from "./CleanupPlanCard";
+import QueryResultCard from "./QueryResultCard";
+import DocumentTableWizard from "./DocumentTableWizard";
 import { toast } from "sonner";
 import ReactMarkdown from "react-markdown";
 
@@ -34,6 +43,71 @@ interface ResizableAISidebarProps {
 type AgentType = "general" | "clean" | "summarize" | "trend";
 type LLMProvider = "openai" | "anthropic" | "google" | "mistral";
 
+interface AppliedChanges {
+  sheetsCreated: string[];
+  rangesWritten: Array<{ sheetName: string; range: string }>;
+  chartIds: string[];
+  dashboardIds: string[];
+  commits: Array<{ baseVersion: number; version: number }>;
+  undoneAt?: number;
+}
+
+interface ChartSpec {
+  type: "line" | "bar" | "area" | "pie";
+  range: string;
+  sheetName?: string;
+  title?: string;
+  labelColumn?: string;
+  series?: string[];
+  xAxisLabel?: string;
+  yAxisLabel?: string;
+}
+
+interface UploadedDocument {
+  _id: Id<"documents">;
+  fileName: string;
+  processingStatus: string;
+  errorMessage?: string;
+  extractedTables?: string;
+}
+
+interface QueuedDocument {
+  _id: Id<"documents">;
+  fileName: string;
+  processingStatus: "pending" | "processing";
+  pageCount?: number;
+  processedPages?: number;
+  attempts?: number;
+  errorMessage?: string;
+}
+
+function hasExtractedTables(extractedTables?: string): boolean {
+  try {
+    const tables = JSON.parse(extractedTables || "[]");
+    return Array.isArray(tables) && tables.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+// One line per kind of change an assistant message applied
+function describeAppliedChanges(changes: AppliedChanges): string[] {
+  const lines: string[] = [];
+  if (changes.sheetsCreated.length > 0) {
+    lines.push(`Created ${changes.sheetsCreated.map((name) => `"${name}"`).join(", ")}`);
+  }
+  if (changes.rangesWritten.length > 0) {
+    lines.push(`Wrote ${changes.rangesWritten.map((r) => `${r.sheetName}!${r.range}`).join(", ")}`);
+  }
+  if (changes.chartIds.length > 0) {
+    lines.push(`Added ${changes.chartIds.length} chart${changes.chartIds.length === 1 ? "" : "s"}`);
+  }
+  if (changes.dashboardIds.length > 0) {
+    lines.push(`Created ${changes.dashboardIds.length} dashboard${changes.dashboardIds.length === 1 ? "" : "s"}`);
+  }
+  return lines;
+}
+
 export default function ResizableAISidebar({
   spreadsheetId,
   sheetData,
@@ -51,6 +125,10 @@ export default function ResizableAISidebar({
   const [isUploadingFile, setIsUploadingFile] = useState(false);
   const [selectedAgentType, setSelectedAgentType] = useState<AgentType>("general");
   const [selectedLLMProvider, setSelectedLLMProvider] = useState<LLMProvider>("openai");
+  const [undoingMessageId, setUndoingMessageId] = useState<Id<"aiMessages"> | null>(null);
+  const [pinnedMessageIds, setPinnedMessageIds] = useState<Set<Id<"aiMessages">>>(new Set());
+  // Document whose tables are open in the import wizard
+  const [importDocumentId, setImportDocumentId] = useState<Id<"documents"> | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const sidebarRef = useRef<HTMLDivElement>(null);
@@ -64,16 +142,21 @@ export default function ResizableAISidebar({
   );
   const agents = useQuery(api.aiAgents.getAgents, {});
   const documents = useQuery(api.documents.listDocuments, { spreadsheetId });
+  const processingQueue: QueuedDocument[] | undefined = useQuery(api.documents.getProcessingQueue, { spreadsheetId });
   
   const createConversation = useMutation(api.ai.createConversation);
   const sendMessage = useMutation(api.ai.sendMessage);
   const deleteConversation = useMutation(api.ai.deleteConversation);
+  const undoMessageChanges = useMutation(api.ai.undoMessageChanges);
+  const createChart = useMutation(api.spreadsheets.createChart);
   const getSheetData = useQuery(api.ai.getSheetData, { spreadsheetId });
   const getDefaultAgents = useMutation(api.aiAgents.getDefaultAgents);
   const getOrCreateAgentWithConfig = useMutation(api.aiAgents.getOrCreateAgentWithConfig);
   const generateUploadUrl = useMutation(api.documents.generateUploadUrl);
   const createDocument = useMutation(api.documents.createDocument);
   const deleteDocument = useMutation(api.documents.deleteDocument);
+  const retryDocument = useMutation(api.documents.retryDocument);
+  const importDocument: UploadedDocument | undefined = documents?.find((doc: UploadedDocument) => doc._id === importDocumentId);
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -176,7 +259,7 @@ export default function ResizableAISidebar({
       });
     } catch (error) {
       console.error("Error sending message:", error);
-      toast.error("Failed to send message");
+      toast.error(`Failed to send message: ${error instanceof Error ? error.message : String(error)}`);
     } finally {
       setIsLoading(false);
     }
@@ -195,159 +278,42 @@ export default function ResizableAISidebar({
     }
   };
 
-  const extractTablesUsingAI = async (text: string): Promise<any[]> => {
+  const handlePinChart = async (messageId: Id<"aiMessages">, chart: ChartSpec) => {
     try {
-      console.log("Calling server API for table extraction...");
-      console.log(`Text length: ${text.length} characters`);
-      
-      // Use full text for complete table extraction (no limit)
-      const textToAnalyze = text;
-      
-      const response = await fetch("/api/extract-tables", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
+      await createChart({
+        spreadsheetId,
+        title: chart.title || "AI Chart",
+        type: chart.type,
+        range: chart.range,
+        sheetName: chart.sheetName || activeSheetName,
+        options: {
+          labelColumn: chart.labelColumn,
+          series: chart.series,
+          xAxisLabel: chart.xAxisLabel,
+          yAxisLabel: chart.yAxisLabel,
         },
-        body: JSON.stringify({ text: textToAnalyze }),
       });
-
-      if (!response.ok) {
-        console.error("API error:", response.status);
-        const errorText = await response.text();
-        console.error("Error details:", errorText);
-        return [];
-      }
-
-      const data = await response.json();
-      console.log("=".repeat(60));
-      console.log("📋 API RESPONSE DETAILS");
-      console.log("=".repeat(60));
-      console.log("Full response:", JSON.stringify(data, null, 2));
-      console.log("Tables array:", data.tables);
-      console.log("Is array:", Array.isArray(data.tables));
-      console.log("Length:", data.tables?.length);
-      
-      if (data.tables && Array.isArray(data.tables)) {
-        console.log(`✅ AI extracted ${data.tables.length} tables`);
-        data.tables.forEach((table: any, idx: number) => {
-          console.log(`  Table ${idx + 1}: ${table.rows?.[0]?.length || 0} columns, ${(table.rows?.length || 1) - 1} data rows`);
-          if (table.rows && table.rows[0]) {
-            console.log(`    Headers: ${table.rows[0].join(", ")}`);
-          }
-        });
-        console.log("=".repeat(60));
-        return data.tables;
-      }
-      
-      console.error("❌ No tables found in API response");
-      console.log("=".repeat(60));
-      return [];
+      setPinnedMessageIds((prev) => new Set(prev).add(messageId));
+      toast.success("Chart pinned to spreadsheet");
     } catch (error) {
-      console.error("Error in AI table extraction:", error);
-      return [];
+      toast.error(`Failed to pin chart: ${error instanceof Error ? error.message : String(error)}`);
     }
   };
 
-  const extractTextFromPDF = async (file: File): Promise<{ text: string; tables: any[] }> => {
-    const pdfjsLib = await import("pdfjs-dist/legacy/build/pdf.mjs");
-    
-    // Set worker source to match the installed version
-    const pdfjsVersion = pdfjsLib.version || "5.4.296";
-    pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjsVersion}/legacy/build/pdf.worker.min.mjs`;
-    
-    const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-    
-    let fullText = "";
-    
-    for (let i = 1; i <= pdf.numPages; i++) {
-      const page = await pdf.getPage(i);
-      const textContent = await page.getTextContent();
-      
-      // Sort items by position to preserve layout
-      const items = textContent.items as any[];
-      items.sort((a, b) => {
-        // Sort by Y position first (top to bottom), then X position (left to right)
-        const yDiff = Math.abs(a.transform[5] - b.transform[5]);
-        if (yDiff > 5) {
-          return b.transform[5] - a.transform[5]; // Higher Y comes first
-        }
-        return a.transform[4] - b.transform[4]; // Then by X position
-      });
-      
-      // Group items by line (same Y position)
-      const lines: string[][] = [];
-      let currentLine: any[] = [];
-      let currentY = items[0]?.transform[5];
-      
-      items.forEach((item) => {
-        const itemY = item.transform[5];
-        const yDiff = Math.abs(currentY - itemY);
-        
-        if (yDiff > 5) {
-          // New line detected
-          if (currentLine.length > 0) {
-            lines.push(currentLine.map(i => i.str));
-          }
-          currentLine = [item];
-          currentY = itemY;
-        } else {
-          currentLine.push(item);
-        }
-      });
-      
-      // Add the last line
-      if (currentLine.length > 0) {
-        lines.push(currentLine.map(i => i.str));
-      }
-      
-      // Join lines with proper spacing
-      const pageText = lines
-        .map(line => line.join(" "))
-        .join("\n");
-      
-      fullText += `\n=== PAGE ${i} ===\n${pageText}\n`;
-    }
-    
-    console.log(`PDF text extracted: ${fullText.length} characters from ${pdf.numPages} pages`);
-    console.log("Sample text:", fullText.substring(0, 500));
-    
-    // Debug: Check for table structure
-    const firstPage = fullText.split(/=== PAGE \d+ ===/)[1];
-    if (firstPage) {
-      const lines = firstPage.split('\n').filter(l => l.trim());
-      console.log("🔍 DEBUGGING - First page analysis:");
-      console.log("  First page lines:", lines.length);
-      console.log("  Line 0 (header?):", lines[0]);
-      console.log("  Line 1 (data?):", lines[1]);
-      if (lines[0]) {
-        const headers = lines[0].split(/\s{2,}/);
-        console.log("  Headers found (split by 2+ spaces):", headers);
-        console.log("  Number of columns:", headers.length);
+  const handleUndoChanges = async (messageId: Id<"aiMessages">) => {
+    setUndoingMessageId(messageId);
+    try {
+      const result = await undoMessageChanges({ messageId });
+      if (result.success) {
+        toast.success("AI changes undone");
+      } else {
+        toast.error(`Could not undo: ${result.conflicts.join("; ")}`);
       }
+    } catch (error) {
+      toast.error(`Failed to undo changes: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setUndoingMessageId(null);
     }
-    
-    // Use AI to extract tables from the full text
-    console.log("Extracting tables using AI...");
-    const aiTables = await extractTablesUsingAI(fullText);
-    
-    console.log(`AI found ${aiTables.length} tables in the PDF`);
-    
-    return { text: fullText.trim(), tables: aiTables };
-  };
-
-  const extractTextFromDOCX = async (file: File): Promise<{ text: string; tables: any[] }> => {
-    const mammoth = await import("mammoth");
-    const arrayBuffer = await file.arrayBuffer();
-    
-    const result = await mammoth.extractRawText({ arrayBuffer });
-    const text = result.value;
-    
-    // Use AI to extract tables from the text
-    console.log("Extracting tables from DOCX using AI...");
-    const aiTables = await extractTablesUsingAI(text);
-    
-    return { text: text.trim(), tables: aiTables };
   };
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -355,9 +321,9 @@ export default function ResizableAISidebar({
     if (!file) return;
 
     // Validate file type
-    const validTypes = ["application/pdf", "application/vnd.openxmlformats-officedocument.wordprocessingml.document"];
-    if (!validTypes.includes(file.type)) {
-      toast.error("Only PDF and DOCX files are supported");
+    const fileType = documentFileType(file.name, file.type);
+    if (!fileType) {
+      toast.error("Supported files are PDF, DOCX, XLSX, CSV, HTML, plain text and images");
       return;
     }
 
@@ -369,43 +335,6 @@ export default function ResizableAISidebar({
 
     setIsUploadingFile(true);
     try {
-      toast.info("Extracting text from document...");
-      
-      // Extract text and tables from document
-      let extractedText = "";
-      let extractedTables: any[] = [];
-      
-      if (file.type === "application/pdf") {
-        toast.info("Using AI to detect tables in PDF...");
-        const result = await extractTextFromPDF(file);
-        extractedText = result.text;
-        extractedTables = result.tables;
-        console.log(`PDF extraction complete: ${result.text.length} chars, ${result.tables.length} tables found`);
-        result.tables.forEach((table, idx) => {
-          console.log(`Table ${idx + 1}: ${table.rows.length} rows, ${table.rows[0]?.length || 0} columns`);
-          console.log("Sample data:", table.rows[0]);
-        });
-        
-        if (result.tables.length > 0) {
-          toast.success(`Found ${result.tables.length} table(s) in PDF!`);
-        }
-      } else {
-        toast.info("Using AI to detect tables in DOCX...");
-        const result = await extractTextFromDOCX(file);
-        extractedText = result.text;
-        extractedTables = result.tables;
-        console.log(`DOCX extraction complete: ${result.text.length} chars, ${result.tables.length} tables found`);
-        result.tables.forEach((table, idx) => {
-          console.log(`Table ${idx + 1}: ${table.rows.length} rows, ${table.rows[0]?.length || 0} columns`);
-          console.log("Sample data:", table.rows[0]);
-        });
-        
-        if (result.tables.length > 0) {
-          toast.success(`Found ${result.tables.length} table(s) in DOCX!`);
-        }
-      }
-      
-      console.log("Extracted tables:", extractedTables);
       toast.info("Uploading document...");
       
       // Get upload URL
@@ -414,7 +343,7 @@ export default function ResizableAISidebar({
       // Upload file
       const uploadResponse = await fetch(uploadUrl, {
         method: "POST",
-        headers: { "Content-Type": file.type },
+        headers: { "Content-Type": file.type || "application/octet-stream" },
         body: file,
       });
 
@@ -424,18 +353,16 @@ export default function ResizableAISidebar({
 
       const { storageId } = await uploadResponse.json();
 
-      // Create document record with extracted content
+      // Text and tables are extracted on the server once the document is queued
       await createDocument({
         spreadsheetId,
         conversationId: currentConversationId || undefined,
         fileName: file.name,
-        fileType: file.type === "application/pdf" ? "pdf" : "docx",
+        fileType,
         storageId,
-        extractedText,
-        extractedTables: JSON.stringify(extractedTables),
       });
 
-      toast.success(`Document "${file.name}" uploaded and processed successfully!`);
+      toast.success(`Document "${file.name}" uploaded and queued for processing`);
       
       // Reset file input
       if (fileInputRef.current) {
@@ -443,7 +370,7 @@ export default function ResizableAISidebar({
       }
     } catch (error) {
       console.error("Error uploading file:", error);
-      toast.error(`Failed to process document: ${error instanceof Error ? error.message : String(error)}`);
+      toast.error(`Failed to upload document: ${error instanceof Error ? error.message : String(error)}`);
     } finally {
       setIsUploadingFile(false);
     }
@@ -459,6 +386,15 @@ export default function ResizableAISidebar({
     }
   };
 
+  const handleRetryDocument = async (documentId: Id<"documents">) => {
+    try {
+      await retryDocument({ documentId });
+      toast.success("Document queued for processing");
+    } catch (error) {
+      toast.error(`Failed to retry document: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -733,8 +669,18 @@ export default function ResizableAISidebar({
                     {/* Chart in AI response */}
                     {message.chartData && (
                       <div className="mt-3">
-                        <div className="text-xs opacity-75 mb-2">
-                          Generated Chart:
+                        <div className="flex items-center justify-between gap-2 mb-2">
+                          <span className="text-xs opacity-75">Generated Chart:</span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => handlePinChart(message._id, message.chartData)}
+                            disabled={pinnedMessageIds.has(message._id)}
+                          >
+                            <Pin className="w-3 h-3 mr-1" />
+                            {pinnedMessageIds.has(message._id) ? "Pinned" : "Pin chart to spreadsheet"}
+                          </Button>
                         </div>
                         <div className="bg-white rounded border p-2">
                           <ChartJSFromRange
@@ -744,14 +690,61 @@ export default function ResizableAISidebar({
                             title={message.chartData.title}
                             sheetName={message.chartData.sheetName || activeSheetName}
                             showViewDownload={false}
+                            labelColumn={message.chartData.labelColumn}
+                            series={message.chartData.series}
+                            xAxisLabel={message.chartData.xAxisLabel}
+                            yAxisLabel={message.chartData.yAxisLabel}
                           />
                         </div>
                       </div>
                     )}
-                    
+
+                    {/* Changes the AI applied, with undo */}
+                    {message.appliedChanges && describeAppliedChanges(message.appliedChanges).length > 0 && (
+                      <div className="mt-3 rounded border bg-white p-2 text-xs">
+                        <div className="flex items-center justify-between gap-2 mb-1">
+                          <span className="font-medium text-gray-700">Applied changes</span>
+                          {message.appliedChanges.undoneAt ? (
+                            <span className="text-gray-500">Undone</span>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              onClick={() => handleUndoChanges(message._id)}
+                              disabled={undoingMessageId === message._id}
+                            >
+                              <Undo2 className="w-3 h-3 mr-1" />
+                              {undoingMessageId === message._id ? "Undoing..." : "Undo"}
+                            </Button>
+                          )}
+                        </div>
+                        <ul className={`space-y-0.5 text-gray-600 ${message.appliedChanges.undoneAt ? "line-through" : ""}`}>
+                          {describeAppliedChanges(message.appliedChanges).map((line) => (
+                            <li key={line} className="break-all">{line}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {/* Query plan the AI ran, with its result */}
+                    {message.queryResult && (
+                      <QueryResultCard messageId={message._id} result={message.queryResult} />
+                    )}
+
+                    {/* Cleanup plan proposed by the AI, applied by the user */}
+                    {message.cleanupPlan && message.cleanupPlan.operations.length > 0 && (
+                      <CleanupPlanCard messageId={message._id} operations={message.cleanupPlan.operations} />
+                    )}
+
                     <div className="text-xs opacity-75 mt-1 flex items-center justify-between">
                       <div className="flex items-center gap-2">
                         <span>{formatTime(message.createdAt)}</span>
+                        {message.usage && (
+                          <span title={`${message.usage.inputTokens} input / ${message.usage.outputTokens} output tokens`}>
+                            {(message.usage.inputTokens + message.usage.outputTokens).toLocaleString()} tokens · ${message.usage.costUsd.toFixed(4)} · {(message.usage.latencyMs / 1000).toFixed(1)}s
+                          </span>
+                        )}
                         {message.isStreaming && !message.isComplete && (
                           <div className="flex items-center gap-1">
                             <div className="animate-pulse w-1 h-1 bg-blue-500 rounded-full"></div>
@@ -814,6 +807,46 @@ export default function ResizableAISidebar({
             </div>
           </div>
 
+          {/* Document processing queue */}
+          {processingQueue && processingQueue.length > 0 && (
+            <div className="px-4 py-2 border-t bg-blue-50">
+              <div className="text-xs font-medium text-gray-600 mb-1">
+                Processing Queue ({processingQueue.length})
+              </div>
+              <div className="space-y-1">
+                {processingQueue.map((item) => (
+                  <div key={item._id} className="flex items-center gap-2 text-xs text-gray-600">
+                    <Loader2 className={`w-3 h-3 ${item.processingStatus === "processing" ? "animate-spin" : ""}`} />
+                    <span className="max-w-[140px] truncate" title={item.fileName}>
+                      {item.fileName}
+                    </span>
+                    <span className="text-gray-400" title={item.errorMessage}>
+                      {item.processingStatus === "processing"
+                        ? item.pageCount
+                          ? `Page ${item.processedPages ?? 0} of ${item.pageCount}`
+                          : "Processing..."
+                        : item.errorMessage
+                          ? `Retrying (attempt ${(item.attempts ?? 0) + 1})`
+                          : "Queued"}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Table import wizard */}
+          {importDocument && (
+            <DocumentTableWizard
+              key={importDocument._id}
+              documentId={importDocument._id}
+              fileName={importDocument.fileName}
+              extractedTables={importDocument.extractedTables}
+              sheets={sheetData}
+              onClose={() => setImportDocumentId(null)}
+            />
+          )}
+
           {/* Uploaded Documents */}
           {documents && documents.length > 0 && (
             <div className="px-4 py-2 border-t bg-gray-50">
@@ -821,15 +854,38 @@ export default function ResizableAISidebar({
                 Uploaded Documents ({documents.length})
               </div>
               <div className="flex flex-wrap gap-2">
-                {documents.map((doc: { _id: Id<"documents">; fileName: string }) => (
+                {documents.map((doc: UploadedDocument) => (
                   <div
                     key={doc._id}
-                    className="flex items-center gap-1 px-2 py-1 bg-white rounded border text-xs"
+                    className={`flex items-center gap-1 px-2 py-1 bg-white rounded border text-xs ${
+                      doc.processingStatus === "failed" ? "border-red-300" : ""
+                    }`}
                   >
-                    <FileText className="w-3 h-3 text-gray-500" />
-                    <span className="max-w-[120px] truncate" title={doc.fileName}>
+                    <FileText className={`w-3 h-3 ${doc.processingStatus === "failed" ? "text-red-500" : "text-gray-500"}`} />
+                    <span
+                      className="max-w-[120px] truncate"
+                      title={doc.processingStatus === "failed" ? `${doc.fileName}: ${doc.errorMessage ?? "Processing failed"}` : doc.fileName}
+                    >
                       {doc.fileName}
                     </span>
+                    {doc.processingStatus === "completed" && hasExtractedTables(doc.extractedTables) && (
+                      <button
+                        onClick={() => setImportDocumentId(doc._id)}
+                        className="text-gray-400 hover:text-blue-600"
+                        title="Import tables"
+                      >
+                        <Table2 className="w-3 h-3" />
+                      </button>
+                    )}
+                    {doc.processingStatus === "failed" && (
+                      <button
+                        onClick={() => handleRetryDocument(doc._id)}
+                        className="text-gray-400 hover:text-blue-600"
+                        title="Retry processing"
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                      </button>
+                    )}
                     <button
                       onClick={() => handleDeleteDocument(doc._id)}
                       className="text-gray-400 hover:text-red-600"
@@ -849,7 +905,7 @@ export default function ResizableAISidebar({
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".pdf,.docx"
+                accept={DOCUMENT_FILE_ACCEPT}
                 onChange={handleFileUpload}
                 className="hidden"
               />
@@ -858,7 +914,7 @@ export default function ResizableAISidebar({
                 size="sm"
                 onClick={() => fileInputRef.current?.click()}
                 disabled={isUploadingFile || !currentConversationId}
-                title="Upload PDF or DOCX"
+                title="Upload a document, spreadsheet or image"
               >
                 <Paperclip className={`w-4 h-4 ${isUploadingFile ? 'animate-spin' : ''}`} />
               </Button>
@@ -0,0 +1,252 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Bot, Copy, History, RotateCcw, User } from "lucide-react";
+import { toast } from "sonner";
+import { buildA1Range, extractRange2D } from "@/lib/utils";
+import { parseWorkbook } from "../../convex/lib/sheetCodec";
+
+interface Revision {
+  _id: Id<"sheetRevisions">;
+  baseVersion: number;
+  version: number;
+  authorName: string;
+  source: "user" | "ai";
+  summary: string;
+  label?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface RevisionHistoryPanelProps {
+  spreadsheetId: Id<"spreadsheets">;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Size of the preview grid
+const PREVIEW_ROWS = 50;
+const PREVIEW_COLS = 12;
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+// Last used row and column of a sheet, capped to the preview size
+function getPreviewBounds(sheet: any): { rows: number; cols: number } {
+  let rows = 0;
+  let cols = 0;
+  for (const [key, row] of Object.entries<any>(sheet?.rows || {})) {
+    const r = parseInt(key, 10);
+    if (isNaN(r)) continue;
+    for (const c of Object.keys(row?.cells || {}).map((k) => parseInt(k, 10))) {
+      if (isNaN(c)) continue;
+      rows = Math.max(rows, r + 1);
+      cols = Math.max(cols, c + 1);
+    }
+  }
+  return { rows: Math.min(rows, PREVIEW_ROWS), cols: Math.min(cols, PREVIEW_COLS) };
+}
+
+/**
+ * Version history of a spreadsheet. Each revision can be previewed,
+ * restored, or have one of its sheets copied into the current workbook.
+ */
+export default function RevisionHistoryPanel({
+  spreadsheetId,
+  open,
+  onOpenChange,
+}: RevisionHistoryPanelProps) {
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [previewSheetName, setPreviewSheetName] = useState<string>("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  const revisions: Revision[] | undefined = useQuery(
+    api.revisions.listRevisions,
+    open ? { spreadsheetId } : "skip"
+  );
+  const revisionData: string | undefined = useQuery(
+    api.revisions.getRevisionData,
+    open && selectedVersion !== null ? { spreadsheetId, version: selectedVersion } : "skip"
+  );
+  const restoreRevision = useMutation(api.revisions.restoreRevision);
+  const copySheetFromRevision = useMutation(api.revisions.copySheetFromRevision);
+
+  const previewSheets = useMemo(
+    () => (revisionData ? parseWorkbook(revisionData) : []),
+    [revisionData]
+  );
+
+  // Default the preview to the first sheet of the selected revision
+  useEffect(() => {
+    if (previewSheets.length === 0) return;
+    if (!previewSheets.some((sheet) => sheet.name === previewSheetName)) {
+      setPreviewSheetName(previewSheets[0].name);
+    }
+  }, [previewSheets, previewSheetName]);
+
+  const previewSheet = previewSheets.find((sheet) => sheet.name === previewSheetName);
+  const previewGrid = useMemo(() => {
+    if (!previewSheet) return [];
+    const { rows, cols } = getPreviewBounds(previewSheet);
+    if (rows === 0 || cols === 0) return [];
+    return extractRange2D(previewSheet, buildA1Range(0, 0, rows - 1, cols - 1), previewSheets);
+  }, [previewSheet, previewSheets]);
+
+  const handleRestore = async () => {
+    if (selectedVersion === null) return;
+    setIsWorking(true);
+    try {
+      await restoreRevision({ spreadsheetId, version: selectedVersion });
+      toast.success(`Restored version ${selectedVersion}`);
+      setSelectedVersion(null);
+    } catch (error) {
+      toast.error(`Failed to restore version: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCopySheet = async () => {
+    if (selectedVersion === null || !previewSheetName) return;
+    setIsWorking(true);
+    try {
+      const name = await copySheetFromRevision({
+        spreadsheetId,
+        version: selectedVersion,
+        sheetName: previewSheetName,
+      });
+      toast.success(`Copied "${previewSheetName}" as "${name}"`);
+    } catch (error) {
+      toast.error(`Failed to copy sheet: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-xl gap-2">
+        <SheetHeader className="pb-0">
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            Version history
+          </SheetTitle>
+          <SheetDescription>
+            Every save and AI change is recorded. Select a version to preview it.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="h-64 border-y">
+          {revisions === undefined ? (
+            <div className="p-4 text-sm text-muted-foreground">Loading history...</div>
+          ) : revisions.length === 0 ? (
+            <div className="p-4 text-sm text-muted-foreground">No changes recorded yet</div>
+          ) : (
+            <div className="divide-y">
+              {revisions.map((revision) => (
+                <button
+                  key={revision._id}
+                  type="button"
+                  onClick={() => setSelectedVersion(revision.version)}
+                  className={`w-full text-left px-4 py-2 hover:bg-gray-50 ${
+                    selectedVersion === revision.version ? "bg-blue-50" : ""
+                  }`}
+                >
+                  <div className="flex items-center gap-2 text-xs">
+                    {revision.source === "ai" ? (
+                      <Bot className="w-3 h-3 text-purple-600" />
+                    ) : (
+                      <User className="w-3 h-3 text-gray-500" />
+                    )}
+                    <span className="font-medium">{revision.authorName}</span>
+                    <span className="text-muted-foreground">{formatTimestamp(revision.updatedAt)}</span>
+                    <Badge variant="outline" className="ml-auto text-[10px] px-1 py-0">
+                      v{revision.version}
+                    </Badge>
+                  </div>
+                  {revision.label && <div className="text-xs font-medium mt-0.5">{revision.label}</div>}
+                  <div className="text-xs text-muted-foreground mt-0.5 line-clamp-2">{revision.summary}</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        {selectedVersion !== null && (
+          <div className="flex flex-col gap-2 px-4 pb-4 min-h-0 flex-1">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">Version {selectedVersion}</span>
+              {previewSheets.length > 0 && (
+                <Select value={previewSheetName} onValueChange={setPreviewSheetName}>
+                  <SelectTrigger className="h-7 w-36 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {previewSheets.map((sheet) => (
+                      <SelectItem key={sheet.name} value={sheet.name}>
+                        {sheet.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            <div className="border rounded overflow-auto flex-1 min-h-0">
+              {revisionData === undefined ? (
+                <div className="p-4 text-sm text-muted-foreground">Loading preview...</div>
+              ) : previewGrid.length === 0 ? (
+                <div className="p-4 text-sm text-muted-foreground">This sheet is empty</div>
+              ) : (
+                <table className="text-xs border-collapse">
+                  <tbody>
+                    {previewGrid.map((row, r) => (
+                      <tr key={r}>
+                        <td className="border bg-gray-50 px-1 text-muted-foreground text-right">{r + 1}</td>
+                        {row.map((value, c) => (
+                          <td key={c} className="border px-1 max-w-[120px] truncate">
+                            {String(value)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button size="sm" onClick={handleRestore} disabled={isWorking || revisionData === undefined}>
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Restore this version
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleCopySheet}
+                disabled={isWorking || !previewSheet}
+              >
+                <Copy className="w-3 h-3 mr-1" />
+                Copy sheet to workbook
+              </Button>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
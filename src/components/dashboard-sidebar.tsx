@@ -1,6 +1,7 @@
 "use client";
 import { UserButton } from "@clerk/nextjs";
 import {
+  BarChart3Icon,
   CreditCardIcon,
   InboxIcon,
   LayoutDashboardIcon,
@@ -54,6 +55,11 @@ const configurationItems = [
 ];
 
 const accountItems = [
+  {
+    title: "AI Usage",
+    url: "/dashboard/usage",
+    icon: BarChart3Icon,
+  },
   {
     title: "Plans & Billing",
     url: "/billing",
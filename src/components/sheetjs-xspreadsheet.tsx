@@ -10,7 +10,10 @@ import React, {
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
-import { buildA1Range } from "@/lib/utils";
+import { buildA1Range, parseA1Range } from "@/lib/utils";
+import { xSpreadsheetToXlsx, xlsxToXSpreadsheet } from "../../convex/lib/xlsx";
+import { createEmptySheet, readWorkbook } from "../../convex/lib/sheetCodec";
+import { applyOps, diffWorkbooks, rebaseOps } from "../../convex/lib/sheetOps";
 
 interface Props {
   spreadsheetId: Id<"spreadsheets">;
@@ -18,11 +21,23 @@ interface Props {
   refreshTrigger?: number;
   onSelectionChange?: (rangeA1: string) => void;
   onActiveSheetChange?: (sheetName: string, sheetIndex: number) => void;
+  // Called when unsaved local edits clash with newer changes from the server
+  onConflict?: (conflicts: string[]) => void;
+  // Selections of other editing sessions, drawn as colored cursors
+  remoteSelections?: RemoteSelection[];
+}
+
+export interface RemoteSelection {
+  sessionId: string;
+  name: string;
+  color: string;
+  sheetName?: string;
+  selection?: string;
 }
 
 export interface SheetRef {
   saveChanges: () => Promise<void>;
-  exportToExcel: () => void;
+  exportToExcel: (fileName?: string) => void;
   importFromExcel: (file: File) => Promise<void>;
   getData: () => any[];
   getActiveSheetIndex: () => number;
@@ -32,6 +47,12 @@ export interface SheetRef {
 const CDN_CSS = "https://unpkg.com/x-data-spreadsheet/dist/xspreadsheet.css";
 const CDN_JS = "https://unpkg.com/x-data-spreadsheet/dist/xspreadsheet.js";
 
+// Operations sent per mutation call (Convex arrays are limited to 8192 values)
+const OPS_PER_SAVE = 1000;
+
+// Local edits are sent this long after the last change so other sessions see them live
+const SYNC_DELAY_MS = 1000;
+
 export const SheetXSpreadsheetIframe = forwardRef<SheetRef, Props>(
   (
     {
@@ -40,18 +61,98 @@ export const SheetXSpreadsheetIframe = forwardRef<SheetRef, Props>(
       refreshTrigger,
       onSelectionChange,
       onActiveSheetChange,
+      onConflict,
+      remoteSelections,
     },
     ref,
   ) => {
     const iframeRef = useRef<HTMLIFrameElement | null>(null);
     const initDoneRef = useRef(false);
-    const updateSpreadsheetData = useMutation(
-      api.spreadsheets.updateSpreadsheetData,
+    // Last server snapshot the grid is based on; local edits are diffed against
+    // it. `sent` holds the grid as last committed until the server snapshot
+    // with that commit arrives, since other sessions' edits may be in it too.
+    const baseRef = useRef<{
+      version: number;
+      sheets: any[];
+      sent?: { version: number; sheets: any[] };
+    } | null>(null);
+    const applySpreadsheetOps = useMutation(
+      api.spreadsheets.applySpreadsheetOps,
     );
     const spreadsheetData = useQuery(api.spreadsheets.getSpreadsheetData, {
       spreadsheetId,
     });
 
+    // Live sync state. Handlers registered inside the iframe only touch refs,
+    // so they always call the latest sync and reconcile functions.
+    const spreadsheetDataRef = useRef(spreadsheetData);
+    spreadsheetDataRef.current = spreadsheetData;
+    const syncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const syncPromiseRef = useRef<Promise<void>>(Promise.resolve());
+    const syncingRef = useRef(false);
+    const syncRef = useRef<() => Promise<void>>(async () => {});
+    const reconcileRef = useRef<() => void>(() => {});
+    const remoteSelectionsRef = useRef<RemoteSelection[]>([]);
+    remoteSelectionsRef.current = remoteSelections || [];
+    const paintCursorsRef = useRef<() => void>(() => {});
+
+    // Queue a sync so syncs never overlap; a failed sync does not block the next one
+    const queueSync = (): Promise<void> => {
+      const next = syncPromiseRef.current
+        .catch(() => {})
+        .then(() => syncRef.current());
+      syncPromiseRef.current = next;
+      return next;
+    };
+
+    // Debounced sync of local edits, called from every grid change handler
+    const scheduleSync = () => {
+      if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+      syncTimerRef.current = setTimeout(() => {
+        syncTimerRef.current = null;
+        queueSync().catch((error) => {
+          console.warn("Failed to sync spreadsheet changes:", error);
+        });
+      }, SYNC_DELAY_MS);
+    };
+
+    // Send the local edits made since the last server snapshot
+    syncRef.current = async () => {
+      const win = iframeRef.current?.contentWindow as any;
+      if (!win || !win.__grid) return;
+      const base = baseRef.current;
+      // Edits made while the last commit is on its way are sent once its snapshot arrives
+      if (!base || base.sent) return;
+      const data = win.__grid.getData();
+
+      // Send only what changed since the last server snapshot. Every batch is
+      // based on the same version so the server rebases it over concurrent edits.
+      const ops = diffWorkbooks(base.sheets, data);
+      if (ops.length > 0) {
+        syncingRef.current = true;
+        try {
+          let version = base.version;
+          for (let i = 0; i < ops.length; i += OPS_PER_SAVE) {
+            const result = await applySpreadsheetOps({
+              spreadsheetId,
+              baseVersion: base.version,
+              ops: ops.slice(i, i + OPS_PER_SAVE),
+            });
+            if (!result.success) {
+              throw new Error(`your edits conflict with newer changes (${result.conflicts.join("; ")})`);
+            }
+            version = result.version;
+          }
+          baseRef.current = { ...base, sent: { version, sheets: data } };
+        } finally {
+          syncingRef.current = false;
+          // Pick up server snapshots that arrived while the sync was in flight
+          reconcileRef.current();
+        }
+      }
+      if (onDataChange) onDataChange(data, true);
+    };
+
     // Create paste handler function
     const handlePaste = async (event: ClipboardEvent) => {
       try {
@@ -225,6 +326,7 @@ export const SheetXSpreadsheetIframe = forwardRef<SheetRef, Props>(
         if (onDataChange) {
           onDataChange(updatedData, false);
         }
+        scheduleSync();
       } catch (error) {
         console.error('Error handling paste:', error);
       }
@@ -273,17 +375,7 @@ export const SheetXSpreadsheetIframe = forwardRef<SheetRef, Props>(
             return;
           }
 
-          const initialData = [
-            {
-              name: "Sheet1",
-              freeze: "A1",
-              styles: [],
-              merges: [],
-              cols: { len: 26 },
-              rows: { len: 100 },
-              cells: {},
-            },
-          ];
+          const initialData = [createEmptySheet("Sheet1")];
 
           const grid = x_spreadsheet(root); // documented init
           win.__grid = grid;
@@ -331,6 +423,7 @@ export const SheetXSpreadsheetIframe = forwardRef<SheetRef, Props>(
             try {
               const d = grid.getData();
               if (onDataChange) onDataChange(d, false);
+              scheduleSync();
               console.log("Data change detected, triggering save");
             } catch (e) {
               console.error("Error handling data change:", e);
@@ -348,6 +441,7 @@ export const SheetXSpreadsheetIframe = forwardRef<SheetRef, Props>(
               if (previousDataString !== currentDataString) {
                 console.log("Data change detected via periodic check");
                 if (onDataChange) onDataChange(currentData, false);
+                scheduleSync();
                 previousData = currentData;
               }
             } catch (e) {
@@ -381,6 +475,7 @@ export const SheetXSpreadsheetIframe = forwardRef<SheetRef, Props>(
           grid.on && grid.on("sheet-switched", handleAnyDataChange);
           grid.on && grid.on("data-changed", handleAnyDataChange);
           grid.on && grid.on("content-changed", handleAnyDataChange);
+          grid.change(handleAnyDataChange);
 
           // selection change -> notify parent with A1 range
           const notifySelection = (...args: any[]) => {
@@ -472,6 +567,15 @@ export const SheetXSpreadsheetIframe = forwardRef<SheetRef, Props>(
           setTimeout(notifyActiveSheetChange, 100);
           setTimeout(notifyActiveSheetChange, 500); // Second attempt after full load
 
+          // Remote cursors are positioned in grid coordinates, so repaint them
+          // whenever the grid may have scrolled or changed layout
+          const repaintCursors = () => {
+            win.requestAnimationFrame(() => paintCursorsRef.current());
+          };
+          ["wheel", "mouseup", "keyup", "scroll"].forEach((type) => {
+            idoc.addEventListener(type, repaintCursors, true);
+          });
+
           // Add paste event listener to the iframe document with capture phase to intercept before x-spreadsheet
           // Use capture: true to ensure our handler runs before x-spreadsheet's handler
           idoc.addEventListener('paste', handlePaste, true);
@@ -489,6 +593,7 @@ export const SheetXSpreadsheetIframe = forwardRef<SheetRef, Props>(
                 String(root.clientHeight || iframe.clientHeight),
               );
               grid.resize(root.clientWidth, root.clientHeight);
+              paintCursorsRef.current();
             } catch (e) {}
           });
           ro.observe(iframe);
@@ -496,6 +601,7 @@ export const SheetXSpreadsheetIframe = forwardRef<SheetRef, Props>(
           // cleanup on unmount
           (iframe as any).__sheet_ro = ro;
           initDoneRef.current = true;
+          reconcileRef.current();
         } catch (err) {
           console.error("Error initializing spreadsheet in iframe:", err);
         }
@@ -529,49 +635,139 @@ export const SheetXSpreadsheetIframe = forwardRef<SheetRef, Props>(
       };
     }, [iframeRef.current]);
 
-    // load saved data into iframe grid once ready
+    // Draw the selections of other sessions over the active sheet
+    paintCursorsRef.current = () => {
+      const doc = iframeRef.current?.contentDocument;
+      const win = iframeRef.current?.contentWindow as any;
+      const data = win?.__grid?.sheet?.data;
+      if (!doc || !data) return;
+      const container = doc.querySelector(".x-spreadsheet-overlayer-content");
+      if (!container) return;
+
+      let layer = doc.getElementById("remoteCursors");
+      if (!layer) {
+        layer = doc.createElement("div");
+        layer.id = "remoteCursors";
+        layer.style.cssText =
+          "position:absolute;inset:0;pointer-events:none;overflow:hidden;z-index:5";
+        container.appendChild(layer);
+      }
+      layer.innerHTML = "";
+
+      for (const remote of remoteSelectionsRef.current) {
+        if (!remote.selection || remote.sheetName !== data.name) continue;
+        try {
+          const { r1, c1, r2, c2 } = parseA1Range(remote.selection);
+          const rect = data.getRect({ sri: r1, sci: c1, eri: r2, eci: c2 });
+          if (rect.width === undefined) continue;
+
+          const box = doc.createElement("div");
+          box.style.cssText = `position:absolute;left:${rect.left}px;top:${rect.top}px;width:${rect.width}px;height:${rect.height}px;border:2px solid ${remote.color};background:${remote.color}1a;box-sizing:border-box`;
+          const label = doc.createElement("div");
+          label.textContent = remote.name;
+          // Show the name above the cursor, or below it in the first row
+          label.style.cssText = `position:absolute;left:-2px;${rect.top < 16 ? "top:100%" : "bottom:100%"};background:${remote.color};color:#fff;font:11px/16px sans-serif;padding:0 4px;white-space:nowrap;border-radius:2px`;
+          box.appendChild(label);
+          layer.appendChild(box);
+        } catch {
+          // Skip selections that do not parse as A1 ranges
+        }
+      }
+    };
+
     useEffect(() => {
-      if (!initDoneRef.current) return;
+      paintCursorsRef.current();
+    }, [remoteSelections]);
+
+    reconcileRef.current = () => {
+      if (!initDoneRef.current || syncingRef.current) return;
       const win = iframeRef.current?.contentWindow as any;
       if (!win || !win.__grid) return;
-      try {
-        let dataString = (spreadsheetData as any)?.data;
-        if (!dataString && (spreadsheetData as any)?.xSpreadsheetData) {
-          dataString = (spreadsheetData as any).xSpreadsheetData;
-        } else if (!dataString && (spreadsheetData as any)?.workbookData) {
-          dataString = (spreadsheetData as any).workbookData;
-        }
-        console.log("SheetJS Component - Loading data for spreadsheet:", spreadsheetId);
-        console.log("SheetJS Component - Data string length:", dataString?.length);
-        console.log("SheetJS Component - Data preview:", dataString?.substring(0, 200));
-        if (dataString && dataString !== "undefined") {
-          const parsed = JSON.parse(dataString);
-          console.log("SheetJS Component - Parsed data:", parsed);
-          console.log("SheetJS Component - Number of sheets:", parsed?.length);
-          console.log("SheetJS Component - First sheet name:", parsed?.[0]?.name);
-          console.log("SheetJS Component - First sheet rows:", parsed?.[0]?.rows);
-          win.__grid.loadData(parsed);
-          // ensure correct layout after loading
-          setTimeout(() => {
-            try {
-              const root =
-                iframeRef.current!.contentDocument!.getElementById(
-                  "sheetRoot",
-                )!;
-              win.__grid.resize(root.clientWidth, root.clientHeight);
-            } catch (e) {}
-          }, 80);
-        } else {
-          console.log("SheetJS Component - No data to load or data is undefined");
+      const data = spreadsheetDataRef.current;
+      if (!data) {
+        console.log("SheetJS Component - No data to load or data is undefined");
+        return;
+      }
+
+      // Legacy fields and flat `cells` maps are migrated by the codec
+      const serverSheets = readWorkbook(data);
+      const serverVersion = data.version ?? 0;
+      const base = baseRef.current;
+      if (base && (base.sent?.version ?? base.version) > serverVersion) return; // stale snapshot
+      const current = win.__grid.getData();
+      console.log("SheetJS Component - Loading data for spreadsheet:", spreadsheetId, "version:", serverVersion);
+
+      // Keep unsaved local edits: rebase them onto the server snapshot, which
+      // may hold other sessions' edits even when the version matches our commit
+      const localSheets = base?.sent?.sheets ?? base?.sheets;
+      const localOps = localSheets ? diffWorkbooks(localSheets, current) : [];
+      let nextSheets = serverSheets;
+      let pendingOps = localOps;
+      if (localSheets && localOps.length > 0) {
+        const { ops, conflicts } = rebaseOps(localOps, diffWorkbooks(localSheets, serverSheets));
+        pendingOps = ops;
+        try {
+          nextSheets = applyOps(serverSheets, ops);
+        } catch (e) {
+          console.warn("Could not reapply local edits on top of server changes", e);
         }
+        if (conflicts.length > 0 && onConflict) onConflict(conflicts);
+      }
+      baseRef.current = { version: serverVersion, sheets: serverSheets };
+      if (pendingOps.length > 0) scheduleSync();
+
+      if (nextSheets.length === 0 || diffWorkbooks(current, nextSheets).length === 0) {
+        return;
+      }
+
+      console.log("SheetJS Component - Number of sheets:", nextSheets.length);
+      const grid = win.__grid;
+      const sameSheets =
+        Array.isArray(grid.datas) &&
+        grid.datas.length === nextSheets.length &&
+        grid.datas.every((d: any, i: number) => d.name === nextSheets[i].name);
+
+      if (sameSheets && grid.sheet) {
+        // Update the sheets in place so the active sheet, scroll position and
+        // selection stay put while remote edits stream in
+        grid.datas.forEach((d: any, i: number) => {
+          if (d === grid.sheet.data) {
+            grid.sheet.loadData(nextSheets[i]);
+          } else {
+            d.setData(nextSheets[i]);
+          }
+        });
+        grid.reRender();
+      } else {
+        grid.loadData(nextSheets);
+      }
+      paintCursorsRef.current();
+
+      // ensure correct layout after loading
+      setTimeout(() => {
+        try {
+          const root =
+            iframeRef.current!.contentDocument!.getElementById(
+              "sheetRoot",
+            )!;
+          grid.resize(root.clientWidth, root.clientHeight);
+        } catch (e) {}
+      }, 80);
+    };
+
+    // load saved data into iframe grid once ready, and whenever it changes on the server
+    useEffect(() => {
+      try {
+        reconcileRef.current();
       } catch (e) {
         console.warn("Failed to parse/load spreadsheet data into iframe", e);
       }
     }, [spreadsheetData, refreshTrigger, initDoneRef.current, spreadsheetId]);
 
-    // Cleanup interval on unmount
+    // Cleanup interval and pending sync on unmount
     useEffect(() => {
       return () => {
+        if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
         const win = iframeRef.current?.contentWindow as any;
         if (win && win.__grid && (win.__grid as any).__intervalId) {
           clearInterval((win.__grid as any).__intervalId);
@@ -584,24 +780,25 @@ export const SheetXSpreadsheetIframe = forwardRef<SheetRef, Props>(
       ref,
       () => ({
         saveChanges: async () => {
-          const win = iframeRef.current?.contentWindow as any;
-          if (!win || !win.__grid) return;
-          const data = win.__grid.getData();
-          const dataString = JSON.stringify(data);
-          await updateSpreadsheetData({ spreadsheetId, data: dataString });
-          if (onDataChange) onDataChange(data, true);
+          // Flush right away instead of waiting for the debounced sync
+          if (syncTimerRef.current) {
+            clearTimeout(syncTimerRef.current);
+            syncTimerRef.current = null;
+          }
+          await queueSync();
         },
-        exportToExcel: () => {
+        exportToExcel: (fileName?: string) => {
           const win = iframeRef.current?.contentWindow as any;
           if (!win || !win.__grid) return;
           const data = win.__grid.getData();
-          const blob = new Blob([JSON.stringify(data)], {
-            type: "application/json",
+          const bytes = xSpreadsheetToXlsx(Array.isArray(data) ? data : [data]);
+          const blob = new Blob([bytes as BlobPart], {
+            type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
           });
           const url = URL.createObjectURL(blob);
           const a = document.createElement("a");
           a.href = url;
-          a.download = "spreadsheet.json";
+          a.download = `${fileName || "spreadsheet"}.xlsx`;
           a.click();
           URL.revokeObjectURL(url);
         },
@@ -622,6 +819,38 @@ export const SheetXSpreadsheetIframe = forwardRef<SheetRef, Props>(
           for (const file of fileArray) {
             try {
               console.log('Processing file:', file.name);
+
+              // Workbook files keep all their sheets, styles, merges and formulas
+              if (/\.(xlsx|xlsm|xls|ods)$/i.test(file.name)) {
+                const importedSheets = xlsxToXSpreadsheet(await file.arrayBuffer());
+                const existingNames = new Set(
+                  currentData.map((sheet: { name: string }) => sheet.name?.toLowerCase())
+                );
+
+                // Rename sheets that clash with existing ones
+                for (const sheet of importedSheets) {
+                  let name = sheet.name;
+                  let suffix = 2;
+                  while (existingNames.has(name.toLowerCase())) {
+                    name = `${sheet.name} (${suffix++})`;
+                  }
+                  existingNames.add(name.toLowerCase());
+                  sheet.name = name;
+                }
+
+                currentData = [...currentData, ...importedSheets];
+                win.__grid.loadData(currentData);
+
+                console.log('Imported workbook:', {
+                  file: file.name,
+                  sheets: importedSheets.map((sheet) => sheet.name),
+                });
+
+                if (onDataChange) {
+                  onDataChange(currentData, false);
+                }
+                continue;
+              }
               
               // Read and parse the file
               const text = await file.text();
@@ -724,8 +953,9 @@ export const SheetXSpreadsheetIframe = forwardRef<SheetRef, Props>(
               
               // Final data change event
               if (onDataChange) {
-                onDataChange(currentData, true);
+                onDataChange(currentData, false);
               }
+              scheduleSync();
             } catch (error) {
               console.error('Error finalizing sheet update:', error);
             }
@@ -782,7 +1012,7 @@ export const SheetXSpreadsheetIframe = forwardRef<SheetRef, Props>(
           return null;
         },
       }),
-      [updateSpreadsheetData, spreadsheetId],
+      [applySpreadsheetOps, spreadsheetId],
     );
 
     return (
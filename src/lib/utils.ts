@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { computedValueToText, evaluateSheet, getComputedValue } from "../../convex/lib/formulas"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -58,69 +59,23 @@ export function buildA1Range(r1: number, c1: number, r2: number, c2: number): st
   return `${start}:${end}`;
 }
 
-// Convert x-spreadsheet sheet.cells to 2D array over range
-export function extractRange2D(sheet: any, range: string): Array<Array<string | number>> {
+// Convert x-spreadsheet sheet.cells to 2D array over range, using computed
+// formula values. Pass the whole workbook to resolve cross-sheet references.
+export function extractRange2D(
+  sheet: any,
+  range: string,
+  workbook?: any[]
+): Array<Array<string | number>> {
   const { r1, c1, r2, c2 } = parseA1Range(range);
+  const computed = evaluateSheet(sheet, workbook);
   const rows: Array<Array<string | number>> = [];
-  const useCellsFlat = !!sheet?.cells;
-  
+
   for (let r = r1; r <= r2; r++) {
     const row: Array<string | number> = [];
     for (let c = c1; c <= c2; c++) {
-      let cellValue: any = "";
-      let cellText: any = "";
-      
-      if (useCellsFlat) {
-        const cell = sheet?.cells?.[`${r}_${c}`];
-        cellValue = cell?.value ?? cell?.text ?? "";
-        cellText = cell?.text ?? "";
-      } else {
-        // rows based structure: sheet.rows[r]?.cells[c]?.text
-        const rObj = sheet?.rows?.[r] || sheet?.rows?.[String(r)];
-        const cObj = rObj?.cells?.[c] || rObj?.cells?.[String(c)];
-        cellValue = cObj?.value ?? cObj?.text ?? "";
-        cellText = cObj?.text ?? "";
-      }
-      
-      // Try to get the evaluated value first, fallback to text
-      let finalValue = cellValue;
-      
-      // If it's a formula (starts with =), try to evaluate it
-      if (typeof cellText === "string" && cellText.startsWith("=")) {
-        // For SUM formulas, calculate manually
-        if (cellText.includes("SUM(")) {
-          const sumMatch = cellText.match(/SUM\(([^)]+)\)/);
-          if (sumMatch) {
-            const rangeStr = sumMatch[1];
-            const [start, end] = rangeStr.split(":");
-            if (start && end) {
-              const startPos = a1ToRowCol(start);
-              const endPos = a1ToRowCol(end);
-              let sum = 0;
-              
-              for (let sr = startPos.row; sr <= endPos.row; sr++) {
-                for (let sc = startPos.col; sc <= endPos.col; sc++) {
-                  let cellVal: any = "";
-                  if (useCellsFlat) {
-                    const cell = sheet?.cells?.[`${sr}_${sc}`];
-                    cellVal = cell?.value ?? cell?.text ?? "";
-                  } else {
-                    const rObj = sheet?.rows?.[sr] || sheet?.rows?.[String(sr)];
-                    const cObj = rObj?.cells?.[sc] || rObj?.cells?.[String(sc)];
-                    cellVal = cObj?.value ?? cObj?.text ?? "";
-                  }
-                  const num = Number(cellVal);
-                  if (!isNaN(num)) {
-                    sum += num;
-                  }
-                }
-              }
-              finalValue = sum;
-            }
-          }
-        }
-      }
-      
+      const value = getComputedValue(computed, r, c);
+      const finalValue = typeof value === "boolean" ? computedValueToText(value) : value;
+
       // Convert to number if possible
       const num = Number(finalValue);
       row.push(!isNaN(num) && finalValue !== "" ? num : finalValue);